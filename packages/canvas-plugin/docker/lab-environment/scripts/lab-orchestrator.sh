@@ -29,37 +29,122 @@ else
     echo "[orchestrator] No setup script found at ${SETUP_SCRIPT}"
 fi
 
-# 2. Start all check scripts in background polling loops
+# 2. Start all check scripts (and composite probes) in background polling loops
+start_check() {
+    local check="$1"
+    local check_name
+    check_name=$(basename "${check}")
+    if [ -n "${LAB_CONTINUOUS_CHECKS:-}" ]; then
+        start_continuous_check "${check}"
+        return
+    fi
+    echo "[orchestrator] Starting check: ${check_name}"
+    (
+        set +e  # Disable exit-on-error for this subshell (checks return non-zero until pass)
+        while true; do
+            # Run check silently, capture output for logging on success
+            output=$(bash "${check}" 2>&1)
+            exit_code=$?
+            if [ $exit_code -eq 0 ]; then
+                # Check passed - log result and exit
+                echo "[check:${check_name}] PASSED: ${output}" >> "${CHECKS_LOG}"
+                /usr/local/bin/log-check-result.sh "${check_name}" "passed" "${output}"
+                exit 0
+            fi
+            sleep 2
+        done
+    ) &
+}
+
+# Continuous verification (module.yaml `continuous_verification: true`): checks keep
+# running after they pass, and a check that stops passing is logged as regressed so
+# the host un-completes its step. Passing again completes it again
+start_continuous_check() {
+    local check="$1"
+    local check_name
+    check_name=$(basename "${check}")
+    echo "[orchestrator] Starting continuous check: ${check_name}"
+    (
+        set +e
+        passing=""
+        while true; do
+            output=$(bash "${check}" 2>&1)
+            if [ $? -eq 0 ]; then
+                if [ -z "${passing}" ]; then
+                    echo "[check:${check_name}] PASSED: ${output}" >> "${CHECKS_LOG}"
+                    /usr/local/bin/log-check-result.sh "${check_name}" "passed" "${output}"
+                    passing=1
+                fi
+            elif [ -n "${passing}" ]; then
+                /usr/local/bin/log-check-result.sh "${check_name}" "regressed" "${output}"
+                passing=""
+            fi
+            sleep 2
+        done
+    ) &
+}
+
+# Probes back the outcome leaves of composite validations. Unlike checks they
+# never stop: every status change (passed <-> failed) is logged so the host can
+# evaluate all/any/not/sequence over the current state
+start_probe() {
+    local probe="$1"
+    local probe_name
+    probe_name=$(basename "${probe}")
+    echo "[orchestrator] Starting probe: ${probe_name}"
+    (
+        set +e
+        last_status=""
+        while true; do
+            output=$(bash "${probe}" 2>&1)
+            if [ $? -eq 0 ]; then status="passed"; else status="failed"; fi
+            if [ "${status}" != "${last_status}" ]; then
+                /usr/local/bin/log-check-result.sh "${probe_name}" "${status}" "${output}"
+                last_status="${status}"
+            fi
+            sleep 2
+        done
+    ) &
+}
+
 CHECK_DIR="${MODULE_DIR}/checks"
 if [ -d "${CHECK_DIR}" ]; then
     echo "[orchestrator] Starting check scripts from ${CHECK_DIR}"
     for check in "${CHECK_DIR}"/check-*.sh; do
         if [ -f "${check}" ]; then
-            check_name=$(basename "${check}")
-            echo "[orchestrator] Starting check: ${check_name}"
-            (
-                set +e  # Disable exit-on-error for this subshell (checks return non-zero until pass)
-                while true; do
-                    # Run check silently, capture output for logging on success
-                    output=$(bash "${check}" 2>&1)
-                    exit_code=$?
-                    if [ $exit_code -eq 0 ]; then
-                        # Check passed - log result and exit
-                        echo "[check:${check_name}] PASSED: ${output}" >> "${CHECKS_LOG}"
-                        /usr/local/bin/log-check-result.sh "${check_name}" "passed" "${output}"
-                        exit 0
-                    fi
-                    sleep 2
-                done
-            ) &
+            start_check "${check}"
         fi
     done
 else
     echo "[orchestrator] No check directory found at ${CHECK_DIR}"
 fi
 
+# Declarative checks from module.yaml, compiled by the host into the mounted log dir.
+# Steps the tutor adds during the session drop more scripts here later, so the
+# directory keeps being rescanned and each new script is started once
+GENERATED_CHECK_DIR="${LOG_DIR}/generated-checks"
+declare -A STARTED_GENERATED=()
+start_generated_checks() {
+    [ -d "${GENERATED_CHECK_DIR}" ] || return 0
+    for script in "${GENERATED_CHECK_DIR}"/check-*.sh "${GENERATED_CHECK_DIR}"/probe-*.sh; do
+        if [ -f "${script}" ] && [ -z "${STARTED_GENERATED[${script}]:-}" ]; then
+            STARTED_GENERATED["${script}"]=1
+            case "$(basename "${script}")" in
+                probe-*) start_probe "${script}" ;;
+                *) start_check "${script}" ;;
+            esac
+        fi
+    done
+}
+
+echo "[orchestrator] Starting generated checks from ${GENERATED_CHECK_DIR}"
+start_generated_checks
+
 echo "[orchestrator] Lab environment ready"
 
-# 3. Wait for all background processes (keeps orchestrator alive)
+# 3. Pick up checks for added steps (keeps orchestrator alive)
 # This runs in background, so container stays alive via bash shell
-wait
+while true; do
+    sleep 2
+    start_generated_checks
+done
@@ -0,0 +1,12 @@
+#!/bin/bash
+# Interactive lab shell: the student's login shell, recorded with script(1)
+# log-commands.sh slices each command's output from the session typescript
+
+TYPESCRIPT="/var/log/lab-commands/terminal.typescript"
+
+if command -v script >/dev/null 2>&1; then
+    # Append so offsets stay valid when the terminal is re-attached
+    exec script -q -f -a -c "su - student" "${TYPESCRIPT}"
+fi
+
+exec su - student
@@ -0,0 +1,53 @@
+#!/bin/bash
+# Splunk lab wrapper: submits a search to queries.log and prints the results
+# The lab monitor on the host runs the search and answers in spl-results/<id>.out (or .err)
+# Usage: lab-spl "<search>"   or   lab-spl < search.spl
+
+LOG_DIR="/var/log/lab-commands"
+LOG_FILE="${LOG_DIR}/queries.log"
+RESULTS_DIR="${LOG_DIR}/spl-results"
+TIMEOUT="${LAB_SPL_TIMEOUT:-15}"
+
+if [ $# -gt 0 ]; then
+    QUERY="$*"
+else
+    QUERY=$(cat)
+fi
+
+if [ -z "${QUERY//[[:space:]]/}" ]; then
+    echo "Usage: lab-spl \"index=... | stats count\"" >&2
+    exit 2
+fi
+
+# Escape special JSON characters (same rules as log-check-result.sh)
+escape_json() {
+    local str="$1"
+    str="${str//\\/\\\\}"  # Escape backslashes first
+    str="${str//\"/\\\"}"  # Escape double quotes
+    str="${str//$'\n'/\\n}" # Escape newlines
+    str="${str//$'\r'/\\r}" # Escape carriage returns
+    str="${str//$'\t'/\\t}" # Escape tabs
+    echo "$str"
+}
+
+# Submit the search; the id tells the monitor where to write its answer
+ID="$(date +%s%N)-$$"
+TIMESTAMP=$(date -u +"%Y-%m-%dT%H:%M:%S.%3NZ")
+echo "{\"timestamp\":\"${TIMESTAMP}\",\"id\":\"${ID}\",\"user\":\"$(whoami)\",\"query\":\"$(escape_json "$QUERY")\"}" >> "${LOG_FILE}"
+
+# Wait for the monitor's answer
+DEADLINE=$(( $(date +%s) + TIMEOUT ))
+while [ "$(date +%s)" -lt "${DEADLINE}" ]; do
+    if [ -f "${RESULTS_DIR}/${ID}.out" ]; then
+        cat "${RESULTS_DIR}/${ID}.out"
+        exit 0
+    fi
+    if [ -f "${RESULTS_DIR}/${ID}.err" ]; then
+        cat "${RESULTS_DIR}/${ID}.err" >&2
+        exit 1
+    fi
+    sleep 0.1
+done
+
+echo "The search was submitted, but the lab monitor did not answer within ${TIMEOUT}s" >&2
+exit 1
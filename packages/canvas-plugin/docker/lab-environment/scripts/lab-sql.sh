@@ -0,0 +1,46 @@
+#!/bin/bash
+# SQL lab wrapper: runs a query against the lab database and logs it to sql-queries.log
+# Usage: lab-sql "<query>"   or   lab-sql < file.sql
+
+LOG_DIR="/var/log/lab-commands"
+LOG_FILE="${LOG_DIR}/sql-queries.log"
+DB="${LAB_SQL_DB:-${LOG_DIR}/lab.db}"
+
+if [ $# -gt 0 ]; then
+    QUERY="$*"
+else
+    QUERY=$(cat)
+fi
+
+if [ -z "${QUERY//[[:space:]]/}" ]; then
+    echo "Usage: lab-sql \"SELECT ...\"" >&2
+    exit 2
+fi
+
+# Escape special JSON characters (same rules as log-check-result.sh)
+escape_json() {
+    local str="$1"
+    str="${str//\\/\\\\}"  # Escape backslashes first
+    str="${str//\"/\\\"}"  # Escape double quotes
+    str="${str//$'\n'/\\n}" # Escape newlines
+    str="${str//$'\r'/\\r}" # Escape carriage returns
+    str="${str//$'\t'/\\t}" # Escape tabs
+    echo "$str"
+}
+
+# Run the query, showing results to the student and capturing errors for the log
+ERR_FILE=$(mktemp)
+sqlite3 -bail -header -column "${DB}" "${QUERY}" 2> "${ERR_FILE}"
+EXIT_CODE=$?
+ERROR=$(cat "${ERR_FILE}")
+rm -f "${ERR_FILE}"
+[ -n "${ERROR}" ] && echo "${ERROR}" >&2
+
+TIMESTAMP=$(date -u +"%Y-%m-%dT%H:%M:%S.%3NZ")
+ENTRY="{\"timestamp\":\"${TIMESTAMP}\",\"user\":\"$(whoami)\",\"query\":\"$(escape_json "$QUERY")\",\"exit_code\":${EXIT_CODE}"
+if [ -n "${ERROR}" ]; then
+    ENTRY="${ENTRY},\"error\":\"$(escape_json "$ERROR")\""
+fi
+echo "${ENTRY}}" >> "${LOG_FILE}"
+
+exit ${EXIT_CODE}
@@ -6,12 +6,69 @@
 LOG_DIR="/var/log/lab-commands"
 LOG_FILE="${LOG_DIR}/commands.log"
 
+# Session typescript written by lab-shell (script -f); command output is sliced from it
+LAB_TYPESCRIPT="${LAB_TYPESCRIPT:-${LOG_DIR}/terminal.typescript}"
+
+# Keep at most this many bytes of each command's output (the tail, where errors are)
+LAB_OUTPUT_LIMIT="${LAB_OUTPUT_LIMIT:-4096}"
+
 # Ensure log directory exists
 mkdir -p "${LOG_DIR}"
 
+# Escape stdin as the body of a JSON string
+# Strips terminal escape sequences and control characters, joins lines with \n
+_lab_json_escape() {
+    LC_ALL=C sed 's/\\/\\\\/g' | LC_ALL=C awk 'BEGIN { ORS = "" }
+    {
+        gsub(/\033\[[0-9;?]*[ -\/]*[@-~]/, "")
+        gsub(/\033\][^\007]*\007/, "")
+        gsub(/"/, "\\\"")
+        gsub(/\t/, "\\t")
+        gsub(/[\001-\010\013-\037\177]/, "")
+        if (NR > 1) print "\\n"
+        print
+    }'
+}
+
+# Current size of the session typescript (empty if there is none)
+_lab_typescript_size() {
+    if [ -f "${LAB_TYPESCRIPT}" ]; then
+        stat -c %s "${LAB_TYPESCRIPT}" 2>/dev/null
+    fi
+}
+
+# Size of the typescript once script(1) has caught up with the terminal
+# The command's last output may still be in flight when the prompt comes back
+_lab_settled_typescript_size() {
+    local size=$(_lab_typescript_size)
+    local previous=""
+    local tries=0
+    while [ -n "$size" ] && [ "$size" != "$previous" ] && [ "$tries" -lt 10 ]; do
+        previous="$size"
+        sleep 0.02
+        size=$(_lab_typescript_size)
+        tries=$((tries + 1))
+    done
+    echo "$size"
+}
+
+# Milliseconds since the epoch
+_lab_now_ms() {
+    local now="${EPOCHREALTIME//[!0-9]/}"
+    if [ -n "$now" ]; then
+        echo $((now / 1000))
+    else
+        date +%s%3N
+    fi
+}
+
 # Function to log commands as JSON
+# Usage: log_command <command> [exit_code] [duration_ms] [output_start_offset]
 log_command() {
     local cmd="$1"
+    local exit_code="$2"
+    local duration_ms="$3"
+    local output_start="$4"
 
     # Skip empty commands
     if [ -z "$cmd" ]; then
@@ -33,22 +90,90 @@ log_command() {
     local pwd=$(pwd)
 
     # Escape special characters for JSON
-    cmd=$(echo "$cmd" | sed 's/\\/\\\\/g' | sed 's/"/\\"/g' | sed 's/\t/\\t/g')
-    pwd=$(echo "$pwd" | sed 's/\\/\\\\/g' | sed 's/"/\\"/g')
+    cmd=$(printf '%s' "$cmd" | _lab_json_escape)
+    pwd=$(printf '%s' "$pwd" | _lab_json_escape)
+
+    local extra=""
+    if [ -n "$exit_code" ]; then
+        extra="${extra},\"exitCode\":${exit_code}"
+    fi
+    if [ -n "$duration_ms" ]; then
+        extra="${extra},\"durationMs\":${duration_ms}"
+    fi
+
+    # Output written to the terminal since the command started
+    # (full-screen programs only paint the screen, so their output is not kept)
+    local output_end=$(_lab_settled_typescript_size)
+    if [ -n "$output_start" ] && [ -n "$output_end" ] && [ "$output_end" -ge "$output_start" ]; then
+        case "${1%% *}" in
+            vi|vim|nano|less|more|man|top|htop|watch|tmux|screen) ;;
+            *)
+                local size=$((output_end - output_start))
+                local truncated=false
+                if [ "$size" -gt "$LAB_OUTPUT_LIMIT" ]; then
+                    size="$LAB_OUTPUT_LIMIT"
+                    truncated=true
+                fi
+                local output=""
+                if [ "$size" -gt 0 ]; then
+                    output=$(tail -c "$size" "${LAB_TYPESCRIPT}" | _lab_json_escape)
+                fi
+                extra="${extra},\"output\":\"${output}\",\"outputTruncated\":${truncated}"
+                ;;
+        esac
+    fi
 
     # Write JSON log entry
-    echo "{\"timestamp\":\"${timestamp}\",\"user\":\"${user}\",\"pwd\":\"${pwd}\",\"command\":\"${cmd}\"}" >> "${LOG_FILE}"
+    echo "{\"timestamp\":\"${timestamp}\",\"user\":\"${user}\",\"pwd\":\"${pwd}\",\"command\":\"${cmd}\"${extra}}" >> "${LOG_FILE}"
+}
+
+# Record when the command typed at the prompt starts (DEBUG trap)
+# Only the first simple command after the prompt counts, so pipelines and
+# lists are timed as a whole
+_lab_preexec() {
+    if [ -z "$_lab_preexec_armed" ] || [ -n "$COMP_LINE" ]; then
+        return
+    fi
+
+    case "$BASH_COMMAND" in
+        _log_last_command*|_lab_arm_preexec*) return ;;
+    esac
+
+    _lab_preexec_armed=""
+    _lab_cmd_start_ms=$(_lab_now_ms)
+    _lab_cmd_output_start=$(_lab_typescript_size)
+}
+
+# Last step of PROMPT_COMMAND: the next command the student runs is timed
+_lab_arm_preexec() {
+    _lab_preexec_armed=1
 }
 
 # Set up PROMPT_COMMAND to log the last command
 # This function is called before each prompt is displayed
 _log_last_command() {
+    # Must be first: the exit status of the student's command
+    local exit_code=$?
+    _lab_preexec_armed=""
+
+    # Nothing ran since the last prompt (empty line, Ctrl-C at the prompt)
+    if [ -z "$_lab_cmd_start_ms" ]; then
+        return
+    fi
+
+    local duration_ms=$(( $(_lab_now_ms) - _lab_cmd_start_ms ))
+    local output_start="$_lab_cmd_output_start"
+    _lab_cmd_start_ms=""
+    _lab_cmd_output_start=""
+
     # Get the last command from history
     local last_cmd=$(history 1 | sed 's/^[ ]*[0-9]*[ ]*//')
-    log_command "$last_cmd"
+    log_command "$last_cmd" "$exit_code" "$duration_ms" "$output_start"
 }
 
+trap '_lab_preexec' DEBUG
+
 # Only set PROMPT_COMMAND if not already set for logging
 if [[ "$PROMPT_COMMAND" != *"_log_last_command"* ]]; then
-    export PROMPT_COMMAND="_log_last_command${PROMPT_COMMAND:+; $PROMPT_COMMAND}"
+    export PROMPT_COMMAND="_log_last_command${PROMPT_COMMAND:+; $PROMPT_COMMAND}; _lab_arm_preexec"
 fi
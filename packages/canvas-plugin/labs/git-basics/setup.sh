@@ -0,0 +1,39 @@
+#!/bin/bash
+# Setup script for git-basics lab
+# Creates a project repository and a bare "server" repository to push to
+
+set -e
+
+echo "[setup] Setting up git-basics lab environment"
+
+PROJECT="/home/student/project"
+SERVER="/srv/git/project.git"
+
+# Identity for the student's commits
+su - student -c "git config --global user.name 'Lab Student'"
+su - student -c "git config --global user.email 'student@lab.local'"
+su - student -c "git config --global init.defaultBranch main"
+
+# Project with a single commit on main
+rm -rf "${PROJECT}"
+su - student -c "git init -q ${PROJECT}"
+cat > "${PROJECT}/README.md" <<'README'
+# Project
+
+A small website.
+README
+cat > "${PROJECT}/index.html" <<'HTML'
+<h1>Welcome</h1>
+HTML
+chown -R student:student "${PROJECT}"
+su - student -c "cd ${PROJECT} && git add . && git commit -q -m 'Initial commit'"
+echo "[setup] Created ${PROJECT}"
+
+# Empty bare repository acting as the remote
+rm -rf "${SERVER}"
+mkdir -p "$(dirname "${SERVER}")"
+git init -q --bare "${SERVER}"
+chown -R student:student "$(dirname "${SERVER}")"
+echo "[setup] Created ${SERVER}"
+
+echo "[setup] Setup complete"
@@ -0,0 +1,45 @@
+#!/bin/bash
+# Setup script for sql-basics lab
+# Seeds the lab database that lab-sql queries (and the host re-reads to validate)
+
+set -e
+
+DB="/var/log/lab-commands/lab.db"
+
+echo "[setup] Setting up sql-basics lab environment"
+
+rm -f "${DB}"
+sqlite3 "${DB}" <<'SQL'
+CREATE TABLE departments (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL
+);
+
+CREATE TABLE employees (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    department_id INTEGER REFERENCES departments(id),
+    salary INTEGER NOT NULL,
+    hired TEXT NOT NULL
+);
+
+INSERT INTO departments (id, name) VALUES
+    (1, 'Engineering'),
+    (2, 'Sales'),
+    (3, 'Support');
+
+INSERT INTO employees (id, name, department_id, salary, hired) VALUES
+    (1, 'Alice',  1, 125000, '2019-03-01'),
+    (2, 'Bob',    1,  98000, '2021-07-15'),
+    (3, 'Carol',  2,  72000, '2020-01-10'),
+    (4, 'Dan',    2,  68000, '2022-05-02'),
+    (5, 'Erin',   3,  54000, '2023-02-20'),
+    (6, 'Frank',  1, 110000, '2018-11-05'),
+    (7, 'Grace',  3,  58000, '2021-09-30');
+SQL
+
+# Students run lab-sql as themselves
+chmod 666 "${DB}"
+echo "[setup] Seeded ${DB}"
+
+echo "[setup] Setup complete"
@@ -5,11 +5,13 @@ import React from "react";
 import { Box, Text } from "ink";
 import { LAB_COLORS } from "../types";
 import type { Profile, Progress } from "../../../tutor/types";
+import type { StudentSkillProfile } from "../../../lab/skills/types";
 import { formatDuration } from "../../../tutor/profile-manager";
 
 interface ProfileWithStats {
   profile: Profile;
   progress: Progress | null;
+  skills: StudentSkillProfile | null;
 }
 
 interface Props {
@@ -47,8 +49,13 @@ export function ProfilePanel({
 
   // Render detailed profile view
   if (viewing && selectedProfile) {
-    const { profile, progress } = selectedProfile;
+    const { profile, progress, skills } = selectedProfile;
     const labIds = progress ? Object.keys(progress.labs) : [];
+    const topSkills = skills
+      ? Object.values(skills.skills)
+          .sort((a, b) => b.demonstrated - a.demonstrated)
+          .slice(0, 5)
+      : [];
 
     return (
       <Box flexDirection="column" width={width}>
@@ -154,6 +161,26 @@ export function ProfilePanel({
           </Box>
         )}
 
+        {/* Skill states */}
+        {topSkills.length > 0 && (
+          <Box flexDirection="column" marginTop={1}>
+            <Text color={LAB_COLORS.dim}>
+              {"─".repeat(Math.min(width - 4, 30))}
+            </Text>
+            <Text color={LAB_COLORS.secondary} bold>
+              Skills
+            </Text>
+            {topSkills.map((state) => (
+              <Box key={state.skill_id}>
+                <Text color={LAB_COLORS.text}>{state.skill_id}</Text>
+                <Text color={LAB_COLORS.dim}>
+                  {" "}{state.current_level} ({Math.round(state.demonstrated * 100)}%)
+                </Text>
+              </Box>
+            ))}
+          </Box>
+        )}
+
         {/* No progress message */}
         {(!progress || labIds.length === 0) && (
           <Box marginTop={1}>
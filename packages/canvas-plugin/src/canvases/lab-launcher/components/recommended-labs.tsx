@@ -0,0 +1,43 @@
+// Recommended Labs Component - Next labs for the current profile
+// Shown above the lab list; remediation picks are highlighted as warnings
+
+import React from "react";
+import { Box, Text } from "ink";
+import { LAB_COLORS } from "../types";
+import type { LabRecommendation } from "../../../lab/skills/skill-recommender";
+
+interface Props {
+  recommendations: LabRecommendation[];
+  width: number;
+}
+
+/** Rows rendered for a given number of recommendations (header + two lines each) */
+export function getRecommendedLabsHeight(count: number): number {
+  return count === 0 ? 0 : 2 + count * 2;
+}
+
+export function RecommendedLabs({ recommendations, width }: Props) {
+  if (recommendations.length === 0) {
+    return null;
+  }
+
+  const truncate = (text: string, max: number) =>
+    text.length > max ? `${text.slice(0, Math.max(0, max - 1))}…` : text;
+
+  return (
+    <Box flexDirection="column" marginBottom={1}>
+      <Text color={LAB_COLORS.secondary} bold>
+        {"[ RECOMMENDED ]"}
+      </Text>
+      {recommendations.map((rec) => (
+        <Box key={rec.lab_id} flexDirection="column">
+          <Text color={rec.kind === "remediation" ? LAB_COLORS.warning : LAB_COLORS.success}>
+            {rec.kind === "remediation" ? "↺ " : "★ "}
+            <Text color={LAB_COLORS.text}>{truncate(rec.title, width - 4)}</Text>
+          </Text>
+          <Text color={LAB_COLORS.dim}>  {truncate(rec.reasons[0] || "", width - 4)}</Text>
+        </Box>
+      ))}
+    </Box>
+  );
+}
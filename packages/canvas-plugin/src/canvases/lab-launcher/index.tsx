@@ -28,7 +28,9 @@ import {
 } from "../../tutor/profile-manager";
 import { createDefaultProgress } from "../../tutor/defaults";
 import { existsSync } from "fs";
-import { getProfileDir, getProgressFile } from "../../tutor/defaults";
+import { getProfileDir, getProgressFile, getSkillsDir } from "../../tutor/defaults";
+import { loadStudentProfile } from "../../lab/skills/skill-store";
+import { recommendNextLabsForProfile, type LabRecommendation } from "../../lab/skills/skill-recommender";
 import { writeFileSync } from "fs";
 
 // Import subcomponents
@@ -36,6 +38,16 @@ import { LabList } from "./components/lab-list";
 import { LabDetails } from "./components/lab-details";
 import { StatusBar } from "./components/status-bar";
 import { ProfilePanel } from "./components/profile-panel";
+import { RecommendedLabs, getRecommendedLabsHeight } from "./components/recommended-labs";
+
+// Load a profile's persisted skill states (missing or unreadable → none)
+function loadSkills(profileId: string): ProfileWithStats["skills"] {
+  try {
+    return loadStudentProfile(profileId, getSkillsDir(profileId));
+  } catch {
+    return null;
+  }
+}
 
 interface Props {
   id: string;
@@ -78,6 +90,7 @@ export function LabLauncherCanvas({
   const [profiles, setProfiles] = useState<ProfileWithStats[]>([]);
   const [profileSelectedIndex, setProfileSelectedIndex] = useState(0);
   const [currentProfileId, setCurrentProfileIdState] = useState(getCurrentProfileId());
+  const [recommendations, setRecommendations] = useState<LabRecommendation[]>([]);
   const [promptInput, setPromptInput] = useState<string | null>(null);
   const [promptType, setPromptType] = useState<"create" | "delete" | "reset" | "newlab" | null>(null);
   const [inputValue, setInputValue] = useState("");
@@ -140,6 +153,7 @@ export function LabLauncherCanvas({
     const profilesWithStats: ProfileWithStats[] = profileList.map((profile) => ({
       profile,
       progress: getProgress(profile.id),
+      skills: loadSkills(profile.id),
     }));
     setProfiles(profilesWithStats);
     setCurrentProfileIdState(getCurrentProfileId());
@@ -155,6 +169,15 @@ export function LabLauncherCanvas({
     loadProfiles();
   }, [loadProfiles]);
 
+  // Recommend next labs for the current profile (refreshed when profiles reload)
+  useEffect(() => {
+    try {
+      setRecommendations(recommendNextLabsForProfile(currentProfileId, 3));
+    } catch {
+      setRecommendations([]);
+    }
+  }, [currentProfileId, profiles]);
+
   // Listen for terminal resize
   useEffect(() => {
     const updateDimensions = () => {
@@ -612,6 +635,9 @@ export function LabLauncherCanvas({
           borderColor={focusMode === "list" ? LAB_COLORS.primary : LAB_COLORS.dim}
           paddingX={1}
         >
+          {launcherMode === "user" && (
+            <RecommendedLabs recommendations={recommendations} width={leftPanelWidth - 2} />
+          )}
           <Box marginBottom={1}>
             <Text color={LAB_COLORS.secondary} bold>
               {"[ LABS ]"}
@@ -624,7 +650,9 @@ export function LabLauncherCanvas({
               labs={labs}
               selectedIndex={selectedIndex}
               focused={focusMode === "list"}
-              maxHeight={contentHeight - 4}
+              maxHeight={
+                contentHeight - 4 - (launcherMode === "user" ? getRecommendedLabsHeight(recommendations.length) : 0)
+              }
             />
           )}
         </Box>
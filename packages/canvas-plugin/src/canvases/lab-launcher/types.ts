@@ -44,4 +44,5 @@ export type FocusMode = "list" | "profiles";
 export interface ProfileWithStats {
   profile: import("../../tutor/types").Profile;
   progress: import("../../tutor/types").Progress | null;
+  skills: import("../../lab/skills/types").StudentSkillProfile | null;
 }
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import { Box, Text, useApp, useInput, useStdout } from "ink";
 import { spawnSync } from "child_process";
 import { resolve, dirname, basename } from "path";
@@ -7,10 +7,12 @@ import { Sidebar } from "./vta/components/sidebar";
 import { TaskPanel } from "./vta/components/task-panel";
 import { DebugPanel } from "./vta/components/debug-panel";
 import { PresentationContent } from "./vta/components/presentation-content";
+import { Countdown } from "./vta/components/countdown";
 import {
   type VTAConfig,
   type VTAResult,
   type Module,
+  type CheckStatus,
   VTA_COLORS,
   getDemoModule,
 } from "./vta/types";
@@ -131,6 +133,11 @@ export function VTACanvas({
   const [focusMode, setFocusMode] = useState<"sidebar" | "content">("content");
   const [hintsRevealed, setHintsRevealed] = useState<Set<string>>(new Set());
   const [solutionRevealed, setSolutionRevealed] = useState(false);
+  const [appealedSteps, setAppealedSteps] = useState<Set<string>>(new Set());
+  const [checkStatuses, setCheckStatuses] = useState<Map<string, CheckStatus>>(new Map());
+  // Hints the tutor revealed (revealHint): highest hint index per step, shown whenever the step is
+  const [tutorHints, setTutorHints] = useState<Map<string, number>>(new Map());
+  const reportedTutorHints = useRef<Set<string>>(new Set());
   const [selectedOptions, setSelectedOptions] = useState<Set<string>>(
     new Set()
   );
@@ -154,7 +161,7 @@ export function VTACanvas({
       setModule((prev) => ({
         ...prev,
         steps: prev.steps.map((step) =>
-          step.id === stepId ? { ...step, completed: true } : step
+          step.id === stepId ? { ...step, completed: true, regressed: false, regressionMessage: undefined } : step
         ),
       }));
 
@@ -167,6 +174,36 @@ export function VTACanvas({
     [module.steps, currentStepIndex]
   );
 
+  // Lab mode - tick off a single task within a step (composite validation)
+  const handleLabTaskProgress = useCallback((stepId: string, taskIndex: number) => {
+    setModule((prev) => ({
+      ...prev,
+      steps: prev.steps.map((step) =>
+        step.id === stepId && step.content.tasks?.[taskIndex]
+          ? {
+              ...step,
+              content: {
+                ...step.content,
+                tasks: step.content.tasks.map((task, idx) =>
+                  idx === taskIndex ? { ...task, completed: true } : task
+                ),
+              },
+            }
+          : step
+      ),
+    }));
+  }, []);
+
+  // Exam mode - reveal which steps passed once the signed result arrives
+  const handleExamResult = useCallback((completedStepIds: string[]) => {
+    setModule((prev) => ({
+      ...prev,
+      steps: prev.steps.map((step) =>
+        completedStepIds.includes(step.id) ? { ...step, completed: true } : step
+      ),
+    }));
+  }, []);
+
   // Lab mode - add dynamic step from tutor
   const handleAddDynamicStep = useCallback(
     (step: DynamicStep, afterStepId?: string) => {
@@ -228,6 +265,93 @@ export function VTACanvas({
     []
   );
 
+  // Lab mode - tutor skipped a step: settled without credit
+  const handleStepSkipped = useCallback((stepId: string) => {
+    setModule((prev) => ({
+      ...prev,
+      steps: prev.steps.map((step) =>
+        step.id === stepId ? { ...step, completed: true, skipped: true } : step
+      ),
+    }));
+  }, []);
+
+  // Lab mode - a completed step stopped passing (continuous verification): unfinished again
+  const handleStepRegressed = useCallback((stepId: string, message?: string) => {
+    setModule((prev) => ({
+      ...prev,
+      steps: prev.steps.map((step) =>
+        step.id === stepId ? { ...step, completed: false, regressed: true, regressionMessage: message } : step
+      ),
+    }));
+    setCheckStatuses((prev) => {
+      const next = new Map(prev);
+      next.delete(stepId);
+      return next;
+    });
+  }, []);
+
+  // Lab mode - a check run on demand finished (requested here, by the tutor or with lab-check)
+  const handleCheckResult = useCallback((stepId: string, passed: boolean, message: string) => {
+    setCheckStatuses((prev) => new Map(prev).set(stepId, { status: passed ? "passed" : "failed", message }));
+  }, []);
+
+  const handleTutorRevealHint = useCallback((stepId: string, hintIndex: number) => {
+    setTutorHints((prev) => new Map(prev).set(stepId, Math.max(prev.get(stepId) ?? -1, hintIndex)));
+  }, []);
+
+  const handleTutorGoToStep = useCallback(
+    (stepId: string) => {
+      const stepIndex = module.steps.findIndex((s) => s.id === stepId);
+      if (stepIndex >= 0) {
+        setCurrentStepIndex(stepIndex);
+      }
+    },
+    [module.steps]
+  );
+
+  // Lab mode - tutor replaced parts of a step's content (e.g. simpler instructions)
+  const handleTutorUpdateStep = useCallback(
+    (stepId: string, content: { instructions?: string; tasks?: Array<{ text: string }>; hints?: string[] }) => {
+      setModule((prev) => ({
+        ...prev,
+        steps: prev.steps.map((step) =>
+          step.id === stepId
+            ? {
+                ...step,
+                content: {
+                  ...step.content,
+                  ...(content.instructions !== undefined && { instructions: content.instructions }),
+                  ...(content.tasks && { tasks: content.tasks.map((t) => ({ text: t.text })) }),
+                  ...(content.hints && {
+                    hints: content.hints.map((h, i) => ({ id: `${step.id}-tutor-hint-${i}`, text: h })),
+                  }),
+                },
+              }
+            : step
+        ),
+      }));
+    },
+    []
+  );
+
+  // Lab mode - tutor reordered steps; stay on the step the student is viewing
+  const handleTutorMoveStep = useCallback(
+    (stepId: string, afterStepId: string) => {
+      const currentId = module.steps[currentStepIndex]?.id;
+      const step = module.steps.find((s) => s.id === stepId);
+      const steps = module.steps.filter((s) => s.id !== stepId);
+      const afterIndex = steps.findIndex((s) => s.id === afterStepId);
+      if (!step || afterIndex < 0) {
+        return;
+      }
+
+      steps.splice(afterIndex + 1, 0, step);
+      setModule((prev) => ({ ...prev, steps }));
+      setCurrentStepIndex(Math.max(0, steps.findIndex((s) => s.id === currentId)));
+    },
+    [module.steps, currentStepIndex]
+  );
+
   // Handle highlight message from tutor (interactive presentation)
   const handleHighlight = useCallback((segmentIndex: number) => {
     setHighlightedSegment(segmentIndex);
@@ -268,13 +392,25 @@ export function VTACanvas({
 
   // Lab feedback hook - active in lab mode and interactive presentation mode
   const isLabMode = scenario === "lab" && !!socketPath;
+  const isExam = isLabMode && config?.exam === true;
+  // Unfinished task steps can be checked on demand (exams withhold check results)
+  const canCheck = isLabMode && !isExam && currentStep?.type === "task" && !currentStep.completed;
   const useIPC = (isLabMode || isInteractivePresentation) && !!socketPath;
   const labState = useLabFeedback(
     useIPC
       ? {
           socketPath,
           onTaskCompleted: handleLabTaskCompleted,
+          onTaskProgress: handleLabTaskProgress,
           onAddDynamicStep: handleAddDynamicStep,
+          onStepSkipped: handleStepSkipped,
+          onRevealHint: handleTutorRevealHint,
+          onGoToStep: handleTutorGoToStep,
+          onUpdateStep: handleTutorUpdateStep,
+          onMoveStep: handleTutorMoveStep,
+          onCheckResult: handleCheckResult,
+          onStepRegressed: handleStepRegressed,
+          onExamResult: handleExamResult,
           onHighlight: handleHighlight,
           onClearHighlight: handleClearHighlight,
           onNextSlide: handleNextSlide,
@@ -314,6 +450,23 @@ export function VTACanvas({
     }
   }, [currentStepIndex, isLabMode, currentStep?.id, currentStep?.type, labState]);
 
+  // Show the hints the tutor revealed on the current step; each is reported once, like a requested hint
+  useEffect(() => {
+    const upTo = currentStep ? tutorHints.get(currentStep.id) : undefined;
+    const hints = currentStep?.content.hints ?? [];
+    if (upTo === undefined || hints.length === 0) return;
+
+    const shown = hints.slice(0, upTo + 1);
+    setHintsRevealed((prev) => new Set([...prev, ...shown.map((h) => h.id)]));
+    shown.forEach((hint, hintIndex) => {
+      const key = `${currentStep.id}:${hint.id}`;
+      if (isLabMode && !reportedTutorHints.current.has(key)) {
+        reportedTutorHints.current.add(key);
+        labState.sendMessage({ type: "hintRequested", stepId: currentStep.id, hintIndex, totalHints: hints.length });
+      }
+    });
+  }, [currentStepIndex, currentStep?.id, currentStep?.content.hints, tutorHints, isLabMode, labState]);
+
   // Auto-complete view-only steps (introduction, summary) when entering them
   useEffect(() => {
     const step = module.steps[currentStepIndex];
@@ -382,8 +535,16 @@ export function VTACanvas({
       return;
     }
 
-    // Debug panel toggle
-    if (input === "d" || input === "D") {
+    // Finish exam: the hub scores, signs and reveals the result
+    if (isExam && (input === "f" || input === "F")) {
+      if (!labState.examResult && labState.status === "running") {
+        labState.sendMessage({ type: "examSubmitted" });
+      }
+      return;
+    }
+
+    // Debug panel toggle (not in exams: it shows state.json)
+    if (!isExam && (input === "d" || input === "D")) {
       setShowDebugPanel((prev) => !prev);
       return;
     }
@@ -473,7 +634,7 @@ export function VTACanvas({
               }
               return {
                 ...step,
-                completed: isCorrect, // Only mark complete if answer is correct
+                completed: isCorrect && !isExam, // Only mark complete if answer is correct (exams: after the result)
                 content: {
                   ...step.content,
                   question: {
@@ -547,7 +708,7 @@ export function VTACanvas({
     // Content mode controls
     if (focusMode === "content") {
       // Reveal hint
-      if (input === "h" || input === "H") {
+      if (!isExam && (input === "h" || input === "H")) {
         const hints = currentStep.content.hints || [];
         const nextHint = hints.find((h) => !hintsRevealed.has(h.id));
         if (nextHint) {
@@ -567,7 +728,7 @@ export function VTACanvas({
       }
 
       // Toggle solution
-      if (input === "s" || input === "S") {
+      if (!isExam && (input === "s" || input === "S")) {
         const wasRevealed = solutionRevealed;
         setSolutionRevealed((prev) => !prev);
         // Send telemetry only when revealing (not hiding)
@@ -580,6 +741,24 @@ export function VTACanvas({
         return;
       }
 
+      // Flag an unfinished task step for instructor review
+      if (isLabMode && (input === "r" || input === "R")) {
+        if (currentStep.type === "task" && !currentStep.completed && !appealedSteps.has(currentStep.id)) {
+          setAppealedSteps((prev) => new Set([...prev, currentStep.id]));
+          labState.sendMessage({ type: "stepAppealed", stepId: currentStep.id });
+        }
+        return;
+      }
+
+      // Run the step's check now instead of waiting for it to be polled
+      if (canCheck && (input === "c" || input === "C")) {
+        if (checkStatuses.get(currentStep.id)?.status !== "running") {
+          setCheckStatuses((prev) => new Map(prev).set(currentStep.id, { status: "running" }));
+          labState.sendMessage({ type: "checkRequested", stepId: currentStep.id });
+        }
+        return;
+      }
+
       // Scroll
       if (key.upArrow) {
         setScrollOffset((prev) => Math.max(0, prev - 1));
@@ -674,7 +853,31 @@ export function VTACanvas({
                 ? "● Lab Error"
                 : "○ Lab Starting..."}
             </Text>
-            {labState.lastCompletion && (
+            {(labState.labDeadline || labState.stepDeadline || labState.status === "timeout") && (
+              <>
+                <Text dimColor> │ </Text>
+                <Countdown
+                  labDeadline={labState.labDeadline}
+                  stepDeadline={
+                    labState.stepDeadline?.stepId === currentStep?.id ? labState.stepDeadline.at : undefined
+                  }
+                  timedOut={labState.status === "timeout"}
+                />
+              </>
+            )}
+            {isExam && (
+              <>
+                <Text dimColor> │ </Text>
+                {labState.examResult ? (
+                  <Text bold color={labState.examResult.passed ? VTA_COLORS.success : VTA_COLORS.error}>
+                    Exam {Math.round(labState.examResult.score * 100)}% {labState.examResult.passed ? "✓ passed" : "✗ not passed"}
+                  </Text>
+                ) : (
+                  <Text bold color={VTA_COLORS.warning}>EXAM</Text>
+                )}
+              </>
+            )}
+            {!isExam && labState.lastCompletion && (
               <>
                 <Text dimColor> │ </Text>
                 <Text color={VTA_COLORS.success}>
@@ -729,6 +932,11 @@ export function VTACanvas({
             solutionRevealed={solutionRevealed}
             selectedOptions={selectedOptions}
             scrollOffset={scrollOffset}
+            exam={isExam}
+            hideAnswers={isExam && !labState.examResult}
+            appealed={appealedSteps.has(currentStep.id)}
+            canCheck={canCheck}
+            check={checkStatuses.get(currentStep.id)}
           />
         )}
       </Box>
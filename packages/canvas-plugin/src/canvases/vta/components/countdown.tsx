@@ -0,0 +1,58 @@
+// Countdown Component - Time left before the lab's hard limits end the session
+// Shown in the VTA header for exam labs; ticks locally between monitor updates
+
+import React, { useState, useEffect } from "react";
+import { Text } from "ink";
+import { VTA_COLORS } from "../types";
+
+interface CountdownProps {
+  labDeadline?: Date;
+  stepDeadline?: Date;
+  timedOut: boolean;
+}
+
+const WARNING_SECONDS = 60;
+
+/** m:ss (or h:mm:ss) for a number of seconds */
+export function formatRemaining(seconds: number): string {
+  const total = Math.max(0, Math.ceil(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+export function Countdown({ labDeadline, stepDeadline, timedOut }: CountdownProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (timedOut || (!labDeadline && !stepDeadline)) {
+      return;
+    }
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [labDeadline, stepDeadline, timedOut]);
+
+  if (timedOut) {
+    return <Text color={VTA_COLORS.error} bold>⏱ Time's up</Text>;
+  }
+
+  // The nearer deadline is the one that matters
+  const remaining = [labDeadline, stepDeadline]
+    .filter((d): d is Date => d !== undefined)
+    .map((d) => (d.getTime() - now) / 1000);
+  if (remaining.length === 0) {
+    return null;
+  }
+
+  const seconds = Math.min(...remaining);
+  const isStep = stepDeadline !== undefined && (stepDeadline.getTime() - now) / 1000 === seconds;
+  const color = seconds <= WARNING_SECONDS ? VTA_COLORS.error : seconds <= WARNING_SECONDS * 5 ? VTA_COLORS.warning : VTA_COLORS.success;
+
+  return (
+    <Text color={color}>
+      ⏱ {formatRemaining(seconds)}
+      <Text dimColor>{isStep ? " step" : " left"}</Text>
+    </Text>
+  );
+}
@@ -223,6 +223,8 @@ function EventLine({ event }: { event: DebugEvent }) {
         const msg = event.data as { type: string; stepId?: string; source?: string };
         if (msg.type === "taskCompleted") {
           text = `taskCompleted: ${msg.stepId} [${msg.source || "?"}]`;
+        } else if (msg.type === "taskProgress") {
+          text = `taskProgress: ${msg.stepId} #${(msg as any).taskIndex} [${msg.source || "?"}]`;
         } else if (msg.type === "labStatus") {
           text = `labStatus: ${(msg as any).status}`;
         } else {
@@ -1,3 +1,4 @@
 export { Sidebar } from "./sidebar";
 export { TaskPanel } from "./task-panel";
 export { DebugPanel } from "./debug-panel";
+export { Countdown } from "./countdown";
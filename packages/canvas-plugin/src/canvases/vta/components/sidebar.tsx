@@ -38,7 +38,7 @@ export function Sidebar({
   // Detect newly completed steps
   useEffect(() => {
     const currentCompleted = new Set(
-      module.steps.filter((s) => s.completed).map((s) => s.id)
+      module.steps.filter((s) => s.completed && !s.skipped).map((s) => s.id)
     );
     const prevCompleted = prevCompletedRef.current;
 
@@ -168,21 +168,30 @@ function StepItem({ step, isCurrent, isCompleted, isCelebrating, width }: StepIt
     return () => clearInterval(interval);
   }, [isCelebrating]);
 
-  // Icons: ● = completed (green), ◉ = current (cyan), ○ = pending (gray)
+  // Icons: ● = completed (green), ⊘ = skipped by the tutor (gray), ↺ = no longer passing (yellow),
+  // ◉ = current (cyan), ○ = pending (gray)
   // When celebrating, show animated sparkles
   const icon = isCelebrating
     ? CELEBRATION_FRAMES[frameIndex]
+    : step.skipped
+      ? "⊘"
+      : isCompleted
+        ? "●"
+        : step.regressed
+          ? "↺"
+          : isCurrent
+            ? "◉"
+            : "○";
+
+  const iconColor = step.skipped
+    ? VTA_COLORS.muted
     : isCompleted
-      ? "●"
-      : isCurrent
-        ? "◉"
-        : "○";
-
-  const iconColor = isCompleted
-    ? VTA_COLORS.success
-    : isCurrent
-      ? VTA_COLORS.primary
-      : VTA_COLORS.muted;
+      ? VTA_COLORS.success
+      : step.regressed
+        ? VTA_COLORS.warning
+        : isCurrent
+        ? VTA_COLORS.primary
+        : VTA_COLORS.muted;
 
   // Truncate title if too long (account for wider celebration icon)
   const iconWidth = isCelebrating ? 3 : 1;
@@ -1,6 +1,6 @@
 import React from "react";
 import { Box, Text } from "ink";
-import type { Step, Hint, Solution, Question } from "../types";
+import type { Step, Hint, Solution, Question, CheckStatus } from "../types";
 import { VTA_COLORS } from "../types";
 
 interface TaskPanelProps {
@@ -12,6 +12,11 @@ interface TaskPanelProps {
   solutionRevealed: boolean;
   selectedOptions: Set<string>;
   scrollOffset: number;
+  exam?: boolean; // No hints or solutions
+  hideAnswers?: boolean; // Record question answers without showing whether they were right
+  appealed?: boolean; // Student flagged the step for instructor review
+  canCheck?: boolean; // The step's check can be run now (c)
+  check?: CheckStatus; // Latest on-demand check of the step
 }
 
 export function TaskPanel({
@@ -23,8 +28,15 @@ export function TaskPanel({
   solutionRevealed,
   selectedOptions,
   scrollOffset,
+  exam = false,
+  hideAnswers = false,
+  appealed = false,
+  canCheck = false,
+  check,
 }: TaskPanelProps) {
   const contentWidth = width - 4;
+  const flagHint = step.type === "task" && !step.completed && !appealed ? " • r flag for review" : "";
+  const checkHint = canCheck ? " • c check" : "";
 
   return (
     <Box
@@ -67,17 +79,50 @@ export function TaskPanel({
           <TaskList tasks={step.content.tasks} width={contentWidth} />
         )}
 
+        {step.skipped && (
+          <Box marginTop={1}>
+            <Text color={VTA_COLORS.muted}>⊘ Skipped by your tutor - this step no longer counts</Text>
+          </Box>
+        )}
+
+        {step.regressed && (
+          <Box marginTop={1}>
+            <Text color={VTA_COLORS.warning} wrap="wrap">
+              ↺ No longer passing{step.regressionMessage ? `: ${step.regressionMessage}` : " - fix it to complete the step again"}
+            </Text>
+          </Box>
+        )}
+
+        {check && (
+          <Box marginTop={1}>
+            {check.status === "running" ? (
+              <Text color={VTA_COLORS.warning}>⟳ Running the check...</Text>
+            ) : (
+              <Text color={check.status === "passed" ? VTA_COLORS.success : VTA_COLORS.error} wrap="wrap">
+                {check.status === "passed" ? "✓" : "✗"} {check.message}
+              </Text>
+            )}
+          </Box>
+        )}
+
+        {appealed && (
+          <Box marginTop={1}>
+            <Text color={VTA_COLORS.warning}>⚑ Flagged for review - an instructor will check this step</Text>
+          </Box>
+        )}
+
         {/* Question */}
         {step.content.question && (
           <QuestionSection
             question={step.content.question}
             selectedOptions={selectedOptions}
+            hideResult={hideAnswers}
             width={contentWidth}
           />
         )}
 
-        {/* Hints and Solution - hidden for slide type steps */}
-        {step.type !== "slide" && (
+        {/* Hints and Solution - hidden for slide type steps and exams */}
+        {step.type !== "slide" && !exam && (
           <>
             {/* Hints */}
             {step.content.hints && step.content.hints.length > 0 && (
@@ -103,7 +148,9 @@ export function TaskPanel({
       {/* Footer with controls hint */}
       <Box marginTop={1} justifyContent="space-between">
         <Text dimColor>
-          ←/→ nav • h hint • s solution • d debug • Enter next • b back • q quit
+          {exam
+            ? `←/→ nav • Enter next${flagHint} • f finish exam • q quit`
+            : `←/→ nav • h hint • s solution${checkHint}${flagHint} • d debug • Enter next • b back • q quit`}
         </Text>
       </Box>
     </Box>
@@ -130,8 +177,12 @@ function TaskList({ tasks, width }: TaskListProps) {
         {tasks.map((task, idx) => (
           <Box key={idx} flexDirection="column" marginBottom={1}>
             <Box>
-              <Text color={VTA_COLORS.primary}>• </Text>
-              <Text wrap="wrap">{renderBoldText(task.text)}</Text>
+              {task.completed ? (
+                <Text color={VTA_COLORS.success}>✓ </Text>
+              ) : (
+                <Text color={VTA_COLORS.primary}>• </Text>
+              )}
+              <Text wrap="wrap" dimColor={task.completed}>{renderBoldText(task.text)}</Text>
             </Box>
             {task.details && (
               <Box flexDirection="column" marginLeft={2}>
@@ -248,12 +299,14 @@ function SolutionSection({ solution, revealed, width }: SolutionSectionProps) {
 interface QuestionSectionProps {
   question: Question;
   selectedOptions: Set<string>;
+  hideResult: boolean;
   width: number;
 }
 
 function QuestionSection({
   question,
   selectedOptions,
+  hideResult,
   width,
 }: QuestionSectionProps) {
   const isAnswered = question.answered ?? false;
@@ -270,7 +323,9 @@ function QuestionSection({
       {/* Header with result indicator */}
       <Box marginBottom={1}>
         <Text color={VTA_COLORS.highlight}>❓ Question</Text>
-        {isAnswered ? (
+        {isAnswered && hideResult ? (
+          <Text color={VTA_COLORS.primary}> Answer recorded</Text>
+        ) : isAnswered ? (
           <Text color={isCorrect ? VTA_COLORS.success : VTA_COLORS.error}>
             {" "}
             {isCorrect ? "✓ Correct!" : "✗ Incorrect"}
@@ -293,7 +348,19 @@ function QuestionSection({
           const wasUserAnswer = userAnswer.includes(option.id);
           const isCorrectOption = option.correct ?? false;
 
-          if (isAnswered) {
+          if (isAnswered && hideResult) {
+            // Exam: show only what was chosen
+            const color = wasUserAnswer ? VTA_COLORS.primary : VTA_COLORS.muted;
+            return (
+              <Box key={option.id}>
+                <Text color={color}>
+                  [{idx + 1}] {wasUserAnswer ? "●" : " "}{" "}
+                </Text>
+                <Text color={color}>{option.text}</Text>
+                {wasUserAnswer && <Text color={color}> ← Your answer</Text>}
+              </Box>
+            );
+          } else if (isAnswered) {
             // Answered state: show which was selected and which was correct
             let marker = "  ";
             let color: string | undefined = undefined;
@@ -349,7 +416,7 @@ function QuestionSection({
       </Box>
 
       {/* Explanation (shown after answering) */}
-      {isAnswered && question.explanation && (
+      {isAnswered && !hideResult && question.explanation && (
         <Box
           marginTop={1}
           paddingX={1}
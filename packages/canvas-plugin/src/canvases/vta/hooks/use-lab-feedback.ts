@@ -14,9 +14,14 @@ export interface DebugEvent {
 export interface LabFeedbackState {
   connected: boolean;
   stale: boolean; // True if no ping received for 10 seconds
-  status: "starting" | "running" | "stopped" | "error";
+  status: "starting" | "running" | "stopped" | "timeout" | "error";
   message?: string;
   completedSteps: Set<string>;
+  // Hard time limits announced by the monitor (exam labs)
+  labDeadline?: Date;
+  stepDeadline?: { stepId: string; at: Date };
+  // Revealed when an exam session ends
+  examResult?: { score: number; passed: boolean; completedSteps: string[] };
   // Debug state
   events: DebugEvent[];
   lastCompletion?: { stepId: string; source: string; timestamp: Date };
@@ -27,8 +32,20 @@ export interface LabFeedbackState {
 export interface UseLabFeedbackOptions {
   socketPath: string;
   onTaskCompleted?: (stepId: string, taskId: string) => void;
-  onStatusChange?: (status: "running" | "stopped", message?: string) => void;
+  onTaskProgress?: (stepId: string, taskIndex: number) => void;
+  onStatusChange?: (status: "running" | "stopped" | "timeout", message?: string) => void;
   onAddDynamicStep?: (step: DynamicStep, afterStepId?: string) => void;
+  // Tutor control callbacks
+  onStepSkipped?: (stepId: string, reason?: string) => void;
+  onRevealHint?: (stepId: string, hintIndex: number) => void;
+  onGoToStep?: (stepId: string) => void;
+  onUpdateStep?: (stepId: string, content: Extract<LabMessage, { type: "updateStep" }>["content"]) => void;
+  onMoveStep?: (stepId: string, afterStepId: string) => void;
+  // Outcome of a check run on demand (by the student, the tutor or lab-check)
+  onCheckResult?: (stepId: string, passed: boolean, message: string) => void;
+  // A completed step's check stopped passing (continuous verification)
+  onStepRegressed?: (stepId: string, message?: string) => void;
+  onExamResult?: (completedSteps: string[]) => void;
   // Interactive presentation callbacks
   onHighlight?: (segmentIndex: number) => void;
   onClearHighlight?: () => void;
@@ -96,6 +113,15 @@ export function useLabFeedback(options: UseLabFeedbackOptions | null) {
           lastCompletion: completion,
         }));
         options?.onTaskCompleted?.(msg.stepId, msg.taskId);
+      } else if (msg.type === "stepRegressed") {
+        setState((prev) => {
+          const completedSteps = new Set(prev.completedSteps);
+          completedSteps.delete(msg.stepId);
+          return { ...prev, completedSteps };
+        });
+        options?.onStepRegressed?.(msg.stepId, msg.message);
+      } else if (msg.type === "taskProgress") {
+        options?.onTaskProgress?.(msg.stepId, msg.taskIndex);
       } else if (msg.type === "labStatus") {
         setState((prev) => ({
           ...prev,
@@ -103,8 +129,34 @@ export function useLabFeedback(options: UseLabFeedbackOptions | null) {
           message: msg.message,
         }));
         options?.onStatusChange?.(msg.status, msg.message);
+      } else if (msg.type === "timeLimits") {
+        setState((prev) => ({
+          ...prev,
+          labDeadline: msg.labDeadline ? new Date(msg.labDeadline) : undefined,
+          stepDeadline:
+            msg.stepId && msg.stepDeadline ? { stepId: msg.stepId, at: new Date(msg.stepDeadline) } : undefined,
+        }));
+      } else if (msg.type === "examResult") {
+        setState((prev) => ({
+          ...prev,
+          completedSteps: new Set([...prev.completedSteps, ...msg.completedSteps]),
+          examResult: { score: msg.score, passed: msg.passed, completedSteps: msg.completedSteps },
+        }));
+        options?.onExamResult?.(msg.completedSteps);
       } else if (msg.type === "addDynamicStep") {
         options?.onAddDynamicStep?.(msg.step, msg.afterStepId);
+      } else if (msg.type === "stepSkipped") {
+        options?.onStepSkipped?.(msg.stepId, msg.reason);
+      } else if (msg.type === "revealHint") {
+        options?.onRevealHint?.(msg.stepId, msg.hintIndex);
+      } else if (msg.type === "goToStep") {
+        options?.onGoToStep?.(msg.stepId);
+      } else if (msg.type === "updateStep") {
+        options?.onUpdateStep?.(msg.stepId, msg.content);
+      } else if (msg.type === "moveStep") {
+        options?.onMoveStep?.(msg.stepId, msg.afterStepId);
+      } else if (msg.type === "checkResult") {
+        options?.onCheckResult?.(msg.stepId, msg.passed, msg.message);
       } else if (msg.type === "highlight") {
         options?.onHighlight?.(msg.segmentIndex);
       } else if (msg.type === "clearHighlight") {
@@ -17,7 +17,7 @@ export interface ValidationRule {
 }
 
 export interface LabState {
-  status: "starting" | "running" | "stopped" | "error";
+  status: "starting" | "running" | "stopped" | "timeout" | "error";
   containerId?: string;
   monitorPid?: number;
   message?: string;
@@ -27,6 +27,6 @@ export interface LabState {
 export interface LabFeedbackOptions {
   socketPath: string;
   onTaskCompleted: (stepId: string, taskId: string) => void;
-  onStatusChange: (status: "running" | "stopped", message?: string) => void;
+  onStatusChange: (status: "running" | "stopped" | "timeout", message?: string) => void;
   onError?: (error: Error) => void;
 }
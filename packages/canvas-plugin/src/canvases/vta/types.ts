@@ -7,6 +7,7 @@ export interface VTAConfig {
   module?: Module;           // Direct module object
   moduleId?: string;         // Or just the module ID (VTA will load it)
   currentStepIndex?: number;
+  exam?: boolean;            // Exam mode: no hints/solutions, pass feedback hidden until the result
 }
 
 export interface Module {
@@ -15,6 +16,14 @@ export interface Module {
   description?: string;
   steps: Step[];
   labType?: LabType;  // NEW: Lab type, defaults to "linux_cli"
+  timing?: TimeLimits;  // Whole-lab durations
+}
+
+// Durations from `timing:` in module.yaml. expectedSeconds drives the scoring
+// time penalty; maxSeconds is a hard limit that ends the session (exam labs)
+export interface TimeLimits {
+  expectedSeconds?: number;
+  maxSeconds?: number;
 }
 
 export interface Step {
@@ -23,6 +32,16 @@ export interface Step {
   type: "introduction" | "task" | "question" | "summary" | "slide";
   content: StepContent;
   completed?: boolean;
+  skipped?: boolean; // Settled by the tutor without credit (also completed)
+  regressed?: boolean; // Passed before, but its check no longer passes (continuous verification)
+  regressionMessage?: string;
+  timing?: TimeLimits;
+}
+
+// Latest check of a step run on demand (c key, or by the tutor)
+export interface CheckStatus {
+  status: "running" | "passed" | "failed";
+  message?: string;
 }
 
 export interface StepContent {
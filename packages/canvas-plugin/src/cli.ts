@@ -10,12 +10,52 @@ import {
   formatDuration,
   profileExists,
 } from "./tutor/profile-manager";
+import type { TelemetryEvent, ScoringPreset } from "./lab/telemetry/types";
+import type { ControlCommandRequest, TutorCommandType } from "./lab/tutor-control/types";
 
 // Set window title via ANSI escape codes
 function setWindowTitle(title: string) {
   process.stdout.write(`\x1b]0;${title}\x07`);
 }
 
+// Find a lab session's log dir: explicit path, $LAB_LOG_DIR, or the module's newest session
+async function findLabLogDir(moduleId: string, explicit?: string): Promise<string | undefined> {
+  const { readdirSync, statSync } = await import("fs");
+  const logDir: string | undefined = explicit || process.env.LAB_LOG_DIR;
+  if (logDir) {
+    return logDir;
+  }
+
+  const prefix = `lab-logs-${moduleId}-`;
+  return readdirSync("/tmp")
+    .filter((name) => name.startsWith(prefix))
+    .map((name) => `/tmp/${name}`)
+    .sort((a, b) => statSync(b).mtimeMs - statSync(a).mtimeMs)[0];
+}
+
+// Scoring preset for a lab: explicit ID or YAML file, else module.yaml's, else the session's course's
+// Exits on an explicit preset that cannot be loaded
+async function findScoringPreset(moduleId: string, ref?: string, logDir?: string): Promise<ScoringPreset | undefined> {
+  const { existsSync, readFileSync } = await import("fs");
+  const { resolveScoringPreset } = await import("./lab/telemetry/preset-loader");
+  const { getModuleScoringPreset } = await import("./lab/module-loader");
+  const { getCourseScoringPreset } = await import("./curriculum/course-loader");
+
+  if (ref) {
+    const preset = resolveScoringPreset(ref);
+    if (!preset) {
+      console.error(`✗ Invalid scoring preset: ${ref}`);
+      process.exit(1);
+    }
+    return preset;
+  }
+
+  const courseJsonPath = logDir && `${logDir}/course.json`;
+  const courseId: string | undefined =
+    courseJsonPath && existsSync(courseJsonPath) ? JSON.parse(readFileSync(courseJsonPath, "utf-8")).courseId : undefined;
+  return getModuleScoringPreset(moduleId) ?? (courseId ? getCourseScoringPreset(courseId) : null) ?? undefined;
+}
+
 program
   .name("claude-canvas")
   .description("Interactive terminal canvases for Claude")
@@ -525,6 +565,622 @@ program
     }
   });
 
+program
+  .command("lab-spl <moduleId> <query>")
+  .description("Run an SPL search against a splunk lab's dataset from the host (the lab terminal has its own lab-spl)")
+  .option("--log-dir <path>", "Lab log directory to submit the search to (default: $LAB_LOG_DIR or the newest session)")
+  .option("--max-rows <n>", "Maximum rows to display", "50")
+  .action(async (moduleId: string, query: string, options) => {
+    const { appendFileSync, existsSync } = await import("fs");
+    const { getModuleDatasetPath } = await import("./lab/module-loader");
+    const { loadDataset, runSpl, formatResults } = await import("./lab/spl");
+
+    const datasetPath = getModuleDatasetPath(moduleId);
+    if (!datasetPath) {
+      console.error(`✗ Module ${moduleId} has no dataset`);
+      process.exit(1);
+    }
+
+    // Find the running session's log dir so the adapter sees the search
+    const logDir = await findLabLogDir(moduleId, options.logDir);
+
+    try {
+      const result = runSpl(query, loadDataset(datasetPath));
+      console.log(formatResults(result.rows, result.fields, parseInt(options.maxRows)));
+    } catch (error) {
+      console.error(`✗ ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    // Errors are submitted too, so the tutor can see failed attempts
+    if (logDir && existsSync(logDir)) {
+      const entry = { timestamp: new Date().toISOString(), query, user: process.env.USER };
+      appendFileSync(`${logDir}/queries.log`, JSON.stringify(entry) + "\n");
+    } else {
+      console.error("\n(No running lab session found - search was not submitted)");
+    }
+  });
+
+program
+  .command("lab-control <moduleId> <action> [args...]")
+  .description(
+    "Call a running lab's tutor control API. Actions: state, steps, commands (the student's), tutor-commands, " +
+      "complete <stepId>, " +
+      "check <stepId>, add-step <json>, command <type> [json] (JSON may be '-' for stdin)"
+  )
+  .option("--log-dir <path>", "Lab log directory (default: $LAB_LOG_DIR or the newest session)")
+  .option("--limit <n>", "Recent commands (student or tutor) to show", "20")
+  .action(async (moduleId: string, action: string, args: string[], options) => {
+    const { existsSync, readFileSync } = await import("fs");
+    const { createTutorControlClient, findControlSocket, queueTutorCommand } = await import(
+      "./lab/tutor-control/control-client"
+    );
+    const { readRecentStudentCommands } = await import("./lab/tutor-control/control-server");
+
+    const logDir = await findLabLogDir(moduleId, options.logDir);
+    if (!logDir || !existsSync(logDir)) {
+      console.error(`✗ No running lab session found for ${moduleId}`);
+      process.exit(1);
+    }
+
+    const parseJson = (text: string, what: string) => {
+      try {
+        return JSON.parse(text === "-" ? readFileSync(0, "utf-8") : text);
+      } catch {
+        console.error(`✗ ${what} must be JSON`);
+        process.exit(1);
+      }
+    };
+    if ((action === "complete" || action === "check" || action === "add-step" || action === "command") && !args[0]) {
+      console.error(`✗ ${action} needs an argument`);
+      process.exit(1);
+    }
+
+    let request: ControlCommandRequest | undefined;
+    if (action === "complete") {
+      request = { type: "markComplete", payload: { stepId: args[0], source: "tutor" } };
+    } else if (action === "add-step") {
+      request = { type: "addStep", payload: parseJson(args[0], "The step") };
+    } else if (action === "command") {
+      request = { type: args[0] as TutorCommandType, payload: parseJson(args[1] ?? "{}", "The payload") };
+    } else if (!["state", "steps", "commands", "tutor-commands", "check"].includes(action)) {
+      console.error(`✗ Unknown action '${action}'`);
+      process.exit(1);
+    }
+
+    // No server (older monitor, or it failed to start): fall back to the files
+    const socketPath = findControlSocket(logDir);
+    if (!socketPath) {
+      if (request) {
+        const queued = queueTutorCommand(logDir, request);
+        console.log(`Queued ${queued.type} as ${queued.id} in tutor-commands.json (no control API running)`);
+        return;
+      }
+      if (action === "check") {
+        console.error("✗ Running a check needs the lab's control API, which is not running");
+        process.exit(1);
+      }
+      if (action === "commands") {
+        console.log(JSON.stringify(readRecentStudentCommands(`${logDir}/commands.log`, parseInt(options.limit)), null, 2));
+        return;
+      }
+      const file = `${logDir}/${action === "tutor-commands" ? "tutor-commands.json" : "state.json"}`;
+      const data = existsSync(file) ? JSON.parse(readFileSync(file, "utf-8")) : null;
+      const result =
+        action === "state"
+          ? data
+          : action === "steps"
+            ? data?.steps ?? []
+            : (data?.commands ?? []).slice(-parseInt(options.limit));
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    const client = createTutorControlClient({ socketPath });
+    try {
+      if (request) {
+        const ack = await client.sendCommand(request);
+        console.log(JSON.stringify(ack, null, 2));
+        if (ack.status === "error") {
+          process.exit(1);
+        }
+        return;
+      }
+      const result =
+        action === "state"
+          ? await client.getState()
+          : action === "steps"
+            ? await client.listSteps()
+            : action === "check"
+              ? await client.runCheck(args[0])
+              : action === "commands"
+                ? await client.getStudentCommands(parseInt(options.limit))
+                : await client.getTutorCommandHistory(parseInt(options.limit));
+      console.log(JSON.stringify(result, null, 2));
+    } catch (error) {
+      console.error(`✗ ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("lab-check <session> <stepId>")
+  .description("Run a step's check now in a running lab (session: its log dir, or a module ID for its newest session)")
+  .option("--json", "Print the full result (exit status and output) as JSON")
+  .action(async (session: string, stepId: string, options) => {
+    const { existsSync, statSync } = await import("fs");
+    const { createTutorControlClient, findControlSocket } = await import("./lab/tutor-control/control-client");
+
+    const logDir = existsSync(session) && statSync(session).isDirectory() ? session : await findLabLogDir(session);
+    if (!logDir || !existsSync(logDir)) {
+      console.error(`✗ No running lab session found for ${session}`);
+      process.exit(1);
+    }
+    const socketPath = findControlSocket(logDir);
+    if (!socketPath) {
+      console.error(`✗ The lab in ${logDir} is not serving its control API`);
+      process.exit(1);
+    }
+
+    try {
+      const result = await createTutorControlClient({ socketPath }).runCheck(stepId);
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        console.log(`${result.passed ? "✓" : "✗"} ${stepId}: ${result.message}`);
+        if (result.output.trim()) {
+          console.log(result.output.trimEnd().replace(/^/gm, "  "));
+        }
+      }
+      if (!result.passed) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(`✗ ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("lab-xapi <moduleId>")
+  .description("Export a lab session's telemetry as xAPI statements, or send them to an LRS")
+  .option("--log-dir <path>", "Lab log directory with telemetry.jsonl (default: $LAB_LOG_DIR or the newest session)")
+  .option("--session <id>", "Session to export (default: the latest session in the log)")
+  .option("--out <file>", "Write statements to a file instead of stdout")
+  .option("--lrs <endpoint>", "Send statements to this xAPI endpoint (default: $LAB_XAPI_ENDPOINT)")
+  .option("--lrs-auth <credentials>", "LRS credentials, user:password or an Authorization value (default: $LAB_XAPI_AUTH)")
+  .option("--activity-base <iri>", "IRI prefix for activity IDs (default: $LAB_XAPI_ACTIVITY_BASE)")
+  .option("--preset <id|file>", "Scoring preset ID or preset YAML file (default: the module's or course's preset)")
+  .action(async (moduleId: string, options) => {
+    const { existsSync, writeFileSync } = await import("fs");
+    const { loadModule, getStepScoring } = await import("./lab/module-loader");
+    const { interpretLabProgress, readTelemetryFile } = await import("./lab/telemetry");
+    const { exportSessionStatements, sendStatements } = await import("./lab/xapi");
+
+    const logDir = await findLabLogDir(moduleId, options.logDir);
+    const telemetryPath = logDir && `${logDir}/telemetry.jsonl`;
+    if (!telemetryPath || !existsSync(telemetryPath)) {
+      console.error(`✗ No telemetry found for ${moduleId}${logDir ? ` in ${logDir}` : ""}`);
+      process.exit(1);
+    }
+
+    let events: TelemetryEvent[];
+    try {
+      events = readTelemetryFile(telemetryPath).filter((event) => event.event_type !== "tutor_utterance");
+    } catch (error) {
+      console.error(`✗ ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+
+    const sessionId: string | undefined = options.session ?? events[events.length - 1]?.session_id;
+    const sessionEvents = events.filter((event) => event.session_id === sessionId);
+    if (sessionEvents.length === 0) {
+      console.error(`✗ No events for session ${sessionId ?? "(none)"}`);
+      process.exit(1);
+    }
+
+    const module = loadModule(moduleId);
+    const scoring = getStepScoring(moduleId);
+    const preset = await findScoringPreset(moduleId, options.preset, logDir);
+    const progress = interpretLabProgress({
+      events: sessionEvents,
+      moduleId,
+      studentId: "student_id" in sessionEvents[0] ? sessionEvents[0].student_id : "unknown",
+      sessionId: sessionId!,
+      stepIds: module.steps.map((step) => step.id),
+      stepWeights: scoring.weights,
+      rubrics: scoring.rubrics,
+      expectedSeconds: scoring.expectedSeconds,
+      labExpectedSeconds: scoring.labExpectedSeconds,
+      preset,
+    });
+
+    const statements = exportSessionStatements(sessionEvents, {
+      sessionId,
+      progress,
+      activityBase: options.activityBase || process.env.LAB_XAPI_ACTIVITY_BASE,
+      moduleTitle: module.title,
+      stepTitles: Object.fromEntries(module.steps.map((step) => [step.id, step.title])),
+    });
+
+    const endpoint: string | undefined = options.lrs || process.env.LAB_XAPI_ENDPOINT;
+    if (endpoint) {
+      try {
+        const ids = await sendStatements(statements, { endpoint, auth: options.lrsAuth || process.env.LAB_XAPI_AUTH });
+        console.log(`✓ Sent ${ids.length} statements for session ${sessionId} to ${endpoint}`);
+      } catch (error) {
+        console.error(`✗ ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+      return;
+    }
+
+    const output = JSON.stringify(statements, null, 2);
+    if (options.out) {
+      writeFileSync(options.out, output + "\n");
+      console.log(`✓ Wrote ${statements.length} statements for session ${sessionId} to ${options.out}`);
+    } else {
+      console.log(output);
+    }
+  });
+
+program
+  .command("lab-regrade <moduleId>")
+  .description("Re-score a recorded lab session under a different scoring preset")
+  .requiredOption("--preset <id|file>", "Scoring preset ID or preset YAML file to grade with")
+  .option("--log-dir <path>", "Lab log directory with telemetry.jsonl (default: $LAB_LOG_DIR or the newest session)")
+  .option("--session <id>", "Session to re-grade (default: the latest session in the log)")
+  .option("--json", "Output the re-graded progress as JSON")
+  .action(async (moduleId: string, options) => {
+    const { existsSync } = await import("fs");
+    const { loadModule, getStepScoring } = await import("./lab/module-loader");
+    const { interpretLabProgress, recomputeWithPreset, readTelemetryFile, formatConfidence } = await import("./lab/telemetry");
+
+    const logDir = await findLabLogDir(moduleId, options.logDir);
+    const telemetryPath = logDir && `${logDir}/telemetry.jsonl`;
+    if (!telemetryPath || !existsSync(telemetryPath)) {
+      console.error(`✗ No telemetry found for ${moduleId}${logDir ? ` in ${logDir}` : ""}`);
+      process.exit(1);
+    }
+
+    let events: TelemetryEvent[];
+    try {
+      events = readTelemetryFile(telemetryPath).filter((event) => event.event_type !== "tutor_utterance");
+    } catch (error) {
+      console.error(`✗ ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+
+    const sessionId: string | undefined = options.session ?? events[events.length - 1]?.session_id;
+    const sessionEvents = events.filter((event) => event.session_id === sessionId);
+    if (sessionEvents.length === 0) {
+      console.error(`✗ No events for session ${sessionId ?? "(none)"}`);
+      process.exit(1);
+    }
+
+    const module = loadModule(moduleId);
+    const scoring = getStepScoring(moduleId);
+    const interpretOptions = {
+      moduleId,
+      studentId: "student_id" in sessionEvents[0] ? sessionEvents[0].student_id : "unknown",
+      sessionId: sessionId!,
+      stepIds: module.steps.map((step) => step.id),
+      stepWeights: scoring.weights,
+      rubrics: scoring.rubrics,
+      expectedSeconds: scoring.expectedSeconds,
+      labExpectedSeconds: scoring.labExpectedSeconds,
+    };
+
+    const original = interpretLabProgress({
+      ...interpretOptions,
+      events: sessionEvents,
+      preset: await findScoringPreset(moduleId, undefined, logDir),
+    });
+    const regraded = recomputeWithPreset(sessionEvents, interpretOptions, (await findScoringPreset(moduleId, options.preset))!);
+
+    if (options.json) {
+      console.log(JSON.stringify(regraded, null, 2));
+      return;
+    }
+
+    const verdict = (passed: boolean) => (passed ? "passed" : "not passed");
+    console.log(`Session ${sessionId}: ${original.scoring_preset_id} → ${regraded.scoring_preset_id}`);
+    for (const step of module.steps) {
+      const before = original.tasks[step.id];
+      const after = regraded.tasks[step.id];
+      if (before && after && (before.confidence !== after.confidence || before.passed !== after.passed)) {
+        console.log(`  ${step.id}: ${formatConfidence(before.confidence)} → ${formatConfidence(after.confidence)}`);
+      }
+    }
+    console.log(
+      `  Overall: ${formatConfidence(original.overall_score)} (${verdict(original.passed)}) → ` +
+        `${formatConfidence(regraded.overall_score)} (${verdict(regraded.passed)})`
+    );
+  });
+
+program
+  .command("lab-override <moduleId> <stepId>")
+  .description("Amend a step's score in a recorded session, with a reason (recorded as a score_override event)")
+  .requiredOption("--reason <text>", "Why the score is being changed")
+  .option("--score <percent>", "Score to award (default: 100, or 0 with --fail)")
+  .option("--fail", "Mark the step as failed instead of completed")
+  .option("--reviewer <name>", "Who made the ruling (default: $USER)")
+  .option("--log-dir <path>", "Lab log directory with telemetry.jsonl (default: $LAB_LOG_DIR or the newest session)")
+  .option("--session <id>", "Session to amend (default: the latest session in the log)")
+  .action(async (moduleId: string, stepId: string, options) => {
+    const { existsSync } = await import("fs");
+    const { loadModule } = await import("./lab/module-loader");
+    const { readTelemetryFile, findSessionTelemetryFiles, recordScoreOverride, formatConfidence } = await import(
+      "./lab/telemetry"
+    );
+
+    const module = loadModule(moduleId);
+    if (!module.steps.some((step) => step.id === stepId)) {
+      console.error(`✗ ${moduleId} has no step '${stepId}'`);
+      process.exit(1);
+    }
+
+    const score = options.score !== undefined ? Number(options.score) : options.fail ? 0 : 100;
+    if (!Number.isFinite(score) || score < 0 || score > 100) {
+      console.error(`✗ --score must be a percentage between 0 and 100`);
+      process.exit(1);
+    }
+
+    const logDir = await findLabLogDir(moduleId, options.logDir);
+    const telemetryPath = logDir && `${logDir}/telemetry.jsonl`;
+    let events: TelemetryEvent[] = [];
+    if (telemetryPath && existsSync(telemetryPath)) {
+      try {
+        events = readTelemetryFile(telemetryPath).filter((event) => event.event_type !== "tutor_utterance");
+      } catch (error) {
+        console.error(`✗ ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    }
+
+    const sessionId: string | undefined = options.session ?? events[events.length - 1]?.session_id;
+    const paths = sessionId ? findSessionTelemetryFiles(sessionId, { logDir }) : [];
+    if (!sessionId || paths.length === 0) {
+      console.error(`✗ No telemetry found for session ${sessionId ?? "(none)"} of ${moduleId}`);
+      process.exit(1);
+    }
+
+    let sessionEvent: Exclude<TelemetryEvent, { event_type: "tutor_utterance" }> | undefined;
+    try {
+      sessionEvent = readTelemetryFile(paths[0]).find(
+        (event): event is Exclude<TelemetryEvent, { event_type: "tutor_utterance" }> =>
+          event.event_type !== "tutor_utterance" && event.session_id === sessionId
+      );
+    } catch (error) {
+      console.error(`✗ ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+    if (!sessionEvent) {
+      console.error(`✗ No events for session ${sessionId} in ${paths[0]}`);
+      process.exit(1);
+    }
+    const event = recordScoreOverride(
+      paths,
+      { sessionId, moduleId, studentId: sessionEvent.student_id, labType: sessionEvent.lab_type },
+      {
+        step_id: stepId,
+        status: options.fail ? "failed" : "completed",
+        confidence: score / 100,
+        reason: options.reason,
+        reviewer: options.reviewer || process.env.USER || "instructor",
+      }
+    );
+
+    console.log(
+      `✓ ${stepId} set to ${formatConfidence(event.payload.confidence)} (${event.payload.status}) ` +
+        `for ${sessionEvent.student_id}, session ${sessionId}`
+    );
+    paths.forEach((path) => console.log(`  Recorded in ${path}`));
+  });
+
+program
+  .command("lab-appeals <moduleId>")
+  .description("List steps students flagged for review, from every profile's archived sessions")
+  .option("--log-dir <path>", "Only this lab log directory's telemetry.jsonl")
+  .option("--all", "Include appeals already answered by an override")
+  .option("--json", "Output as JSON")
+  .action(async (moduleId: string, options) => {
+    const { existsSync } = await import("fs");
+    const { loadCohortSessions, readTelemetryFile, listScoreAppeals } = await import("./lab/telemetry");
+
+    let events: TelemetryEvent[];
+    if (options.logDir) {
+      const telemetryPath = `${options.logDir}/telemetry.jsonl`;
+      try {
+        events = existsSync(telemetryPath) ? readTelemetryFile(telemetryPath) : [];
+      } catch (error) {
+        console.error(`✗ ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    } else {
+      events = loadCohortSessions(moduleId).sessions.flatMap((session) => session.events);
+    }
+
+    const appeals = listScoreAppeals(
+      events.filter((event) => event.event_type !== "tutor_utterance" && event.module_id === moduleId)
+    ).filter((appeal) => options.all || !appeal.resolved_by);
+
+    if (options.json) {
+      console.log(JSON.stringify(appeals, null, 2));
+      return;
+    }
+    if (appeals.length === 0) {
+      console.log(`No ${options.all ? "" : "pending "}appeals for ${moduleId}`);
+      return;
+    }
+
+    console.log(`${appeals.length} ${options.all ? "" : "pending "}appeal${appeals.length === 1 ? "" : "s"} for ${moduleId}:`);
+    for (const appeal of appeals) {
+      const state = appeal.resolved_by ? ` (answered by ${appeal.resolved_by})` : "";
+      console.log(`  ${appeal.timestamp}  ${appeal.student_id}  ${appeal.step_id}  session ${appeal.session_id}${state}`);
+      if (appeal.note) {
+        console.log(`      "${appeal.note}"`);
+      }
+    }
+    console.log(`\nResolve with: lab-override ${moduleId} <stepId> --session <id> --reason "..."`);
+  });
+
+program
+  .command("lab-exam-verify <moduleId>")
+  .description("Verify an exam session's signed result and its hash-chained telemetry")
+  .option("--log-dir <path>", "Lab log directory with exam-result.json (default: $LAB_LOG_DIR or the newest session)")
+  .option("--public-key <file>", "Require the result to be signed by this key (default: trust the embedded key)")
+  .option("--json", "Output the verified result as JSON")
+  .action(async (moduleId: string, options) => {
+    const { existsSync, readFileSync } = await import("fs");
+    const { readExamResult, verifyExamResult } = await import("./lab/exam");
+
+    const logDir = await findLabLogDir(moduleId, options.logDir);
+    const signed = logDir ? readExamResult(logDir) : null;
+    if (!logDir || !signed) {
+      console.error(`✗ No exam result found for ${moduleId}${logDir ? ` in ${logDir}` : ""}`);
+      process.exit(1);
+    }
+
+    const telemetryPath = `${logDir}/telemetry.jsonl`;
+    const verification = verifyExamResult(signed, {
+      telemetry: existsSync(telemetryPath) ? readFileSync(telemetryPath, "utf-8") : "",
+      publicKey: options.publicKey ? readFileSync(options.publicKey, "utf-8") : undefined,
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify({ ...verification, result: signed.result }, null, 2));
+    } else if (verification.valid) {
+      const { result } = signed;
+      console.log(`✓ Verified exam result for ${result.student_id} (session ${result.session_id})`);
+      console.log(`  Score: ${Math.round(result.overall_score * 100)}% — ${result.passed ? "passed" : "not passed"} (${result.end_reason})`);
+      console.log(`  Telemetry: ${result.telemetry.event_count} events, chain intact`);
+    } else {
+      console.error(`✗ Exam result failed verification:`);
+      verification.errors.forEach((error) => console.error(`  - ${error}`));
+    }
+    if (!verification.valid) {
+      process.exit(1);
+    }
+  });
+
+program
+  .command("lab-telemetry-migrate <files...>")
+  .description("Validate telemetry.jsonl files and upgrade them to the current schema version")
+  .option("--check", "Only validate; exit non-zero if any line is malformed")
+  .action(async (files: string[], options) => {
+    const { existsSync } = await import("fs");
+    const { migrateTelemetryFile, formatTelemetryErrors, TELEMETRY_SCHEMA_VERSION } = await import("./lab/telemetry");
+
+    let failed = false;
+    for (const file of files) {
+      if (!existsSync(file)) {
+        console.error(`✗ ${file}: not found`);
+        failed = true;
+        continue;
+      }
+
+      const result = migrateTelemetryFile(file, { dryRun: options.check });
+      if (result.errors.length > 0) {
+        console.error(`✗ ${formatTelemetryErrors(result.errors, file)}`);
+        failed = true;
+      } else if (result.migratedCount === 0) {
+        console.log(`✓ ${file}: ${result.events.length} events, already at schema v${TELEMETRY_SCHEMA_VERSION}`);
+      } else if (options.check) {
+        console.log(`✓ ${file}: ${result.events.length} events, ${result.migratedCount} need upgrading to v${TELEMETRY_SCHEMA_VERSION}`);
+      } else {
+        console.log(`✓ ${file}: upgraded ${result.migratedCount} events to v${TELEMETRY_SCHEMA_VERSION} (original saved as ${file}.bak)`);
+      }
+    }
+
+    if (failed) {
+      process.exit(1);
+    }
+  });
+
+program
+  .command("lab-analytics <moduleId>")
+  .description("Aggregate every profile's telemetry for a lab: step funnel, time, hints and failures")
+  .option("--json", "Output JSON instead of a text report")
+  .option("--profiles-dir <path>", "Profiles directory (default: ~/.claude/tutor/profiles)")
+  .option("--top <n>", "Number of failing commands to list", "10")
+  .action(async (moduleId: string, options) => {
+    const { loadModule } = await import("./lab/module-loader");
+    const { loadCohortSessions, computeCohortAnalytics, formatCohortAnalytics } = await import("./lab/telemetry");
+
+    const module = loadModule(moduleId);
+    const { sessions, errors } = loadCohortSessions(moduleId, options.profilesDir);
+    for (const error of errors) {
+      console.error(`⚠ ${error.file}:${error.line}: ${error.message}`);
+    }
+
+    const analytics = computeCohortAnalytics(moduleId, sessions, {
+      stepIds: module.steps.map((step) => step.id),
+      stepTitles: Object.fromEntries(module.steps.map((step) => [step.id, step.title])),
+      topCommands: parseInt(options.top, 10),
+    });
+
+    console.log(options.json ? JSON.stringify(analytics, null, 2) : formatCohortAnalytics(analytics));
+  });
+
+program
+  .command("lab-recommend [profileId]")
+  .description("Recommend the next lab from a profile's skill gaps (default: current profile)")
+  .option("--json", "Output JSON instead of a text report")
+  .option("--limit <n>", "Number of recommendations", "3")
+  .action(async (profileId: string | undefined, options) => {
+    const { getCurrentProfileId } = await import("./tutor/profile-manager");
+    const { recommendNextLabsForProfile, formatRecommendations } = await import("./lab/skills");
+
+    const recommendations = recommendNextLabsForProfile(profileId ?? getCurrentProfileId(), parseInt(options.limit, 10));
+    console.log(options.json ? JSON.stringify(recommendations, null, 2) : formatRecommendations(recommendations));
+  });
+
+program
+  .command("skills-fit-bkt <catalogId>")
+  .description("Fit BKT parameters for a skill catalog from every profile's archived telemetry")
+  .option("--json", "Output JSON instead of a catalog YAML snippet")
+  .option("--profiles-dir <path>", "Profiles directory (default: ~/.claude/tutor/profiles)")
+  .option("--min-observations <n>", "Skip skills with fewer observations", "10")
+  .action(async (catalogId: string, options) => {
+    const yaml = (await import("js-yaml")).default;
+    const { listModules } = await import("./lab/module-loader");
+    const { loadCohortSessions, interpretTaskEvidence } = await import("./lab/telemetry");
+    const { loadSkillCatalog, findQMatrixForLab, fitBKTBySkill } = await import("./lab/skills");
+
+    const catalogSkills = new Set(loadSkillCatalog(catalogId).map((skill) => skill.id));
+    const qmatrix = listModules()
+      .flatMap((module) => findQMatrixForLab(module.id))
+      .filter((entry) => catalogSkills.has(entry.skill_id));
+
+    const sessions = [...new Set(qmatrix.map((entry) => entry.lab_id))].flatMap((labId) => {
+      const stepIds = [...new Set(qmatrix.filter((e) => e.lab_id === labId).map((e) => e.step_id))];
+      return loadCohortSessions(labId, options.profilesDir).sessions.map((session) => ({
+        labId,
+        taskEvidence: interpretTaskEvidence({
+          events: session.events,
+          moduleId: labId,
+          studentId: session.studentId,
+          sessionId: session.sessionId,
+          stepIds,
+        }),
+      }));
+    });
+
+    const fits = fitBKTBySkill(sessions, qmatrix, { minObservations: parseInt(options.minObservations, 10) });
+    if (options.json) {
+      console.log(JSON.stringify(fits, null, 2));
+      return;
+    }
+
+    const fitted = Object.keys(fits).length;
+    console.error(`Fitted ${fitted}/${catalogSkills.size} skills from ${sessions.length} sessions`);
+    if (fitted === 0) {
+      return;
+    }
+    const skills = Object.fromEntries(Object.entries(fits).map(([skillId, fit]) => [skillId, fit.params]));
+    console.log(yaml.dump({ estimator: { type: "bkt", bkt: { skills } } }));
+  });
+
 program
   .command("lab-test <moduleId>")
   .description("Run automated tests for a lab module")
@@ -729,6 +1385,8 @@ program
   .option("--vta-height <percent>", "Height percentage for vTA pane", "40")
   .option("--no-tutor", "Disable AI tutor pane")
   .option("--profile <name>", "Profile to use for progress tracking")
+  .option("--exam", "Exam mode: no tutor, hints or solutions; results are revealed and signed at the end")
+  .option("--preset <id|file>", "Scoring preset ID or preset YAML file (default: the module's or course's preset)")
   .action(async (moduleId = "linux-user-management", options) => {
     const { spawnSync } = await import("child_process");
     const { spawnLabEnvironment, ensureDockerImage } = await import("./lab/spawn");
@@ -768,12 +1426,26 @@ program
     const profileName = options.profile || getCurrentProfile().id;
     console.log(`Using profile: ${profileName}`);
 
+    // Validate the scoring preset now; the monitor loads it again from an absolute path
+    let presetRef: string | undefined;
+    if (options.preset) {
+      const { resolve } = await import("path");
+      const { resolveScoringPreset } = await import("./lab/telemetry/preset-loader");
+      if (!resolveScoringPreset(options.preset)) {
+        console.error(`Invalid scoring preset: ${options.preset}`);
+        process.exit(1);
+      }
+      presetRef = /\.ya?ml$/.test(options.preset) ? resolve(options.preset) : options.preset;
+    }
+
     if (!inTmux) {
       // Not in tmux - start new session and run lab inside it
       console.log(`Starting lab: ${moduleId}`);
       const basePath = process.cwd();
       const profileFlag = options.profile ? ` --profile ${options.profile}` : "";
-      const labCmd = `bun run src/cli.ts lab ${moduleId}${options.tutor === false ? " --no-tutor" : ""}${profileFlag}`;
+      const examFlag = options.exam ? " --exam" : "";
+      const presetFlag = options.preset ? ` --preset ${JSON.stringify(presetRef)}` : "";
+      const labCmd = `bun run src/cli.ts lab ${moduleId}${options.tutor === false ? " --no-tutor" : ""}${profileFlag}${examFlag}${presetFlag}`;
 
       // Create tmux session and run lab command inside
       spawnSync("tmux", [
@@ -791,6 +1463,8 @@ program
         vtaHeight: parseInt(options.vtaHeight),
         tutor: options.tutor !== false,
         profileName,
+        exam: options.exam === true,
+        scoringPreset: presetRef,
       });
     }
   });
@@ -854,7 +1528,7 @@ program
   .command("profile-stats")
   .description("Show stats for the current profile")
   .option("--profile <id>", "Show stats for a specific profile")
-  .action((options) => {
+  .action(async (options) => {
     const profile = options.profile
       ? listProfiles().find(p => p.id === options.profile)
       : getCurrentProfile();
@@ -886,6 +1560,24 @@ program
         console.log(`  ${labId}: ${lab.status} (${lab.attempts.length} attempts, best: ${bestTime})`);
       }
     }
+
+    // Instructor rulings and open appeals, from the profile's archived telemetry
+    const { loadProfileScoreReviews, formatConfidence } = await import("./lab/telemetry");
+    const { getTelemetryDir } = await import("./tutor/defaults");
+    const reviews = loadProfileScoreReviews(getTelemetryDir(profile.id));
+    for (const error of reviews.errors) {
+      console.error(`⚠ ${error.file}:${error.line}: ${error.message}`);
+    }
+    if (reviews.overrides.length > 0 || reviews.appeals.length > 0) {
+      console.log("\nScore Reviews:");
+      console.log(`  Appeals: ${reviews.appeals.length} (${reviews.pendingAppeals.length} pending)`);
+      for (const override of reviews.overrides) {
+        const { step_id, status, confidence, reviewer, reason } = override.payload;
+        console.log(
+          `  ${override.module_id}/${step_id}: ${formatConfidence(confidence)} (${status}) by ${reviewer} - ${reason}`
+        );
+      }
+    }
   });
 
 program
@@ -4,9 +4,9 @@
  */
 
 import * as readline from "readline";
-import { listAllCourses, loadCourse, _clearCourseRegistry } from "../curriculum/course-loader";
+import { listAllCourses, loadAllCourses } from "../curriculum/course-loader";
 import { loadStudentProgress } from "../curriculum/progress-tracker";
-import { readdirSync, existsSync } from "fs";
+import { existsSync } from "fs";
 import { join, resolve } from "path";
 
 export interface CoursePickerResult {
@@ -32,21 +32,7 @@ function loadAllCoursesFromDisk(): void {
     throw new Error(`Courses directory not found at ${coursesDir}`);
   }
 
-  // Clear any existing courses
-  _clearCourseRegistry();
-
-  // Load all course.yaml files from subdirectories
-  const courseIds = readdirSync(coursesDir);
-  for (const courseId of courseIds) {
-    const coursePath = join(coursesDir, courseId, "course.yaml");
-    if (existsSync(coursePath)) {
-      try {
-        loadCourse(coursePath);
-      } catch (error) {
-        console.warn(`Failed to load course ${courseId}:`, error);
-      }
-    }
-  }
+  loadAllCourses(coursesDir);
 }
 
 export async function showCoursePicker(studentId: string): Promise<CoursePickerResult> {
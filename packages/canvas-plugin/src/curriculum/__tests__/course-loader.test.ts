@@ -6,6 +6,8 @@ import {
   getNextModuleInCourse,
   getCourseByModuleId,
   listAllCourses,
+  loadAllCourses,
+  getCoursesPath,
   _clearCourseRegistry,
 } from "../course-loader";
 
@@ -364,4 +366,33 @@ modules:
       expect(course.id).toBe(testCase.expectedId);
     }
   });
+
+  test("loadCourse accepts moduleId as the module key", () => {
+    const courseYaml = `
+id: shell-basics
+title: Shell Basics
+modules:
+  - moduleId: shell-navigation
+    title: Navigation
+    estimatedMinutes: 15
+  - moduleId: shell-files
+    title: Files
+    prerequisites: [shell-navigation]
+`;
+    const coursePath = join(tmpDir, "module-id-course.yaml");
+    writeFileSync(coursePath, courseYaml);
+
+    const course = loadCourse(coursePath);
+    expect(course.modules.map((m) => m.id)).toEqual(["shell-navigation", "shell-files"]);
+    expect(course.modules[0].estimatedTime).toBe(15);
+    expect(course.modules[1].prerequisites).toEqual(["shell-navigation"]);
+  });
+
+  test("loadAllCourses loads every shipped course", () => {
+    const courses = loadAllCourses(getCoursesPath());
+    const ids = courses.map((c) => c.id);
+    expect(ids).toContain("shell-mastery");
+    expect(ids).toContain("python-mastery");
+    expect(listAllCourses()).toHaveLength(courses.length);
+  });
 });
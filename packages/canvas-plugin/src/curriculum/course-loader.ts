@@ -3,8 +3,12 @@
  * Handles YAML parsing and course lookup utilities
  */
 
-import { readFileSync } from "fs";
+import { existsSync, readFileSync, readdirSync } from "fs";
+import { join, resolve } from "path";
 import * as YAML from "js-yaml";
+import { parseGapTemplates } from "../lab/telemetry/gap-detector";
+import { resolveScoringPreset } from "../lab/telemetry/preset-loader";
+import type { GapTemplate, ScoringPreset } from "../lab/telemetry/types";
 import type {
   Course,
   CourseModule,
@@ -58,7 +62,10 @@ export function loadCourse(yamlPath: string): Course {
     throw new Error(`Course file ${yamlPath} has invalid modules field (must be array)`);
   }
 
-  const modules: CourseModule[] = data.modules.map((m: Record<string, any>, index: number) => {
+  const modules: CourseModule[] = data.modules.map((raw: Record<string, any>, index: number) => {
+    // Module lists may key modules by `moduleId` (shell-mastery) instead of `id`
+    const m: Record<string, any> = { ...raw, id: raw.id ?? raw.moduleId };
+
     // CRITICAL: Validate module has required id field
     if (!m.id || typeof m.id !== "string") {
       throw new Error(
@@ -67,7 +74,7 @@ export function loadCourse(yamlPath: string): Course {
     }
 
     // Validate labType is one of allowed values if specified
-    const validLabTypes = ["linux_cli", "splunk", "python"];
+    const validLabTypes = ["linux_cli", "splunk", "python", "sql", "git"];
     if (m.labType && !validLabTypes.includes(m.labType)) {
       throw new Error(
         `Module "${m.id}" has invalid labType "${m.labType}". Must be one of: ${validLabTypes.join(", ")}`
@@ -79,7 +86,7 @@ export function loadCourse(yamlPath: string): Course {
       title: m.title || "Untitled Module",
       labType: m.labType || "linux_cli",
       description: m.description || "",
-      estimatedTime: m.estimatedTime || 0,
+      estimatedTime: m.estimatedTime || m.estimatedMinutes || 0,
       prerequisites: Array.isArray(m.prerequisites) ? m.prerequisites : [],
     };
   });
@@ -102,6 +109,7 @@ export function loadCourse(yamlPath: string): Course {
     id: courseId,
     modules,
     metadata,
+    gaps: parseGapTemplates(data.gaps, `Course '${courseId}'`),
   };
 
   // Register in registry
@@ -115,6 +123,88 @@ export function loadCourse(yamlPath: string): Course {
   return course;
 }
 
+/**
+ * Get the absolute path to the courses/ directory
+ */
+export function getCoursesPath(): string {
+  return resolve(import.meta.dir, "../../courses");
+}
+
+/**
+ * Reload the registry from every courses/<id>/course.yaml
+ * Courses that fail to load are skipped with a warning
+ */
+export function loadAllCourses(coursesDir: string = getCoursesPath()): Course[] {
+  if (!existsSync(coursesDir)) {
+    return [];
+  }
+
+  _clearCourseRegistry();
+  const courses: Course[] = [];
+  for (const courseId of readdirSync(coursesDir).sort()) {
+    const yamlPath = join(coursesDir, courseId, "course.yaml");
+    if (!existsSync(yamlPath)) {
+      continue;
+    }
+
+    try {
+      courses.push(loadCourse(yamlPath));
+    } catch (error) {
+      console.warn(`Failed to load course ${courseId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return courses;
+}
+
+/**
+ * Gap templates declared in a course's course.yaml (`gaps:`)
+ * Reads the file directly so it works without loading the course registry
+ */
+export function getCourseGapTemplates(courseId: string): GapTemplate[] {
+  const yamlPath = join(getCoursesPath(), courseId, "course.yaml");
+  if (!existsSync(yamlPath)) {
+    return [];
+  }
+
+  try {
+    const data = YAML.load(readFileSync(yamlPath, "utf-8")) as Record<string, any> | undefined;
+    return parseGapTemplates(data?.gaps, `Course '${courseId}'`);
+  } catch (error) {
+    console.warn(`Failed to read gap templates from ${yamlPath}: ${error instanceof Error ? error.message : String(error)}`);
+    return [];
+  }
+}
+
+/**
+ * The scoring preset a course's course.yaml selects (`config.scoringPreset`), or null if it selects none
+ * The value is a preset ID or a preset YAML file relative to the course directory
+ */
+export function getCourseScoringPreset(courseId: string): ScoringPreset | null {
+  const courseDir = join(getCoursesPath(), courseId);
+  const yamlPath = join(courseDir, "course.yaml");
+  if (!existsSync(yamlPath)) {
+    return null;
+  }
+
+  let ref: unknown;
+  try {
+    const data = YAML.load(readFileSync(yamlPath, "utf-8")) as Record<string, any> | undefined;
+    ref = data?.config?.scoringPreset;
+  } catch (error) {
+    console.warn(`Failed to read scoring preset from ${yamlPath}: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+
+  if (ref === undefined) {
+    return null;
+  }
+  if (typeof ref !== "string") {
+    console.warn(`Course '${courseId}' has an invalid config.scoringPreset: ${JSON.stringify(ref)}`);
+    return null;
+  }
+  return resolveScoringPreset(ref, courseDir);
+}
+
 /**
  * Get the next module for a student based on completed modules
  * Respects prerequisites
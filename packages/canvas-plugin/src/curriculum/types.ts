@@ -3,13 +3,15 @@
  * Courses contain modules (labs), and students complete modules to progress through courses
  */
 
+import type { GapTemplate } from "../lab/telemetry/types";
+
 /**
  * A module represents a single lab that can be part of a course
  */
 export interface CourseModule {
   id: string;                    // Unique module ID (e.g., "python-fundamentals")
   title: string;                 // Display name
-  labType: "linux_cli" | "splunk" | "python";  // Type of lab
+  labType: "linux_cli" | "splunk" | "python" | "sql" | "git";  // Type of lab
   description: string;           // What the module teaches
   estimatedTime: number;         // Time in minutes
   prerequisites: string[];       // Module IDs that must be completed first
@@ -32,6 +34,7 @@ export interface Course {
   id: string;                    // Unique course ID (e.g., "python-mastery")
   modules: CourseModule[];       // Modules in order
   metadata: CourseMetadata;      // Course information
+  gaps?: GapTemplate[];          // Gap templates applied to every module in the course
 }
 
 /**
@@ -50,12 +50,31 @@ export interface QuestionResult {
 // Lab environment messages (sent from Monitor to vTA Canvas)
 export type LabMessage =
   | { type: "taskCompleted"; taskId: string; stepId: string; source?: "command" | "check" | "tutor" }
-  | { type: "labStatus"; status: "running" | "stopped"; message?: string }
+  | { type: "taskProgress"; stepId: string; taskIndex: number; source?: "command" | "check" }
+  // A completed step's check stopped passing (continuous verification); it completes again with taskCompleted
+  | { type: "stepRegressed"; stepId: string; message?: string }
+  | { type: "labStatus"; status: "running" | "stopped" | "timeout"; message?: string }
+  // Hard time limits in force (ISO deadlines); resent when the viewed step changes
+  | { type: "timeLimits"; labDeadline?: string; stepId?: string; stepDeadline?: string }
+  // Exam sessions: the student hands in (VTA → hub), then the withheld results are revealed (hub → VTA)
+  | { type: "examSubmitted" }
+  | { type: "examResult"; score: number; passed: boolean; completedSteps: string[]; resultPath?: string }
   | { type: "addDynamicStep"; step: DynamicStep; afterStepId?: string }
+  // Tutor control (monitor → VTA); every tutor command is answered with a tutorCommandAck
+  | { type: "stepSkipped"; stepId: string; reason?: string }
+  | { type: "revealHint"; stepId: string; hintIndex: number }
+  | { type: "goToStep"; stepId: string }
+  | { type: "updateStep"; stepId: string; content: { instructions?: string; tasks?: Array<{ text: string }>; hints?: string[] } }
+  | { type: "moveStep"; stepId: string; afterStepId: string }
   | { type: "tutorCommandAck"; commandId: string; status: "done" | "error"; message?: string }
   | { type: "questionAnswered"; stepId: string; isCorrect: boolean; selectedOptions: string[]; correctOptions: string[]; attempts: number }
   | { type: "hintRequested"; stepId: string; hintIndex: number; totalHints: number }
   | { type: "solutionViewed"; stepId: string }
+  // Student believes a step is done although its check did not pass (queued for instructor review)
+  | { type: "stepAppealed"; stepId: string; note?: string }
+  // Run a step's check now (VTA → hub); the outcome comes back however the check was requested (hub → VTA)
+  | { type: "checkRequested"; stepId: string }
+  | { type: "checkResult"; stepId: string; passed: boolean; message: string }
   | { type: "stepViewed"; stepId: string; previousStepId?: string; stepType: "introduction" | "task" | "question" | "summary" }
   | { type: "ping" }
   // Interactive presentation messages (Tutor → VTA)
@@ -9,7 +9,7 @@ import type { CheckLogEntry } from "../checks/types";
 function writeCheckResult(
   logPath: string,
   stepId: string,
-  status: "passed" | "failed" | "error",
+  status: CheckLogEntry["status"],
   options?: { taskIndex?: number; message?: string }
 ): void {
   const entry: CheckLogEntry = {
@@ -201,6 +201,58 @@ describe("CheckLogWatcher", () => {
     expect(received).toHaveLength(0);
   });
 
+  test("onCheckResult receives every new entry exactly once", async () => {
+    const results: string[] = [];
+
+    writeCheckResult(checksLogPath, "probe-a--0.sh", "failed");
+
+    const watcher = createCheckLogWatcher({
+      logPath: checksLogPath,
+      onCheckPassed: () => {},
+      onCheckResult: (entry) => results.push(`${entry.stepId}:${entry.status}`),
+    });
+    watcher.start();
+
+    writeCheckResult(checksLogPath, "probe-a--0.sh", "passed");
+    await sleep(100);
+    writeCheckResult(checksLogPath, "probe-a--0.sh", "failed");
+    await sleep(100);
+
+    expect(results).toEqual([
+      "probe-a--0.sh:failed",
+      "probe-a--0.sh:passed",
+      "probe-a--0.sh:failed",
+    ]);
+    watcher.stop();
+  });
+
+  test("a regressed check is reported, then its next pass counts again", async () => {
+    const events: string[] = [];
+
+    const watcher = createCheckLogWatcher({
+      logPath: checksLogPath,
+      onCheckPassed: (result) => events.push(`passed:${result.stepId}`),
+      onCheckRegressed: (result) => events.push(`regressed:${result.stepId}:${result.message}`),
+    });
+    watcher.start();
+
+    // A regression of a check that never passed is ignored
+    writeCheckResult(checksLogPath, "check-user.sh", "regressed", { message: "no devuser" });
+    writeCheckResult(checksLogPath, "check-user.sh", "passed");
+    await sleep(100);
+    writeCheckResult(checksLogPath, "check-user.sh", "regressed", { message: "no devuser" });
+    await sleep(100);
+    writeCheckResult(checksLogPath, "check-user.sh", "passed");
+    await sleep(100);
+
+    expect(events).toEqual([
+      "passed:check-user.sh",
+      "regressed:check-user.sh:no devuser",
+      "passed:check-user.sh",
+    ]);
+    watcher.stop();
+  });
+
   test("isRunning() returns correct state", () => {
     const watcher = createCheckLogWatcher({
       logPath: checksLogPath,
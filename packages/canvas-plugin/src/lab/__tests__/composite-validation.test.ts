@@ -0,0 +1,261 @@
+// Tests for composite validation: verification, probes, and evaluation semantics
+
+import { describe, test, expect, afterEach } from "bun:test";
+import { mkdtempSync, appendFileSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  type CompositeValidation,
+  verifyCompositeValidation,
+  getProbeConfigs,
+  getTaskIndexes,
+  probeScriptName,
+  parseProbeScriptName,
+  describeValidationNode,
+  createCompositeEvaluator,
+} from "../checks/composite";
+import { createLinuxCliAdapter } from "../adapters/linux-cli-adapter";
+
+const createAccount: CompositeValidation = {
+  type: "sequence",
+  checks: [
+    { type: "user-exists", user: "devuser" },
+    { type: "file-mode", path: "/home/devuser", mode: "750" },
+    { type: "group-member", user: "devuser", group: "developers" },
+  ],
+};
+
+describe("verifyCompositeValidation", () => {
+  test("accepts nested combinators over declarative and command leaves", () => {
+    const validation: CompositeValidation = {
+      type: "all",
+      checks: [
+        { type: "command-pattern", pattern: "^sudo\\s+" },
+        { type: "any", checks: [{ type: "process-running", process: "nginx" }, { type: "port-listening", port: 80 }] },
+        { type: "not", checks: [{ type: "file-exists", path: "/tmp/lock" }] },
+      ],
+    };
+
+    expect(verifyCompositeValidation(validation)).toEqual([]);
+  });
+
+  test("reports problems with their location", () => {
+    const validation = {
+      type: "all",
+      checks: [
+        { type: "not", checks: [] },
+        { type: "sequence", checks: [{ type: "file-mode", path: "/x" }] },
+        { type: "check-script", script: "check.sh" },
+        { type: "command-pattern", pattern: "(" },
+      ],
+    } as unknown as CompositeValidation;
+
+    const problems = verifyCompositeValidation(validation);
+    expect(problems).toContain("checks[0]: not requires a non-empty 'checks' list");
+    expect(problems).toContain("checks[1].checks[0]: file-mode requires 'mode'");
+    expect(problems).toContain("checks[2]: 'check-script' cannot be used inside a composite validation");
+    expect(problems.some((p) => p.startsWith("checks[3]: 'pattern' is not a valid regular expression"))).toBe(true);
+  });
+
+  test("not takes exactly one child", () => {
+    const validation: CompositeValidation = {
+      type: "not",
+      checks: [
+        { type: "user-exists", user: "a" },
+        { type: "user-exists", user: "b" },
+      ],
+    };
+    expect(verifyCompositeValidation(validation)).toEqual(["not takes exactly one check (got 2)"]);
+  });
+});
+
+describe("probes", () => {
+  test("each outcome leaf gets a probe named after its path", () => {
+    const validation: CompositeValidation = {
+      type: "all",
+      checks: [
+        { type: "command-pattern", pattern: "^ls" },
+        { type: "any", checks: [{ type: "user-exists", user: "a" }, { type: "user-exists", user: "b" }] },
+      ],
+    };
+
+    const probes = getProbeConfigs("make-users", validation);
+    expect(probes.map((p) => p.script)).toEqual(["probe-make-users--1-0.sh", "probe-make-users--1-1.sh"]);
+    expect(probes[0].compiled).toContain("id -u 'a'");
+  });
+
+  test("probe names round-trip even when step IDs contain dashes", () => {
+    expect(parseProbeScriptName(probeScriptName("set-up-user", "2-0"))).toEqual({
+      stepId: "set-up-user",
+      leafId: "2-0",
+    });
+    expect(parseProbeScriptName("check-set-up-user.sh")).toBeNull();
+  });
+
+  test("task indexes default to child position and can be overridden", () => {
+    expect(getTaskIndexes(createAccount)).toEqual([0, 1, 2]);
+    expect(
+      getTaskIndexes({ type: "all", checks: [{ type: "user-exists", user: "a", task: 2 }, { type: "user-exists", user: "b" }] })
+    ).toEqual([2, 1]);
+    expect(getTaskIndexes({ type: "not", checks: [{ type: "user-exists", user: "a" }] })).toEqual([]);
+  });
+
+  test("describes composites for tutor prompts", () => {
+    expect(describeValidationNode(createAccount)).toBe(
+      "In order: User devuser exists → /home/devuser has mode 750 → User devuser is in group developers"
+    );
+  });
+});
+
+describe("createCompositeEvaluator", () => {
+  test("all reports each child as a task and completes when every child holds", () => {
+    const evaluator = createCompositeEvaluator("step", {
+      type: "all",
+      checks: [
+        { type: "user-exists", user: "a" },
+        { type: "user-exists", user: "b" },
+      ],
+    });
+
+    expect(evaluator.recordProbe("1", true)).toEqual({ satisfied: false, completedTasks: [1] });
+    expect(evaluator.recordProbe("1", true)).toEqual({ satisfied: false, completedTasks: [] });
+    expect(evaluator.recordProbe("0", true)).toEqual({ satisfied: true, completedTasks: [0] });
+    expect(evaluator.getCompletedTasks().sort()).toEqual([0, 1]);
+  });
+
+  test("outcome leaves follow the latest probe status", () => {
+    const evaluator = createCompositeEvaluator("step", {
+      type: "all",
+      checks: [
+        { type: "user-exists", user: "a" },
+        { type: "user-exists", user: "b" },
+      ],
+    });
+
+    evaluator.recordProbe("0", true);
+    evaluator.recordProbe("0", false);
+    expect(evaluator.recordProbe("1", true).satisfied).toBe(false);
+    expect(evaluator.recordProbe("0", true).satisfied).toBe(true);
+  });
+
+  test("any completes on the first satisfied child", () => {
+    const evaluator = createCompositeEvaluator("step", {
+      type: "any",
+      checks: [
+        { type: "command-pattern", pattern: "^systemctl start nginx" },
+        { type: "command-pattern", pattern: "^service nginx start" },
+      ],
+    });
+
+    expect(evaluator.recordCommand({ command: "ls", user: "student" }).satisfied).toBe(false);
+    expect(evaluator.recordCommand({ command: "service nginx start", user: "root" })).toEqual({
+      satisfied: true,
+      completedTasks: [1],
+    });
+  });
+
+  test("not inverts its child", () => {
+    const evaluator = createCompositeEvaluator("step", {
+      type: "all",
+      checks: [
+        { type: "file-exists", path: "/etc/app.conf" },
+        { type: "not", checks: [{ type: "file-exists", path: "/tmp/app.lock" }] },
+      ],
+    });
+
+    evaluator.recordProbe("1-0", true);
+    expect(evaluator.recordProbe("0", true).satisfied).toBe(false);
+    expect(evaluator.recordProbe("1-0", false)).toEqual({ satisfied: true, completedTasks: [1] });
+  });
+
+  test("sequence only advances in order and latches progress", () => {
+    const evaluator = createCompositeEvaluator("create-account", createAccount);
+
+    // Group membership first does not count...
+    expect(evaluator.recordProbe("2", true)).toEqual({ satisfied: false, completedTasks: [] });
+    // ...until the earlier children are satisfied
+    expect(evaluator.recordProbe("0", true)).toEqual({ satisfied: false, completedTasks: [0] });
+    expect(evaluator.recordProbe("1", true)).toEqual({ satisfied: true, completedTasks: [1, 2] });
+  });
+
+  test("sequence ignores commands run before the previous child was satisfied", () => {
+    const evaluator = createCompositeEvaluator("step", {
+      type: "sequence",
+      checks: [
+        { type: "command-pattern", pattern: "^useradd" },
+        { type: "user-check", user: "root", pattern: "^passwd" },
+      ],
+    });
+
+    evaluator.recordCommand({ command: "passwd devuser", user: "root" });
+    expect(evaluator.recordCommand({ command: "useradd devuser", user: "root" })).toEqual({
+      satisfied: false,
+      completedTasks: [0],
+    });
+    expect(evaluator.recordCommand({ command: "passwd devuser", user: "student" }).satisfied).toBe(false);
+    expect(evaluator.recordCommand({ command: "passwd devuser", user: "root" })).toEqual({
+      satisfied: true,
+      completedTasks: [1],
+    });
+  });
+
+  test("explicit task indexes are reported instead of positions", () => {
+    const evaluator = createCompositeEvaluator("step", {
+      type: "all",
+      checks: [
+        { type: "user-exists", user: "a", task: 3 },
+        { type: "user-exists", user: "b", task: 3 },
+      ],
+    });
+
+    expect(evaluator.recordProbe("0", true).completedTasks).toEqual([3]);
+    expect(evaluator.recordProbe("1", true)).toEqual({ satisfied: true, completedTasks: [] });
+  });
+});
+
+describe("Linux CLI adapter composites", () => {
+  let tempDir: string;
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function appendCommands(logPath: string, commands: string[]): void {
+    const lines = commands.map((command) =>
+      JSON.stringify({ timestamp: new Date().toISOString(), user: "root", pwd: "/root", command, exitCode: 0 })
+    );
+    appendFileSync(logPath, lines.join("\n") + "\n");
+  }
+
+  test("earlier commands are not replayed when commands.log grows", async () => {
+    tempDir = mkdtempSync(join(tmpdir(), "composite-adapter-test-"));
+    const logPath = join(tempDir, "commands.log");
+    const adapter = createLinuxCliAdapter({ moduleId: "no-such-module", logPath });
+    const completed: string[] = [];
+    let actions = 0;
+    adapter.onStepCompleted = (event) => completed.push(event.stepId);
+    adapter.onStudentAction = () => actions++;
+    adapter.addStepValidation!({
+      stepId: "setup",
+      rules: [],
+      checks: [],
+      composite: {
+        type: "sequence",
+        checks: [
+          { type: "command-pattern", pattern: "^useradd" },
+          { type: "command-pattern", pattern: "^chmod" },
+        ],
+      },
+    });
+
+    // Wrong order: chmod before useradd leaves the sequence unsatisfied
+    appendCommands(logPath, ["chmod 750 /home/devuser", "useradd devuser"]);
+    await adapter.start();
+    appendCommands(logPath, ["ls"]);
+    await new Promise((r) => setTimeout(r, 150));
+    adapter.stop();
+
+    expect(completed).toEqual([]);
+    expect(actions).toBe(3);
+  });
+});
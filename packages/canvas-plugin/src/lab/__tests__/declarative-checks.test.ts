@@ -0,0 +1,224 @@
+// Tests for declarative checks: static verification, compilation, loader wiring
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, writeFileSync, rmSync, chmodSync, mkdirSync, existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { spawnSync } from "child_process";
+import {
+  type DeclarativeCheck,
+  verifyDeclarativeCheck,
+  compileCheckScript,
+  compileCheckCondition,
+  describeDeclarativeCheck,
+  normalizeMode,
+  shellQuote,
+} from "../checks/declarative";
+import {
+  getCheckConfigs,
+  getValidationRules,
+  writeGeneratedChecks,
+  compileStepValidation,
+  writeStepChecks,
+  GENERATED_CHECKS_DIR,
+} from "../module-loader";
+import { validateModule } from "../validator";
+
+function runScript(script: string): { exitCode: number; stdout: string } {
+  const result = spawnSync("bash", ["-c", script], { encoding: "utf-8" });
+  return { exitCode: result.status ?? -1, stdout: result.stdout.trim() };
+}
+
+describe("verifyDeclarativeCheck", () => {
+  test("accepts well-formed checks of every type", () => {
+    const checks: DeclarativeCheck[] = [
+      { type: "file-exists", path: "/tmp/x", kind: "directory" },
+      { type: "file-mode", path: "/home/devuser", mode: "750" },
+      { type: "file-contains", path: "~/notes.txt", text: "hello" },
+      { type: "user-exists", user: "devuser" },
+      { type: "group-member", user: "devuser", group: "developers" },
+      { type: "command-output-matches", command: "hostname", pattern: "^lab", run_as: "student" },
+      { type: "process-running", process: "nginx" },
+      { type: "port-listening", port: 8080 },
+    ];
+
+    for (const check of checks) {
+      expect(verifyDeclarativeCheck(check)).toEqual([]);
+    }
+  });
+
+  test("reports missing required fields", () => {
+    expect(verifyDeclarativeCheck({ type: "file-mode", path: "/x" })).toContain("file-mode requires 'mode'");
+    expect(verifyDeclarativeCheck({ type: "group-member", user: "devuser" })).toContain("group-member requires 'group'");
+    expect(verifyDeclarativeCheck({ type: "file-contains", path: "/x" })).toContain(
+      "file-contains requires 'text' or 'pattern'"
+    );
+  });
+
+  test("reports malformed values", () => {
+    expect(verifyDeclarativeCheck({ type: "file-mode", path: "/x", mode: "799" })[0]).toContain("octal mode");
+    expect(verifyDeclarativeCheck({ type: "file-exists", path: "relative/path" })[0]).toContain("absolute");
+    expect(verifyDeclarativeCheck({ type: "port-listening", port: 70000 })[0]).toContain("between 1 and 65535");
+    expect(verifyDeclarativeCheck({ type: "user-exists", user: "bad user" })[0]).toContain("not a valid name");
+    expect(
+      verifyDeclarativeCheck({ type: "command-output-matches", command: "ls", pattern: "(" })[0]
+    ).toContain("not a valid regular expression");
+  });
+});
+
+describe("compileCheckScript", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "declarative-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test("file-exists passes only when the path exists", () => {
+    const path = join(tempDir, "report.txt");
+    const script = compileCheckScript("make-report", { type: "file-exists", path, kind: "file" });
+
+    expect(runScript(script).exitCode).toBe(1);
+    writeFileSync(path, "done");
+
+    const result = runScript(script);
+    expect(result.exitCode).toBe(0);
+    expect(JSON.parse(result.stdout)).toEqual({ status: "passed", message: `File ${path} exists` });
+  });
+
+  test("file-mode compares against stat output", () => {
+    const dir = join(tempDir, "home");
+    mkdirSync(dir);
+    chmodSync(dir, 0o755);
+    const script = compileCheckScript("set-permissions", { type: "file-mode", path: dir, mode: "0750" });
+
+    expect(runScript(script).exitCode).toBe(1);
+    chmodSync(dir, 0o750);
+    expect(runScript(script).exitCode).toBe(0);
+  });
+
+  test("file-contains supports fixed text and patterns", () => {
+    const path = join(tempDir, "config");
+    writeFileSync(path, "PermitRootLogin no\n");
+
+    expect(runScript(compileCheckScript("s", { type: "file-contains", path, text: "PermitRootLogin no" })).exitCode).toBe(0);
+    expect(runScript(compileCheckScript("s", { type: "file-contains", path, text: "yes" })).exitCode).toBe(1);
+    expect(runScript(compileCheckScript("s", { type: "file-contains", path, pattern: "^Permit.*no$" })).exitCode).toBe(0);
+  });
+
+  test("command-output-matches greps combined output", () => {
+    const pass = compileCheckScript("s", { type: "command-output-matches", command: "echo 'it''s ok'", pattern: "s ok$" });
+    const fail = compileCheckScript("s", { type: "command-output-matches", command: "echo nope", pattern: "^ok" });
+
+    expect(runScript(pass).exitCode).toBe(0);
+    expect(runScript(fail).exitCode).toBe(1);
+  });
+
+  test("port-listening looks up the hex port in /proc/net", () => {
+    const condition = compileCheckCondition({ type: "port-listening", port: 8080 });
+    expect(condition).toContain(":1F90 ");
+    expect(condition).toContain(" 0A ");
+    expect(condition).toContain("/proc/net/tcp6");
+  });
+
+  test("values are shell-quoted", () => {
+    expect(shellQuote("it's")).toBe(`'it'\\''s'`);
+    const condition = compileCheckCondition({ type: "user-exists", user: "a;rm -rf /" });
+    expect(condition).toContain("'a;rm -rf /'");
+  });
+
+  test("normalizes modes and describes checks", () => {
+    expect(normalizeMode("0750")).toBe("750");
+    expect(normalizeMode(750)).toBe("750");
+    expect(describeDeclarativeCheck({ type: "group-member", user: "devuser", group: "developers" })).toBe(
+      "User devuser is in group developers"
+    );
+  });
+});
+
+describe("module loader integration", () => {
+  test("linux-user-management compiles declarative checks to check-<stepId>.sh", () => {
+    const configs = getCheckConfigs("linux-user-management");
+    const setPermissions = configs.find((c) => c.stepId === "set-permissions");
+
+    expect(setPermissions?.script).toBe("check-set-permissions.sh");
+    expect(setPermissions?.compiled).toContain("stat -c %a '/home/devuser'");
+
+    // The hand-written root check is still a plain script
+    const becomeRoot = configs.find((c) => c.stepId === "become-root");
+    expect(becomeRoot?.script).toBe("check-is-root.sh");
+    expect(becomeRoot?.compiled).toBeUndefined();
+  });
+
+  test("declarative checks do not produce command validation rules", () => {
+    const rules = getValidationRules("linux-user-management");
+    expect(rules.some((r) => r.stepId === "set-permissions")).toBe(false);
+  });
+
+  test("writeGeneratedChecks writes compiled scripts into the log dir", () => {
+    const logDir = mkdtempSync(join(tmpdir(), "generated-checks-test-"));
+    try {
+      const written = writeGeneratedChecks("linux-user-management", logDir);
+      expect(written.length).toBe(3);
+
+      const scriptPath = join(logDir, GENERATED_CHECKS_DIR, "check-add-to-group.sh");
+      expect(existsSync(scriptPath)).toBe(true);
+      expect(readFileSync(scriptPath, "utf-8")).toContain("grep -qx -- 'developers'");
+    } finally {
+      rmSync(logDir, { recursive: true, force: true });
+    }
+  });
+
+  test("validateModule accepts declarative checks without script files", async () => {
+    const result = await validateModule("linux-user-management");
+    expect(result.errors).toEqual([]);
+    expect(result.stats.checkCount).toBe(4);
+  });
+});
+
+describe("compileStepValidation (steps added during a session)", () => {
+  test("compiles command rules, declarative checks and inline check scripts", () => {
+    const pattern = compileStepValidation("bonus-a", "Bonus A", { type: "command-pattern", pattern: "chmod 700" });
+    expect(pattern.rules.map((r) => [r.stepId, r.pattern?.source])).toEqual([["bonus-a", "chmod 700"]]);
+    expect(pattern.checks).toEqual([]);
+
+    const declarative = compileStepValidation("bonus-b", "Bonus B", { type: "file-mode", path: "/tmp/x", mode: "700" });
+    expect(declarative.checks[0].script).toBe("check-bonus-b.sh");
+    expect(declarative.checks[0].compiled).toContain("stat -c %a '/tmp/x'");
+
+    const inline = compileStepValidation("bonus-c", "Bonus C", { type: "check-script", body: "test -f /tmp/done" });
+    expect(inline.checks[0]).toMatchObject({ script: "check-bonus-c.sh", compiled: "test -f /tmp/done" });
+  });
+
+  test("throws on problems instead of warning", () => {
+    expect(() => compileStepValidation("../evil", "X", { type: "command-pattern", pattern: "x" })).toThrow("Invalid step ID");
+    expect(() => compileStepValidation("bonus", "X", "file-mode")).toThrow("must be a mapping");
+    expect(() => compileStepValidation("bonus", "X", { type: "command-pattern" })).toThrow("no 'pattern'");
+    expect(() => compileStepValidation("bonus", "X", { type: "file-mode", path: "/tmp" })).toThrow("invalid file-mode");
+    expect(() => compileStepValidation("bonus", "X", { type: "pytest", test: "t.py::t" })).toThrow("not supported");
+    expect(() => compileStepValidation("bonus", "X", { type: "made-up" })).toThrow("unknown validation type");
+  });
+
+  test("writeStepChecks writes the step's check and composite probes", () => {
+    const logDir = mkdtempSync(join(tmpdir(), "step-checks-test-"));
+    try {
+      const validation = compileStepValidation("bonus", "Bonus", {
+        type: "all",
+        checks: [
+          { type: "command-pattern", pattern: "chmod" },
+          { type: "file-exists", path: "/tmp/x" },
+        ],
+      });
+      const written = writeStepChecks(logDir, validation);
+
+      expect(validation.composite?.type).toBe("all");
+      expect(written).toHaveLength(1);
+      expect(written[0]).toStartWith(join(logDir, GENERATED_CHECKS_DIR, "probe-bonus"));
+    } finally {
+      rmSync(logDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,97 @@
+// Tests for git-* declarative checks, run against a real repository
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { spawnSync } from "child_process";
+import { type DeclarativeCheck, verifyDeclarativeCheck, compileCheckCondition } from "../checks/declarative";
+
+const GIT_ENV = {
+  ...process.env,
+  GIT_AUTHOR_NAME: "Lab Student",
+  GIT_AUTHOR_EMAIL: "student@lab.local",
+  GIT_COMMITTER_NAME: "Lab Student",
+  GIT_COMMITTER_EMAIL: "student@lab.local",
+};
+
+describe("git checks", () => {
+  let repo: string;
+
+  const git = (...args: string[]) => {
+    const result = spawnSync("git", ["-C", repo, ...args], { encoding: "utf-8", env: GIT_ENV });
+    if (result.status !== 0) throw new Error(result.stderr);
+  };
+
+  const passes = (check: Omit<DeclarativeCheck, "repo">): boolean => {
+    const condition = compileCheckCondition({ ...check, repo } as DeclarativeCheck);
+    return spawnSync("bash", ["-c", condition], { env: GIT_ENV }).status === 0;
+  };
+
+  beforeEach(() => {
+    repo = mkdtempSync(join(tmpdir(), "git-checks-test-"));
+    git("init", "-q", "-b", "main");
+    writeFileSync(join(repo, "README.md"), "# Project\n");
+    git("add", "README.md");
+    git("commit", "-q", "-m", "Initial commit");
+  });
+
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  test("verifies required fields and names", () => {
+    expect(verifyDeclarativeCheck({ type: "git-clean" })).toEqual(["git-clean requires 'repo'"]);
+    expect(verifyDeclarativeCheck({ type: "git-branch-exists", repo: "~/p", branch: "-x" })[0]).toContain("not a valid branch");
+    expect(verifyDeclarativeCheck({ type: "git-head-message", repo: "~/p" })[0]).toContain("'message' or 'pattern'");
+    expect(verifyDeclarativeCheck({ type: "git-file-staged", repo: "~/p", file: "/abs" })[0]).toContain("relative");
+    expect(verifyDeclarativeCheck({ type: "git-branch-exists", repo: "~/p", branch: "feature/about" })).toEqual([]);
+  });
+
+  test("git-branch-exists", () => {
+    expect(passes({ type: "git-branch-exists", branch: "feature/about" })).toBe(false);
+    git("branch", "feature/about");
+    expect(passes({ type: "git-branch-exists", branch: "feature/about" })).toBe(true);
+  });
+
+  test("git-file-staged, git-clean and git-head-message", () => {
+    writeFileSync(join(repo, "about.html"), "<h1>About</h1>\n");
+    expect(passes({ type: "git-clean" })).toBe(false);
+    expect(passes({ type: "git-file-staged", file: "about.html" })).toBe(false);
+
+    git("add", "about.html");
+    expect(passes({ type: "git-file-staged", file: "about.html" })).toBe(true);
+
+    git("commit", "-q", "-m", "Add about page");
+    expect(passes({ type: "git-clean" })).toBe(true);
+    expect(passes({ type: "git-head-message", message: "about page" })).toBe(true);
+    expect(passes({ type: "git-head-message", pattern: "^Add .* page$" })).toBe(true);
+    expect(passes({ type: "git-head-message", message: "Initial" })).toBe(false);
+  });
+
+  test("git-merge-complete fails during a conflicted merge", () => {
+    git("switch", "-q", "-c", "feature");
+    writeFileSync(join(repo, "README.md"), "# Feature\n");
+    git("commit", "-q", "-am", "Feature title");
+    git("switch", "-q", "main");
+    writeFileSync(join(repo, "README.md"), "# Main\n");
+    git("commit", "-q", "-am", "Main title");
+
+    expect(passes({ type: "git-merge-complete", branch: "feature" })).toBe(false);
+    spawnSync("git", ["-C", repo, "merge", "feature"], { env: GIT_ENV });
+    expect(passes({ type: "git-merge-complete" })).toBe(false);
+
+    writeFileSync(join(repo, "README.md"), "# Resolved\n");
+    git("add", "README.md");
+    git("commit", "-q", "--no-edit");
+    expect(passes({ type: "git-merge-complete", branch: "feature" })).toBe(true);
+  });
+
+  test("git-remote with and without a URL", () => {
+    expect(passes({ type: "git-remote", remote: "origin" })).toBe(false);
+    git("remote", "add", "origin", "/srv/git/project.git");
+    expect(passes({ type: "git-remote", remote: "origin" })).toBe(true);
+    expect(passes({ type: "git-remote", remote: "origin", url: "/srv/git/project.git" })).toBe(true);
+    expect(passes({ type: "git-remote", remote: "origin", url: "/srv/git/other.git" })).toBe(false);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Pytest Runner Tests
+ * JUnit report parsing, node ID matching and running pytest locally
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, cpSync, writeFileSync, rmSync, existsSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { spawnSync } from "child_process";
+import {
+  parseJunitReport,
+  matchTestOutcomes,
+  junitNameForNodeId,
+  buildPytestCommand,
+  runPytest,
+  PYTEST_REPORT_FILE,
+} from "../pytest";
+import { getLabsPath, getPytestChecks } from "../module-loader";
+
+const REPORT = `<?xml version="1.0" encoding="utf-8"?><testsuites><testsuite name="pytest">
+<testcase classname="tests.test_main" name="test_hello_world" time="0.001" />
+<testcase classname="tests.test_main" name="test_greet" time="0.002"><failure message="AssertionError: assert 'Hi' == 'Hello, Alice!'&#10;  - Hello">details</failure></testcase>
+<testcase classname="tests.test_main.TestMath" name="test_add[1-2]" time="0.001" />
+<testcase classname="tests.test_main.TestMath" name="test_add[2-3]" time="0.003"><error message="fixture &quot;db&quot; not found">e</error></testcase>
+<testcase classname="tests.test_main" name="test_later" time="0.000"><skipped type="pytest.skip" message="not yet">s</skipped></testcase>
+</testsuite></testsuites>`;
+
+describe("JUnit report parsing", () => {
+  test("parses outcomes, messages and durations", () => {
+    const cases = parseJunitReport(REPORT);
+    expect(cases.map((c) => c.outcome)).toEqual(["passed", "failed", "passed", "error", "skipped"]);
+    expect(cases[1].message).toBe("AssertionError: assert 'Hi' == 'Hello, Alice!'\n  - Hello");
+    expect(cases[3].message).toBe('fixture "db" not found');
+    expect(cases[1].time).toBe(0.002);
+  });
+
+  test("maps node IDs to JUnit names", () => {
+    expect(junitNameForNodeId("tests/test_main.py::TestMath::test_add")).toEqual({
+      classname: "tests.test_main.TestMath",
+      name: "test_add",
+      module: "tests.test_main",
+    });
+  });
+
+  test("matches node IDs, folding parametrized cases", () => {
+    const outcomes = matchTestOutcomes(
+      [
+        "tests/test_main.py::test_hello_world",
+        "tests/test_main.py::test_greet",
+        "tests/test_main.py::TestMath::test_add",
+        "tests/test_main.py::test_later",
+        "tests/test_other.py::test_missing",
+      ],
+      parseJunitReport(REPORT)
+    );
+    expect(outcomes.map((o) => o.outcome)).toEqual(["passed", "failed", "error", "skipped", "error"]);
+    expect(outcomes[2].duration).toBeCloseTo(0.004);
+    expect(outcomes[4].message).toBe("Test not found");
+  });
+
+  test("reports collection errors against the module's tests", () => {
+    const xml = `<testcase classname="" name="tests.test_main" time="0.000"><error message="collection failure">ImportError</error></testcase>`;
+    const [outcome] = matchTestOutcomes(["tests/test_main.py::test_greet"], parseJunitReport(xml));
+    expect(outcome).toMatchObject({ outcome: "error", message: "collection failure" });
+  });
+});
+
+describe("buildPytestCommand", () => {
+  test("runs locally in the workspace, or in the container via docker exec", () => {
+    expect(buildPytestCommand(["t.py::a"], { workspacePath: "/w", venvPath: "/w/.venv" })).toMatchObject({
+      command: "/w/.venv/bin/python",
+      cwd: "/w",
+    });
+    const docker = buildPytestCommand(["t.py::a"], {
+      workspacePath: "/tmp/lab/workspace",
+      containerId: "abc123",
+      containerWorkspacePath: "/var/log/lab-commands/workspace",
+    });
+    expect(docker.command).toBe("docker");
+    expect(docker.args.slice(0, 5)).toEqual(["exec", "-w", "/var/log/lab-commands/workspace", "abc123", "python3"]);
+    expect(docker.args).toContain(`--junitxml=${PYTEST_REPORT_FILE}`);
+  });
+});
+
+const hasPytest = spawnSync("python3", ["-m", "pytest", "--version"]).status === 0;
+
+describe.skipIf(!hasPytest)("runPytest", () => {
+  let workspace: string;
+  const tests = () => getPytestChecks("python-fundamentals").map((c) => c.test);
+
+  beforeEach(() => {
+    workspace = mkdtempSync(join(tmpdir(), "pytest-runner-test-"));
+    cpSync(join(getLabsPath(), "python-fundamentals", "starter"), workspace, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  test("reports every test as an error when the module doesn't import", async () => {
+    const run = await runPytest(tests(), { workspacePath: workspace });
+    expect(run.outcomes.map((o) => o.outcome)).toEqual(["error", "error"]);
+    expect(existsSync(join(workspace, PYTEST_REPORT_FILE))).toBe(false);
+  });
+
+  test("reports per-test outcomes", async () => {
+    writeFileSync(join(workspace, "src", "main.py"), 'def hello():\n    return "Hello, World!"\n\ndef greet(name):\n    return "Hi"\n');
+    const run = await runPytest(tests(), { workspacePath: workspace });
+    expect(run.outcomes.map((o) => o.outcome)).toEqual(["passed", "failed"]);
+    expect(run.outcomes[1].message).toContain("AssertionError");
+  });
+
+  test("reports a missing interpreter as errors", async () => {
+    const run = await runPytest(tests(), { workspacePath: workspace, interpreter: "/nonexistent/python" });
+    expect(run.outcomes.every((o) => o.outcome === "error")).toBe(true);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * On-Demand Check Tests
+ * Container paths of check scripts, result explanations and the adapter's runCheck
+ */
+
+import { describe, test, expect } from "bun:test";
+import { getContainerCheckPath, explainCheckResult } from "../checks/run-check";
+import { createLinuxCliAdapter } from "../adapters/linux-cli-adapter";
+import { compileStepValidation, getCheckConfigs } from "../module-loader";
+
+describe("getContainerCheckPath", () => {
+  test("module checks run from the module dir, compiled checks from the mounted log dir", () => {
+    const [moduleCheck] = getCheckConfigs("simple-lab-poc");
+    expect(getContainerCheckPath("simple-lab-poc", moduleCheck)).toBe(
+      "/opt/lab/modules/simple-lab-poc/checks/check-file-exists.sh"
+    );
+
+    const added = compileStepValidation("bonus-perms", "Bonus", { type: "file-mode", path: "/home/devuser", mode: "700" });
+    expect(getContainerCheckPath("simple-lab-poc", added.checks[0])).toBe(
+      "/var/log/lab-commands/generated-checks/check-bonus-perms.sh"
+    );
+  });
+});
+
+describe("explainCheckResult", () => {
+  test("uses the last line the check printed", () => {
+    expect(explainCheckResult(1, "checking /tmp/testfile.txt\nfile is missing\n\n")).toBe("file is missing");
+    expect(explainCheckResult(0, "File exists\n")).toBe("Check passed: File exists");
+  });
+
+  test("falls back to the exit status", () => {
+    expect(explainCheckResult(1, "")).toBe("Check exited with status 1");
+    expect(explainCheckResult(0, "")).toBe("Check passed");
+    expect(explainCheckResult(null, "")).toBe("Check did not finish");
+  });
+});
+
+describe("Linux CLI adapter runCheck", () => {
+  test("needs a check script and a lab container", async () => {
+    const adapter = createLinuxCliAdapter({ moduleId: "simple-lab-poc", logPath: "/tmp/no-such-lab/commands.log" });
+
+    await expect(adapter.runCheck!("summary")).rejects.toThrow("Step summary has no check script to run");
+    await expect(adapter.runCheck!("create-file")).rejects.toThrow("No lab container to run the check in");
+  });
+});
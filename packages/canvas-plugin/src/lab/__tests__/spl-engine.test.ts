@@ -0,0 +1,136 @@
+/**
+ * SPL Engine Tests
+ * Parsing, evaluation and result comparison for splunk labs
+ */
+
+import { describe, test, expect } from "bun:test";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { parseSpl, runSpl, loadDataset, compareResults, formatResults, SplError, type SplRecord } from "../spl";
+import { loadModule, getSplChecks, getModuleDatasetPath } from "../module-loader";
+
+const events: SplRecord[] = [
+  { index: "security", action: "failure", user: "root", src_ip: "203.0.113.45", bytes: 10, _raw: "Failed password for root from 203.0.113.45" },
+  { index: "security", action: "failure", user: "root", src_ip: "203.0.113.45", bytes: 20, _raw: "Failed password for root from 203.0.113.45" },
+  { index: "security", action: "failure", user: "test", src_ip: "198.51.100.7", bytes: 30, _raw: "Failed password for invalid user test from 198.51.100.7" },
+  { index: "security", action: "success", user: "alice", src_ip: "10.0.4.12", bytes: 40, _raw: "Accepted password for alice from 10.0.4.12" },
+  { index: "web", status: "404", _raw: "GET /missing 404" },
+];
+
+describe("SPL parser", () => {
+  test("first segment is an implicit search", () => {
+    const commands = parseSpl("index=security | stats count");
+    expect(commands.map((c) => c.command)).toEqual(["search", "stats"]);
+  });
+
+  test("rejects unsupported commands", () => {
+    expect(() => parseSpl("index=security | eval x=1")).toThrow(SplError);
+  });
+
+  test("rex requires a named group", () => {
+    expect(() => parseSpl('* | rex "user (\\w+)"')).toThrow(/named/);
+  });
+
+  test("quoted pipes are not command separators", () => {
+    const result = runSpl('"GET /missing 404" | stats count', events);
+    expect(result.rows).toEqual([{ count: 1 }]);
+  });
+});
+
+describe("SPL engine", () => {
+  test("search filters by field, wildcard and OR", () => {
+    expect(runSpl("index=security action=failure", events).rows).toHaveLength(3);
+    expect(runSpl("src_ip=203.0.113.*", events).rows).toHaveLength(2);
+    expect(runSpl("user=alice OR user=test", events).rows).toHaveLength(2);
+    expect(runSpl("index=security NOT action=failure", events).rows).toHaveLength(1);
+  });
+
+  test("stats count by field", () => {
+    const result = runSpl("action=failure | stats count by user", events);
+    expect(result.fields).toEqual(["user", "count"]);
+    expect(result.rows).toEqual([
+      { user: "root", count: 2 },
+      { user: "test", count: 1 },
+    ]);
+  });
+
+  test("stats aggregations with renames", () => {
+    const result = runSpl("index=security | stats sum(bytes) as total avg(bytes) dc(src_ip) as ips", events);
+    expect(result.rows).toEqual([{ total: 100, "avg(bytes)": 25, ips: 3 }]);
+  });
+
+  test("where compares numbers and calls functions", () => {
+    expect(runSpl("index=security | where bytes > 15 AND like(user, \"%o%\")", events).rows).toHaveLength(1);
+    expect(runSpl("* | where isnull(user)", events).rows).toHaveLength(1);
+  });
+
+  test("sort, head and table", () => {
+    const result = runSpl("index=security | sort - bytes | head 2 | table user bytes", events);
+    expect(result.fields).toEqual(["user", "bytes"]);
+    expect(result.rows).toEqual([
+      { user: "alice", bytes: 40 },
+      { user: "test", bytes: 30 },
+    ]);
+  });
+
+  test("rex extracts named groups from _raw", () => {
+    const result = runSpl('"invalid user" | rex "invalid user (?<bad_user>\\w+)" | table bad_user', events);
+    expect(result.rows).toEqual([{ bad_user: "test" }]);
+  });
+
+  test("loads JSON lines and fills in index and _raw", () => {
+    const dir = mkdtempSync(join(tmpdir(), "spl-dataset-"));
+    try {
+      const file = join(dir, "events.jsonl");
+      writeFileSync(file, '{"user":"bob","action":"success"}\n{"user":"eve"}\n');
+      const loaded = loadDataset(file);
+      expect(loaded).toHaveLength(2);
+      expect(loaded[0].index).toBe("main");
+      expect(loaded[0]._raw).toBe("user=bob action=success");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("SPL result comparison", () => {
+  const rows: SplRecord[] = [
+    { src_ip: "203.0.113.45", count: 10 },
+    { src_ip: "198.51.100.7", count: 4 },
+  ];
+
+  test("exact match ignores extra fields and row order", () => {
+    expect(compareResults(rows, [{ count: "4" }, { count: 10 }]).matched).toBe(true);
+    expect(compareResults(rows, [{ count: 10 }]).matched).toBe(false);
+  });
+
+  test("ordered match requires row order", () => {
+    expect(compareResults(rows, [{ count: 4 }, { count: 10 }], { ordered: true }).matched).toBe(false);
+  });
+
+  test("contains match accepts a subset", () => {
+    expect(compareResults(rows, [{ src_ip: "198.51.100.7" }], { match: "contains" }).matched).toBe(true);
+  });
+
+  test("formats a table with a result count", () => {
+    const output = formatResults(rows, ["src_ip", "count"]);
+    expect(output).toContain("203.0.113.45  10");
+    expect(output).toContain("2 results");
+  });
+});
+
+describe("splunk-failed-logins lab", () => {
+  test("every step's solution satisfies its validation", () => {
+    const module = loadModule("splunk-failed-logins");
+    const dataset = loadDataset(getModuleDatasetPath("splunk-failed-logins")!);
+    const checks = getSplChecks("splunk-failed-logins");
+    expect(checks.length).toBeGreaterThan(0);
+
+    for (const check of checks) {
+      const solution = module.steps.find((s) => s.id === check.stepId)!.content.solution!.command!;
+      const expected = check.reference ? runSpl(check.reference, dataset).rows : check.expected!;
+      expect(compareResults(runSpl(solution, dataset).rows, expected, check).matched).toBe(true);
+    }
+  });
+});
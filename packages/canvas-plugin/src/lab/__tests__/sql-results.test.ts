@@ -0,0 +1,42 @@
+/**
+ * SQL Result Set Tests
+ * Comparison rules for sql-results validations
+ */
+
+import { describe, test, expect } from "bun:test";
+import { compareResultSets, type SqlResultSet } from "../sql";
+
+const result: SqlResultSet = {
+  columns: ["name", "total"],
+  rows: [
+    ["Engineering", 333000],
+    ["Sales", 140000],
+  ],
+};
+
+describe("compareResultSets", () => {
+  test("ignores column names", () => {
+    expect(compareResultSets(result, [{ dept: "Engineering", sum: 333000 }, ["Sales", 140000]]).matched).toBe(true);
+  });
+
+  test("unordered by default, ordered on request", () => {
+    const reversed = [["Sales", 140000], ["Engineering", 333000]];
+    expect(compareResultSets(result, reversed).matched).toBe(true);
+    expect(compareResultSets(result, reversed, { ordered: true }).matched).toBe(false);
+  });
+
+  test("numbers compare by value", () => {
+    expect(compareResultSets(result, [["Engineering", "333000"], ["Sales", 140000.0000001]]).matched).toBe(true);
+  });
+
+  test("row and column counts must match", () => {
+    expect(compareResultSets(result, [["Engineering", 333000]]).reason).toContain("row");
+    expect(compareResultSets(result, [["Engineering"], ["Sales"]]).reason).toContain("column");
+  });
+
+  test("NULL only matches NULL", () => {
+    const nulls: SqlResultSet = { columns: ["x"], rows: [[null]] };
+    expect(compareResultSets(nulls, [[null]]).matched).toBe(true);
+    expect(compareResultSets(nulls, [[0]]).matched).toBe(false);
+  });
+});
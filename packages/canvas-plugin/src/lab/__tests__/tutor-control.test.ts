@@ -5,6 +5,9 @@ import { mkdirSync, rmSync, writeFileSync, readFileSync, existsSync } from "fs";
 import { join } from "path";
 import { createTutorControlWatcher } from "../tutor-control/control-watcher";
 import { createStateWriter } from "../tutor-control/state-writer";
+import { createTutorCommandProcessor } from "../tutor-control/command-processor";
+import { createTutorControlServer } from "../tutor-control/control-server";
+import { createTutorControlClient, queueTutorCommand } from "../tutor-control/control-client";
 import type { LabMessage } from "../../ipc/types";
 import type { TutorCommandsFile } from "../tutor-control/types";
 
@@ -57,9 +60,8 @@ describe("TutorControlWatcher", () => {
     await Bun.sleep(100);
     watcher.stop();
 
-    // Check that message was sent
-    expect(messages.length).toBe(1);
-    expect(messages[0].type).toBe("addDynamicStep");
+    // Check that message was sent, then acknowledged
+    expect(messages.map((m) => m.type)).toEqual(["addDynamicStep", "tutorCommandAck"]);
     if (messages[0].type === "addDynamicStep") {
       expect(messages[0].step.id).toBe("bonus-task");
       expect(messages[0].step.title).toBe("Bonus: Test Task");
@@ -96,8 +98,7 @@ describe("TutorControlWatcher", () => {
     await Bun.sleep(100);
     watcher.stop();
 
-    expect(messages.length).toBe(1);
-    expect(messages[0].type).toBe("taskCompleted");
+    expect(messages.map((m) => m.type)).toEqual(["taskCompleted", "tutorCommandAck"]);
     if (messages[0].type === "taskCompleted") {
       expect(messages[0].stepId).toBe("bonus-task");
       expect(messages[0].source).toBe("tutor");
@@ -152,6 +153,78 @@ describe("TutorControlWatcher", () => {
     // No new messages should be sent
     expect(messages.length).toBe(0);
   });
+
+  test("sends the VTA messages for navigation and content commands", async () => {
+    const watcher = createTutorControlWatcher({
+      logDir: testDir,
+      sendMessage: (msg) => messages.push(msg),
+    });
+
+    const commandsFile: TutorCommandsFile = {
+      commands: [
+        { id: "c1", type: "skipStep", payload: { stepId: "step-1", reason: "knows it" }, status: "pending" },
+        { id: "c2", type: "revealHint", payload: { stepId: "step-2", hintIndex: 1 }, status: "pending" },
+        { id: "c3", type: "goToStep", payload: { stepId: "step-2" }, status: "pending" },
+        { id: "c4", type: "updateStep", payload: { stepId: "step-2", content: { instructions: "Simpler" } }, status: "pending" },
+        { id: "c5", type: "moveStep", payload: { stepId: "step-3", afterStepId: "step-1" }, status: "pending" },
+      ],
+    };
+    writeFileSync(commandsPath, JSON.stringify(commandsFile, null, 2));
+
+    watcher.start();
+    await Bun.sleep(100);
+    watcher.stop();
+
+    expect(messages.filter((m) => m.type !== "tutorCommandAck")).toEqual([
+      { type: "stepSkipped", stepId: "step-1", reason: "knows it" },
+      { type: "revealHint", stepId: "step-2", hintIndex: 1 },
+      { type: "goToStep", stepId: "step-2" },
+      { type: "updateStep", stepId: "step-2", content: { instructions: "Simpler" } },
+      { type: "moveStep", stepId: "step-3", afterStepId: "step-1" },
+    ]);
+    const acks = messages.filter((m) => m.type === "tutorCommandAck");
+    expect(acks.map((m) => m.type === "tutorCommandAck" && m.status)).toEqual(["done", "done", "done", "done", "done"]);
+  });
+
+  test("rejects malformed commands and unknown steps with an error ack", async () => {
+    const processed: string[] = [];
+    const watcher = createTutorControlWatcher({
+      logDir: testDir,
+      sendMessage: (msg) => messages.push(msg),
+      hasStep: (stepId) => stepId !== "missing",
+      onCommandProcessed: (command) => processed.push(`${command.id}:${command.status}`),
+    });
+
+    const commandsFile: TutorCommandsFile = {
+      commands: [
+        { id: "c1", type: "goToStep", payload: { stepId: "missing" }, status: "pending" },
+        { id: "c2", type: "revealHint", payload: { stepId: "step-1", hintIndex: -1 }, status: "pending" },
+        { id: "c3", type: "setPreset", payload: { presetId: "strict" }, status: "pending" },
+        {
+          id: "c4",
+          type: "addStep",
+          payload: { stepId: "quiz", step: { title: "Quiz", type: "question", content: {} } },
+          status: "pending",
+        },
+      ],
+    };
+    writeFileSync(commandsPath, JSON.stringify(commandsFile, null, 2));
+
+    watcher.start();
+    await Bun.sleep(100);
+    watcher.stop();
+
+    expect(messages.every((m) => m.type === "tutorCommandAck" && m.status === "error")).toBe(true);
+    expect(processed).toEqual(["c1:error", "c2:error", "c3:error", "c4:error"]);
+
+    const updated = JSON.parse(readFileSync(commandsPath, "utf-8")) as TutorCommandsFile;
+    expect(updated.commands.map((c) => c.error)).toEqual([
+      "Unknown step 'missing'",
+      "revealHint needs a 'hintIndex' of 0 or more",
+      "setPreset is not supported by this lab",
+      "question steps need 'content.question'",
+    ]);
+  });
 });
 
 describe("StateWriter", () => {
@@ -251,6 +324,20 @@ describe("StateWriter", () => {
     expect(state!.steps[2].id).toBe("bonus-task");
   });
 
+  test("skips and moves steps", () => {
+    const writer = createStateWriter({ logDir: testDir });
+
+    writer.initialize(["intro", "task-1", "task-2", "summary"]);
+    writer.skipStep("task-1", "already knows it");
+    writer.moveStep("task-2", "intro");
+
+    const state = writer.getState();
+    expect(state!.steps.map((s) => s.id)).toEqual(["intro", "task-2", "task-1", "summary"]);
+    expect(state!.steps[2].skipped).toBe(true);
+    expect(state!.steps[2].skipReason).toBe("already knows it");
+    expect(state!.steps[2].completed).toBe(false);
+  });
+
   test("does not add duplicate step", () => {
     const writer = createStateWriter({
       logDir: testDir,
@@ -265,3 +352,94 @@ describe("StateWriter", () => {
     expect(state!.steps.length).toBe(2);
   });
 });
+
+describe("TutorControlServer", () => {
+  const testDir = `/tmp/test-control-server-${Date.now()}`;
+  let messages: LabMessage[] = [];
+
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true });
+    messages = [];
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  function createServer() {
+    const writer = createStateWriter({ logDir: testDir });
+    writer.initialize(["step-1", "step-2"]);
+    const processor = createTutorCommandProcessor({
+      sendMessage: (msg) => messages.push(msg),
+      onMarkComplete: (stepId) => writer.markCompleted(stepId, "tutor"),
+      hasStep: (stepId) => !!writer.getState()?.steps.some((s) => s.id === stepId),
+    });
+    return createTutorControlServer({
+      socketPath: join(testDir, "control.sock"),
+      commandsLogPath: join(testDir, "commands.log"),
+      processor,
+      getState: () => writer.getState(),
+    });
+  }
+
+  test("answers an in-process client with state, acks and recent commands", async () => {
+    const server = createServer();
+    const client = createTutorControlClient({ socketPath: "unused", fetch: server.handle });
+
+    expect((await client.listSteps()).map((s) => s.id)).toEqual(["step-1", "step-2"]);
+
+    const done = await client.markComplete("step-1");
+    expect(done).toMatchObject({ type: "tutorCommandAck", status: "done" });
+    expect((await client.getState()).steps[0].completedBy).toBe("tutor");
+
+    const rejected = await client.sendCommand({ id: "go-1", type: "goToStep", payload: { stepId: "missing" } });
+    expect(rejected).toEqual({ type: "tutorCommandAck", commandId: "go-1", status: "error", message: "Unknown step 'missing'" });
+
+    expect((await client.getTutorCommandHistory(1)).map((c) => c.id)).toEqual(["go-1"]);
+    expect(messages.filter((m) => m.type === "tutorCommandAck")).toHaveLength(2);
+    await expect(client.runCheck("step-1")).rejects.toThrow("cannot run checks on demand");
+  });
+
+  test("reads the student's recent shell commands from commands.log", async () => {
+    const entry = (command: string, exitCode: number) =>
+      JSON.stringify({ timestamp: new Date().toISOString(), user: "student", pwd: "/home/student", command, exitCode, durationMs: 12 });
+    const lines = [entry("ls", 0), entry("useradd devuser", 1), entry("sudo useradd devuser", 0)];
+    // The last line is still being written
+    writeFileSync(join(testDir, "commands.log"), lines.join("\n") + '\n{"partial');
+    const client = createTutorControlClient({ socketPath: "unused", fetch: createServer().handle });
+
+    const commands = await client.getStudentCommands(2);
+    expect(commands.map((c) => [c.command, c.exitCode])).toEqual([
+      ["useradd devuser", 1],
+      ["sudo useradd devuser", 0],
+    ]);
+    expect(commands[0].durationMs).toBe(12);
+    expect(await client.getTutorCommandHistory()).toEqual([]);
+  });
+
+  test("serves the API on its Unix socket", async () => {
+    const server = createServer();
+    server.start();
+    try {
+      const client = createTutorControlClient({ socketPath: join(testDir, "control.sock") });
+      expect((await client.getState()).steps).toHaveLength(2);
+    } finally {
+      server.stop();
+    }
+    expect(existsSync(join(testDir, "control.sock"))).toBe(false);
+  });
+
+  test("queued commands fall back to the file watcher", async () => {
+    writeFileSync(join(testDir, "tutor-commands.json"), JSON.stringify({ commands: [] }));
+    const watcher = createTutorControlWatcher({ logDir: testDir, sendMessage: (msg) => messages.push(msg) });
+
+    const queued = queueTutorCommand(testDir, { type: "goToStep", payload: { stepId: "step-2" } });
+    watcher.start();
+    await Bun.sleep(100);
+    watcher.stop();
+
+    const file = JSON.parse(readFileSync(join(testDir, "tutor-commands.json"), "utf-8")) as TutorCommandsFile;
+    expect(file.commands).toMatchObject([{ id: queued.id, status: "done" }]);
+    expect(messages[0]).toEqual({ type: "goToStep", stepId: "step-2" });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * xAPI Export Tests
+ * Telemetry → statement mapping and delivery to the local LRS
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createEventLogger, interpretLabProgress, type TelemetryEvent } from "../telemetry";
+import {
+  exportSessionStatements,
+  toXapiStatement,
+  sendStatements,
+  createLocalLrs,
+  uuidFromString,
+  toIsoDuration,
+  XAPI_VERBS,
+  type LocalLrs,
+} from "../xapi";
+
+const BASE = "https://lms.example.com/xapi";
+
+function recordSession(logDir: string): TelemetryEvent[] {
+  const logger = createEventLogger({ logDir, moduleId: "linux-basics", studentId: "alice", sessionId: "sess-1" });
+  logger.startSession(1);
+  logger.logStepStarted("create-user", "task");
+  logger.logStudentAction("create-user", "execute_command", "useradd bob", "failure", {
+    exit_code: 9,
+    error_message: "useradd: user 'bob' already exists",
+  });
+  logger.logHintRequested("create-user", 0, 2);
+  logger.logCheckFailed("create-user", 1, "check-create-user.sh", "user missing");
+  logger.logCheckPassed("create-user", "check", "check-create-user.sh");
+  logger.logStepCompleted("create-user", "check", 95);
+  logger.logStepStarted("quiz", "question");
+  logger.logQuestionAnswered("quiz", true, ["b"], ["b"], 1);
+  logger.logStepCompleted("quiz", "question", 12);
+  logger.endSession("completed", 3723.5);
+  return logger.getEvents();
+}
+
+describe("xAPI statement mapping", () => {
+  let logDir: string;
+  let events: TelemetryEvent[];
+
+  beforeAll(() => {
+    logDir = mkdtempSync(join(tmpdir(), "xapi-test-"));
+    events = recordSession(logDir);
+  });
+
+  afterAll(() => {
+    rmSync(logDir, { recursive: true, force: true });
+  });
+
+  test("maps each event to a verb, skipping the legacy command event", () => {
+    const statements = exportSessionStatements(events, { activityBase: BASE });
+    expect(statements.map((s) => s.verb.display["en-US"])).toEqual([
+      "initialized",
+      "attempted",
+      "interacted",
+      "viewed",
+      "failed",
+      "passed",
+      "completed",
+      "attempted",
+      "answered",
+      "completed",
+      "completed",
+    ]);
+  });
+
+  test("uses lab and step activity IDs under the activity base", () => {
+    const [started, stepStarted, , hint] = exportSessionStatements(events, { activityBase: BASE });
+
+    expect(started.object.id).toBe(`${BASE}/labs/linux-basics`);
+    expect(started.context?.contextActivities).toBeUndefined();
+    expect(stepStarted.object.id).toBe(`${BASE}/labs/linux-basics/steps/create-user`);
+    expect(stepStarted.object.definition?.type).toBe("http://adlnet.gov/expapi/activities/performance");
+    expect(stepStarted.context?.contextActivities?.parent?.[0].id).toBe(`${BASE}/labs/linux-basics`);
+    expect(hint.object.id).toBe(`${BASE}/labs/linux-basics/steps/create-user/hints/0`);
+    expect(stepStarted.actor.account).toEqual({ homePage: BASE, name: "alice" });
+  });
+
+  test("statement IDs and registration are stable across exports", () => {
+    const first = exportSessionStatements(events);
+    const second = exportSessionStatements(events);
+
+    expect(first.map((s) => s.id)).toEqual(second.map((s) => s.id));
+    expect(new Set(first.map((s) => s.context?.registration))).toEqual(new Set([uuidFromString("sess-1")]));
+    expect(uuidFromString("sess-1")).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  });
+
+  test("carries results for actions and answers", () => {
+    const statements = exportSessionStatements(events, { activityBase: BASE });
+    const action = statements.find((s) => s.verb.id === XAPI_VERBS.interacted.id)!;
+    const answer = statements.find((s) => s.verb.id === XAPI_VERBS.answered.id)!;
+
+    expect(action.result).toMatchObject({ success: false, response: "useradd bob" });
+    expect(action.result?.extensions?.[`${BASE}/extensions/exit-code`]).toBe(9);
+    expect(answer.result).toMatchObject({ success: true, response: "b" });
+    expect(answer.object.definition).toMatchObject({ interactionType: "choice", correctResponsesPattern: ["b"] });
+  });
+
+  test("adds LabProgress scores to step and lab completions", () => {
+    const progress = interpretLabProgress({
+      events,
+      moduleId: "linux-basics",
+      studentId: "alice",
+      sessionId: "sess-1",
+      stepIds: ["create-user", "quiz"],
+    });
+    const statements = exportSessionStatements(events, { progress });
+    const labCompleted = statements[statements.length - 1];
+    const stepCompleted = statements.find((s) => s.verb.id === XAPI_VERBS.completed.id)!;
+
+    expect(labCompleted.result).toMatchObject({
+      success: progress.passed,
+      completion: true,
+      duration: "PT1H2M3.5S",
+      score: { scaled: progress.overall_score },
+    });
+    expect(stepCompleted.result?.score?.scaled).toBe(progress.tasks["create-user"].confidence);
+  });
+
+  test("returns null for tutor utterances", () => {
+    const utterance = {
+      timestamp: new Date().toISOString(),
+      session_id: "sess-1",
+      claude_session_id: "c",
+      event_type: "tutor_utterance",
+      content: "Nice work!",
+    } as TelemetryEvent;
+    expect(toXapiStatement(utterance)).toBeNull();
+  });
+
+  test("formats ISO 8601 durations", () => {
+    expect(toIsoDuration(0)).toBe("PT0S");
+    expect(toIsoDuration(95)).toBe("PT1M35S");
+    expect(toIsoDuration(7200)).toBe("PT2H");
+  });
+});
+
+describe("Local LRS", () => {
+  let logDir: string;
+  let lrs: LocalLrs;
+
+  beforeAll(() => {
+    logDir = mkdtempSync(join(tmpdir(), "xapi-lrs-test-"));
+    lrs = createLocalLrs({ auth: "lab:secret" });
+  });
+
+  afterAll(() => {
+    lrs.stop();
+    rmSync(logDir, { recursive: true, force: true });
+  });
+
+  test("stores statements sent in batches; re-sending is idempotent", async () => {
+    const statements = exportSessionStatements(recordSession(logDir));
+
+    const ids = await sendStatements(statements, { endpoint: lrs.endpoint, auth: "lab:secret", batchSize: 4 });
+    expect(ids).toEqual(statements.map((s) => s.id));
+    expect(lrs.getStatements()).toHaveLength(statements.length);
+
+    await sendStatements(statements, { endpoint: lrs.endpoint, auth: "lab:secret" });
+    expect(lrs.getStatements()).toHaveLength(statements.length);
+  });
+
+  test("filters statements by verb", async () => {
+    const url = `${lrs.endpoint}/statements?verb=${encodeURIComponent(XAPI_VERBS.answered.id)}`;
+    const response = await fetch(url, {
+      headers: { "X-Experience-API-Version": "1.0.3", Authorization: `Basic ${btoa("lab:secret")}` },
+    });
+    const body = (await response.json()) as { statements: unknown[] };
+    expect(body.statements).toHaveLength(1);
+  });
+
+  test("rejects bad credentials, conflicting IDs and invalid statements", async () => {
+    const [statement] = lrs.getStatements();
+    const { stored: _stored, ...resend } = statement;
+
+    await expect(sendStatements([resend], { endpoint: lrs.endpoint, auth: "lab:wrong" })).rejects.toThrow("401");
+    await expect(
+      sendStatements([{ ...resend, verb: XAPI_VERBS.failed }], { endpoint: lrs.endpoint, auth: "lab:secret" })
+    ).rejects.toThrow("409");
+    await expect(
+      sendStatements([{ ...resend, id: uuidFromString("new"), object: { objectType: "Activity", id: "" } }], {
+        endpoint: lrs.endpoint,
+        auth: "lab:secret",
+      })
+    ).rejects.toThrow("object.id");
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { createGitAdapter, parseGitCommands } from "../git-adapter";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+describe("parseGitCommands", () => {
+  it("should extract commit messages, including clustered flags", () => {
+    expect(parseGitCommands('git commit -m "Add about page"', "/repo")[0]).toMatchObject({
+      subcommand: "commit",
+      message: "Add about page",
+      repo: "/repo",
+    });
+    expect(parseGitCommands("git commit -am 'Fix typo'", "/repo")[0].message).toBe("Fix typo");
+  });
+
+  it("should find every invocation in a compound command", () => {
+    const invocations = parseGitCommands("git add about.html && git commit -m done; ls | wc -l", "/repo");
+    expect(invocations.map((i) => i.subcommand)).toEqual(["add", "commit"]);
+    expect(invocations[0].paths).toEqual(["about.html"]);
+  });
+
+  it("should describe branches and remotes", () => {
+    expect(parseGitCommands("git switch -c feature/about", "/r")[0]).toMatchObject({ branch: "feature/about", created_branch: true });
+    expect(parseGitCommands("git checkout main", "/r")[0]).toMatchObject({ branch: "main" });
+    expect(parseGitCommands("git branch -d old", "/r")[0]).toMatchObject({ branch: "old", created_branch: false });
+    expect(parseGitCommands("git merge --no-ff feature/about", "/r")[0].branch).toBe("feature/about");
+    expect(parseGitCommands("git remote add origin /srv/git/project.git", "/r")[0]).toMatchObject({
+      remote: "origin",
+      remote_url: "/srv/git/project.git",
+    });
+    expect(parseGitCommands("git push -u origin main", "/r")[0]).toMatchObject({ remote: "origin", branch: "main" });
+  });
+
+  it("should resolve -C against the working directory and skip non-git commands", () => {
+    expect(parseGitCommands("git -C ../other status", "/home/student/project")[0].repo).toBe("/home/student/other");
+    expect(parseGitCommands("echo git commit", "/r")).toEqual([]);
+    expect(parseGitCommands("GIT_EDITOR=true git rebase --continue", "/r")[0].subcommand).toBe("rebase");
+  });
+});
+
+describe("Git Adapter", () => {
+  let tempDir: string;
+  let commandsLogPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "git-adapter-test-"));
+    commandsLogPath = path.join(tempDir, "commands.log");
+    fs.writeFileSync(commandsLogPath, "");
+    fs.writeFileSync(path.join(tempDir, "checks.log"), "");
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should add git evidence to command events", async () => {
+    const events: any[] = [];
+
+    const adapter = createGitAdapter({ moduleId: "git-basics", logPath: commandsLogPath });
+    adapter.onStudentAction = (event) => events.push(event);
+
+    await adapter.start();
+    const log = (command: string) =>
+      fs.appendFileSync(
+        commandsLogPath,
+        JSON.stringify({ timestamp: new Date().toISOString(), user: "student", pwd: "/home/student/project", command }) + "\n"
+      );
+    log("ls");
+    log('git commit -m "Add about page"');
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    adapter.stop();
+
+    expect(adapter.getLabType()).toBe("git");
+    expect(events).toHaveLength(2);
+    expect(events[0].evidence.git).toBeUndefined();
+    expect(events[1].evidence.git).toEqual([
+      { subcommand: "commit", args: ["-m", "Add about page"], repo: "/home/student/project", message: "Add about page" },
+    ]);
+  });
+
+  it("should complete steps from checks.log like a Linux CLI lab", async () => {
+    const completed: string[] = [];
+
+    const adapter = createGitAdapter({ moduleId: "git-basics", logPath: commandsLogPath });
+    adapter.onStepCompleted = (event) => completed.push(event.stepId);
+
+    await adapter.start();
+    fs.appendFileSync(
+      path.join(tempDir, "checks.log"),
+      JSON.stringify({ stepId: "check-create-branch.sh", status: "passed", timestamp: new Date().toISOString() }) + "\n"
+    );
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    adapter.stop();
+
+    expect(completed).toContain("create-branch");
+  });
+});
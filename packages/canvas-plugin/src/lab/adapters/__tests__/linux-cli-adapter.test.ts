@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { createLinuxCliAdapter } from "../linux-cli-adapter";
+import { createEventLogger } from "../../telemetry/event-logger";
+import type { CommandLogEntry } from "../../validation-rules";
+import { compileStepValidation } from "../../module-loader";
+import type { StudentActionEvent } from "../../telemetry/types";
+import type { UnifiedLabEvent } from "../types";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+describe("Linux CLI Adapter command results", () => {
+  let tempDir: string;
+  let commandsLogPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "linux-cli-adapter-test-"));
+    commandsLogPath = path.join(tempDir, "commands.log");
+    fs.writeFileSync(path.join(tempDir, "checks.log"), "");
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function writeEntries(entries: Partial<CommandLogEntry>[]): void {
+    const lines = entries.map((entry) =>
+      JSON.stringify({ timestamp: new Date().toISOString(), user: "student", pwd: "/home/student", ...entry })
+    );
+    fs.writeFileSync(commandsLogPath, lines.join("\n") + "\n");
+  }
+
+  async function collectActions(): Promise<UnifiedLabEvent[]> {
+    const events: UnifiedLabEvent[] = [];
+    const adapter = createLinuxCliAdapter({ moduleId: "test-module", logPath: commandsLogPath });
+    adapter.onStudentAction = (event) => events.push(event);
+    await adapter.start();
+    adapter.stop();
+    return events;
+  }
+
+  it("should map exit status, duration and output into the event", async () => {
+    writeEntries([
+      { command: "ls", exitCode: 0, durationMs: 4, output: "notes.txt", outputTruncated: false },
+      {
+        command: "useradd -m devuser",
+        exitCode: 9,
+        durationMs: 41,
+        output: "\nuseradd: user 'devuser' already exists\n",
+        outputTruncated: false,
+      },
+    ]);
+
+    const [ls, useradd] = await collectActions();
+
+    expect(ls.result).toBe("success");
+    expect(ls.evidence).toMatchObject({ exit_code: 0, duration_ms: 4, output: "notes.txt", output_truncated: false });
+    expect(ls.evidence.error_message).toBeUndefined();
+
+    expect(useradd.result).toBe("failure");
+    expect(useradd.evidence).toMatchObject({ exit_code: 9, duration_ms: 41 });
+    expect(useradd.evidence.error_message).toBe("useradd: user 'devuser' already exists");
+  });
+
+  it("should keep the last output lines of a failure as the error message", async () => {
+    writeEntries([
+      { command: "make", exitCode: 2, output: "cc main.c\nmain.c:3: error\nmake: *** [all] Error 1\nExit 2\nDone" },
+      { command: "false", exitCode: 1, output: "" },
+    ]);
+
+    const [make, bare] = await collectActions();
+
+    expect(make.evidence.error_message).toBe("make: *** [all] Error 1\nExit 2\nDone");
+    expect(bare.evidence.error_message).toBe("Command exited with status 1");
+  });
+
+  it("should treat entries from older images (no exit status) as successful", async () => {
+    writeEntries([{ command: "whoami" }]);
+
+    const [whoami] = await collectActions();
+
+    expect(whoami.result).toBe("success");
+    expect(whoami.evidence).toMatchObject({ exit_code: 0, duration_ms: null, output: null });
+  });
+
+  it("should carry exit_code and error_message into the student_action payload", async () => {
+    writeEntries([{ command: "cat missing.txt", exitCode: 1, output: "cat: missing.txt: No such file or directory" }]);
+
+    const [event] = await collectActions();
+    const logger = createEventLogger({ logDir: tempDir, moduleId: "test-module", studentId: "s", labType: "linux_cli" });
+    logger.logStudentAction("", event.actionKind, event.action, event.result, event.evidence);
+
+    const [action] = logger.getEventsByType("student_action") as StudentActionEvent[];
+    expect(action.payload.exit_code).toBe(1);
+    expect(action.payload.error_message).toBe("cat: missing.txt: No such file or directory");
+  });
+
+  it("should complete an added step from its validation", async () => {
+    writeEntries([{ command: "chmod 700 /home/devuser", exitCode: 0 }]);
+    const checkResult = { stepId: "check-bonus-file.sh", status: "passed", timestamp: new Date().toISOString() };
+    fs.writeFileSync(path.join(tempDir, "checks.log"), JSON.stringify(checkResult) + "\n");
+
+    const completed: string[] = [];
+    const adapter = createLinuxCliAdapter({ moduleId: "test-module", logPath: commandsLogPath });
+    adapter.onStepCompleted = (event) => completed.push(`${event.stepId} via ${event.source}`);
+    adapter.addStepValidation!(compileStepValidation("bonus-perms", "Bonus", { type: "command-pattern", pattern: "chmod 700" }));
+    adapter.addStepValidation!(compileStepValidation("bonus-file", "Bonus", { type: "check-script", body: "true" }));
+    await adapter.start();
+    await new Promise((r) => setTimeout(r, 50));
+    adapter.stop();
+
+    expect(completed).toEqual(["bonus-perms via command", "bonus-file via check"]);
+  });
+});
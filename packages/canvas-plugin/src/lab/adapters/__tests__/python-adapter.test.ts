@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
 import { createPythonAdapter } from "../python-adapter";
+import { getLabsPath } from "../../module-loader";
+import { spawnSync } from "child_process";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
@@ -200,3 +202,70 @@ describe("Python Adapter", () => {
     expect(adapter.isRunning()).toBe(false);
   });
 });
+
+const hasPytest = spawnSync("python3", ["-m", "pytest", "--version"]).status === 0;
+
+describe.skipIf(!hasPytest)("Python Adapter - workspace mode", () => {
+  let tempDir: string;
+  let workspace: string;
+
+  const waitFor = async (condition: () => boolean, timeoutMs = 10000) => {
+    const started = Date.now();
+    while (!condition() && Date.now() - started < timeoutMs) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "python-adapter-ws-"));
+    workspace = path.join(tempDir, "workspace");
+    fs.cpSync(path.join(getLabsPath(), "python-fundamentals", "starter"), workspace, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should run tests on save and complete steps per test", async () => {
+    const events: any[] = [];
+    const completedSteps: any[] = [];
+
+    const adapter = createPythonAdapter({
+      moduleId: "python-fundamentals",
+      logPath: tempDir,
+      workspacePath: workspace,
+      debounceMs: 50,
+    });
+    adapter.onStudentAction = (event) => events.push(event);
+    adapter.onStepCompleted = (event) => completedSteps.push(event);
+
+    await adapter.start();
+
+    // Only hello() is correct
+    fs.writeFileSync(
+      path.join(workspace, "src", "main.py"),
+      'def hello():\n    return "Hello, World!"\n\ndef greet(name):\n    return "Hi"\n'
+    );
+    await waitFor(() => events.length > 0);
+
+    expect(events[0].evidence.file).toBe(path.join("src", "main.py"));
+    expect(events[0].result).toBe("partial");
+    expect(events[0].evidence.tests.map((t: any) => t.outcome)).toEqual(["passed", "failed"]);
+    expect(events[0].evidence.tests[1].message).toContain("AssertionError");
+    expect(events[0].evidence.functions_defined).toEqual(["hello", "greet"]);
+    expect(completedSteps.map((e) => e.stepId)).toEqual(["hello-world"]);
+    expect(completedSteps[0].source).toBe("check");
+
+    // Fix greet()
+    fs.writeFileSync(
+      path.join(workspace, "src", "main.py"),
+      'def hello():\n    return "Hello, World!"\n\ndef greet(name):\n    return f"Hello, {name}!"\n'
+    );
+    await waitFor(() => completedSteps.length > 1);
+    adapter.stop();
+
+    expect(completedSteps.map((e) => e.stepId)).toEqual(["hello-world", "greet-name"]);
+  });
+});
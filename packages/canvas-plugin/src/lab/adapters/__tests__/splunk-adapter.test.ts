@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { createSplunkAdapter } from "../splunk-adapter";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+describe("Splunk Adapter", () => {
+  let tempDir: string;
+  let queriesLogPath: string;
+
+  const submit = (query: string) => {
+    fs.appendFileSync(
+      queriesLogPath,
+      JSON.stringify({ timestamp: new Date().toISOString(), query, user: "student" }) + "\n"
+    );
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "splunk-adapter-test-"));
+    queriesLogPath = path.join(tempDir, "queries.log");
+    fs.writeFileSync(queriesLogPath, "");
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should emit execute_query events with result counts", async () => {
+    const events: any[] = [];
+
+    const adapter = createSplunkAdapter({
+      moduleId: "splunk-failed-logins",
+      logPath: tempDir,
+    });
+    adapter.onStudentAction = (event) => events.push(event);
+
+    await adapter.start();
+    submit("index=security action=failure");
+    submit("index=security | eval x=1");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    adapter.stop();
+
+    expect(events).toHaveLength(2);
+    expect(events[0]).toHaveProperty("actionKind", "execute_query");
+    expect(events[0]).toHaveProperty("result", "success");
+    expect(events[0].evidence.result_count).toBe(16);
+    expect(events[1]).toHaveProperty("result", "failure");
+    expect(events[1].evidence.error).toContain("eval");
+  });
+
+  it("should complete steps whose expected results match", async () => {
+    const completed: string[] = [];
+
+    const adapter = createSplunkAdapter({
+      moduleId: "splunk-failed-logins",
+      logPath: tempDir,
+    });
+    adapter.onStepCompleted = (event) => completed.push(event.stepId);
+
+    await adapter.start();
+    submit("index=security action=failure | stats count by src_ip | sort - count");
+    submit("index=security action=failure | stats count by src_ip | sort - count | head 1");
+    submit("index=security action=failure | stats count by user");
+    submit("index=security action=failure | stats count by user");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    adapter.stop();
+
+    // The unlimited search returns too many rows; each step completes once
+    expect(completed).toEqual(["top-attacker", "failures-by-user"]);
+  });
+
+  it("should process searches submitted before start", async () => {
+    submit("index=security | stats count");
+    const completed: string[] = [];
+
+    const adapter = createSplunkAdapter({
+      moduleId: "splunk-failed-logins",
+      logPath: tempDir,
+    });
+    adapter.onStepCompleted = (event) => completed.push(event.stepId);
+
+    await adapter.start();
+    adapter.stop();
+
+    expect(completed).toEqual(["count-events"]);
+  });
+
+  it("should answer lab-spl submissions in spl-results", async () => {
+    const adapter = createSplunkAdapter({
+      moduleId: "splunk-failed-logins",
+      logPath: tempDir,
+    });
+
+    await adapter.start();
+    for (const [id, query] of [
+      ["1-100", "index=security | stats count"],
+      ["1-101", "index=security | eval x=1"],
+    ]) {
+      fs.appendFileSync(queriesLogPath, JSON.stringify({ timestamp: new Date().toISOString(), id, query }) + "\n");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    adapter.stop();
+
+    const resultsDir = path.join(tempDir, "spl-results");
+    expect(fs.readFileSync(path.join(resultsDir, "1-100.out"), "utf-8")).toContain("count");
+    expect(fs.readFileSync(path.join(resultsDir, "1-101.err"), "utf-8")).toContain("eval");
+    expect(fs.readdirSync(resultsDir).sort()).toEqual(["1-100.out", "1-101.err"]);
+  });
+
+  it("should report a missing dataset without crashing", async () => {
+    const errors: Error[] = [];
+
+    const adapter = createSplunkAdapter({
+      moduleId: "splunk-failed-logins",
+      logPath: tempDir,
+      datasetPath: path.join(tempDir, "missing.jsonl"),
+      onError: (err) => errors.push(err),
+    });
+
+    await adapter.start();
+    expect(adapter.isRunning()).toBe(true);
+    adapter.stop();
+
+    expect(errors[0].message).toContain("Dataset not found");
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { createSqlAdapter } from "../sql-adapter";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+describe("SQL Adapter", () => {
+  let tempDir: string;
+  let queriesLogPath: string;
+
+  const run = (query: string, exitCode = 0, error?: string) => {
+    fs.appendFileSync(
+      queriesLogPath,
+      JSON.stringify({ timestamp: new Date().toISOString(), user: "student", query, exit_code: exitCode, error }) + "\n"
+    );
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "sql-adapter-test-"));
+    queriesLogPath = path.join(tempDir, "sql-queries.log");
+    fs.writeFileSync(queriesLogPath, "");
+
+    // Same shape as labs/sql-basics/setup.sh
+    const db = new Database(path.join(tempDir, "lab.db"));
+    db.run("CREATE TABLE departments (id INTEGER PRIMARY KEY, name TEXT)");
+    db.run("CREATE TABLE employees (id INTEGER PRIMARY KEY, name TEXT, department_id INTEGER, salary INTEGER, hired TEXT)");
+    db.run("INSERT INTO departments VALUES (1, 'Engineering'), (2, 'Sales'), (3, 'Support')");
+    db.run(`INSERT INTO employees VALUES
+      (1, 'Alice', 1, 125000, '2019-03-01'), (2, 'Bob', 1, 98000, '2021-07-15'),
+      (3, 'Carol', 2, 72000, '2020-01-10'), (4, 'Dan', 2, 68000, '2022-05-02'),
+      (5, 'Erin', 3, 54000, '2023-02-20'), (6, 'Frank', 1, 110000, '2018-11-05'),
+      (7, 'Grace', 3, 58000, '2021-09-30')`);
+    db.close();
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should emit execute_sql events with row counts", async () => {
+    const events: any[] = [];
+
+    const adapter = createSqlAdapter({ moduleId: "sql-basics", logPath: tempDir });
+    adapter.onStudentAction = (event) => events.push(event);
+
+    await adapter.start();
+    run("SELECT * FROM employees");
+    run("SELECT nope FROM employees", 1, "no such column: nope");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    adapter.stop();
+
+    expect(events).toHaveLength(2);
+    expect(events[0]).toHaveProperty("actionKind", "execute_sql");
+    expect(events[0]).toHaveProperty("result", "success");
+    expect(events[0].evidence.row_count).toBe(7);
+    expect(events[0].evidence.columns).toEqual(["id", "name", "department_id", "salary", "hired"]);
+    expect(events[1]).toHaveProperty("result", "failure");
+    expect(events[1].evidence.error).toContain("nope");
+  });
+
+  it("should complete steps regardless of column names and row order", async () => {
+    const completed: string[] = [];
+
+    const adapter = createSqlAdapter({ moduleId: "sql-basics", logPath: tempDir });
+    adapter.onStepCompleted = (event) => completed.push(event.stepId);
+
+    await adapter.start();
+    run("SELECT name AS who FROM employees WHERE salary > 100000 ORDER BY name DESC");
+    run("SELECT department_id AS dept, COUNT(*) AS n FROM employees GROUP BY department_id ORDER BY n");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    adapter.stop();
+
+    expect(completed).toEqual(["high-earners", "headcount"]);
+  });
+
+  it("should require row order for ordered steps", async () => {
+    const completed: string[] = [];
+
+    const adapter = createSqlAdapter({ moduleId: "sql-basics", logPath: tempDir });
+    adapter.onStepCompleted = (event) => completed.push(event.stepId);
+
+    await adapter.start();
+    run("SELECT name, hired FROM employees ORDER BY hired DESC LIMIT 3");
+    run("SELECT name, hired FROM (SELECT * FROM employees ORDER BY hired DESC LIMIT 3) ORDER BY hired");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    adapter.stop();
+
+    expect(completed).toEqual(["newest-hires"]);
+  });
+
+  it("should not replay statements that modify data", async () => {
+    const events: any[] = [];
+
+    const adapter = createSqlAdapter({ moduleId: "sql-basics", logPath: tempDir });
+    adapter.onStudentAction = (event) => events.push(event);
+
+    await adapter.start();
+    run("DELETE FROM employees");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    adapter.stop();
+
+    const db = new Database(path.join(tempDir, "lab.db"), { readonly: true });
+    const { count } = db.query("SELECT COUNT(*) AS count FROM employees").get() as { count: number };
+    db.close();
+
+    expect(count).toBe(7);
+    expect(events[0].evidence.row_count).toBeNull();
+  });
+});
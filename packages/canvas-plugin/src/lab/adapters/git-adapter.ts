@@ -0,0 +1,311 @@
+// Git Lab Adapter
+// Tails commands.log / checks.log like the Linux CLI adapter (repository state
+// is validated by git-* declarative checks inside the container) and adds
+// parsed git invocations to each command's evidence
+
+import { posix } from "path";
+import type {
+  LabAdapter,
+  GitAdapterOptions,
+  UnifiedLabEvent,
+  StepCompletionEvent,
+  StepRegressionEvent,
+  TaskProgressEvent,
+} from "./types";
+import { createLinuxCliAdapter } from "./linux-cli-adapter";
+
+/**
+ * A single git invocation parsed from a command line
+ * Only the fields relevant to the subcommand are set
+ */
+export interface GitInvocation {
+  subcommand: string | null;   // null for a bare `git` / `git --version`
+  args: string[];              // Arguments after the subcommand
+  repo: string;                // Working directory git ran in (cwd, or -C)
+  branch?: string;             // checkout/switch/branch/merge/rebase target, push/pull branch
+  created_branch?: boolean;    // checkout -b, switch -c, branch <name>
+  message?: string;            // commit -m
+  paths?: string[];            // add/rm/restore/reset pathspecs
+  remote?: string;             // remote add/set-url/remove, push/pull/fetch
+  remote_url?: string;         // remote add/set-url
+}
+
+/**
+ * Split a command line into words, honouring quotes
+ * Operators (&&, ||, ;, |) are returned as separate words
+ */
+function tokenize(command: string): string[] {
+  const tokens: string[] = [];
+  let current = "";
+  let inWord = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === "\\" && quote === '"' && i + 1 < command.length) {
+        current += command[++i];
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+      inWord = true;
+    } else if (char === "\\" && i + 1 < command.length) {
+      current += command[++i];
+      inWord = true;
+    } else if (/\s/.test(char)) {
+      if (inWord) tokens.push(current);
+      current = "";
+      inWord = false;
+    } else if (char === ";" || char === "|" || char === "&") {
+      if (inWord) tokens.push(current);
+      const double = (char === "|" || char === "&") && command[i + 1] === char;
+      tokens.push(double ? char + command[++i] : char);
+      current = "";
+      inWord = false;
+    } else {
+      current += char;
+      inWord = true;
+    }
+  }
+
+  if (inWord) tokens.push(current);
+  return tokens;
+}
+
+const OPERATORS = new Set([";", "|", "&", "&&", "||"]);
+
+/**
+ * Value of a flag given as `-m value`, `--message value` or `--message=value`
+ * Short flags may be clustered (`-am value`)
+ */
+function takeFlagValues(args: string[], short: string, long: string): string[] {
+  const values: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === `--${long}` || new RegExp(`^-[A-Za-z]*${short}$`).test(arg)) {
+      if (i + 1 < args.length) values.push(args[++i]);
+    } else if (arg.startsWith(`--${long}=`)) {
+      values.push(arg.slice(long.length + 3));
+    }
+  }
+  return values;
+}
+
+/**
+ * Positional arguments (not flags, and not values of the given flags)
+ */
+function positionals(args: string[], flagsWithValues: string[] = []): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--") {
+      result.push(...args.slice(i + 1));
+      break;
+    }
+    if (flagsWithValues.includes(arg)) {
+      i++;
+    } else if (!arg.startsWith("-")) {
+      result.push(arg);
+    }
+  }
+  return result;
+}
+
+function describeInvocation(subcommand: string | null, args: string[], repo: string): GitInvocation {
+  const invocation: GitInvocation = { subcommand, args, repo };
+
+  switch (subcommand) {
+    case "commit": {
+      const messages = takeFlagValues(args, "m", "message");
+      if (messages.length > 0) invocation.message = messages.join("\n\n");
+      break;
+    }
+
+    case "checkout":
+    case "switch": {
+      const createFlags = subcommand === "checkout" ? ["-b", "-B"] : ["-c", "-C", "--create"];
+      const created = args.findIndex((arg) => createFlags.includes(arg));
+      if (created !== -1 && created + 1 < args.length) {
+        invocation.branch = args[created + 1];
+        invocation.created_branch = true;
+      } else {
+        const [target, ...paths] = positionals(args);
+        if (args.includes("--")) {
+          invocation.paths = positionals(args.slice(args.indexOf("--")));
+        } else if (target) {
+          invocation.branch = target;
+          if (paths.length > 0) invocation.paths = paths;
+        }
+      }
+      break;
+    }
+
+    case "branch": {
+      const [name] = positionals(args);
+      if (name) {
+        invocation.branch = name;
+        invocation.created_branch = !args.some((arg) => /^-(d|D|m|M|-delete|-move)$/.test(arg));
+      }
+      break;
+    }
+
+    case "merge":
+    case "rebase": {
+      const [target] = positionals(args, ["-m", "-s", "-X", "--onto"]);
+      if (target) invocation.branch = target;
+      break;
+    }
+
+    case "add":
+    case "rm":
+    case "restore":
+    case "reset":
+      invocation.paths = positionals(args, ["-s", "--source"]);
+      break;
+
+    case "remote": {
+      const [action, name, url] = positionals(args);
+      if (action && name && ["add", "set-url", "remove", "rm", "rename"].includes(action)) {
+        invocation.remote = name;
+        if (url && action !== "rename") invocation.remote_url = url;
+      }
+      break;
+    }
+
+    case "push":
+    case "pull":
+    case "fetch": {
+      const [remote, branch] = positionals(args);
+      if (remote) invocation.remote = remote;
+      if (branch) invocation.branch = branch;
+      break;
+    }
+  }
+
+  return invocation;
+}
+
+/**
+ * Find every git invocation in a command line (e.g. `git add . && git commit -m "x"`)
+ * Leading VAR=value assignments are skipped; `cd` between invocations is not tracked
+ */
+export function parseGitCommands(command: string, cwd: string): GitInvocation[] {
+  const tokens = tokenize(command);
+  const invocations: GitInvocation[] = [];
+
+  let segment: string[] = [];
+  const flush = () => {
+    const start = segment.findIndex((word) => !/^[A-Za-z_][A-Za-z0-9_]*=/.test(word));
+    const words = start === -1 ? [] : segment.slice(start);
+    segment = [];
+
+    if (words[0] !== "git" && !(words[0] === "sudo" && words[1] === "git")) {
+      return;
+    }
+
+    // Global options before the subcommand
+    let i = words.indexOf("git") + 1;
+    let repo = cwd;
+    while (i < words.length && words[i].startsWith("-")) {
+      if (words[i] === "-C" && i + 1 < words.length) {
+        repo = posix.resolve(repo, words[++i]);
+      } else if (words[i] === "-c" && i + 1 < words.length) {
+        i++;
+      }
+      i++;
+    }
+
+    invocations.push(describeInvocation(words[i] ?? null, words.slice(i + 1), repo));
+  };
+
+  for (const token of tokens) {
+    if (OPERATORS.has(token)) {
+      flush();
+    } else {
+      segment.push(token);
+    }
+  }
+  flush();
+
+  return invocations;
+}
+
+/**
+ * Git Adapter: Linux CLI log tailing with git-aware evidence
+ * Emits unified events that Event Hub can process
+ */
+export function createGitAdapter(options: GitAdapterOptions): LabAdapter {
+  const inner = createLinuxCliAdapter(options);
+
+  // Callbacks (set by Event Hub before start())
+  let onStudentAction: ((event: UnifiedLabEvent) => void) | undefined;
+
+  /**
+   * Add parsed git invocations to a command event's evidence
+   */
+  function enrich(event: UnifiedLabEvent): UnifiedLabEvent {
+    const cwd = typeof event.evidence.cwd === "string" ? event.evidence.cwd : "/";
+    const git = parseGitCommands(event.action, cwd);
+    return git.length > 0 ? { ...event, evidence: { ...event.evidence, git } } : event;
+  }
+
+  inner.onStudentAction = (event) => onStudentAction?.(enrich(event));
+
+  return {
+    start() {
+      return inner.start();
+    },
+
+    stop() {
+      inner.stop();
+    },
+
+    isRunning() {
+      return inner.isRunning();
+    },
+
+    getLabType() {
+      return "git";
+    },
+
+    getModuleId() {
+      return inner.getModuleId();
+    },
+
+    addStepValidation(validation) {
+      inner.addStepValidation!(validation);
+    },
+
+    runCheck(stepId) {
+      return inner.runCheck!(stepId);
+    },
+
+    set onStudentAction(handler: ((event: UnifiedLabEvent) => void) | undefined) {
+      onStudentAction = handler;
+    },
+
+    set onStepCompleted(handler: ((event: StepCompletionEvent) => void) | undefined) {
+      inner.onStepCompleted = handler;
+    },
+
+    set onTaskProgress(handler: ((event: TaskProgressEvent) => void) | undefined) {
+      inner.onTaskProgress = handler;
+    },
+
+    set onStepRegressed(handler: ((event: StepRegressionEvent) => void) | undefined) {
+      inner.onStepRegressed = handler;
+    },
+
+    set onError(handler: ((error: Error) => void) | undefined) {
+      inner.onError = handler;
+    },
+  };
+}
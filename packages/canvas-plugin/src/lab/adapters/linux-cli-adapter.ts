@@ -9,18 +9,50 @@ import type {
   LinuxCliAdapterOptions,
   UnifiedLabEvent,
   StepCompletionEvent,
+  StepRegressionEvent,
+  TaskProgressEvent,
 } from "./types";
 import type { CommandLogEntry, ValidationRule } from "../validation-rules";
 import { validateCommand, getValidationRules } from "../validation-rules";
-import { getCheckConfigs } from "../module-loader";
+import {
+  getCheckConfigs,
+  getCompositeValidationsByStep,
+  getContinuousVerification,
+  type CheckConfig,
+  type StepValidation,
+} from "../module-loader";
 import { createCheckLogWatcher, type CheckLogWatcher } from "../checks/log-watcher";
+import { runCheckInContainer } from "../checks/run-check";
+import {
+  createCompositeEvaluator,
+  parseProbeScriptName,
+  type CompositeEvaluator,
+  type CompositeEvaluation,
+} from "../checks/composite";
+
+/**
+ * Short error message for a failed command: the last lines of its output,
+ * or just the exit status when no output was captured
+ */
+function summarizeFailure(entry: CommandLogEntry): string {
+  const lines = (entry.output ?? "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  if (lines.length === 0) {
+    return `Command exited with status ${entry.exitCode}`;
+  }
+
+  return lines.slice(-3).join("\n");
+}
 
 /**
  * Linux CLI Adapter: Monitors command.log and checks.log for task completion
  * Emits unified events that Event Hub can process
  */
 export function createLinuxCliAdapter(options: LinuxCliAdapterOptions): LabAdapter {
-  const { moduleId, logPath, checksLogPath: providedChecksLogPath, onLog, onError } = options;
+  const { moduleId, logPath, checksLogPath: providedChecksLogPath, containerId, onLog, onError } = options;
 
   const checksLogPath = providedChecksLogPath ?? join(dirname(logPath), "checks.log");
   const log = (msg: string) => onLog?.(msg);
@@ -30,20 +62,25 @@ export function createLinuxCliAdapter(options: LinuxCliAdapterOptions): LabAdapt
   let commandWatcher: ReturnType<typeof watch> | null = null;
   let checkWatcher: CheckLogWatcher | null = null;
   let lastFileSize = 0;
+  let processedLineCount = 0;
   let completedSteps = new Set<string>();
   let rules: ValidationRule[] = [];
 
   // Callbacks (set by Event Hub before start())
   let onStudentAction: ((event: UnifiedLabEvent) => void) | undefined;
   let onStepCompleted: ((event: StepCompletionEvent) => void) | undefined;
+  let onTaskProgress: ((event: TaskProgressEvent) => void) | undefined;
+  let onStepRegressed: ((event: StepRegressionEvent) => void) | undefined;
   let onError_: ((error: Error) => void) | undefined = onError;
 
-  // Build mapping from check script names to step IDs
+  // Build mapping from check script names to step IDs (and back, to run checks on demand)
   const scriptToStepId = new Map<string, string>();
+  const stepChecks = new Map<string, CheckConfig>();
   try {
     const checkConfigs = getCheckConfigs(moduleId);
     for (const config of checkConfigs) {
       scriptToStepId.set(config.script, config.stepId);
+      stepChecks.set(config.stepId, config);
     }
   } catch (e) {
     // Module might not have check configs, that's OK
@@ -56,6 +93,24 @@ export function createLinuxCliAdapter(options: LinuxCliAdapterOptions): LabAdapt
     log(`Warning: Could not load validation rules for ${moduleId}: ${e}`);
   }
 
+  // Continuous verification: completed steps regress when their outcome stops holding
+  let continuous = false;
+  try {
+    continuous = getContinuousVerification(moduleId);
+  } catch (e) {
+    // Module might not exist (ad-hoc labs), that's OK
+  }
+
+  // Composite (all/any/not/sequence) validations, evaluated from commands and probes
+  const composites = new Map<string, CompositeEvaluator>();
+  try {
+    for (const [stepId, validation] of getCompositeValidationsByStep(moduleId)) {
+      composites.set(stepId, createCompositeEvaluator(stepId, validation));
+    }
+  } catch (e) {
+    log(`Warning: Could not load composite validations for ${moduleId}: ${e}`);
+  }
+
   /**
    * Emit a student action event (every command execution)
    */
@@ -69,6 +124,10 @@ export function createLinuxCliAdapter(options: LinuxCliAdapterOptions): LabAdapt
         exit_code: entry.exitCode ?? 0,
         cwd: entry.pwd,
         user: entry.user,
+        duration_ms: entry.durationMs ?? null,
+        output: entry.output ?? null,
+        output_truncated: entry.outputTruncated ?? false,
+        ...(result === "failure" && { error_message: summarizeFailure(entry) }),
       },
       timestamp: entry.timestamp,
       source: "command",
@@ -96,6 +155,46 @@ export function createLinuxCliAdapter(options: LinuxCliAdapterOptions): LabAdapt
     onStepCompleted?.(event);
   }
 
+  /**
+   * Un-complete a step whose check or composite stopped passing
+   */
+  function emitStepRegressed(stepId: string, timestamp: string, source: "command" | "check", message?: string): void {
+    if (!completedSteps.delete(stepId)) {
+      return;
+    }
+    log(`Step regressed: ${stepId} (via ${source})`);
+    onStepRegressed?.({ stepId, source, timestamp, message });
+  }
+
+  /**
+   * Emit task progress and step completion for a composite re-evaluation
+   * (with continuous verification, a completed composite that is no longer satisfied regresses)
+   */
+  function applyCompositeEvaluation(
+    stepId: string,
+    evaluation: CompositeEvaluation,
+    timestamp: string,
+    source: "command" | "check"
+  ): void {
+    if (completedSteps.has(stepId)) {
+      if (continuous && !evaluation.satisfied) {
+        emitStepRegressed(stepId, timestamp, source);
+      }
+      return;
+    }
+
+    for (const taskIndex of evaluation.completedTasks) {
+      log(`Task ${taskIndex} of ${stepId} done (via ${source})`);
+      onTaskProgress?.({ stepId, taskIndex, source, timestamp });
+    }
+
+    if (evaluation.satisfied) {
+      completedSteps.add(stepId);
+      log(`Task validated: ${stepId} (via composite ${source})`);
+      emitStepCompleted(stepId, undefined, timestamp, source);
+    }
+  }
+
   /**
    * Process a single command log entry
    * - Emit student action event
@@ -118,6 +217,10 @@ export function createLinuxCliAdapter(options: LinuxCliAdapterOptions): LabAdapt
         emitStepCompleted(validationResult.stepId, validationResult.taskIndex, entry.timestamp, "command");
       }
     }
+
+    for (const [stepId, evaluator] of composites) {
+      applyCompositeEvaluation(stepId, evaluator.recordCommand(entry), entry.timestamp, "command");
+    }
   }
 
   /**
@@ -139,9 +242,11 @@ export function createLinuxCliAdapter(options: LinuxCliAdapterOptions): LabAdapt
 
       const content = readFileSync(logPath, "utf-8");
       const lines = content.split("\n").filter((l) => l.trim());
+      // A trailing line without a newline may still be mid-write
+      const completeLines = content.endsWith("\n") ? lines : lines.slice(0, -1);
 
-      // Process each line
-      for (const line of lines) {
+      // Process each new line once: composites order commands by when they were seen
+      for (const line of completeLines.slice(processedLineCount)) {
         try {
           const entry = JSON.parse(line) as CommandLogEntry;
           processCommandEntry(entry);
@@ -151,6 +256,7 @@ export function createLinuxCliAdapter(options: LinuxCliAdapterOptions): LabAdapt
       }
 
       lastFileSize = currentSize;
+      processedLineCount = completeLines.length;
     } catch (e) {
       onError_?.(e as Error);
     }
@@ -185,6 +291,11 @@ export function createLinuxCliAdapter(options: LinuxCliAdapterOptions): LabAdapt
       checkWatcher = createCheckLogWatcher({
         logPath: checksLogPath,
         onCheckPassed: (result) => {
+          // Probe results are handled by onCheckResult
+          if (parseProbeScriptName(result.stepId)) {
+            return;
+          }
+
           // Map check script name to step ID
           const actualStepId = scriptToStepId.get(result.stepId) || result.stepId;
           log(`Check script ${result.stepId} -> step ${actualStepId}`);
@@ -194,6 +305,20 @@ export function createLinuxCliAdapter(options: LinuxCliAdapterOptions): LabAdapt
             emitStepCompleted(actualStepId, result.taskIndex, new Date().toISOString(), "check");
           }
         },
+        onCheckRegressed: (result) => {
+          const actualStepId = scriptToStepId.get(result.stepId) || result.stepId;
+          emitStepRegressed(actualStepId, new Date().toISOString(), "check", result.message);
+        },
+        onCheckResult: (entry) => {
+          const probe = parseProbeScriptName(entry.stepId);
+          const evaluator = probe && composites.get(probe.stepId);
+          if (!probe || !evaluator) {
+            return;
+          }
+
+          const evaluation = evaluator.recordProbe(probe.leafId, entry.status === "passed");
+          applyCompositeEvaluation(probe.stepId, evaluation, entry.timestamp, "check");
+        },
         onError: onError_,
         onLog,
       });
@@ -233,6 +358,32 @@ export function createLinuxCliAdapter(options: LinuxCliAdapterOptions): LabAdapt
       return moduleId;
     },
 
+    addStepValidation(validation: StepValidation) {
+      const { stepId } = validation;
+      rules.push(...validation.rules);
+      for (const check of validation.checks) {
+        scriptToStepId.set(check.script, stepId);
+        stepChecks.set(stepId, check);
+      }
+      if (validation.composite) {
+        composites.set(stepId, createCompositeEvaluator(stepId, validation.composite));
+      }
+      log(`Validating added step ${stepId}`);
+    },
+
+    async runCheck(stepId: string) {
+      const check = stepChecks.get(stepId);
+      if (!check) {
+        throw new Error(`Step ${stepId} has no check script to run`);
+      }
+      if (!containerId) {
+        throw new Error("No lab container to run the check in");
+      }
+
+      log(`Running ${check.script} for ${stepId} on demand`);
+      return runCheckInContainer(check, { containerId, moduleId });
+    },
+
     set onStudentAction(handler: ((event: UnifiedLabEvent) => void) | undefined) {
       onStudentAction = handler;
     },
@@ -241,6 +392,14 @@ export function createLinuxCliAdapter(options: LinuxCliAdapterOptions): LabAdapt
       onStepCompleted = handler;
     },
 
+    set onTaskProgress(handler: ((event: TaskProgressEvent) => void) | undefined) {
+      onTaskProgress = handler;
+    },
+
+    set onStepRegressed(handler: ((event: StepRegressionEvent) => void) | undefined) {
+      onStepRegressed = handler;
+    },
+
     set onError(handler: ((error: Error) => void) | undefined) {
       onError_ = handler;
     },
@@ -1,5 +1,6 @@
 // Python Lab Adapter
-// Monitors Python code submissions and test results from submissions.log
+// Monitors Python code submissions and test results from submissions.log,
+// and optionally watches the workspace itself, running the module's tests on save
 // Normalizes Python events to unified adapter interface
 
 import { watch, existsSync, readFileSync, statSync } from "fs";
@@ -10,7 +11,8 @@ import type {
   UnifiedLabEvent,
   StepCompletionEvent,
 } from "./types";
-import { getCheckConfigs } from "../module-loader";
+import { getPytestChecks } from "../module-loader";
+import { type PytestRun, runPytest } from "../pytest";
 
 /**
  * Python submission log entry format
@@ -36,7 +38,7 @@ interface PythonSubmission {
  * Emits unified events that Event Hub can process
  */
 export function createPythonAdapter(options: PythonAdapterOptions): LabAdapter {
-  const { moduleId, logPath, onLog, onError } = options;
+  const { moduleId, logPath, workspacePath, onLog, onError } = options;
 
   const submissionsLogPath = join(logPath, "submissions.log");
   const log = (msg: string) => onLog?.(msg);
@@ -47,24 +49,26 @@ export function createPythonAdapter(options: PythonAdapterOptions): LabAdapter {
   let lastFileSize = 0;
   let completedSteps = new Set<string>();
   let processedSubmissions = new Set<string>();
+  let workspaceWatcher: ReturnType<typeof watch> | null = null;
+  let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  let testRunInProgress = false;
+  let pendingFile: string | null = null;
 
   // Callbacks (set by Event Hub before start())
   let onStudentAction: ((event: UnifiedLabEvent) => void) | undefined;
   let onStepCompleted: ((event: StepCompletionEvent) => void) | undefined;
   let onError_: ((error: Error) => void) | undefined = onError;
 
-  // Build mapping from test names to step IDs
+  // Build mapping from test node IDs to step IDs
+  // e.g., "tests/test_main.py::test_hello_world" -> "hello-world"
   const testToStepId = new Map<string, string>();
   try {
-    const checkConfigs = getCheckConfigs(moduleId);
-    for (const config of checkConfigs) {
-      // For Python labs, the "script" field in checkConfigs contains the test name
-      // e.g., "tests/test_main.py::test_hello_world" -> step ID
-      testToStepId.set(config.script, config.stepId);
+    for (const check of getPytestChecks(moduleId)) {
+      testToStepId.set(check.test, check.stepId);
     }
   } catch (e) {
-    // Module might not have check configs, that's OK
-    log(`Note: Could not load check configs for ${moduleId}: ${e}`);
+    // Module might not have pytest validations, that's OK
+    log(`Note: Could not load pytest validations for ${moduleId}: ${e}`);
   }
 
   /**
@@ -99,11 +103,12 @@ export function createPythonAdapter(options: PythonAdapterOptions): LabAdapter {
    */
   function emitStepCompleted(
     stepId: string,
-    timestamp: string
+    timestamp: string,
+    source: StepCompletionEvent["source"] = "tutor"
   ): void {
     const event: StepCompletionEvent = {
       stepId,
-      source: "tutor",
+      source,
       timestamp,
     };
 
@@ -133,6 +138,114 @@ export function createPythonAdapter(options: PythonAdapterOptions): LabAdapter {
     }
   }
 
+  /**
+   * Emit the student action for a save that triggered a test run
+   */
+  function emitTestRun(file: string, code: string, run: PytestRun, timestamp: string): void {
+    const passedCount = run.outcomes.filter((o) => o.outcome === "passed").length;
+    const result =
+      passedCount === run.outcomes.length ? "success" : passedCount > 0 ? "partial" : "failure";
+
+    const event: UnifiedLabEvent = {
+      actionKind: "submit_code",
+      action: code,
+      result,
+      evidence: {
+        file,
+        tests: run.outcomes.map((o) => ({
+          node_id: o.nodeId,
+          outcome: o.outcome,
+          message: o.message ?? null,
+          duration: o.duration,
+        })),
+        passed_count: passedCount,
+        failed_count: run.outcomes.length - passedCount,
+        exit_code: run.exitCode,
+        duration_ms: run.durationMs,
+        line_count: code.split("\n").length,
+        functions_defined: [...code.matchAll(/def\s+(\w+)\s*\(/g)].map((m) => m[1]),
+      },
+      timestamp,
+      source: "command",
+    };
+
+    onStudentAction?.(event);
+  }
+
+  /**
+   * Run the module's tests after a save and complete steps whose test passed
+   * Saves during a run are coalesced into one follow-up run
+   */
+  async function runWorkspaceTests(file: string): Promise<void> {
+    if (testRunInProgress) {
+      pendingFile = file;
+      return;
+    }
+
+    testRunInProgress = true;
+    try {
+      const filePath = join(workspacePath!, file);
+      const code = existsSync(filePath) ? readFileSync(filePath, "utf-8") : "";
+      const run = await runPytest([...testToStepId.keys()], {
+        workspacePath: workspacePath!,
+        interpreter: options.interpreter,
+        venvPath: options.venvPath,
+        containerId: options.containerId,
+        containerWorkspacePath: options.containerWorkspacePath,
+      });
+      const timestamp = new Date().toISOString();
+
+      if (!running) {
+        return;
+      }
+
+      emitTestRun(file, code, run, timestamp);
+
+      for (const outcome of run.outcomes) {
+        const stepId = testToStepId.get(outcome.nodeId);
+        if (outcome.outcome === "passed" && stepId && !completedSteps.has(stepId)) {
+          completedSteps.add(stepId);
+          log(`Task validated: ${stepId} (via test ${outcome.nodeId})`);
+          emitStepCompleted(stepId, timestamp, "check");
+        }
+      }
+    } catch (e) {
+      onError_?.(e as Error);
+    } finally {
+      testRunInProgress = false;
+    }
+
+    if (pendingFile && running) {
+      const next = pendingFile;
+      pendingFile = null;
+      await runWorkspaceTests(next);
+    }
+  }
+
+  /**
+   * Start watching the workspace for saved .py files
+   */
+  function watchWorkspace(): void {
+    if (testToStepId.size === 0) {
+      log(`No pytest validations in ${moduleId}, not watching workspace`);
+      return;
+    }
+
+    workspaceWatcher = watch(workspacePath!, { persistent: true, recursive: true }, (eventType, filename) => {
+      if (!filename || !filename.endsWith(".py") || filename.includes("__pycache__")) {
+        return;
+      }
+
+      // Editors often write a file several times per save
+      if (debounceTimer) clearTimeout(debounceTimer);
+      debounceTimer = setTimeout(() => {
+        debounceTimer = null;
+        void runWorkspaceTests(filename);
+      }, options.debounceMs ?? 300);
+    });
+    log(`Watching workspace ${workspacePath}`);
+  }
+
   /**
    * Read and process new entries from submissions.log
    */
@@ -199,6 +312,10 @@ export function createPythonAdapter(options: PythonAdapterOptions): LabAdapter {
         }
       });
       log(`Watching ${submissionsLogPath}`);
+
+      if (workspacePath) {
+        watchWorkspace();
+      }
     },
 
     stop() {
@@ -213,6 +330,16 @@ export function createPythonAdapter(options: PythonAdapterOptions): LabAdapter {
         submissionWatcher = null;
       }
 
+      if (workspaceWatcher) {
+        workspaceWatcher.close();
+        workspaceWatcher = null;
+      }
+      if (debounceTimer) {
+        clearTimeout(debounceTimer);
+        debounceTimer = null;
+      }
+      pendingFile = null;
+
       // Clear state
       lastFileSize = 0;
       processedSubmissions.clear();
@@ -1,26 +1,223 @@
-// Splunk Lab Adapter (Stub)
-// TODO: Implement Splunk query monitoring and validation
-// For now, provides minimal stub implementation
+// Splunk Lab Adapter
+// Monitors queries.log for submitted SPL searches and evaluates them locally
+// against the module's fixture dataset, so no Splunk server is needed.
+// Searches from the in-container lab-spl wrapper are answered in spl-results/
 
+import { watch, existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from "fs";
+import { basename, dirname, join } from "path";
 import type { LabAdapter, SplunkAdapterOptions, UnifiedLabEvent, StepCompletionEvent } from "./types";
+import { getSplChecks, getModuleDatasetPath } from "../module-loader";
+import {
+  type SplCheck,
+  type SplRecord,
+  type SplResult,
+  loadDataset,
+  runSpl,
+  compareResults,
+  formatResults,
+} from "../spl";
 
 /**
- * Splunk Adapter: Monitors Splunk queries and search results
- * Currently a stub - full implementation pending
+ * queries.log entry format (one JSON object per line)
+ */
+export interface QueryLogEntry {
+  timestamp: string;
+  query: string;
+  user?: string;
+  id?: string; // Set by lab-spl, which waits for spl-results/<id>.out or .err
+}
+
+const RESULT_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Splunk Adapter: Monitors queries.log and validates search results
+ * Emits unified events that Event Hub can process
  */
 export function createSplunkAdapter(options: SplunkAdapterOptions): LabAdapter {
   const { moduleId, logPath, onLog, onError } = options;
 
+  const queriesLogPath = options.queriesLogPath ?? join(logPath, "queries.log");
+  const resultsDir = join(dirname(queriesLogPath), "spl-results");
   const log = (msg: string) => onLog?.(msg);
 
   // State
   let running = false;
+  let queryWatcher: ReturnType<typeof watch> | null = null;
+  let lastFileSize = 0;
+  let processedLineCount = 0;
+  let completedSteps = new Set<string>();
+  let events: SplRecord[] = [];
+  let checks: Array<SplCheck & { rows: Record<string, unknown>[] }> = [];
 
   // Callbacks (set by Event Hub before start())
   let onStudentAction: ((event: UnifiedLabEvent) => void) | undefined;
   let onStepCompleted: ((event: StepCompletionEvent) => void) | undefined;
   let onError_: ((error: Error) => void) | undefined = onError;
 
+  /**
+   * Load the dataset and resolve each step's expected rows
+   * Reference queries are run once up front against the same dataset
+   */
+  function loadLab(): void {
+    const datasetPath = options.datasetPath ?? getModuleDatasetPath(moduleId);
+    if (!datasetPath) {
+      throw new Error(`Module ${moduleId} has no 'dataset' for its searches`);
+    }
+    events = loadDataset(datasetPath);
+    log(`Loaded ${events.length} events from ${datasetPath}`);
+
+    checks = [];
+    for (const check of getSplChecks(moduleId)) {
+      try {
+        const rows = check.reference ? runSpl(check.reference, events).rows : check.expected!;
+        checks.push({ ...check, rows });
+      } catch (e) {
+        log(`Warning: Reference query for ${check.stepId} failed: ${e instanceof Error ? e.message : e}`);
+      }
+    }
+  }
+
+  /**
+   * Emit a student action event (every submitted search)
+   */
+  function emitStudentAction(entry: QueryLogEntry, result: SplResult | null, error: string | null): void {
+    const event: UnifiedLabEvent = {
+      actionKind: "execute_query",
+      action: entry.query,
+      result: error ? "failure" : "success",
+      evidence: {
+        query: entry.query,
+        user: entry.user,
+        result_count: result?.rows.length ?? 0,
+        fields: result?.fields ?? [],
+        error,
+      },
+      timestamp: entry.timestamp,
+      source: "command",
+    };
+
+    onStudentAction?.(event);
+  }
+
+  /**
+   * Answer a lab-spl submission with the formatted results or the error
+   * Written to a temp file and renamed, so the wrapper never reads a partial answer
+   */
+  function writeResponse(id: string, result: SplResult | null, error: string | null): void {
+    if (!RESULT_ID_PATTERN.test(id)) {
+      log(`Warning: Ignored search id ${JSON.stringify(id)}`);
+      return;
+    }
+
+    try {
+      mkdirSync(resultsDir, { recursive: true });
+      const target = join(resultsDir, `${id}.${error ? "err" : "out"}`);
+      const content = error ?? formatResults(result!.rows, result!.fields);
+      writeFileSync(`${target}.tmp`, content.endsWith("\n") ? content : content + "\n");
+      renameSync(`${target}.tmp`, target);
+    } catch (e) {
+      log(`Warning: Could not answer search ${id}: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+
+  /**
+   * Emit a step completion event
+   */
+  function emitStepCompleted(stepId: string, timestamp: string): void {
+    const event: StepCompletionEvent = {
+      stepId,
+      source: "check",
+      timestamp,
+    };
+
+    onStepCompleted?.(event);
+  }
+
+  /**
+   * Process a single submitted search
+   * - Run it against the dataset
+   * - Answer lab-spl with the results
+   * - Emit student action event
+   * - Emit step completion for every pending step whose expected results match
+   */
+  function processQueryEntry(entry: QueryLogEntry): void {
+    let result: SplResult | null = null;
+    let error: string | null = null;
+
+    try {
+      result = runSpl(entry.query, events);
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    if (typeof entry.id === "string") {
+      writeResponse(entry.id, result, error);
+    }
+
+    emitStudentAction(entry, result, error);
+
+    if (!result) {
+      return;
+    }
+
+    for (const check of checks) {
+      if (completedSteps.has(check.stepId)) {
+        continue;
+      }
+
+      const comparison = compareResults(result.rows, check.rows, {
+        match: check.match,
+        ordered: check.ordered,
+      });
+
+      if (comparison.matched) {
+        completedSteps.add(check.stepId);
+        log(`Task validated: ${check.stepId} (via search)`);
+        emitStepCompleted(check.stepId, entry.timestamp);
+      }
+    }
+  }
+
+  /**
+   * Read and process new entries from queries.log
+   */
+  function processNewEntries(): void {
+    if (!existsSync(queriesLogPath)) {
+      return;
+    }
+
+    try {
+      const stats = statSync(queriesLogPath);
+      const currentSize = stats.size;
+
+      // Only process if file has grown
+      if (currentSize <= lastFileSize) {
+        return;
+      }
+
+      const content = readFileSync(queriesLogPath, "utf-8");
+      const lines = content.split("\n").filter((l) => l.trim());
+
+      // Only lines we haven't seen yet
+      for (const line of lines.slice(processedLineCount)) {
+        try {
+          const entry = JSON.parse(line) as QueryLogEntry;
+          if (typeof entry.query === "string") {
+            processQueryEntry(entry);
+          }
+        } catch (e) {
+          // Skip invalid JSON lines
+          log(`Warning: Skipped invalid JSON entry: ${e}`);
+        }
+      }
+
+      lastFileSize = currentSize;
+      processedLineCount = lines.length;
+    } catch (e) {
+      onError_?.(e as Error);
+    }
+  }
+
   return {
     async start() {
       if (running) {
@@ -30,13 +227,23 @@ export function createSplunkAdapter(options: SplunkAdapterOptions): LabAdapter {
       running = true;
       log(`Splunk adapter starting for module ${moduleId}`);
 
-      // TODO: Implement Splunk monitoring
-      // - Connect to Splunk API or watch queries.log
-      // - Parse SPL (Splunk Processing Language) queries
-      // - Validate query results against expected outputs
-      // - Emit UnifiedLabEvent for each query execution
-      // - Emit StepCompletionEvent when validation passes
-      log("Splunk adapter is in stub mode (not fully implemented)");
+      try {
+        loadLab();
+      } catch (e) {
+        onError_?.(e as Error);
+      }
+
+      // Process searches submitted before the adapter started
+      processNewEntries();
+
+      // Watch queries.log
+      const filename = basename(queriesLogPath);
+      queryWatcher = watch(dirname(queriesLogPath), { persistent: true }, (eventType, changedFile) => {
+        if (changedFile === filename) {
+          processNewEntries();
+        }
+      });
+      log(`Watching ${queriesLogPath}`);
     },
 
     stop() {
@@ -45,6 +252,12 @@ export function createSplunkAdapter(options: SplunkAdapterOptions): LabAdapter {
       }
 
       running = false;
+
+      if (queryWatcher) {
+        queryWatcher.close();
+        queryWatcher = null;
+      }
+
       log("Splunk adapter stopped");
     },
 
@@ -0,0 +1,241 @@
+// SQL Lab Adapter
+// Monitors sql-queries.log (written by lab-sql in the container) and re-runs
+// each query read-only against the lab's SQLite database to validate results
+
+import { watch, existsSync, readFileSync, statSync } from "fs";
+import { basename, dirname, join } from "path";
+import type { LabAdapter, SqlAdapterOptions, UnifiedLabEvent, StepCompletionEvent } from "./types";
+import { getSqlChecks } from "../module-loader";
+import { type SqlCheck, type SqlResultSet, runSqlQuery, compareResultSets } from "../sql";
+
+/**
+ * sql-queries.log entry format (one JSON object per line)
+ */
+export interface SqlQueryLogEntry {
+  timestamp: string;
+  query: string;
+  user?: string;
+  exit_code: number;
+  error?: string;
+}
+
+/**
+ * SQL Adapter: Monitors sql-queries.log and validates query result sets
+ * Emits unified events that Event Hub can process
+ */
+export function createSqlAdapter(options: SqlAdapterOptions): LabAdapter {
+  const { moduleId, logPath, onLog, onError } = options;
+
+  const queriesLogPath = options.queriesLogPath ?? join(logPath, "sql-queries.log");
+  const databasePath = options.databasePath ?? join(logPath, "lab.db");
+  const log = (msg: string) => onLog?.(msg);
+
+  // State
+  let running = false;
+  let queryWatcher: ReturnType<typeof watch> | null = null;
+  let lastFileSize = 0;
+  let processedLineCount = 0;
+  let completedSteps = new Set<string>();
+  let checks: SqlCheck[] = [];
+
+  // Callbacks (set by Event Hub before start())
+  let onStudentAction: ((event: UnifiedLabEvent) => void) | undefined;
+  let onStepCompleted: ((event: StepCompletionEvent) => void) | undefined;
+  let onError_: ((error: Error) => void) | undefined = onError;
+
+  /**
+   * Emit a student action event (every query run through lab-sql)
+   */
+  function emitStudentAction(entry: SqlQueryLogEntry, result: SqlResultSet | null): void {
+    const event: UnifiedLabEvent = {
+      actionKind: "execute_sql",
+      action: entry.query,
+      result: entry.exit_code === 0 ? "success" : "failure",
+      evidence: {
+        query: entry.query,
+        user: entry.user,
+        exit_code: entry.exit_code,
+        error: entry.error ?? null,
+        row_count: result?.rows.length ?? null,
+        columns: result?.columns ?? [],
+      },
+      timestamp: entry.timestamp,
+      source: "command",
+    };
+
+    onStudentAction?.(event);
+  }
+
+  /**
+   * Emit a step completion event
+   */
+  function emitStepCompleted(stepId: string, timestamp: string): void {
+    const event: StepCompletionEvent = {
+      stepId,
+      source: "check",
+      timestamp,
+    };
+
+    onStepCompleted?.(event);
+  }
+
+  /**
+   * Re-run a query for its result set
+   * Failures here are ours (missing database, replay error), not the student's
+   */
+  function replayQuery(query: string): SqlResultSet | null {
+    try {
+      return runSqlQuery(databasePath, query);
+    } catch (e) {
+      log(`Warning: Could not replay query: ${e instanceof Error ? e.message : e}`);
+      return null;
+    }
+  }
+
+  /**
+   * Process a single query
+   * - Replay it read-only for its result set (queries that failed in the lab are not replayed)
+   * - Emit student action event
+   * - Emit step completion for every pending step whose expected rows match
+   */
+  function processQueryEntry(entry: SqlQueryLogEntry): void {
+    const result = entry.exit_code === 0 ? replayQuery(entry.query) : null;
+
+    emitStudentAction(entry, result);
+
+    if (!result) {
+      return;
+    }
+
+    for (const check of checks) {
+      if (completedSteps.has(check.stepId)) {
+        continue;
+      }
+
+      // Reference queries run against the current data, so they track the student's changes
+      let expected = check.expected;
+      if (check.reference) {
+        const reference = replayQuery(check.reference);
+        if (!reference) {
+          continue;
+        }
+        expected = reference.rows;
+      }
+
+      const comparison = compareResultSets(result, expected!, { ordered: check.ordered });
+      if (comparison.matched) {
+        completedSteps.add(check.stepId);
+        log(`Task validated: ${check.stepId} (via query)`);
+        emitStepCompleted(check.stepId, entry.timestamp);
+      }
+    }
+  }
+
+  /**
+   * Read and process new entries from sql-queries.log
+   */
+  function processNewEntries(): void {
+    if (!existsSync(queriesLogPath)) {
+      return;
+    }
+
+    try {
+      const stats = statSync(queriesLogPath);
+      const currentSize = stats.size;
+
+      // Only process if file has grown
+      if (currentSize <= lastFileSize) {
+        return;
+      }
+
+      const content = readFileSync(queriesLogPath, "utf-8");
+      const lines = content.split("\n").filter((l) => l.trim());
+
+      // Only lines we haven't seen yet
+      for (const line of lines.slice(processedLineCount)) {
+        try {
+          const entry = JSON.parse(line) as SqlQueryLogEntry;
+          if (typeof entry.query === "string") {
+            processQueryEntry(entry);
+          }
+        } catch (e) {
+          // Skip invalid JSON lines
+          log(`Warning: Skipped invalid JSON entry: ${e}`);
+        }
+      }
+
+      lastFileSize = currentSize;
+      processedLineCount = lines.length;
+    } catch (e) {
+      onError_?.(e as Error);
+    }
+  }
+
+  return {
+    async start() {
+      if (running) {
+        return;
+      }
+
+      running = true;
+      log(`SQL adapter starting for module ${moduleId}`);
+
+      try {
+        checks = getSqlChecks(moduleId);
+      } catch (e) {
+        onError_?.(e as Error);
+      }
+
+      // Process queries run before the adapter started
+      processNewEntries();
+
+      // Watch sql-queries.log
+      const filename = basename(queriesLogPath);
+      queryWatcher = watch(dirname(queriesLogPath), { persistent: true }, (eventType, changedFile) => {
+        if (changedFile === filename) {
+          processNewEntries();
+        }
+      });
+      log(`Watching ${queriesLogPath}`);
+    },
+
+    stop() {
+      if (!running) {
+        return;
+      }
+
+      running = false;
+
+      if (queryWatcher) {
+        queryWatcher.close();
+        queryWatcher = null;
+      }
+
+      log("SQL adapter stopped");
+    },
+
+    isRunning() {
+      return running;
+    },
+
+    getLabType() {
+      return "sql";
+    },
+
+    getModuleId() {
+      return moduleId;
+    },
+
+    set onStudentAction(handler: ((event: UnifiedLabEvent) => void) | undefined) {
+      onStudentAction = handler;
+    },
+
+    set onStepCompleted(handler: ((event: StepCompletionEvent) => void) | undefined) {
+      onStepCompleted = handler;
+    },
+
+    set onError(handler: ((error: Error) => void) | undefined) {
+      onError_ = handler;
+    },
+  };
+}
@@ -1,7 +1,9 @@
 // Lab Adapter Types
 // Multi-lab support using adapter pattern for event normalization
 
-import type { LabType, ActionKind } from "../telemetry/types";
+import type { LabType, ActionKind, OnDemandCheck } from "../telemetry/types";
+import type { StepValidation } from "../module-loader";
+import type { CheckRunResult } from "../checks/types";
 
 // ============================================================================
 // UNIFIED LAB EVENTS
@@ -30,6 +32,33 @@ export interface StepCompletionEvent {
   source: "command" | "check" | "tutor" | "question";
   taskIndex?: number;
   timestamp: string;
+  checkScript?: string;      // The check that passed (source "check")
+  message?: string;          // Its explanation (checks run on demand)
+  onDemand?: OnDemandCheck;  // Set when the check was run on demand
+}
+
+/**
+ * Event emitted when a completed step's outcome no longer holds
+ * (continuous verification: its check or composite stopped passing)
+ * The step completes again, via StepCompletionEvent, once it passes again
+ */
+export interface StepRegressionEvent {
+  stepId: string;
+  source: "command" | "check";
+  timestamp: string;
+  message?: string;  // What the check printed when it stopped passing
+}
+
+/**
+ * Event emitted when one task of a multi-task step is done
+ * (e.g., a child of a composite validation is satisfied)
+ * The step itself completes separately via StepCompletionEvent
+ */
+export interface TaskProgressEvent {
+  stepId: string;
+  taskIndex: number;
+  source: "command" | "check";
+  timestamp: string;
 }
 
 // ============================================================================
@@ -66,6 +95,18 @@ export interface LabAdapter {
    */
   getModuleId(): string;
 
+  /**
+   * Start validating a step added during the session (e.g. by the tutor)
+   * Optional - adapters without it only complete added steps via markComplete
+   */
+  addStepValidation?(validation: StepValidation): void;
+
+  /**
+   * Run a step's check once, now, instead of waiting for it to be polled
+   * Optional - only adapters whose checks run in the lab container support it
+   */
+  runCheck?(stepId: string): Promise<CheckRunResult>;
+
   // =========================================================================
   // EVENT CALLBACKS (Set by Event Hub)
   // =========================================================================
@@ -82,6 +123,18 @@ export interface LabAdapter {
    */
   onStepCompleted?: (event: StepCompletionEvent) => void;
 
+  /**
+   * Called when a single task within a step is done
+   * Optional - only adapters with composite validation emit these
+   */
+  onTaskProgress?: (event: TaskProgressEvent) => void;
+
+  /**
+   * Called when a completed step stops passing
+   * Optional - only adapters with continuous verification emit these
+   */
+  onStepRegressed?: (event: StepRegressionEvent) => void;
+
   /**
    * Called on adapter errors
    * Event hub sets this before calling start()
@@ -109,18 +162,39 @@ export interface BaseAdapterOptions {
 export interface LinuxCliAdapterOptions extends BaseAdapterOptions {
   checksLogPath?: string;
   validationRules?: Record<string, unknown>;
+  containerId?: string;  // Lab container, to run checks on demand (docker exec)
 }
 
+/**
+ * Git adapter specific options
+ * Git labs tail the same commands.log / checks.log as Linux CLI labs
+ */
+export interface GitAdapterOptions extends LinuxCliAdapterOptions {}
+
 /**
  * Splunk adapter specific options
  */
 export interface SplunkAdapterOptions extends BaseAdapterOptions {
-  // TODO: Add Splunk-specific options (host, port, credentials, etc.)
+  queriesLogPath?: string;  // Defaults to <logPath>/queries.log
+  datasetPath?: string;     // Defaults to the module's `dataset`
+}
+
+/**
+ * SQL adapter specific options
+ */
+export interface SqlAdapterOptions extends BaseAdapterOptions {
+  queriesLogPath?: string;  // Defaults to <logPath>/sql-queries.log
+  databasePath?: string;    // Defaults to <logPath>/lab.db (seeded by setup.sh)
 }
 
 /**
  * Python adapter specific options
  */
 export interface PythonAdapterOptions extends BaseAdapterOptions {
-  // TODO: Add Python-specific options (interpreter path, virtual env, etc.)
+  workspacePath?: string;           // Watch this workspace and run the module's tests on save
+  interpreter?: string;             // Python to run pytest with (default: python3)
+  venvPath?: string;                // Or: a virtual env whose bin/python runs pytest
+  containerId?: string;             // Run tests inside this lab container (docker exec)
+  containerWorkspacePath?: string;  // Workspace path inside the container
+  debounceMs?: number;              // Quiet period after a save before running (default: 300)
 }
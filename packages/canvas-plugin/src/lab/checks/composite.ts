@@ -0,0 +1,338 @@
+// Composite Validation - all/any/not/sequence combinators over validation rules
+// Outcome leaves (declarative checks) are compiled to probe scripts that the
+// orchestrator polls continuously; command leaves are matched against commands.log.
+// The host combines both into per-step progress.
+
+import {
+  type DeclarativeCheck,
+  isDeclarativeCheckType,
+  verifyDeclarativeCheck,
+  compileCheckScript,
+  describeDeclarativeCheck,
+} from "./declarative";
+
+export type CompositeOperator = "all" | "any" | "not" | "sequence";
+
+export const COMPOSITE_OPERATORS: CompositeOperator[] = ["all", "any", "not", "sequence"];
+
+/**
+ * Command-based leaf, satisfied once a matching command is seen in commands.log
+ * Same matching semantics as ValidationRule (pattern and/or user)
+ */
+export interface CommandLeaf {
+  type: "command-pattern" | "user-check";
+  pattern?: string;
+  user?: string;
+  task?: number;
+}
+
+export type OutcomeLeaf = DeclarativeCheck & { task?: number };
+
+export interface CompositeValidation {
+  type: CompositeOperator;
+  checks: ValidationNode[];
+  task?: number; // Task index when nested directly under the step's root composite
+}
+
+export type ValidationNode = CompositeValidation | CommandLeaf | OutcomeLeaf;
+
+/**
+ * An outcome leaf and the probe script that reports its status
+ */
+export interface ProbeConfig {
+  leafId: string;
+  script: string;
+  compiled: string;
+}
+
+/**
+ * Result of re-evaluating a composite after new evidence
+ */
+export interface CompositeEvaluation {
+  satisfied: boolean;
+  completedTasks: number[]; // Task indexes completed by this update (reported once)
+}
+
+export interface CompositeEvaluator {
+  stepId: string;
+  recordProbe: (leafId: string, passed: boolean) => CompositeEvaluation;
+  recordCommand: (entry: { command: string; user: string }) => CompositeEvaluation;
+  getCompletedTasks: () => number[];
+}
+
+export function isCompositeOperator(type: string): type is CompositeOperator {
+  return (COMPOSITE_OPERATORS as string[]).includes(type);
+}
+
+export function isCompositeValidation(node: { type: string }): node is CompositeValidation {
+  return isCompositeOperator(node.type);
+}
+
+function isCommandLeaf(node: ValidationNode): node is CommandLeaf {
+  return node.type === "command-pattern" || node.type === "user-check";
+}
+
+// Leaf IDs are child index paths joined by "-", e.g. "1-0"
+function childId(parentId: string, index: number): string {
+  return parentId === "" ? String(index) : `${parentId}-${index}`;
+}
+
+/**
+ * Probe script name for an outcome leaf
+ * "--" separates the step ID (which may contain "-") from the leaf path
+ */
+export function probeScriptName(stepId: string, leafId: string): string {
+  return `probe-${stepId}--${leafId}.sh`;
+}
+
+/**
+ * Split a probe script name back into step ID and leaf ID
+ */
+export function parseProbeScriptName(script: string): { stepId: string; leafId: string } | null {
+  const match = script.match(/^probe-(.+)--([0-9]+(?:-[0-9]+)*)\.sh$/);
+  return match ? { stepId: match[1], leafId: match[2] } : null;
+}
+
+/**
+ * Statically verify a composite validation tree
+ * Returns a list of problems, each prefixed with the path of the offending node
+ */
+export function verifyCompositeValidation(node: CompositeValidation): string[] {
+  const problems: string[] = [];
+
+  function visit(current: ValidationNode, where: string): void {
+    const prefix = where ? `${where}: ` : "";
+
+    if (!current || typeof current !== "object" || typeof current.type !== "string") {
+      problems.push(`${prefix}each check must be an object with a 'type'`);
+      return;
+    }
+
+    if (isCompositeValidation(current)) {
+      if (!Array.isArray(current.checks) || current.checks.length === 0) {
+        problems.push(`${prefix}${current.type} requires a non-empty 'checks' list`);
+        return;
+      }
+      if (current.type === "not" && current.checks.length !== 1) {
+        problems.push(`${prefix}not takes exactly one check (got ${current.checks.length})`);
+      }
+      current.checks.forEach((child, i) => visit(child, `${where ? `${where}.` : ""}checks[${i}]`));
+      return;
+    }
+
+    if (isCommandLeaf(current)) {
+      if (current.type === "command-pattern" && !current.pattern) {
+        problems.push(`${prefix}command-pattern requires 'pattern'`);
+      }
+      if (current.type === "user-check" && !current.user) {
+        problems.push(`${prefix}user-check requires 'user'`);
+      }
+      if (current.pattern !== undefined) {
+        try {
+          new RegExp(current.pattern);
+        } catch (e) {
+          problems.push(`${prefix}'pattern' is not a valid regular expression: ${e instanceof Error ? e.message : e}`);
+        }
+      }
+      return;
+    }
+
+    if (isDeclarativeCheckType(current.type)) {
+      for (const problem of verifyDeclarativeCheck(current)) {
+        problems.push(`${prefix}${problem}`);
+      }
+      return;
+    }
+
+    problems.push(`${prefix}'${current.type}' cannot be used inside a composite validation`);
+  }
+
+  visit(node, "");
+
+  // Task indexes only mean something on the root's direct children
+  if (Array.isArray(node.checks)) {
+    node.checks.forEach((child, i) => {
+      if (child?.task !== undefined && (!Number.isInteger(child.task) || child.task < 0)) {
+        problems.push(`checks[${i}]: 'task' must be a non-negative integer (got '${child.task}')`);
+      }
+    });
+  }
+
+  return problems;
+}
+
+/**
+ * Task index each of the root's children reports progress against
+ * Defaults to the child's position; a root `not` has no sub-tasks
+ */
+export function getTaskIndexes(node: CompositeValidation): number[] {
+  if (node.type === "not") {
+    return [];
+  }
+  return node.checks.map((child, i) => child.task ?? i);
+}
+
+/**
+ * Compile every outcome leaf of a composite into a probe script
+ */
+export function getProbeConfigs(stepId: string, node: CompositeValidation): ProbeConfig[] {
+  const probes: ProbeConfig[] = [];
+
+  function visit(current: ValidationNode, id: string): void {
+    if (isCompositeValidation(current)) {
+      current.checks.forEach((child, i) => visit(child, childId(id, i)));
+    } else if (!isCommandLeaf(current)) {
+      probes.push({
+        leafId: id,
+        script: probeScriptName(stepId, id),
+        compiled: compileCheckScript(`${stepId} (${id})`, current),
+      });
+    }
+  }
+
+  node.checks.forEach((child, i) => visit(child, childId("", i)));
+  return probes;
+}
+
+/**
+ * Human-readable description of a composite, for tutor prompts
+ */
+export function describeValidationNode(node: ValidationNode): string {
+  if (isCompositeValidation(node)) {
+    const parts = node.checks.map(describeValidationNode);
+    switch (node.type) {
+      case "all":
+        return `All of: ${parts.join("; ")}`;
+      case "any":
+        return `Any of: ${parts.join("; ")}`;
+      case "not":
+        return `Not: ${parts[0]}`;
+      case "sequence":
+        return `In order: ${parts.join(" → ")}`;
+    }
+  }
+
+  if (isCommandLeaf(node)) {
+    const parts: string[] = [];
+    if (node.pattern) parts.push(`Command matches: ${node.pattern}`);
+    if (node.user) parts.push(`User is '${node.user}'`);
+    return parts.join(", ");
+  }
+
+  return describeDeclarativeCheck(node);
+}
+
+/**
+ * Create an evaluator that tracks evidence for one step's composite validation
+ *
+ * Outcome leaves reflect the latest probe status. Command leaves latch when a
+ * matching command is seen; inside a sequence they only count if the command
+ * came after the previous child was satisfied. Sequences latch their progress,
+ * so a later child never has to re-satisfy an earlier one.
+ */
+export function createCompositeEvaluator(stepId: string, root: CompositeValidation): CompositeEvaluator {
+  // Evidence is ordered by a tick that increases on every record call
+  let tick = 0;
+  const probeStatus = new Map<string, boolean>();
+  const commandSeenAt = new Map<string, number>(); // leafId -> tick of last match
+  const sequenceProgress = new Map<string, { index: number; completedAt: number }>();
+  const reportedTasks = new Set<number>();
+  const taskIndexes = getTaskIndexes(root);
+
+  // Pre-compile command leaf patterns
+  const commandLeaves = new Map<string, { pattern?: RegExp; user?: string }>();
+  function collect(node: ValidationNode, id: string): void {
+    if (isCompositeValidation(node)) {
+      node.checks.forEach((child, i) => collect(child, childId(id, i)));
+    } else if (isCommandLeaf(node)) {
+      commandLeaves.set(id, {
+        pattern: node.pattern ? new RegExp(node.pattern) : undefined,
+        user: node.user,
+      });
+    }
+  }
+  collect(root, "");
+
+  function evaluateNode(node: ValidationNode, id: string, after: number): boolean {
+    if (isCompositeValidation(node)) {
+      const ids = node.checks.map((_, i) => childId(id, i));
+
+      switch (node.type) {
+        case "all":
+          return node.checks.map((child, i) => evaluateNode(child, ids[i], after)).every(Boolean);
+        case "any":
+          return node.checks.map((child, i) => evaluateNode(child, ids[i], after)).some(Boolean);
+        case "not":
+          return !evaluateNode(node.checks[0], ids[0], after);
+        case "sequence": {
+          const progress = sequenceProgress.get(id) ?? { index: 0, completedAt: after };
+          while (
+            progress.index < node.checks.length &&
+            evaluateNode(node.checks[progress.index], ids[progress.index], progress.completedAt)
+          ) {
+            progress.index++;
+            progress.completedAt = tick;
+          }
+          sequenceProgress.set(id, progress);
+          return progress.index === node.checks.length;
+        }
+      }
+    }
+
+    if (isCommandLeaf(node)) {
+      return (commandSeenAt.get(id) ?? 0) > after;
+    }
+
+    return probeStatus.get(id) === true;
+  }
+
+  function evaluate(): CompositeEvaluation {
+    const satisfied = evaluateNode(root, "", 0);
+
+    // Root children map onto the step's tasks
+    const completedTasks: number[] = [];
+    root.checks.forEach((child, i) => {
+      const taskIndex = taskIndexes[i];
+      if (taskIndex === undefined || reportedTasks.has(taskIndex)) {
+        return;
+      }
+
+      const done =
+        root.type === "sequence"
+          ? (sequenceProgress.get("")?.index ?? 0) > i
+          : evaluateNode(child, childId("", i), 0);
+
+      if (done) {
+        reportedTasks.add(taskIndex);
+        completedTasks.push(taskIndex);
+      }
+    });
+
+    return { satisfied, completedTasks };
+  }
+
+  return {
+    stepId,
+
+    recordProbe(leafId: string, passed: boolean) {
+      tick++;
+      probeStatus.set(leafId, passed);
+      return evaluate();
+    },
+
+    recordCommand(entry: { command: string; user: string }) {
+      tick++;
+      const command = entry.command.trim();
+      for (const [id, leaf] of commandLeaves) {
+        if (leaf.pattern && !leaf.pattern.test(command)) continue;
+        if (leaf.user && entry.user !== leaf.user) continue;
+        commandSeenAt.set(id, tick);
+      }
+      return evaluate();
+    },
+
+    getCompletedTasks() {
+      return [...reportedTasks];
+    },
+  };
+}
@@ -0,0 +1,417 @@
+// Declarative Checks - Outcome validators declared in module.yaml
+// Compiled to bash check scripts that run inside the lab container,
+// so lab authors don't have to hand-write check-*.sh for common outcomes
+
+export type DeclarativeCheckType =
+  | "file-exists"
+  | "file-mode"
+  | "file-contains"
+  | "user-exists"
+  | "group-member"
+  | "command-output-matches"
+  | "process-running"
+  | "port-listening"
+  | "git-branch-exists"
+  | "git-head-message"
+  | "git-clean"
+  | "git-file-staged"
+  | "git-merge-complete"
+  | "git-remote";
+
+export const DECLARATIVE_CHECK_TYPES: DeclarativeCheckType[] = [
+  "file-exists",
+  "file-mode",
+  "file-contains",
+  "user-exists",
+  "group-member",
+  "command-output-matches",
+  "process-running",
+  "port-listening",
+  "git-branch-exists",
+  "git-head-message",
+  "git-clean",
+  "git-file-staged",
+  "git-merge-complete",
+  "git-remote",
+];
+
+/**
+ * A declarative check as written in a step's `validation` block.
+ * Fields are flat (like the rest of YamlValidation); which ones are
+ * required depends on `type` - see verifyDeclarativeCheck().
+ */
+export interface DeclarativeCheck {
+  type: DeclarativeCheckType;
+  path?: string;                       // file-exists, file-mode, file-contains
+  kind?: "file" | "directory" | "any"; // file-exists (default: any)
+  mode?: string | number;              // file-mode, octal e.g. "750"
+  text?: string;                       // file-contains (fixed string)
+  pattern?: string;                    // file-contains, command-output-matches (extended regex)
+  user?: string;                       // user-exists, group-member
+  group?: string;                      // group-member
+  command?: string;                    // command-output-matches
+  run_as?: string;                     // command-output-matches (default: root)
+  process?: string;                    // process-running (matches /proc/<pid>/comm)
+  port?: number;                       // port-listening
+  protocol?: "tcp" | "udp";            // port-listening (default: tcp)
+  repo?: string;                       // git-* (path to the working tree)
+  branch?: string;                     // git-branch-exists, git-merge-complete (branch merged into HEAD)
+  message?: string;                    // git-head-message (fixed string; or use pattern)
+  file?: string;                       // git-file-staged (relative to repo)
+  remote?: string;                     // git-remote
+  url?: string;                        // git-remote (optional exact URL)
+}
+
+const NAME_PATTERN = /^[a-z_][a-z0-9_.-]*\$?$/i;
+
+// Conservative subset of git's ref name rules
+const BRANCH_PATTERN = /^(?!-)(?!.*\.\.)[A-Za-z0-9._\/-]+(?<![./])$/;
+
+export function isDeclarativeCheckType(type: string): type is DeclarativeCheckType {
+  return (DECLARATIVE_CHECK_TYPES as string[]).includes(type);
+}
+
+/**
+ * Normalize an octal mode ("0750", 750, "750") to the form `stat -c %a` prints
+ */
+export function normalizeMode(mode: string | number): string {
+  return parseInt(String(mode), 8).toString(8);
+}
+
+/**
+ * Statically verify a declarative check
+ * Returns a list of problems (empty if the check is well-formed)
+ */
+export function verifyDeclarativeCheck(check: DeclarativeCheck): string[] {
+  const problems: string[] = [];
+
+  const requirePath = () => {
+    if (!check.path) {
+      problems.push(`${check.type} requires 'path'`);
+    } else if (!check.path.startsWith("/") && !check.path.startsWith("~")) {
+      problems.push(`'path' must be absolute or start with ~ (got '${check.path}')`);
+    }
+  };
+
+  const requireRepo = () => {
+    if (!check.repo) {
+      problems.push(`${check.type} requires 'repo'`);
+    } else if (!check.repo.startsWith("/") && !check.repo.startsWith("~")) {
+      problems.push(`'repo' must be absolute or start with ~ (got '${check.repo}')`);
+    }
+  };
+
+  const verifyBranch = (required: boolean) => {
+    if (check.branch === undefined) {
+      if (required) problems.push(`${check.type} requires 'branch'`);
+    } else if (!BRANCH_PATTERN.test(check.branch)) {
+      problems.push(`'branch' is not a valid branch name: '${check.branch}'`);
+    }
+  };
+
+  const requireName = (field: "user" | "group" | "run_as" | "process") => {
+    const value = check[field];
+    if (!value) {
+      problems.push(`${check.type} requires '${field}'`);
+    } else if (!NAME_PATTERN.test(value)) {
+      problems.push(`'${field}' is not a valid name: '${value}'`);
+    }
+  };
+
+  const verifyPattern = () => {
+    if (check.pattern === undefined) return;
+    try {
+      new RegExp(check.pattern);
+    } catch (e) {
+      problems.push(`'pattern' is not a valid regular expression: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  switch (check.type) {
+    case "file-exists":
+      requirePath();
+      if (check.kind && !["file", "directory", "any"].includes(check.kind)) {
+        problems.push(`'kind' must be one of: file, directory, any (got '${check.kind}')`);
+      }
+      break;
+
+    case "file-mode":
+      requirePath();
+      if (check.mode === undefined) {
+        problems.push("file-mode requires 'mode'");
+      } else if (!/^[0-7]{3,4}$/.test(String(check.mode))) {
+        problems.push(`'mode' must be an octal mode like 750 (got '${check.mode}')`);
+      }
+      break;
+
+    case "file-contains":
+      requirePath();
+      if (check.text === undefined && check.pattern === undefined) {
+        problems.push("file-contains requires 'text' or 'pattern'");
+      }
+      verifyPattern();
+      break;
+
+    case "user-exists":
+      requireName("user");
+      break;
+
+    case "group-member":
+      requireName("user");
+      requireName("group");
+      break;
+
+    case "command-output-matches":
+      if (!check.command) {
+        problems.push("command-output-matches requires 'command'");
+      }
+      if (check.pattern === undefined) {
+        problems.push("command-output-matches requires 'pattern'");
+      }
+      verifyPattern();
+      if (check.run_as !== undefined) {
+        requireName("run_as");
+      }
+      break;
+
+    case "process-running":
+      requireName("process");
+      break;
+
+    case "port-listening":
+      if (!Number.isInteger(check.port) || check.port! < 1 || check.port! > 65535) {
+        problems.push(`'port' must be an integer between 1 and 65535 (got '${check.port}')`);
+      }
+      if (check.protocol && check.protocol !== "tcp" && check.protocol !== "udp") {
+        problems.push(`'protocol' must be tcp or udp (got '${check.protocol}')`);
+      }
+      break;
+
+    case "git-branch-exists":
+      requireRepo();
+      verifyBranch(true);
+      break;
+
+    case "git-head-message":
+      requireRepo();
+      if (check.message === undefined && check.pattern === undefined) {
+        problems.push("git-head-message requires 'message' or 'pattern'");
+      }
+      verifyPattern();
+      break;
+
+    case "git-clean":
+      requireRepo();
+      break;
+
+    case "git-file-staged":
+      requireRepo();
+      if (!check.file) {
+        problems.push("git-file-staged requires 'file'");
+      } else if (check.file.startsWith("/")) {
+        problems.push(`'file' must be relative to the repository (got '${check.file}')`);
+      }
+      break;
+
+    case "git-merge-complete":
+      requireRepo();
+      verifyBranch(false);
+      break;
+
+    case "git-remote":
+      requireRepo();
+      if (!check.remote) {
+        problems.push("git-remote requires 'remote'");
+      } else if (!BRANCH_PATTERN.test(check.remote)) {
+        problems.push(`'remote' is not a valid remote name: '${check.remote}'`);
+      }
+      break;
+
+    default:
+      problems.push(`Unknown declarative check type: ${(check as DeclarativeCheck).type}`);
+  }
+
+  return problems;
+}
+
+/**
+ * Quote a value for safe use as a single bash word
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Expand a leading ~ to the student's home directory (checks run as root)
+ */
+function expandPath(path: string): string {
+  return path.replace(/^~(?=\/|$)/, "/home/student");
+}
+
+/**
+ * git invocation for a check's repository
+ * The image trusts every repo (safe.directory), since checks run as root
+ */
+function gitIn(check: DeclarativeCheck): string {
+  return `git -C ${shellQuote(expandPath(check.repo!))}`;
+}
+
+/**
+ * Compile a check into a bash condition (exit status 0 = satisfied)
+ */
+export function compileCheckCondition(check: DeclarativeCheck): string {
+  switch (check.type) {
+    case "file-exists": {
+      const path = shellQuote(expandPath(check.path!));
+      const flag = check.kind === "file" ? "-f" : check.kind === "directory" ? "-d" : "-e";
+      return `[ ${flag} ${path} ]`;
+    }
+
+    case "file-mode": {
+      const path = shellQuote(expandPath(check.path!));
+      return `[ "$(stat -c %a ${path} 2>/dev/null)" = ${shellQuote(normalizeMode(check.mode!))} ]`;
+    }
+
+    case "file-contains": {
+      const path = shellQuote(expandPath(check.path!));
+      return check.text !== undefined
+        ? `grep -qF -- ${shellQuote(check.text)} ${path} 2>/dev/null`
+        : `grep -qE -- ${shellQuote(check.pattern!)} ${path} 2>/dev/null`;
+    }
+
+    case "user-exists":
+      return `id -u ${shellQuote(check.user!)} >/dev/null 2>&1`;
+
+    case "group-member":
+      return `id -nG ${shellQuote(check.user!)} 2>/dev/null | tr ' ' '\\n' | grep -qx -- ${shellQuote(check.group!)}`;
+
+    case "command-output-matches": {
+      const run = check.run_as
+        ? `su - ${shellQuote(check.run_as)} -c ${shellQuote(check.command!)}`
+        : `bash -c ${shellQuote(check.command!)}`;
+      return `${run} 2>&1 | grep -qE -- ${shellQuote(check.pattern!)}`;
+    }
+
+    case "process-running":
+      // Scan /proc directly - procps is not guaranteed in the lab image
+      return `grep -qx -- ${shellQuote(check.process!)} /proc/[0-9]*/comm 2>/dev/null`;
+
+    case "port-listening": {
+      // /proc/net lists ports as 4-digit hex; TCP LISTEN is state 0A, bound UDP is 07
+      const protocol = check.protocol ?? "tcp";
+      const hexPort = check.port!.toString(16).toUpperCase().padStart(4, "0");
+      const state = protocol === "tcp" ? "0A" : "07";
+      return `grep -qE ':${hexPort} [0-9A-F]+:[0-9A-F]+ ${state} ' /proc/net/${protocol} /proc/net/${protocol}6 2>/dev/null`;
+    }
+
+    case "git-branch-exists":
+      return `${gitIn(check)} rev-parse --verify --quiet ${shellQuote(`refs/heads/${check.branch}`)} >/dev/null 2>&1`;
+
+    case "git-head-message": {
+      const log = `${gitIn(check)} log -1 --format=%B 2>/dev/null`;
+      return check.message !== undefined
+        ? `${log} | grep -qF -- ${shellQuote(check.message)}`
+        : `${log} | grep -qE -- ${shellQuote(check.pattern!)}`;
+    }
+
+    case "git-clean":
+      // Untracked files count as dirty
+      return `${gitIn(check)} rev-parse --git-dir >/dev/null 2>&1 && [ -z "$(${gitIn(check)} status --porcelain 2>/dev/null)" ]`;
+
+    case "git-file-staged":
+      return `${gitIn(check)} diff --cached --name-only 2>/dev/null | grep -qxF -- ${shellQuote(check.file!)}`;
+
+    case "git-merge-complete": {
+      // No merge or rebase in progress and no conflicted paths left
+      const conditions = [
+        `GIT_DIR_=$(${gitIn(check)} rev-parse --absolute-git-dir 2>/dev/null)`,
+        `[ ! -e "$GIT_DIR_/MERGE_HEAD" ]`,
+        `[ ! -d "$GIT_DIR_/rebase-merge" ]`,
+        `[ ! -d "$GIT_DIR_/rebase-apply" ]`,
+        `[ -z "$(${gitIn(check)} ls-files --unmerged 2>/dev/null)" ]`,
+      ];
+      if (check.branch) {
+        conditions.push(`${gitIn(check)} merge-base --is-ancestor ${shellQuote(check.branch)} HEAD 2>/dev/null`);
+      }
+      return conditions.join(" && ");
+    }
+
+    case "git-remote": {
+      const getUrl = `${gitIn(check)} remote get-url ${shellQuote(check.remote!)}`;
+      return check.url !== undefined
+        ? `[ "$(${getUrl} 2>/dev/null)" = ${shellQuote(check.url)} ]`
+        : `${getUrl} >/dev/null 2>&1`;
+    }
+  }
+}
+
+/**
+ * Human-readable description of what a check verifies
+ * Used for check output, tutor prompts and validation reports
+ */
+export function describeDeclarativeCheck(check: DeclarativeCheck): string {
+  switch (check.type) {
+    case "file-exists":
+      return `${check.kind === "directory" ? "Directory" : check.kind === "file" ? "File" : "Path"} ${check.path} exists`;
+    case "file-mode":
+      return `${check.path} has mode ${normalizeMode(check.mode!)}`;
+    case "file-contains":
+      return check.text !== undefined
+        ? `${check.path} contains '${check.text}'`
+        : `${check.path} matches /${check.pattern}/`;
+    case "user-exists":
+      return `User ${check.user} exists`;
+    case "group-member":
+      return `User ${check.user} is in group ${check.group}`;
+    case "command-output-matches":
+      return `Output of '${check.command}' matches /${check.pattern}/`;
+    case "process-running":
+      return `Process ${check.process} is running`;
+    case "port-listening":
+      return `Port ${check.port}/${check.protocol ?? "tcp"} is listening`;
+    case "git-branch-exists":
+      return `Branch ${check.branch} exists in ${check.repo}`;
+    case "git-head-message":
+      return check.message !== undefined
+        ? `HEAD commit message in ${check.repo} contains '${check.message}'`
+        : `HEAD commit message in ${check.repo} matches /${check.pattern}/`;
+    case "git-clean":
+      return `Working tree ${check.repo} is clean`;
+    case "git-file-staged":
+      return `${check.file} is staged in ${check.repo}`;
+    case "git-merge-complete":
+      return check.branch
+        ? `${check.branch} is merged into HEAD in ${check.repo} with no conflicts`
+        : `No merge or rebase in progress in ${check.repo}`;
+    case "git-remote":
+      return check.url !== undefined
+        ? `Remote ${check.remote} in ${check.repo} points at ${check.url}`
+        : `Remote ${check.remote} is configured in ${check.repo}`;
+  }
+}
+
+/**
+ * Compile a check into a standalone check script
+ * Follows the check script contract: exit 0 on pass, non-zero otherwise,
+ * with a JSON status line on stdout
+ */
+export function compileCheckScript(stepId: string, check: DeclarativeCheck): string {
+  const description = describeDeclarativeCheck(check);
+  const message = (status: string) =>
+    shellQuote(JSON.stringify({ status, message: description }));
+
+  return [
+    "#!/bin/bash",
+    `# Generated from module.yaml (step: ${stepId}, type: ${check.type})`,
+    "# Do not edit - regenerated each time the lab starts",
+    "",
+    `if ${compileCheckCondition(check)}; then`,
+    `  echo ${message("passed")}`,
+    "  exit 0",
+    "fi",
+    "",
+    `echo ${message("failed")}`,
+    "exit 1",
+    "",
+  ].join("\n");
+}
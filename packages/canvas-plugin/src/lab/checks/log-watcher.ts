@@ -1,4 +1,4 @@
-// Check Log Watcher - Watches checks.log for passed check results
+// Check Log Watcher - Watches checks.log for passed (and regressed) check results
 // Complements the command log watcher for result-based validation
 
 import { watch, existsSync, readFileSync, statSync } from "fs";
@@ -8,6 +8,8 @@ import { parseCheckLogEntry, type CheckLogEntry } from "./types";
 export interface CheckLogWatcherOptions {
   logPath: string;
   onCheckPassed: (result: { stepId: string; taskIndex?: number }) => void;
+  onCheckResult?: (entry: CheckLogEntry) => void; // Every new entry, including failures
+  onCheckRegressed?: (result: { stepId: string; message?: string }) => void; // A passed check stopped passing
   onError?: (error: Error) => void;
   onLog?: (message: string) => void;
 }
@@ -19,12 +21,13 @@ export interface CheckLogWatcher {
 }
 
 export function createCheckLogWatcher(options: CheckLogWatcherOptions): CheckLogWatcher {
-  const { logPath, onCheckPassed, onError, onLog } = options;
+  const { logPath, onCheckPassed, onCheckResult, onCheckRegressed, onError, onLog } = options;
 
   let running = false;
   let watcher: ReturnType<typeof watch> | null = null;
   let lastFileSize = 0;
   let processedStepIds = new Set<string>();
+  let processedLineCount = 0;
 
   const log = (msg: string) => onLog?.(msg);
 
@@ -47,7 +50,7 @@ export function createCheckLogWatcher(options: CheckLogWatcherOptions): CheckLog
       // Split by newlines and process each line
       const lines = content.split("\n").filter((l) => l.trim());
 
-      for (const line of lines) {
+      for (const [index, line] of lines.entries()) {
         const entry = parseCheckLogEntry(line);
 
         if (!entry) {
@@ -55,7 +58,12 @@ export function createCheckLogWatcher(options: CheckLogWatcherOptions): CheckLog
           continue;
         }
 
-        // Only process passed checks that we haven't seen before
+        if (index < processedLineCount) {
+          continue;
+        }
+        onCheckResult?.(entry);
+
+        // A check's pass is reported once, until it regresses (continuous checks pass again later)
         if (entry.status === "passed" && !processedStepIds.has(entry.stepId)) {
           processedStepIds.add(entry.stepId);
           log(`Check passed: ${entry.stepId}`);
@@ -63,10 +71,15 @@ export function createCheckLogWatcher(options: CheckLogWatcherOptions): CheckLog
             stepId: entry.stepId,
             taskIndex: entry.taskIndex,
           });
+        } else if (entry.status === "regressed" && processedStepIds.delete(entry.stepId)) {
+          log(`Check regressed: ${entry.stepId}`);
+          onCheckRegressed?.({ stepId: entry.stepId, message: entry.message });
         }
       }
 
       lastFileSize = currentSize;
+      // A trailing line without a newline may still be mid-write
+      processedLineCount = content.endsWith("\n") ? lines.length : lines.length - 1;
     } catch (e) {
       onError?.(e as Error);
     }
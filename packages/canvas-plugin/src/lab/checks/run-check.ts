@@ -0,0 +1,92 @@
+// Run Check - Run one step's check script in the lab container on demand
+// Same scripts and paths the orchestrator polls, so the result matches a polled check
+
+import { spawn } from "child_process";
+import { posix } from "path";
+import { GENERATED_CHECKS_DIR, type CheckConfig } from "../module-loader";
+import type { CheckRunResult } from "./types";
+
+// Where the container sees module files and the mounted lab log dir
+const CONTAINER_MODULES_DIR = "/opt/lab/modules";
+const CONTAINER_LOG_DIR = "/var/log/lab-commands";
+
+export interface RunCheckOptions {
+  containerId: string;
+  moduleId: string;
+  timeoutMs?: number; // Default: 15000
+}
+
+/**
+ * Path of a check script inside the container: compiled checks are written
+ * to the mounted generated-checks dir, the rest ship in the module's checks/
+ */
+export function getContainerCheckPath(moduleId: string, check: CheckConfig): string {
+  return check.compiled !== undefined
+    ? posix.join(CONTAINER_LOG_DIR, GENERATED_CHECKS_DIR, check.script)
+    : posix.join(CONTAINER_MODULES_DIR, moduleId, "checks", check.script);
+}
+
+/**
+ * Explain a check outcome in one line: the last output line it printed,
+ * or just the exit status when it printed nothing
+ */
+export function explainCheckResult(exitCode: number | null, output: string): string {
+  const lastLine = output
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .pop();
+
+  if (exitCode === 0) {
+    return lastLine ? `Check passed: ${lastLine}` : "Check passed";
+  }
+  if (exitCode === null) {
+    return lastLine ? `Check did not finish: ${lastLine}` : "Check did not finish";
+  }
+  return lastLine ?? `Check exited with status ${exitCode}`;
+}
+
+/**
+ * Run a step's check once with docker exec and collect its output and exit status
+ * Never rejects: a check that cannot run comes back failed with the reason as output
+ */
+export function runCheckInContainer(check: CheckConfig, options: RunCheckOptions): Promise<CheckRunResult> {
+  const path = getContainerCheckPath(options.moduleId, check);
+
+  return new Promise((resolve) => {
+    let output = "";
+    let exitCode: number | null = null;
+    let finished = false;
+
+    const child = spawn("docker", ["exec", options.containerId, "bash", path], { stdio: ["ignore", "pipe", "pipe"] });
+    const timer = setTimeout(() => child.kill("SIGKILL"), options.timeoutMs ?? 15000);
+
+    child.stdout.on("data", (chunk) => (output += chunk));
+    child.stderr.on("data", (chunk) => (output += chunk));
+
+    // "error" (spawn failed) may be followed by "close"
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(timer);
+
+      resolve({
+        stepId: check.stepId,
+        script: check.script,
+        passed: exitCode === 0,
+        exitCode,
+        output,
+        message: explainCheckResult(exitCode, output),
+      });
+    };
+
+    child.on("error", (e) => {
+      output += e.message;
+      finish();
+    });
+    child.on("close", (code) => {
+      exitCode = code;
+      finish();
+    });
+  });
+}
@@ -3,7 +3,7 @@
 
 export interface CheckLogEntry {
   stepId: string;
-  status: "passed" | "failed" | "error";
+  status: "passed" | "failed" | "error" | "regressed"; // regressed: passed before, no longer does (continuous checks)
   timestamp: string;
   taskIndex?: number;
   message?: string;
@@ -23,7 +23,7 @@ export function parseCheckLogEntry(line: string): CheckLogEntry | null {
     // Validate required fields
     if (
       typeof entry.stepId === "string" &&
-      (entry.status === "passed" || entry.status === "failed" || entry.status === "error") &&
+      ["passed", "failed", "error", "regressed"].includes(entry.status) &&
       typeof entry.timestamp === "string"
     ) {
       return entry;
@@ -33,3 +33,13 @@ export function parseCheckLogEntry(line: string): CheckLogEntry | null {
     return null;
   }
 }
+
+// Outcome of running a step's check on demand (see run-check.ts)
+export interface CheckRunResult {
+  stepId: string;
+  script: string;
+  passed: boolean;
+  exitCode: number | null; // null if the check was killed (timeout) or could not start
+  output: string;          // Combined stdout/stderr
+  message: string;         // One-line explanation for the student and tutor
+}
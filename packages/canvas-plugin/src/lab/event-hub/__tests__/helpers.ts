@@ -4,10 +4,10 @@
 import { mkdtempSync, writeFileSync, readFileSync, existsSync } from "fs";
 import { join } from "path";
 import { tmpdir } from "os";
-import { createEventHub, type EventHub } from "../hub";
+import { createEventHub, type EventHub, type EventHubOptions } from "../hub";
 import type { LabAdapter } from "../../adapters/types";
 import type { LabMessage } from "../../../ipc/types";
-import type { TelemetryEvent } from "../../telemetry/types";
+import type { TelemetryEvent, GapTemplate } from "../../telemetry/types";
 import type { LabState } from "../../tutor-control/state-writer";
 
 /**
@@ -32,6 +32,8 @@ export interface TestLabSession {
   getTelemetry(): TelemetryEvent[];
   /** Read current state.json */
   getState(): LabState | null;
+  /** Messages the hub sent to the VTA */
+  getVTAMessages(): LabMessage[];
   /** The event hub instance */
   hub: EventHub;
   /** Log directory path */
@@ -52,6 +54,10 @@ export interface TestLabSession {
 export async function createTestLabSession(options?: {
   moduleId?: string;
   stepIds?: string[];
+  gapTemplates?: GapTemplate[];
+  timeLimits?: EventHubOptions["timeLimits"];
+  exam?: boolean;
+  adapter?: LabAdapter;
 }): Promise<TestLabSession> {
   const moduleId = options?.moduleId ?? "test-module";
   const stepIds = options?.stepIds ?? ["intro", "step-1", "step-2", "quiz", "summary"];
@@ -74,13 +80,22 @@ export async function createTestLabSession(options?: {
 
   // Create VTA socket server — hub will connect to this as client
   let hubSocket: { write: (data: string | Uint8Array) => number } | null = null;
+  const received: LabMessage[] = [];
+  let buffer = "";
   const server = Bun.listen({
     unix: socketPath,
     socket: {
       open(socket) {
         hubSocket = socket;
       },
-      data() {},
+      data(_socket, data) {
+        buffer += data.toString();
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+        for (const line of lines) {
+          if (line.trim()) received.push(JSON.parse(line) as LabMessage);
+        }
+      },
       close() {
         hubSocket = null;
       },
@@ -89,13 +104,18 @@ export async function createTestLabSession(options?: {
   });
 
   // Create mock adapter and hub
-  const adapter = createMockAdapter(moduleId);
+  const adapter = options?.adapter ?? createMockAdapter(moduleId);
   const hub = createEventHub({
     adapter,
     socketPath,
     logDir,
     moduleId,
     studentId: "test-student",
+    gapTemplates: options?.gapTemplates,
+    timeLimits: options?.timeLimits,
+    exam: options?.exam,
+    examKeysDir: join(logDir, "exam-keys"),
+    skillsDir: join(logDir, "skills"),
   });
 
   // Start hub — connects to our VTA server
@@ -133,6 +153,10 @@ export async function createTestLabSession(options?: {
       return JSON.parse(readFileSync(statePath, "utf-8")) as LabState;
     },
 
+    getVTAMessages(): LabMessage[] {
+      return [...received];
+    },
+
     hub,
     logDir,
 
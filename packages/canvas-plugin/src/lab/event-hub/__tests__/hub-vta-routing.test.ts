@@ -3,8 +3,13 @@
 // PROD-002: VTA telemetry audit
 
 import { describe, test, expect, afterEach } from "bun:test";
-import { rmSync } from "fs";
-import { createTestLabSession, type TestLabSession } from "./helpers";
+import { rmSync, readFileSync, writeFileSync, existsSync } from "fs";
+import { join } from "path";
+import { createTestLabSession, createMockAdapter, type TestLabSession } from "./helpers";
+import { readExamResult, verifyExamResult } from "../../exam";
+import type { StepValidation } from "../../module-loader";
+import type { TutorCommand, TutorCommandsFile } from "../../tutor-control/types";
+import { createTutorControlClient } from "../../tutor-control/control-client";
 
 // Allow time for IPC message processing
 const PROCESS_DELAY = 100;
@@ -77,6 +82,23 @@ describe("Event Hub: VTA message → telemetry routing", () => {
     }
   });
 
+  test("stepAppealed → score_appeal telemetry event", async () => {
+    session = await createTestLabSession();
+
+    session.sendVTAMessage({
+      type: "stepAppealed",
+      stepId: "step-1",
+    });
+    await sleep(PROCESS_DELAY);
+
+    const events = session.getTelemetry();
+    const appealEvent = events.find((e) => e.event_type === "score_appeal");
+    expect(appealEvent).toBeDefined();
+    if (appealEvent?.event_type === "score_appeal") {
+      expect(appealEvent.payload.step_id).toBe("step-1");
+    }
+  });
+
   test("questionAnswered → question_answered telemetry event", async () => {
     session = await createTestLabSession();
 
@@ -231,3 +253,485 @@ describe("Event Hub: VTA message → state.json routing", () => {
     expect(step!.completedBy).toBe("question");
   });
 });
+
+describe("Event Hub: gap detection", () => {
+  let session: TestLabSession;
+
+  afterEach(() => {
+    if (session) {
+      session.cleanup();
+      rmSync(session.logDir, { recursive: true, force: true });
+    }
+  });
+
+  test("hint overuse → gap_detected telemetry and state.json gap", async () => {
+    session = await createTestLabSession({
+      gapTemplates: [
+        {
+          id: "hint-heavy",
+          condition: { type: "hint_overuse", min_hints: 2 },
+          message: "Leaning on hints",
+          severity: "warning",
+        },
+      ],
+    });
+
+    session.sendVTAMessage({ type: "hintRequested", stepId: "step-1", hintIndex: 0, totalHints: 3 });
+    session.sendVTAMessage({ type: "hintRequested", stepId: "step-1", hintIndex: 1, totalHints: 3 });
+    await sleep(PROCESS_DELAY);
+
+    const gapEvents = session.getTelemetry().filter((e) => e.event_type === "gap_detected");
+    expect(gapEvents).toHaveLength(1);
+    expect(gapEvents[0].step_id).toBe("step-1");
+
+    const gaps = session.getState()!.gaps!;
+    expect(gaps).toHaveLength(1);
+    expect(gaps[0]).toMatchObject({ template_id: "hint-heavy", step_id: "step-1", student_id: "test-student" });
+  });
+});
+
+describe("Event Hub: time limits", () => {
+  let session: TestLabSession;
+
+  afterEach(() => {
+    if (session) {
+      session.cleanup();
+      rmSync(session.logDir, { recursive: true, force: true });
+    }
+  });
+
+  test("stepViewed sends the step deadline to the VTA", async () => {
+    session = await createTestLabSession({ exam: true, timeLimits: { stepMaxSeconds: { "step-1": 300 } } });
+
+    session.sendVTAMessage({ type: "stepViewed", stepId: "step-1", stepType: "task" });
+    await sleep(PROCESS_DELAY);
+
+    const limits = session.getVTAMessages().filter((m) => m.type === "timeLimits");
+    const last = limits[limits.length - 1];
+    expect(last).toMatchObject({ type: "timeLimits", stepId: "step-1" });
+    if (last?.type === "timeLimits") {
+      expect(new Date(last.stepDeadline!).getTime()).toBeGreaterThan(Date.now() + 290_000);
+    }
+  });
+
+  test("exceeding the lab limit ends the session with a timeout", async () => {
+    session = await createTestLabSession({ exam: true, timeLimits: { labMaxSeconds: 1 } });
+
+    // The limit is checked on the hub's 2s heartbeat
+    await sleep(2500);
+
+    expect(session.hub.isRunning()).toBe(false);
+    const ended = session.getTelemetry().find((e) => e.event_type === "session_ended");
+    expect(ended?.event_type === "session_ended" && ended.payload.reason).toBe("timeout");
+    expect(session.getVTAMessages()).toContainEqual(
+      expect.objectContaining({ type: "labStatus", status: "timeout" })
+    );
+  });
+
+  test("a step runs out of time even after the student moves on", async () => {
+    session = await createTestLabSession({ exam: true, timeLimits: { stepMaxSeconds: { "step-1": 1 } } });
+
+    session.sendVTAMessage({ type: "stepViewed", stepId: "step-1", stepType: "task" });
+    session.sendVTAMessage({ type: "stepViewed", stepId: "step-2", stepType: "task" });
+    await sleep(2500);
+
+    expect(session.hub.isRunning()).toBe(false);
+    expect(session.getVTAMessages()).toContainEqual({
+      type: "labStatus",
+      status: "timeout",
+      message: "Time limit for step step-1 reached (1s)",
+    });
+  });
+
+  test("labs that are not exams keep running past their limits", async () => {
+    session = await createTestLabSession({ timeLimits: { labMaxSeconds: 1, stepMaxSeconds: { "step-1": 1 } } });
+
+    session.sendVTAMessage({ type: "stepViewed", stepId: "step-1", stepType: "task" });
+    await sleep(2500);
+
+    expect(session.hub.isRunning()).toBe(true);
+    expect(session.getVTAMessages().some((m) => m.type === "timeLimits")).toBe(false);
+  });
+});
+
+describe("Event Hub: exam mode", () => {
+  let session: TestLabSession;
+
+  afterEach(() => {
+    if (session) {
+      session.cleanup();
+      rmSync(session.logDir, { recursive: true, force: true });
+    }
+  });
+
+  test("withholds pass feedback, then signs and reveals the result on submit", async () => {
+    session = await createTestLabSession({ exam: true });
+
+    session.sendVTAMessage({
+      type: "questionAnswered",
+      stepId: "quiz",
+      isCorrect: true,
+      selectedOptions: ["a"],
+      correctOptions: ["a"],
+      attempts: 1,
+    });
+    await sleep(PROCESS_DELAY);
+    expect(session.getVTAMessages().some((m) => m.type === "taskCompleted")).toBe(false);
+
+    session.sendVTAMessage({ type: "examSubmitted" });
+    await sleep(PROCESS_DELAY);
+
+    expect(session.hub.isRunning()).toBe(false);
+    const revealed = session.getVTAMessages().find((m) => m.type === "examResult");
+    expect(revealed).toMatchObject({ type: "examResult", score: 1, passed: true, completedSteps: ["quiz"] });
+
+    const signed = readExamResult(session.logDir)!;
+    expect(signed.result.scoring_preset_id).toBe("strict");
+    const telemetry = readFileSync(join(session.logDir, "telemetry.jsonl"), "utf-8");
+    expect(verifyExamResult(signed, { telemetry })).toEqual({ valid: true, errors: [] });
+  });
+
+  test("signs a result over edited telemetry as chain-invalid and not passed", async () => {
+    session = await createTestLabSession({ exam: true });
+
+    session.sendVTAMessage({
+      type: "questionAnswered",
+      stepId: "quiz",
+      isCorrect: true,
+      selectedOptions: ["a"],
+      correctOptions: ["a"],
+      attempts: 1,
+    });
+    await sleep(PROCESS_DELAY);
+
+    const telemetryPath = join(session.logDir, "telemetry.jsonl");
+    const [first, ...rest] = readFileSync(telemetryPath, "utf-8").split("\n");
+    writeFileSync(telemetryPath, [first.replace("test-student", "someone-else"), ...rest].join("\n"));
+
+    session.sendVTAMessage({ type: "examSubmitted" });
+    await sleep(PROCESS_DELAY);
+
+    const revealed = session.getVTAMessages().find((m) => m.type === "examResult");
+    expect(revealed).toMatchObject({ type: "examResult", score: 1, passed: false });
+
+    const { result } = readExamResult(session.logDir)!;
+    expect(result.passed).toBe(false);
+    expect(result.telemetry.chain_valid).toBe(false);
+    expect(result.telemetry.chain_errors?.[0]).toStartWith("telemetry.jsonl:1:");
+  });
+
+  test("ignores examSubmitted outside exam mode", async () => {
+    session = await createTestLabSession();
+
+    session.sendVTAMessage({ type: "examSubmitted" });
+    await sleep(PROCESS_DELAY);
+
+    expect(session.hub.isRunning()).toBe(true);
+    expect(readExamResult(session.logDir)).toBeNull();
+  });
+});
+
+describe("Event Hub: tutor commands", () => {
+  let session: TestLabSession;
+
+  afterEach(() => {
+    if (session) {
+      session.cleanup();
+      rmSync(session.logDir, { recursive: true, force: true });
+    }
+  });
+
+  async function sendTutorCommands(commands: Array<Pick<TutorCommand, "id" | "type" | "payload">>) {
+    const file: TutorCommandsFile = { commands: commands.map((c) => ({ ...c, status: "pending" })) };
+    writeFileSync(join(session.logDir, "tutor-commands.json"), JSON.stringify(file, null, 2));
+    await sleep(300);
+    return (JSON.parse(readFileSync(join(session.logDir, "tutor-commands.json"), "utf-8")) as TutorCommandsFile).commands;
+  }
+
+  function addStepCommand(id: string, stepId: string, validation?: Record<string, unknown>) {
+    return {
+      id,
+      type: "addStep" as const,
+      payload: {
+        stepId,
+        step: { title: "Bonus", type: "task" as const, content: { instructions: "Do more" }, validation, weight: 2 },
+        afterStepId: "step-2",
+      },
+    };
+  }
+
+  test("addStep with a validation registers it with the adapter and records the step", async () => {
+    const validations: StepValidation[] = [];
+    const adapter = createMockAdapter();
+    adapter.addStepValidation = (validation) => validations.push(validation);
+    session = await createTestLabSession({ adapter });
+
+    const [command] = await sendTutorCommands([
+      addStepCommand("cmd-1", "bonus-perms", { type: "file-mode", path: "/home/devuser", mode: "700" }),
+    ]);
+
+    expect(command.status).toBe("done");
+    expect(validations.map((v) => v.checks[0]?.script)).toEqual(["check-bonus-perms.sh"]);
+    expect(existsSync(join(session.logDir, "generated-checks", "check-bonus-perms.sh"))).toBe(true);
+    expect(session.getState()?.steps.map((s) => s.id)).toEqual(["intro", "step-1", "step-2", "bonus-perms", "quiz", "summary"]);
+
+    const added = session.getTelemetry().find((e) => e.event_type === "step_added");
+    expect(added?.event_type === "step_added" && added.payload).toMatchObject({
+      step_id: "bonus-perms",
+      weight: 2,
+      validation_type: "file-mode",
+    });
+    expect(session.getVTAMessages().some((m) => m.type === "addDynamicStep" && m.step.id === "bonus-perms")).toBe(true);
+  });
+
+  test("rejects invalid validations", async () => {
+    const adapter = createMockAdapter();
+    adapter.addStepValidation = () => {};
+    session = await createTestLabSession({ adapter });
+
+    const [noMode, noBody, existing] = await sendTutorCommands([
+      addStepCommand("cmd-1", "bonus-a", { type: "file-mode", path: "/tmp" }),
+      addStepCommand("cmd-2", "bonus-b", { type: "check-script", script: "check-bonus.sh" }),
+      addStepCommand("cmd-3", "step-1", { type: "command-pattern", pattern: "chmod" }),
+    ]);
+
+    expect(noMode.error).toContain("invalid file-mode validation");
+    expect(noBody.error).toContain("inline 'body'");
+    expect(existing.error).toContain("already exists");
+    expect(session.getTelemetry().some((e) => e.event_type === "step_added")).toBe(false);
+    expect(session.getVTAMessages().some((m) => m.type === "addDynamicStep")).toBe(false);
+  });
+
+  test("adapters that cannot check added steps reject validations", async () => {
+    session = await createTestLabSession();
+
+    const [command] = await sendTutorCommands([
+      addStepCommand("cmd-1", "bonus-a", { type: "command-pattern", pattern: "chmod" }),
+    ]);
+
+    expect(command.status).toBe("error");
+    expect(command.error).toContain("cannot check added steps");
+  });
+
+  test("markComplete completes the step through telemetry", async () => {
+    session = await createTestLabSession();
+
+    const [command] = await sendTutorCommands([
+      { id: "cmd-1", type: "markComplete", payload: { stepId: "step-1", source: "tutor" } },
+    ]);
+
+    expect(command.status).toBe("done");
+    const completed = session.getTelemetry().find((e) => e.event_type === "step_completed");
+    expect(completed?.event_type === "step_completed" && completed.payload.source).toBe("tutor");
+    expect(session.getState()?.steps.find((s) => s.id === "step-1")?.completedBy).toBe("tutor");
+  });
+
+  test("skipStep settles the step and every command is recorded in telemetry", async () => {
+    session = await createTestLabSession();
+
+    const [skip, complete, move] = await sendTutorCommands([
+      { id: "cmd-1", type: "skipStep", payload: { stepId: "step-1", reason: "knows it" } },
+      { id: "cmd-2", type: "markComplete", payload: { stepId: "step-1", source: "tutor" } },
+      { id: "cmd-3", type: "moveStep", payload: { stepId: "quiz", afterStepId: "step-9" } },
+    ]);
+
+    expect([skip.status, complete.status, move.status]).toEqual(["done", "done", "error"]);
+    expect(move.error).toBe("Unknown step 'step-9'");
+    expect(session.getState()?.steps.find((s) => s.id === "step-1")).toMatchObject({ skipped: true, completed: false });
+    expect(session.getTelemetry().some((e) => e.event_type === "step_completed")).toBe(false);
+
+    const recorded = session.getTelemetry().filter((e) => e.event_type === "tutor_command");
+    expect(recorded.map((e) => e.event_type === "tutor_command" && [e.payload.command, e.payload.status])).toEqual([
+      ["skipStep", "done"],
+      ["markComplete", "done"],
+      ["moveStep", "error"],
+    ]);
+    expect(session.getVTAMessages().filter((m) => m.type === "tutorCommandAck")).toHaveLength(3);
+  });
+
+  test("a session whose remaining steps were skipped ends abandoned, not completed", async () => {
+    session = await createTestLabSession({
+      moduleId: "simple-lab-poc",
+      stepIds: ["intro", "create-file", "write-content", "summary"],
+    });
+
+    const [complete, skip, skipAgain] = await sendTutorCommands([
+      { id: "cmd-1", type: "markComplete", payload: { stepId: "create-file", source: "tutor" } },
+      { id: "cmd-2", type: "skipStep", payload: { stepId: "write-content" } },
+      { id: "cmd-3", type: "skipStep", payload: { stepId: "write-content" } },
+    ]);
+    expect([complete.status, skip.status]).toEqual(["done", "done"]);
+    expect(skipAgain.error).toBe("Step write-content is already skipped");
+
+    await session.hub.stop();
+
+    const ended = session.getTelemetry().find((e) => e.event_type === "session_ended");
+    expect(ended?.event_type === "session_ended" && ended.payload.reason).toBe("abandoned");
+  });
+
+  test("setPreset accepts known presets only", async () => {
+    session = await createTestLabSession();
+
+    const [known, unknown] = await sendTutorCommands([
+      { id: "cmd-1", type: "setPreset", payload: { presetId: "practice_mode" } },
+      { id: "cmd-2", type: "setPreset", payload: { presetId: "no-such-preset" } },
+    ]);
+
+    expect(known.status).toBe("done");
+    expect(unknown.error).toBe("Unknown scoring preset 'no-such-preset'");
+    const recorded = session.getTelemetry().find((e) => e.event_type === "tutor_command");
+    expect(recorded?.event_type === "tutor_command" && recorded.payload.preset_id).toBe("practice_mode");
+  });
+
+  test("the control API shares command handling with tutor-commands.json", async () => {
+    session = await createTestLabSession();
+    const client = createTutorControlClient({ socketPath: join(session.logDir, "control.sock") });
+
+    const ack = await client.markComplete("step-1");
+    expect(ack.status).toBe("done");
+    expect((await client.listSteps()).find((s) => s.id === "step-1")?.completedBy).toBe("tutor");
+
+    await sendTutorCommands([{ id: "file-1", type: "goToStep", payload: { stepId: "step-2" } }]);
+    expect((await client.getTutorCommandHistory()).map((c) => c.type)).toEqual(["markComplete", "goToStep"]);
+    expect(session.getTelemetry().filter((e) => e.event_type === "tutor_command")).toHaveLength(2);
+  });
+});
+
+describe("Event Hub: checks run on demand", () => {
+  let session: TestLabSession;
+
+  afterEach(() => {
+    if (session) {
+      session.cleanup();
+      rmSync(session.logDir, { recursive: true, force: true });
+    }
+  });
+
+  // Adapter whose check for step-1 fails until `passing` is set
+  function createCheckingAdapter() {
+    const adapter = createMockAdapter();
+    const check = { passing: false };
+    adapter.runCheck = async (stepId) => {
+      if (stepId !== "step-1") {
+        throw new Error(`Step ${stepId} has no check script to run`);
+      }
+      return check.passing
+        ? { stepId, script: "check-step-1.sh", passed: true, exitCode: 0, output: "ok\n", message: "Check passed: ok" }
+        : { stepId, script: "check-step-1.sh", passed: false, exitCode: 1, output: "no file\n", message: "no file" };
+    };
+    return { adapter, check };
+  }
+
+  test("checkRequested → check_failed telemetry and a checkResult for the VTA", async () => {
+    session = await createTestLabSession({ adapter: createCheckingAdapter().adapter });
+
+    session.sendVTAMessage({ type: "checkRequested", stepId: "step-1" });
+    session.sendVTAMessage({ type: "checkRequested", stepId: "quiz" });
+    await sleep(PROCESS_DELAY);
+
+    const failed = session.getTelemetry().find((e) => e.event_type === "check_failed");
+    expect(failed?.event_type === "check_failed" && failed.payload).toMatchObject({
+      step_id: "step-1",
+      check_script: "check-step-1.sh",
+      error_message: "no file",
+      attempt_number: 1,
+      on_demand: { requested_by: "student", exit_code: 1, output: "no file\n" },
+    });
+    expect(session.getVTAMessages().filter((m) => m.type === "checkResult")).toEqual([
+      { type: "checkResult", stepId: "step-1", passed: false, message: "no file" },
+      { type: "checkResult", stepId: "quiz", passed: false, message: "Step quiz has no check script to run" },
+    ]);
+  });
+
+  test("a pass through the control API completes the step", async () => {
+    const { adapter, check } = createCheckingAdapter();
+    session = await createTestLabSession({ adapter });
+    const client = createTutorControlClient({ socketPath: join(session.logDir, "control.sock") });
+
+    expect((await client.runCheck("step-1")).passed).toBe(false);
+    check.passing = true;
+    expect((await client.runCheck("step-1")).message).toBe("Check passed: ok");
+    await expect(client.runCheck("quiz")).rejects.toThrow("no check script");
+
+    const passed = session.getTelemetry().find((e) => e.event_type === "check_passed");
+    expect(passed?.event_type === "check_passed" && passed.payload).toMatchObject({
+      step_id: "step-1",
+      source: "check",
+      message: "Check passed: ok",
+      on_demand: { requested_by: "tutor", exit_code: 0 },
+    });
+    expect(session.getState()?.steps.find((s) => s.id === "step-1")?.completed).toBe(true);
+    expect(session.getVTAMessages().some((m) => m.type === "taskCompleted" && m.stepId === "step-1")).toBe(true);
+  });
+
+  test("labs without on-demand checks answer with an explanation", async () => {
+    session = await createTestLabSession();
+    const client = createTutorControlClient({ socketPath: join(session.logDir, "control.sock") });
+
+    session.sendVTAMessage({ type: "checkRequested", stepId: "step-1" });
+    await sleep(PROCESS_DELAY);
+
+    expect(session.getVTAMessages().find((m) => m.type === "checkResult")).toMatchObject({
+      passed: false,
+      message: "linux_cli labs cannot run checks on demand",
+    });
+    await expect(client.runCheck("step-1")).rejects.toThrow("cannot run checks on demand");
+  });
+});
+
+describe("Event Hub: continuous verification", () => {
+  let session: TestLabSession;
+
+  afterEach(() => {
+    if (session) {
+      session.cleanup();
+      rmSync(session.logDir, { recursive: true, force: true });
+    }
+  });
+
+  test("a regressed check un-completes its step until it passes again", async () => {
+    const adapter = createMockAdapter();
+    session = await createTestLabSession({ adapter });
+    const timestamp = new Date().toISOString();
+
+    adapter.onStepCompleted!({ stepId: "step-1", source: "check", timestamp, checkScript: "check-user.sh" });
+    adapter.onStepRegressed!({ stepId: "step-1", source: "check", timestamp, message: "devuser does not exist" });
+    await sleep(PROCESS_DELAY);
+
+    const regressed = session.getTelemetry().find((e) => e.event_type === "step_regressed");
+    expect(regressed?.event_type === "step_regressed" && regressed.payload).toEqual({
+      step_id: "step-1",
+      source: "check",
+      message: "devuser does not exist",
+    });
+    expect(session.getState()?.steps.find((s) => s.id === "step-1")).toMatchObject({
+      completed: false,
+      regressed: true,
+      regressionMessage: "devuser does not exist",
+    });
+    expect(session.getVTAMessages()).toContainEqual({
+      type: "stepRegressed",
+      stepId: "step-1",
+      message: "devuser does not exist",
+    });
+
+    adapter.onStepCompleted!({ stepId: "step-1", source: "check", timestamp: new Date().toISOString() });
+    const step = session.getState()?.steps.find((s) => s.id === "step-1");
+    expect(step?.completed).toBe(true);
+    expect(step?.regressed).toBeUndefined();
+  });
+
+  test("steps the tutor completed do not regress", async () => {
+    const adapter = createMockAdapter();
+    session = await createTestLabSession({ adapter });
+    const timestamp = new Date().toISOString();
+
+    adapter.onStepCompleted!({ stepId: "step-2", source: "tutor", timestamp });
+    adapter.onStepRegressed!({ stepId: "step-2", source: "check", timestamp });
+    adapter.onStepRegressed!({ stepId: "step-1", source: "check", timestamp });
+    await sleep(PROCESS_DELAY);
+
+    expect(session.getTelemetry().some((e) => e.event_type === "step_regressed")).toBe(false);
+    expect(session.getState()?.steps.find((s) => s.id === "step-2")?.completed).toBe(true);
+  });
+});
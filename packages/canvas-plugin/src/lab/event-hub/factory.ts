@@ -1,11 +1,15 @@
 // Event Hub Factory
 // Creates Event Hub with appropriate adapter based on lab type
 
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
 import type { LabType } from "../telemetry/types";
 import { createEventHub, type EventHub, type EventHubOptions } from "./hub";
 import { createLinuxCliAdapter } from "../adapters/linux-cli-adapter";
 import { createSplunkAdapter } from "../adapters/splunk-adapter";
 import { createPythonAdapter } from "../adapters/python-adapter";
+import { createSqlAdapter } from "../adapters/sql-adapter";
+import { createGitAdapter } from "../adapters/git-adapter";
 import type { LabAdapter } from "../adapters/types";
 
 /**
@@ -13,8 +17,8 @@ import type { LabAdapter } from "../adapters/types";
  */
 export interface CreateEventHubForLabOptions extends Omit<EventHubOptions, "adapter"> {
   labType?: LabType;  // Defaults to "linux_cli"
-  logPath?: string;  // Path to commands.log (Linux CLI specific)
-  checksLogPath?: string;  // Path to checks.log (Linux CLI specific)
+  logPath?: string;  // Path to commands.log (Linux CLI and git)
+  checksLogPath?: string;  // Path to checks.log (Linux CLI and git)
 }
 
 /**
@@ -24,6 +28,10 @@ export function createEventHubForLab(options: CreateEventHubForLabOptions): Even
   const labType = options.labType ?? "linux_cli";
   const { moduleId, logDir, socketPath, studentId, onTaskCompleted, onError, onLog, logPath } = options;
 
+  // Spawned container labs record their container, which checks and tests run in
+  const containerIdPath = join(logDir, "container.id");
+  const containerId = existsSync(containerIdPath) ? readFileSync(containerIdPath, "utf-8").trim() : undefined;
+
   let adapter: LabAdapter;
 
   switch (labType) {
@@ -32,6 +40,18 @@ export function createEventHubForLab(options: CreateEventHubForLabOptions): Even
         moduleId,
         logPath: logPath ?? `${logDir}/commands.log`,
         checksLogPath: options.checksLogPath,
+        containerId,
+        onLog,
+        onError,
+      });
+      break;
+
+    case "git":
+      adapter = createGitAdapter({
+        moduleId,
+        logPath: logPath ?? `${logDir}/commands.log`,
+        checksLogPath: options.checksLogPath,
+        containerId,
         onLog,
         onError,
       });
@@ -46,8 +66,23 @@ export function createEventHubForLab(options: CreateEventHubForLabOptions): Even
       });
       break;
 
-    case "python":
+    case "python": {
+      // Spawned labs copy the starter to <logDir>/workspace, which the container mounts
+      const workspacePath = join(logDir, "workspace");
       adapter = createPythonAdapter({
+        moduleId,
+        logPath: options.logDir,
+        workspacePath: existsSync(workspacePath) ? workspacePath : undefined,
+        containerId,
+        containerWorkspacePath: "/var/log/lab-commands/workspace",
+        onLog,
+        onError,
+      });
+      break;
+    }
+
+    case "sql":
+      adapter = createSqlAdapter({
         moduleId,
         logPath: options.logDir,
         onLog,
@@ -65,6 +100,10 @@ export function createEventHubForLab(options: CreateEventHubForLabOptions): Even
     logDir,
     moduleId,
     studentId,
+    gapTemplates: options.gapTemplates,
+    skillsDir: options.skillsDir,
+    exam: options.exam,
+    scoringPreset: options.scoringPreset,
     onTaskCompleted,
     onError,
     onLog,
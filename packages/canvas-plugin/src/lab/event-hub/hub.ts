@@ -2,12 +2,55 @@
 // Receives events from lab adapters and routes to telemetry, state, IPC
 
 import { dirname, join } from "path";
-import { appendFileSync } from "fs";
-import type { LabAdapter, UnifiedLabEvent, StepCompletionEvent } from "../adapters/types";
+import { appendFileSync, existsSync, readFileSync } from "fs";
+import type {
+  LabAdapter,
+  UnifiedLabEvent,
+  StepCompletionEvent,
+  StepRegressionEvent,
+  TaskProgressEvent,
+} from "../adapters/types";
 import { createEventLogger, type EventLogger } from "../telemetry/event-logger";
 import { createStateWriter, type StateWriter } from "../tutor-control/state-writer";
+import { createTutorControlWatcher, type TutorControlWatcher } from "../tutor-control/control-watcher";
+import { createTutorCommandProcessor } from "../tutor-control/command-processor";
+import { createTutorControlServer, type TutorControlServer } from "../tutor-control/control-server";
+import { CONTROL_SOCKET_FILE } from "../tutor-control/types";
+import type {
+  AddStepPayload,
+  SkipStepPayload,
+  MoveStepPayload,
+  SetPresetPayload,
+  TutorCommand,
+} from "../tutor-control/types";
+import { compileStepValidation, writeStepChecks } from "../module-loader";
+import type { CheckRunResult } from "../checks/types";
 import type { LabMessage } from "../../ipc/types";
-import type { TutorUtteranceEvent } from "../telemetry/types";
+import {
+  TELEMETRY_SCHEMA_VERSION,
+  type OnDemandCheck,
+  type TutorUtteranceEvent,
+  type GapTemplate,
+  type RubricItem,
+  type ScoringPreset,
+} from "../telemetry/types";
+import { createGapDetector, mergeGapTemplates, type GapDetector } from "../telemetry/gap-detector";
+import { interpretTaskEvidence, interpretLabProgress } from "../telemetry/evidence-interpreter";
+import { hasPreset } from "../telemetry/scoring-presets";
+import { verifyTelemetryChain } from "../telemetry/hash-chain";
+import {
+  EXAM_PRESET_ID,
+  buildExamResult,
+  signExamResult,
+  writeExamResult,
+  loadOrCreateExamKeys,
+  type ExamResult,
+} from "../exam";
+import { findQMatrixForLab } from "../skills/skill-loader";
+import { recordSkillEvidence } from "../skills/skill-tracker";
+import { loadCatalogEstimators, type EstimatorSelector } from "../skills/skill-estimators";
+import type { QMatrixEntry } from "../skills/types";
+import { getSkillsDir } from "../../tutor/defaults";
 
 /**
  * Event Hub configuration
@@ -18,6 +61,12 @@ export interface EventHubOptions {
   logDir: string;
   moduleId: string;
   studentId?: string;
+  gapTemplates?: GapTemplate[];  // Default: the module's and its course's `gaps:`
+  timeLimits?: { labMaxSeconds?: number; stepMaxSeconds?: Record<string, number> };  // Exams only. Default: the module's `timing.max_seconds`
+  scoringPreset?: ScoringPreset;  // Default: module.yaml `scoring_preset`, then the course's `config.scoringPreset` (ignored in exams)
+  skillsDir?: string;  // Where the skill profile is saved (default: the student's profile; off for "anonymous")
+  exam?: boolean;  // Locked-down assessment: strict scoring, hash-chained telemetry, results withheld until a signed summary
+  examKeysDir?: string;  // Where the exam signing key lives (default: EXAM_KEYS_DIR)
   onTaskCompleted?: (stepId: string, source: "command" | "check" | "tutor" | "question") => void;
   onError?: (error: Error) => void;
   onLog?: (message: string) => void;
@@ -39,7 +88,7 @@ export interface EventHub {
  * Create an Event Hub that routes adapter events to telemetry, state, and IPC
  */
 export function createEventHub(options: EventHubOptions): EventHub {
-  const { adapter, socketPath, logDir, moduleId, studentId = "anonymous", onTaskCompleted, onError, onLog } = options;
+  const { adapter, socketPath, logDir, moduleId, studentId = "anonymous", exam = false, onTaskCompleted, onError, onLog } = options;
 
   const log = (msg: string) => onLog?.(msg);
 
@@ -47,11 +96,33 @@ export function createEventHub(options: EventHubOptions): EventHub {
   let running = false;
   let eventLogger: EventLogger | null = null;
   let stateWriter: StateWriter | null = null;
+  let tutorControl: TutorControlWatcher | null = null;
+  let controlServer: TutorControlServer | null = null;
+  let gapDetector: GapDetector | null = null;
+  let qmatrix: QMatrixEntry[] = [];
+  let estimators: EstimatorSelector | undefined;
+  let stepWeights: Record<string, number> = {};
+  let rubrics: Record<string, RubricItem[]> = {};
+  let expectedSeconds: Record<string, number> = {};
+  let labExpectedSeconds: number | undefined;
+  let gradedStepIds: string[] = [];  // Task and question steps (exam scoring)
+  let scoringPreset: ScoringPreset | undefined;
+  const skillsDir = options.skillsDir ?? (studentId === "anonymous" ? undefined : getSkillsDir(studentId));
   let ipcClient: { send: (msg: LabMessage) => void; close: () => void } | null = null;
   let completedSteps = new Set<string>();
+  const skippedSteps = new Set<string>();  // Tutor-skipped: settled without credit, never completed
+  const completionSources = new Map<string, StepCompletionEvent["source"]>();  // How each completed step completed
+  const checkFailures = new Map<string, number>();  // Failed on-demand checks per step
   let sessionStartTime: number = 0;
   let pingInterval: ReturnType<typeof setInterval> | null = null;
 
+  // Hard time limits (exam labs): whole lab and per step, counted from first view
+  let labMaxSeconds: number | undefined;
+  const stepMaxSeconds = new Map<string, number>();
+  const stepStartTimes = new Map<string, number>();
+  let currentStepId: string | null = null;
+  let timeoutMessage: string | null = null;
+
   // Deduplication: track recent event hashes
   const recentEventHashes = new Set<string>();
   const DEDUP_WINDOW_MS = 1000;
@@ -90,6 +161,13 @@ export function createEventHub(options: EventHubOptions): EventHub {
     }
   }
 
+  /**
+   * A step is settled once it is completed or the tutor skipped it
+   */
+  function isSettled(stepId: string): boolean {
+    return completedSteps.has(stepId) || skippedSteps.has(stepId);
+  }
+
   /**
    * Handle incoming step completion event from adapter
    */
@@ -99,6 +177,10 @@ export function createEventHub(options: EventHubOptions): EventHub {
       log(`Step already completed: ${event.stepId}`);
       return;
     }
+    if (skippedSteps.has(event.stepId)) {
+      log(`Step was skipped: ${event.stepId}`);
+      return;
+    }
 
     if (isDuplicate(event)) {
       log(`Deduped step completion: ${event.stepId}`);
@@ -106,16 +188,25 @@ export function createEventHub(options: EventHubOptions): EventHub {
     }
 
     completedSteps.add(event.stepId);
+    completionSources.set(event.stepId, event.source);
     log(`Step completed: ${event.stepId} (via ${event.source})`);
 
     // Log telemetry events
     if (eventLogger) {
-      eventLogger.logCheckPassed(event.stepId, event.source, undefined, event.taskIndex);
+      eventLogger.logCheckPassed(
+        event.stepId,
+        event.source,
+        event.checkScript,
+        event.taskIndex,
+        event.message,
+        event.onDemand
+      );
       eventLogger.logStepCompleted(event.stepId, event.source);
     }
 
     // Update state.json for tutor
     stateWriter?.markCompleted(event.stepId, event.source);
+    updateSkills();
 
     // Send IPC message to vTA
     const msg: LabMessage = {
@@ -125,13 +216,175 @@ export function createEventHub(options: EventHubOptions): EventHub {
       source: event.source,
     };
 
-    if (ipcClient) {
+    // Exams withhold pass feedback until the signed result
+    if (ipcClient && !exam) {
       ipcClient.send(msg);
     }
+    sendTimeLimits();
 
     onTaskCompleted?.(event.stepId, event.source);
   }
 
+  /**
+   * A completed step's check stopped passing (continuous verification): it is unfinished again
+   * Only steps that their checks or commands completed regress; tutor and question completions stand
+   */
+  function handleStepRegressed(event: StepRegressionEvent): void {
+    const source = completionSources.get(event.stepId);
+    if (source !== "check" && source !== "command") {
+      log(`Ignoring regression of ${event.stepId} (${source ? `completed via ${source}` : "not completed"})`);
+      return;
+    }
+
+    completedSteps.delete(event.stepId);
+    completionSources.delete(event.stepId);
+    log(`Step regressed: ${event.stepId} (via ${event.source})`);
+
+    eventLogger?.logStepRegressed(event.stepId, event.source, event.message);
+    stateWriter?.markRegressed(event.stepId, event.message);
+    updateSkills();
+
+    // Exams withhold pass feedback, so regressions too
+    if (ipcClient && !exam) {
+      ipcClient.send({ type: "stepRegressed", stepId: event.stepId, message: event.message });
+    }
+    sendTimeLimits();
+  }
+
+  /**
+   * Run a step's check now (VTA key, tutor control API, lab-check) instead of waiting for the poll
+   * A pass completes the step like a polled check; the VTA is shown the outcome either way
+   */
+  async function runCheckNow(stepId: string, requestedBy: OnDemandCheck["requested_by"]): Promise<CheckRunResult> {
+    if (exam) {
+      throw new Error("Checks cannot be run on demand during an exam");
+    }
+    if (!adapter.runCheck) {
+      throw new Error(`${adapter.getLabType()} labs cannot run checks on demand`);
+    }
+
+    const result = await adapter.runCheck(stepId);
+    const onDemand: OnDemandCheck = { requested_by: requestedBy, exit_code: result.exitCode, output: result.output };
+    log(`Check ${result.script} ${result.passed ? "passed" : "failed"} for ${stepId} (requested by ${requestedBy})`);
+
+    if (result.passed) {
+      handleStepCompleted({
+        stepId,
+        source: "check",
+        timestamp: new Date().toISOString(),
+        checkScript: result.script,
+        message: result.message,
+        onDemand,
+      });
+    } else if (!isSettled(stepId)) {
+      const attempt = (checkFailures.get(stepId) ?? 0) + 1;
+      checkFailures.set(stepId, attempt);
+      eventLogger?.logCheckFailed(stepId, attempt, result.script, result.message, onDemand);
+    }
+
+    ipcClient?.send({ type: "checkResult", stepId, passed: result.passed, message: result.message });
+    return result;
+  }
+
+  /**
+   * Handle progress on a single task within a step
+   */
+  function handleTaskProgress(event: TaskProgressEvent): void {
+    if (isSettled(event.stepId)) {
+      return;
+    }
+
+    log(`Task ${event.taskIndex} of ${event.stepId} done (via ${event.source})`);
+    eventLogger?.logTaskCompleted(event.stepId, event.taskIndex, event.source);
+    stateWriter?.recordTaskCompleted(event.stepId, event.taskIndex);
+
+    if (ipcClient && !exam) {
+      ipcClient.send({
+        type: "taskProgress",
+        stepId: event.stepId,
+        taskIndex: event.taskIndex,
+        source: event.source,
+      });
+    }
+  }
+
+  /**
+   * Tutor addStep: validate the new step like the module's own steps, so it
+   * completes by itself instead of waiting for markComplete. Throwing rejects the command
+   */
+  function handleTutorAddStep(payload: AddStepPayload): void {
+    const { stepId, step } = payload;
+
+    if (stateWriter?.getState()?.steps.some((s) => s.id === stepId)) {
+      throw new Error(`Step ${stepId} already exists`);
+    }
+    if (step.weight !== undefined && !(typeof step.weight === "number" && step.weight > 0)) {
+      throw new Error(`Step ${stepId}: weight must be a positive number`);
+    }
+
+    const validationType = typeof step.validation?.type === "string" ? step.validation.type : undefined;
+    if (step.validation) {
+      if (!adapter.addStepValidation) {
+        throw new Error(`${adapter.getLabType()} labs cannot check added steps; omit 'validation' and use markComplete`);
+      }
+      const validation = compileStepValidation(stepId, step.title, step.validation);
+      writeStepChecks(logDir, validation);
+      adapter.addStepValidation(validation);
+    }
+
+    stateWriter?.addStep(stepId, payload.afterStepId);
+    eventLogger?.logStepAdded(stepId, step.title, step.weight, validationType);
+    log(`Tutor added step ${stepId}${validationType ? ` (${validationType} validation)` : ""}`);
+  }
+
+  /**
+   * Tutor skipStep: the step is settled without credit, so later checks no longer complete it
+   * It is kept apart from completed steps, so a session with skipped steps does not end as completed
+   */
+  function handleTutorSkipStep(payload: SkipStepPayload): void {
+    if (completedSteps.has(payload.stepId)) {
+      throw new Error(`Step ${payload.stepId} is already completed`);
+    }
+    if (skippedSteps.has(payload.stepId)) {
+      throw new Error(`Step ${payload.stepId} is already skipped`);
+    }
+    skippedSteps.add(payload.stepId);
+    stateWriter?.skipStep(payload.stepId, payload.reason);
+    sendTimeLimits();
+    log(`Tutor skipped step ${payload.stepId}`);
+  }
+
+  function handleTutorMoveStep(payload: MoveStepPayload): void {
+    stateWriter?.moveStep(payload.stepId, payload.afterStepId);
+    log(`Tutor moved step ${payload.stepId} after ${payload.afterStepId}`);
+  }
+
+  /**
+   * Tutor setPreset: score the rest of the session under a built-in or registered
+   * (module/course YAML) preset. The switch lives in its tutor_command event, which scoring
+   * (live and offline) applies to the steps finished after it; scoringPreset stays the session's base
+   */
+  function handleTutorSetPreset(payload: SetPresetPayload): void {
+    if (!hasPreset(payload.presetId)) {
+      throw new Error(`Unknown scoring preset '${payload.presetId}'`);
+    }
+    log(`Tutor switched scoring preset to ${payload.presetId}`);
+  }
+
+  function recordTutorCommand(command: TutorCommand): void {
+    const payload = (command.payload ?? {}) as Partial<SkipStepPayload & SetPresetPayload & { hintIndex: number }>;
+    eventLogger?.logTutorCommand({
+      command_id: command.id,
+      command: command.type,
+      status: command.status === "done" ? "done" : "error",
+      error: command.error,
+      step_id: typeof payload.stepId === "string" ? payload.stepId : undefined,
+      reason: payload.reason,
+      hint_index: payload.hintIndex,
+      preset_id: payload.presetId,
+    });
+  }
+
   /**
    * Handle errors from adapter
    */
@@ -157,9 +410,25 @@ export function createEventHub(options: EventHubOptions): EventHub {
         stateWriter?.recordSolutionViewed(msg.stepId);
         log(`VTA: Solution viewed for step ${msg.stepId}`);
         break;
+      case "stepAppealed":
+        eventLogger.logScoreAppeal(msg.stepId, msg.note);
+        log(`VTA: Step flagged for review: ${msg.stepId}`);
+        break;
+      case "checkRequested":
+        log(`VTA: Check requested for step ${msg.stepId}`);
+        runCheckNow(msg.stepId, "student").catch((e) => {
+          const message = e instanceof Error ? e.message : String(e);
+          ipcClient?.send({ type: "checkResult", stepId: msg.stepId, passed: false, message });
+        });
+        break;
       case "stepViewed":
         eventLogger.logStepStarted(msg.stepId, msg.stepType);
         log(`VTA: Step viewed: ${msg.stepId} (${msg.stepType})`);
+        currentStepId = msg.stepId;
+        if (!stepStartTimes.has(msg.stepId)) {
+          stepStartTimes.set(msg.stepId, Date.now());
+        }
+        sendTimeLimits();
         break;
       case "questionAnswered":
         eventLogger.logQuestionAnswered(
@@ -177,10 +446,195 @@ export function createEventHub(options: EventHubOptions): EventHub {
           attempts: msg.attempts,
         });
         log(`VTA: Question answered for step ${msg.stepId}`);
-        if (msg.isCorrect && !completedSteps.has(msg.stepId)) {
+        if (msg.isCorrect && !isSettled(msg.stepId)) {
           handleStepCompleted({ stepId: msg.stepId, source: "question", taskIndex: 0 });
         }
         break;
+      case "examSubmitted":
+        if (exam) {
+          log("VTA: Exam submitted");
+          hub.stop();
+        }
+        break;
+    }
+  }
+
+  /**
+   * Fold this session's step scores into the student's skill profile via the Q-matrix
+   */
+  function updateSkills(): void {
+    if (!eventLogger || !skillsDir || qmatrix.length === 0) {
+      return;
+    }
+
+    try {
+      const sessionId = eventLogger.getSessionId();
+      const taskEvidence = interpretTaskEvidence({
+        events: eventLogger.getEvents(),
+        moduleId,
+        studentId,
+        sessionId,
+        stepIds: [...new Set(qmatrix.map((entry) => entry.step_id))],
+        rubrics,
+        expectedSeconds,
+        presetId: exam ? EXAM_PRESET_ID : undefined,
+        preset: scoringPreset,
+      });
+      const profile = recordSkillEvidence({
+        studentId,
+        labId: moduleId,
+        sessionId,
+        taskEvidence,
+        qmatrix,
+        baseDir: skillsDir,
+        estimator: estimators,
+      });
+      log(`Skill profile updated: ${Object.keys(profile.skills).length} skills`);
+    } catch (e) {
+      onError?.(new Error(`Failed to update skill profile: ${e}`));
+    }
+  }
+
+  /**
+   * Gap templates from module.yaml, plus course.yaml when the lab was started from a course
+   */
+  async function loadGapTemplates(): Promise<GapTemplate[]> {
+    if (options.gapTemplates) {
+      return options.gapTemplates;
+    }
+
+    const { getGapTemplates } = await import("../module-loader");
+    const { getCourseGapTemplates } = await import("../../curriculum/course-loader");
+
+    const courseId = readCourseId();
+    const courseTemplates = courseId ? getCourseGapTemplates(courseId) : [];
+
+    return mergeGapTemplates(courseTemplates, getGapTemplates(moduleId));
+  }
+
+  /**
+   * Scoring preset from module.yaml, else from course.yaml when the lab was started from a course
+   */
+  async function loadScoringPreset(): Promise<ScoringPreset | undefined> {
+    const { getModuleScoringPreset } = await import("../module-loader");
+    const { getCourseScoringPreset } = await import("../../curriculum/course-loader");
+
+    const courseId = readCourseId();
+    return getModuleScoringPreset(moduleId) ?? (courseId ? getCourseScoringPreset(courseId) : null) ?? undefined;
+  }
+
+  /**
+   * The course this lab was started from (course.json, written by spawn), if any
+   */
+  function readCourseId(): string | undefined {
+    const courseJsonPath = join(logDir, "course.json");
+    if (!existsSync(courseJsonPath)) {
+      return undefined;
+    }
+    return (JSON.parse(readFileSync(courseJsonPath, "utf-8")) as { courseId?: string }).courseId;
+  }
+
+  /**
+   * Tell the VTA which deadlines are in force so it can show a countdown
+   */
+  function sendTimeLimits(): void {
+    if (!ipcClient || (labMaxSeconds === undefined && stepMaxSeconds.size === 0)) {
+      return;
+    }
+
+    const stepMax = currentStepId ? stepMaxSeconds.get(currentStepId) : undefined;
+    const stepStart = currentStepId ? stepStartTimes.get(currentStepId) : undefined;
+    const showStep = stepMax !== undefined && stepStart !== undefined && !isSettled(currentStepId!);
+
+    ipcClient.send({
+      type: "timeLimits",
+      labDeadline: labMaxSeconds !== undefined ? new Date(sessionStartTime + labMaxSeconds * 1000).toISOString() : undefined,
+      stepId: showStep ? currentStepId! : undefined,
+      stepDeadline: showStep ? new Date(stepStart! + stepMax! * 1000).toISOString() : undefined,
+    });
+  }
+
+  /**
+   * End the session once the lab, or any started step still unfinished, runs out of time
+   * (moving to another step does not stop a step's clock)
+   */
+  function checkTimeLimits(): void {
+    if (!running || timeoutMessage) {
+      return;
+    }
+
+    const now = Date.now();
+    if (labMaxSeconds !== undefined && now - sessionStartTime >= labMaxSeconds * 1000) {
+      timeoutMessage = `Lab time limit reached (${labMaxSeconds}s)`;
+    } else {
+      for (const [stepId, start] of stepStartTimes) {
+        const max = stepMaxSeconds.get(stepId);
+        if (max !== undefined && !isSettled(stepId) && now - start >= max * 1000) {
+          timeoutMessage = `Time limit for step ${stepId} reached (${max}s)`;
+          break;
+        }
+      }
+    }
+
+    if (timeoutMessage) {
+      log(timeoutMessage);
+      hub.stop();
+    }
+  }
+
+  /**
+   * Score the exam under the strict preset, sign the summary and reveal it to the VTA
+   */
+  function finishExam(endReason: ExamResult["end_reason"]): void {
+    if (!eventLogger) {
+      return;
+    }
+
+    try {
+      const sessionId = eventLogger.getSessionId();
+      const events = eventLogger.getEvents().filter((e) => e.session_id === sessionId);
+      const interpretOptions = {
+        events,
+        moduleId,
+        studentId,
+        sessionId,
+        stepIds: gradedStepIds.length > 0 ? gradedStepIds : [...completedSteps],
+        stepWeights,
+        rubrics,
+        expectedSeconds,
+        labExpectedSeconds,
+        presetId: EXAM_PRESET_ID,
+      };
+
+      // A broken chain is signed as such (and fails), so the edit stays on record
+      const chain = verifyTelemetryChain(readFileSync(eventLogger.getLogPath(), "utf-8"));
+      if (!chain.valid) {
+        log(`Exam telemetry chain is broken (${chain.errors.length} errors); the result will not pass`);
+      }
+      const result = buildExamResult({
+        progress: interpretLabProgress(interpretOptions),
+        evidence: interpretTaskEvidence(interpretOptions),
+        endReason,
+        endedAt: new Date().toISOString(),
+        telemetry: {
+          event_count: chain.eventCount,
+          head_hash: chain.headHash,
+          chain_valid: chain.valid,
+          chain_errors: chain.valid ? undefined : chain.errors.map((e) => `telemetry.jsonl:${e.line}: ${e.message}`),
+        },
+      });
+      const resultPath = writeExamResult(logDir, signExamResult(result, loadOrCreateExamKeys(options.examKeysDir)));
+      log(`Exam result signed: ${Math.round(result.overall_score * 100)}% (${resultPath})`);
+
+      ipcClient?.send({
+        type: "examResult",
+        score: result.overall_score,
+        passed: result.passed,
+        completedSteps: [...completedSteps],
+        resultPath,
+      });
+    } catch (e) {
+      onError?.(new Error(`Failed to write exam result: ${e}`));
     }
   }
 
@@ -252,7 +706,7 @@ export function createEventHub(options: EventHubOptions): EventHub {
     throw new Error(`Failed to connect to canvas after ${MAX_RETRIES} attempts: ${lastError}`);
   }
 
-  return {
+  const hub: EventHub = {
     async start() {
       if (running) {
         return;
@@ -268,6 +722,8 @@ export function createEventHub(options: EventHubOptions): EventHub {
         moduleId,
         studentId,
         labType: adapter.getLabType(),
+        hashChain: exam,
+        onEvent: (event) => gapDetector?.processEvent(event),
         onLog,
         onError,
       });
@@ -292,6 +748,16 @@ export function createEventHub(options: EventHubOptions): EventHub {
           const module = loadModule(moduleId);
           const stepIds = module.steps.map((s) => s.id);
           stateWriter.initialize(stepIds);
+          gradedStepIds = module.steps.filter((s) => s.type === "task" || s.type === "question").map((s) => s.id);
+
+          if (exam && !options.timeLimits) {
+            labMaxSeconds = module.timing?.maxSeconds;
+            for (const step of module.steps) {
+              if (step.timing?.maxSeconds !== undefined) {
+                stepMaxSeconds.set(step.id, step.timing.maxSeconds);
+              }
+            }
+          }
         } catch (e) {
           log(`Warning: Could not initialize state writer with module steps: ${e}`);
         }
@@ -299,6 +765,68 @@ export function createEventHub(options: EventHubOptions): EventHub {
         log(`Warning: Could not create state writer: ${e}`);
       }
 
+      // Hard time limits (only exams end the session when time runs out)
+      if (exam && options.timeLimits) {
+        labMaxSeconds = options.timeLimits.labMaxSeconds;
+        for (const [stepId, seconds] of Object.entries(options.timeLimits.stepMaxSeconds ?? {})) {
+          stepMaxSeconds.set(stepId, seconds);
+        }
+      }
+      if (labMaxSeconds !== undefined || stepMaxSeconds.size > 0) {
+        log(`Time limits: lab ${labMaxSeconds ?? "none"}, ${stepMaxSeconds.size} step limit(s)`);
+      }
+
+      // Step weights, rubrics and expected durations
+      try {
+        const { getStepScoring } = await import("../module-loader");
+        ({ weights: stepWeights, rubrics, expectedSeconds, labExpectedSeconds } = getStepScoring(moduleId));
+      } catch (e) {
+        log(`Warning: Could not load step scoring: ${e}`);
+      }
+
+      // Scoring preset (exams are always graded with the strict preset)
+      if (!exam) {
+        try {
+          scoringPreset = options.scoringPreset ?? (await loadScoringPreset());
+          if (scoringPreset) {
+            log(`Scoring preset: ${scoringPreset.id}`);
+          }
+        } catch (e) {
+          log(`Warning: Could not load scoring preset: ${e}`);
+        }
+      }
+
+      // Skills this lab provides evidence for
+      if (skillsDir) {
+        try {
+          qmatrix = findQMatrixForLab(moduleId);
+          estimators = loadCatalogEstimators();
+          log(`Skill tracking: ${qmatrix.length} Q-matrix entries for ${moduleId}`);
+        } catch (e) {
+          log(`Warning: Could not load Q-matrix: ${e}`);
+        }
+      }
+
+      // Watch the event stream for learning gaps
+      try {
+        const templates = await loadGapTemplates();
+        if (templates.length > 0) {
+          gapDetector = createGapDetector({
+            templates,
+            studentId,
+            sessionId: eventLogger.getSessionId(),
+            onGap: (gap) => {
+              eventLogger?.logGapDetected(gap);
+              stateWriter?.recordGap(gap);
+            },
+            onLog,
+          });
+          log(`Gap detection enabled (${templates.length} templates)`);
+        }
+      } catch (e) {
+        log(`Warning: Could not load gap templates: ${e}`);
+      }
+
       // Connect to vTA canvas
       try {
         await connectToCanvas();
@@ -310,21 +838,63 @@ export function createEventHub(options: EventHubOptions): EventHub {
       if (ipcClient) {
         ipcClient.send({ type: "labStatus", status: "running", message: "Event hub started" });
       }
+      sendTimeLimits();
 
       // Set up adapter callbacks before starting
       adapter.onStudentAction = handleStudentAction;
       adapter.onStepCompleted = handleStepCompleted;
+      adapter.onTaskProgress = handleTaskProgress;
+      adapter.onStepRegressed = handleStepRegressed;
       adapter.onError = handleError;
 
       // Start adapter
       await adapter.start();
       log(`Adapter started: ${adapter.getLabType()}`);
 
-      // Start heartbeat ping
+      // Tutor commands: the control API, with tutor-commands.json as the fallback; exams run without a tutor
+      if (!exam) {
+        const processor = createTutorCommandProcessor({
+          sendMessage: (msg) => ipcClient?.send(msg),
+          onAddStep: handleTutorAddStep,
+          onMarkComplete: (stepId) =>
+            handleStepCompleted({ stepId, source: "tutor", taskIndex: 0, timestamp: new Date().toISOString() }),
+          onSkipStep: handleTutorSkipStep,
+          onMoveStep: handleTutorMoveStep,
+          onSetPreset: handleTutorSetPreset,
+          hasStep: (stepId) => {
+            const steps = stateWriter?.getState()?.steps;
+            return !steps || steps.some((s) => s.id === stepId);
+          },
+          onCommandProcessed: recordTutorCommand,
+          onLog,
+        });
+        tutorControl = createTutorControlWatcher({ logDir, processor, onLog, onError });
+        tutorControl.start();
+
+        controlServer = createTutorControlServer({
+          socketPath: join(logDir, CONTROL_SOCKET_FILE),
+          commandsLogPath: join(logDir, "commands.log"),
+          processor,
+          getState: () => stateWriter?.getState() ?? null,
+          runCheck: adapter.runCheck ? (stepId) => runCheckNow(stepId, "tutor") : undefined,
+          onLog,
+          onError,
+        });
+        try {
+          controlServer.start();
+        } catch (e) {
+          log(`Warning: Could not start the tutor control API (tutor-commands.json still works): ${e}`);
+          controlServer = null;
+        }
+      }
+
+      // Start heartbeat ping (also re-checks time-based gaps and time limits)
       pingInterval = setInterval(() => {
         if (ipcClient) {
           ipcClient.send({ type: "ping" });
         }
+        gapDetector?.tick();
+        checkTimeLimits();
       }, 2000);
     },
 
@@ -342,12 +912,17 @@ export function createEventHub(options: EventHubOptions): EventHub {
         pingInterval = null;
       }
 
-      // Stop adapter
+      // Stop tutor commands and adapter
+      tutorControl?.stop();
+      tutorControl = null;
+      controlServer?.stop();
+      controlServer = null;
       adapter.stop();
 
       // End telemetry session
       if (eventLogger) {
         const totalTimeSeconds = Math.round((Date.now() - sessionStartTime) / 1000);
+        let reason: ExamResult["end_reason"];
 
         // Determine completion status
         try {
@@ -358,24 +933,39 @@ export function createEventHub(options: EventHubOptions): EventHub {
             module.steps.find((s: any) => s.id === id && s.type === "task")
           ).length;
 
-          const reason = completedTaskSteps >= totalSteps ? "completed" : "abandoned";
+          reason = timeoutMessage
+            ? "timeout"
+            : completedTaskSteps >= totalSteps
+              ? "completed"
+              : "abandoned";
           eventLogger.endSession(reason, totalTimeSeconds);
           log(`Telemetry session ended: ${reason} (${totalTimeSeconds}s)`);
         } catch (e) {
-          eventLogger.endSession("abandoned", totalTimeSeconds);
-          log(`Telemetry session ended: abandoned (${totalTimeSeconds}s)`);
+          reason = timeoutMessage ? "timeout" : "abandoned";
+          eventLogger.endSession(reason, totalTimeSeconds);
+          log(`Telemetry session ended: ${reason} (${totalTimeSeconds}s)`);
+        }
+
+        updateSkills();
+        if (exam) {
+          finishExam(reason);
         }
       }
 
       // Send stop status
       if (ipcClient) {
-        ipcClient.send({ type: "labStatus", status: "stopped", message: "Event hub stopped" });
+        ipcClient.send(
+          timeoutMessage
+            ? { type: "labStatus", status: "timeout", message: timeoutMessage }
+            : { type: "labStatus", status: "stopped", message: "Event hub stopped" }
+        );
         ipcClient.close();
         ipcClient = null;
       }
 
       // Clean up state writer
       stateWriter = null;
+      gapDetector = null;
     },
 
     isRunning() {
@@ -391,11 +981,17 @@ export function createEventHub(options: EventHubOptions): EventHub {
     },
 
     emitTutorUtterance(event: TutorUtteranceEvent) {
+      // Exams run without a tutor, and unchained lines would break the telemetry hash chain
+      if (exam) {
+        log("Ignoring tutor utterance during exam");
+        return;
+      }
+
       // Append tutor utterance directly to telemetry.jsonl
       // Uses same file as eventLogger for unified telemetry stream
       const telemetryPath = join(logDir, "telemetry.jsonl");
       try {
-        const line = JSON.stringify(event) + "\n";
+        const line = JSON.stringify({ schema_version: TELEMETRY_SCHEMA_VERSION, ...event }) + "\n";
         appendFileSync(telemetryPath, line);
         log(`Telemetry: tutor_utterance - ${event.timestamp}`);
       } catch (e) {
@@ -403,4 +999,6 @@ export function createEventHub(options: EventHubOptions): EventHub {
       }
     },
   };
+
+  return hub;
 }
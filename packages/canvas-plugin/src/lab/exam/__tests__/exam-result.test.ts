@@ -0,0 +1,120 @@
+// Exam Result Tests
+// Tests for building, signing and verifying exam result summaries
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, readFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createEventLogger } from "../../telemetry/event-logger";
+import { interpretLabProgress, interpretTaskEvidence } from "../../telemetry/evidence-interpreter";
+import { verifyTelemetryChain } from "../../telemetry/hash-chain";
+import {
+  buildExamResult,
+  signExamResult,
+  verifyExamResult,
+  loadOrCreateExamKeys,
+  writeExamResult,
+  readExamResult,
+  EXAM_PRESET_ID,
+  type SignedExamResult,
+} from "..";
+
+describe("Exam results", () => {
+  let tempDir: string;
+  let telemetry: string;
+  let signed: SignedExamResult;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "exam-result-test-"));
+
+    const logger = createEventLogger({ logDir: tempDir, moduleId: "test-module", studentId: "s1", hashChain: true });
+    logger.startSession(1);
+    logger.logStepStarted("step-1", "task");
+    logger.logCheckPassed("step-1", "check");
+    logger.logStepStarted("step-2", "task");
+    logger.logCheckFailed("step-2", 1);
+    logger.endSession("abandoned", 120);
+    telemetry = readFileSync(logger.getLogPath(), "utf-8");
+
+    const chain = verifyTelemetryChain(telemetry);
+    const interpretOptions = {
+      events: logger.getEvents(),
+      moduleId: "test-module",
+      studentId: "s1",
+      sessionId: logger.getSessionId(),
+      stepIds: ["step-1", "step-2", "step-3"],
+      presetId: EXAM_PRESET_ID,
+    };
+    const result = buildExamResult({
+      progress: interpretLabProgress(interpretOptions),
+      evidence: interpretTaskEvidence(interpretOptions),
+      endReason: "abandoned",
+      endedAt: new Date().toISOString(),
+      telemetry: { event_count: chain.eventCount, head_hash: chain.headHash, chain_valid: chain.valid },
+    });
+    signed = signExamResult(result, loadOrCreateExamKeys(join(tempDir, "keys")));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test("scores every graded step, unfinished ones as 0", () => {
+    const { result } = signed;
+    expect(result.scoring_preset_id).toBe("strict");
+    expect(result.steps.map((s) => [s.step_id, s.status, s.confidence])).toEqual([
+      ["step-1", "completed", 1],
+      ["step-2", "failed", 0],
+      ["step-3", "failed", 0],
+    ]);
+    expect(result.overall_score).toBeCloseTo(1 / 3, 10);
+    expect(result.passed).toBe(false);
+    expect(result.completion_pct).toBe(33);
+  });
+
+  test("verifies against its telemetry and survives a round trip to disk", () => {
+    writeExamResult(tempDir, signed);
+    const loaded = readExamResult(tempDir)!;
+    expect(verifyExamResult(loaded, { telemetry, publicKey: signed.signature.public_key })).toEqual({
+      valid: true,
+      errors: [],
+    });
+  });
+
+  test("rejects an edited score", () => {
+    const tampered = { ...signed, result: { ...signed.result, overall_score: 1, passed: true } };
+    expect(verifyExamResult(tampered).errors).toEqual(["signature does not match the result (result modified)"]);
+  });
+
+  test("rejects a result signed by another key", () => {
+    const otherKeys = loadOrCreateExamKeys(join(tempDir, "other-keys"));
+    const verification = verifyExamResult(signed, { publicKey: otherKeys.publicKey });
+    expect(verification.errors).toEqual(["result was signed by a different key"]);
+  });
+
+  test("rejects truncated telemetry", () => {
+    const truncated = telemetry.trim().split("\n").slice(0, -1).join("\n");
+    const verification = verifyExamResult(signed, { telemetry: truncated });
+    expect(verification.valid).toBe(false);
+    expect(verification.errors[0]).toContain("telemetry does not match the result");
+  });
+
+  test("a result signed over a broken chain never passes or verifies", () => {
+    const keys = loadOrCreateExamKeys(join(tempDir, "keys"));
+    const broken = signExamResult(
+      {
+        ...signed.result,
+        overall_score: 1,
+        passed: true,
+        telemetry: { ...signed.result.telemetry, chain_valid: false, chain_errors: ["telemetry.jsonl:2: hash mismatch"] },
+      },
+      keys
+    );
+    expect(verifyExamResult(broken).errors).toEqual(["result was signed over a broken telemetry chain"]);
+  });
+
+  test("reuses the stored signing key", () => {
+    const keys = loadOrCreateExamKeys(join(tempDir, "keys"));
+    expect(keys.publicKey).toBe(signed.signature.public_key);
+  });
+});
@@ -0,0 +1,191 @@
+// Exam Results - Build, sign and verify the result summary of an exam session
+// The summary pins the hash-chained telemetry it was scored from, so neither can be edited on its own
+
+import { generateKeyPairSync, createPrivateKey, createPublicKey, sign, verify } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { LabProgress, TaskEvidence } from "../telemetry/types";
+import { getPreset, isPassing, calculateOverallScore, resolveStepPreset } from "../telemetry/scoring-presets";
+import { verifyTelemetryChain } from "../telemetry/hash-chain";
+import { EXAM_KEYS_DIR } from "../../tutor/defaults";
+import {
+  EXAM_RESULT_VERSION,
+  EXAM_RESULT_FILE,
+  type ExamResult,
+  type ExamStepResult,
+  type ExamKeyPair,
+  type SignedExamResult,
+  type ExamVerification,
+} from "./types";
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+/**
+ * The local Ed25519 signing key, generated on first use
+ * Graders pin the public key (`lab-exam-verify --public-key`) to trust results from this machine
+ */
+export function loadOrCreateExamKeys(dir: string = EXAM_KEYS_DIR): ExamKeyPair {
+  const privatePath = join(dir, "exam-signing.key");
+  const publicPath = join(dir, "exam-signing.pub");
+
+  if (existsSync(privatePath) && existsSync(publicPath)) {
+    return {
+      privateKey: readFileSync(privatePath, "utf-8"),
+      publicKey: readFileSync(publicPath, "utf-8"),
+    };
+  }
+
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519", {
+    privateKeyEncoding: { type: "pkcs8", format: "pem" },
+    publicKeyEncoding: { type: "spki", format: "pem" },
+  });
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(privatePath, privateKey, { mode: 0o600 });
+  writeFileSync(publicPath, publicKey);
+  return { privateKey, publicKey };
+}
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+export interface BuildExamResultOptions {
+  progress: LabProgress;
+  evidence: TaskEvidence[]; // One per graded step, in step order
+  endReason: ExamResult["end_reason"];
+  endedAt: string;
+  telemetry: ExamResult["telemetry"];
+}
+
+/**
+ * Summarise a scored exam session
+ * Unlike the lab progress score, every graded step counts: unfinished steps earn
+ * only their rubric credit, and steps never attempted score 0. A result scored from
+ * a broken telemetry chain never passes
+ */
+export function buildExamResult(options: BuildExamResultOptions): ExamResult {
+  const { progress, evidence, endReason, endedAt, telemetry } = options;
+  const preset = getPreset(progress.scoring_preset_id);
+
+  const steps: ExamStepResult[] = evidence.map((ev) => {
+    const completed = ev.status === "completed";
+    const credited = completed || (ev.rubric?.some((r) => r.satisfied) ?? false);
+    const confidence = credited ? ev.confidence : 0;
+    return {
+      step_id: ev.step_id,
+      status: completed ? "completed" : credited ? "partial" : "failed",
+      confidence,
+      weight: progress.tasks[ev.step_id]?.weight ?? 1.0,
+      passed: completed && isPassing(confidence, resolveStepPreset(preset, ev.step_id)),
+    };
+  });
+
+  const labDelta = (progress.modifiers ?? []).reduce((sum, m) => sum + m.delta, 0);
+  const overallScore = Math.max(0, calculateOverallScore(steps) + labDelta);
+
+  return {
+    version: EXAM_RESULT_VERSION,
+    module_id: progress.module_id,
+    student_id: progress.student_id,
+    session_id: progress.session_id,
+    scoring_preset_id: progress.scoring_preset_id,
+    started_at: progress.started_at,
+    ended_at: endedAt,
+    end_reason: endReason,
+    overall_score: overallScore,
+    completion_pct: progress.completion_pct,
+    passed: telemetry.chain_valid && steps.length > 0 && isPassing(overallScore, preset),
+    steps,
+    telemetry,
+  };
+}
+
+/**
+ * JSON with object keys sorted, so a result signs the same however it was serialized
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function signExamResult(result: ExamResult, keys: ExamKeyPair): SignedExamResult {
+  const signature = sign(null, Buffer.from(canonicalJson(result)), createPrivateKey(keys.privateKey));
+  return {
+    result,
+    signature: {
+      algorithm: "ed25519",
+      public_key: keys.publicKey,
+      value: signature.toString("base64"),
+    },
+  };
+}
+
+export interface VerifyExamResultOptions {
+  telemetry?: string; // telemetry.jsonl contents, to check the chain the result pins
+  publicKey?: string; // Expected signer (default: trust the key embedded in the result)
+}
+
+/**
+ * Check the signature, and optionally the signer and the telemetry behind the result
+ */
+export function verifyExamResult(signed: SignedExamResult, options: VerifyExamResultOptions = {}): ExamVerification {
+  const errors: string[] = [];
+  const { result, signature } = signed;
+
+  try {
+    const key = createPublicKey(signature.public_key);
+    if (!verify(null, Buffer.from(canonicalJson(result)), key, Buffer.from(signature.value, "base64"))) {
+      errors.push("signature does not match the result (result modified)");
+    }
+    if (options.publicKey) {
+      const expected = createPublicKey(options.publicKey).export({ type: "spki", format: "der" });
+      if (!key.export({ type: "spki", format: "der" }).equals(expected)) {
+        errors.push("result was signed by a different key");
+      }
+    }
+  } catch (e) {
+    errors.push(`signature could not be checked: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  if (result.telemetry.chain_valid === false) {
+    errors.push("result was signed over a broken telemetry chain");
+  }
+
+  if (options.telemetry !== undefined) {
+    const chain = verifyTelemetryChain(options.telemetry);
+    for (const error of chain.errors) {
+      errors.push(`telemetry.jsonl:${error.line}: ${error.message}`);
+    }
+    if (chain.headHash !== result.telemetry.head_hash || chain.eventCount !== result.telemetry.event_count) {
+      errors.push(
+        `telemetry does not match the result (${chain.eventCount} events, expected ${result.telemetry.event_count})`
+      );
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+export function writeExamResult(logDir: string, signed: SignedExamResult): string {
+  const path = join(logDir, EXAM_RESULT_FILE);
+  writeFileSync(path, JSON.stringify(signed, null, 2) + "\n");
+  return path;
+}
+
+export function readExamResult(logDir: string): SignedExamResult | null {
+  const path = join(logDir, EXAM_RESULT_FILE);
+  if (!existsSync(path)) {
+    return null;
+  }
+  return JSON.parse(readFileSync(path, "utf-8")) as SignedExamResult;
+}
@@ -0,0 +1,5 @@
+// Exam Module - Locked-down assessment sessions: signed results over hash-chained telemetry
+// Re-exports all public types and functions
+
+export * from "./types";
+export * from "./exam-result";
@@ -0,0 +1,64 @@
+// Exam Types - Signed result summaries for locked-down assessment sessions
+
+import type { TaskStatus } from "../telemetry/types";
+
+export const EXAM_RESULT_VERSION = 1;
+
+/** The exam's scoring preset: no bonuses, no floor */
+export const EXAM_PRESET_ID = "strict";
+
+/** Written to the lab log directory when an exam session ends */
+export const EXAM_RESULT_FILE = "exam-result.json";
+
+export interface ExamStepResult {
+  step_id: string;
+  status: TaskStatus;
+  confidence: number;
+  weight: number;
+  passed: boolean;
+}
+
+export interface ExamResult {
+  version: number;
+  module_id: string;
+  student_id: string;
+  session_id: string;
+  scoring_preset_id: string;
+  started_at: string;
+  ended_at: string;
+  end_reason: "completed" | "abandoned" | "timeout";
+
+  overall_score: number;
+  completion_pct: number;
+  passed: boolean;
+  steps: ExamStepResult[];
+
+  // Pins the telemetry the score was computed from
+  telemetry: {
+    event_count: number;
+    head_hash: string; // hash of the last event in telemetry.jsonl
+    chain_valid: boolean; // false: telemetry.jsonl was edited before signing, and the result does not pass
+    chain_errors?: string[]; // Where the chain broke, when it did
+  };
+}
+
+export interface ExamSignature {
+  algorithm: "ed25519";
+  public_key: string; // SPKI PEM of the signing key
+  value: string; // base64 signature over the canonical result JSON
+}
+
+export interface SignedExamResult {
+  result: ExamResult;
+  signature: ExamSignature;
+}
+
+export interface ExamKeyPair {
+  privateKey: string; // PKCS#8 PEM
+  publicKey: string; // SPKI PEM
+}
+
+export interface ExamVerification {
+  valid: boolean;
+  errors: string[];
+}
@@ -13,25 +13,73 @@ import type {
   Solution,
   Question,
   QuestionOption,
+  TimeLimits,
 } from "../canvases/vta/types";
 import type { ValidationRule } from "../canvases/vta/lab-types";
-import type { LabType } from "./telemetry/types";
+import type { LabType, GapTemplate, RubricItem, ScoringPreset } from "./telemetry/types";
+import { parseGapTemplates } from "./telemetry/gap-detector";
+import { parseRubric } from "./telemetry/scoring-presets";
+import { resolveScoringPreset } from "./telemetry/preset-loader";
+import {
+  type DeclarativeCheck,
+  type DeclarativeCheckType,
+  isDeclarativeCheckType,
+  verifyDeclarativeCheck,
+  compileCheckScript,
+  describeDeclarativeCheck,
+} from "./checks/declarative";
+import {
+  type CompositeOperator,
+  type CompositeValidation,
+  isCompositeOperator,
+  verifyCompositeValidation,
+  getProbeConfigs,
+  describeValidationNode,
+} from "./checks/composite";
+import type { SplCheck, SplMatchMode, SplRecord } from "./spl/types";
+import type { SqlCheck, SqlExpectedRow } from "./sql/types";
 
 // Check configuration for scripts that poll for task completion
 export interface CheckConfig {
   stepId: string;
   script: string;
   pollInterval: number;
+  compiled?: string; // Script body for declarative checks (not a file under checks/)
 }
 
+// Runtime validation of one step, for steps added during a session (see compileStepValidation)
+export interface StepValidation {
+  stepId: string;
+  rules: ValidationRule[];         // Matched against commands (user-check, command-pattern)
+  checks: CheckConfig[];           // Polled in the container (compiled: written by writeStepChecks)
+  composite?: CompositeValidation; // Evaluated from commands and probe-*.sh results
+}
+
+// Step IDs end up in check script names, so they are kept to safe characters
+const STEP_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+// Directory (inside the lab log dir) where compiled declarative checks are written
+export const GENERATED_CHECKS_DIR = "generated-checks";
+
 // Raw YAML types (before conversion to TypeScript interfaces)
 interface YamlModule {
   title: string;
   description?: string;
   labType?: LabType;  // NEW: Lab type in YAML (optional)
+  dataset?: string;   // Splunk labs: fixture events, relative to the module directory
+  gaps?: unknown[];   // GapTemplates for live gap detection (validated by parseGapTemplates)
+  timing?: YamlTiming;
+  scoring_preset?: string; // Preset ID or preset YAML file, relative to the module directory
+  continuous_verification?: boolean; // Checks keep running after passing; steps whose checks stop passing regress
   steps: YamlStep[];
 }
 
+// Durations in seconds: expected (scoring time penalty) and max (hard limit, enforced in exams)
+interface YamlTiming {
+  expected_seconds?: number;
+  max_seconds?: number;
+}
+
 // Hints can be either plain strings or objects with id/text
 type YamlHint = string | { id?: string; text: string };
 
@@ -43,6 +91,9 @@ interface YamlStep {
   hints?: YamlHint[];
   solution?: YamlSolution;
   validation?: YamlValidation;
+  weight?: number;    // Share of the lab score (default 1)
+  rubric?: unknown[]; // RubricItems for partial credit (validated by parseRubric)
+  timing?: YamlTiming;
 }
 
 interface YamlStepContent {
@@ -77,12 +128,32 @@ interface YamlSolution {
   explanation?: string;
 }
 
-interface YamlValidation {
-  type: "user-check" | "command-pattern" | "check-script";
+// Declarative check fields (path, mode, group, ...) live alongside the
+// legacy ones; user and pattern are shared between both families.
+// Composite types (all/any/not/sequence) nest further validations in `checks`
+interface YamlValidation extends Omit<DeclarativeCheck, "type"> {
+  type:
+    | "user-check"
+    | "command-pattern"
+    | "check-script"
+    | "spl-results"
+    | "sql-results"
+    | "pytest"
+    | DeclarativeCheckType
+    | CompositeOperator;
   user?: string;
   pattern?: string;
   script?: string;
+  body?: string; // check-script: inline script, compiled into generated-checks/ instead of read from checks/
   poll_interval?: number;
+  task?: number; // Index into content.tasks that this validation completes
+  checks?: YamlValidation[];
+  // spl-results / sql-results: rows the query must return (or a reference query producing them)
+  expected?: SplRecord[] | SqlExpectedRow[];
+  reference?: string;
+  match?: SplMatchMode;
+  ordered?: boolean;
+  test?: string; // pytest: node ID that must pass, e.g. tests/test_main.py::test_greet
 }
 
 /**
@@ -260,6 +331,35 @@ function convertQuestion(question: YamlQuestion | undefined): Question | undefin
   };
 }
 
+/**
+ * Convert a `timing:` block, warning about (and dropping) invalid durations
+ */
+function convertTiming(timing: YamlTiming | undefined, context: string): TimeLimits | undefined {
+  if (!timing) {
+    return undefined;
+  }
+
+  const seconds = (field: keyof YamlTiming): number | undefined => {
+    const value = timing[field];
+    if (value === undefined) return undefined;
+    if (typeof value !== "number" || !(value > 0)) {
+      console.warn(`${context} has an invalid timing.${field}: ${JSON.stringify(value)}`);
+      return undefined;
+    }
+    return value;
+  };
+
+  const expectedSeconds = seconds("expected_seconds");
+  const maxSeconds = seconds("max_seconds");
+  if (expectedSeconds !== undefined && maxSeconds !== undefined && maxSeconds < expectedSeconds) {
+    console.warn(`${context} has timing.max_seconds below timing.expected_seconds`);
+  }
+  if (expectedSeconds === undefined && maxSeconds === undefined) {
+    return undefined;
+  }
+  return { expectedSeconds, maxSeconds };
+}
+
 /**
  * Convert a YAML step to a Step object
  */
@@ -279,6 +379,7 @@ function convertStep(yamlStep: YamlStep): Step {
     type: yamlStep.type,
     content,
     completed: false,
+    timing: convertTiming(yamlStep.timing, `Step '${yamlStep.id}'`),
   };
 }
 
@@ -293,6 +394,7 @@ export function loadModule(moduleId: string): Module {
     title: yamlModule.title,
     description: yamlModule.description,
     labType: yamlModule.labType ?? "linux_cli",  // NEW: Extract labType, default to linux_cli
+    timing: convertTiming(yamlModule.timing, `Module '${moduleId}'`),
     steps: yamlModule.steps.map(convertStep),
   };
 }
@@ -304,88 +406,478 @@ export function loadModule(moduleId: string): Module {
  */
 export function getValidationRules(moduleId: string): ValidationRule[] {
   const yamlModule = parseModuleYaml(moduleId);
-  const rules: ValidationRule[] = [];
+  return yamlModule.steps.flatMap((step) => {
+    const rule = getStepValidationRule(step);
+    return rule ? [rule] : [];
+  });
+}
+
+/**
+ * The command rule (user-check / command-pattern) of a step's validation, if it has one
+ */
+function getStepValidationRule(
+  step: YamlStep,
+  warn: (message: string) => void = console.warn
+): ValidationRule | null {
+  if (!step.validation) {
+    return null;
+  }
+
+  const { validation } = step;
+
+  switch (validation.type) {
+    case "user-check":
+      if (!validation.user) {
+        warn(`Step '${step.id}' has user-check validation but no 'user' specified`);
+        return null;
+      }
+      return {
+        stepId: step.id,
+        taskIndex: validation.task,
+        userCheck: validation.user,
+        description: step.title,
+      };
+
+    case "command-pattern":
+      if (!validation.pattern) {
+        warn(`Step '${step.id}' has command-pattern validation but no 'pattern' specified`);
+        return null;
+      }
+      return {
+        stepId: step.id,
+        taskIndex: validation.task,
+        pattern: new RegExp(validation.pattern),
+        description: step.title,
+      };
+
+    case "check-script":
+      // Skip - handled by getCheckConfigs
+      return null;
+
+    case "spl-results":
+      // Skip - handled by getSplChecks
+      return null;
+
+    case "sql-results":
+      // Skip - handled by getSqlChecks
+      return null;
+
+    case "pytest":
+      // Skip - handled by getPytestChecks
+      return null;
+
+    default:
+      if (isDeclarativeCheckType(validation.type) || isCompositeOperator(validation.type)) {
+        // Compiled to check scripts by getCheckConfigs / evaluated via getCompositeValidations
+        return null;
+      }
+      warn(`Step '${step.id}' has unknown validation type: ${(validation as YamlValidation).type}`);
+      return null;
+  }
+}
+
+/**
+ * Extract check script configurations from a module's YAML
+ * These are validation scripts that poll for task completion
+ * Declarative checks are compiled to scripts named check-<stepId>.sh
+ */
+export function getCheckConfigs(moduleId: string): CheckConfig[] {
+  const yamlModule = parseModuleYaml(moduleId);
+  return yamlModule.steps.flatMap((step) => {
+    const config = getStepCheckConfig(step);
+    return config ? [config] : [];
+  });
+}
+
+/**
+ * The check script (check-script or compiled declarative check) of a step's validation, if it has one
+ */
+function getStepCheckConfig(
+  step: YamlStep,
+  warn: (message: string) => void = console.warn
+): CheckConfig | null {
+  if (!step.validation) {
+    return null;
+  }
+
+  const { validation } = step;
+
+  if (isDeclarativeCheckType(validation.type)) {
+    const check = validation as DeclarativeCheck;
+    const problems = verifyDeclarativeCheck(check);
+    if (problems.length > 0) {
+      warn(`Step '${step.id}' has invalid ${check.type} validation: ${problems.join("; ")}`);
+      return null;
+    }
+
+    return {
+      stepId: step.id,
+      script: `check-${step.id}.sh`,
+      pollInterval: validation.poll_interval ?? 2000,
+      compiled: compileCheckScript(step.id, check),
+    };
+  }
+
+  if (validation.type !== "check-script") {
+    return null;
+  }
+
+  if (validation.body) {
+    return {
+      stepId: step.id,
+      script: `check-${step.id}.sh`,
+      pollInterval: validation.poll_interval ?? 2000,
+      compiled: validation.body,
+    };
+  }
+
+  if (!validation.script) {
+    warn(`Step '${step.id}' has check-script validation but no 'script' or 'body' specified`);
+    return null;
+  }
+
+  return {
+    stepId: step.id,
+    script: validation.script,
+    pollInterval: validation.poll_interval ?? 2000, // Default 2 seconds
+  };
+}
+
+/**
+ * Extract the declarative checks from a module's YAML, without compiling them
+ * Used by the validator to report problems per step
+ */
+export function getDeclarativeChecks(
+  moduleId: string
+): Array<{ stepId: string; stepIndex: number; check: DeclarativeCheck }> {
+  const yamlModule = parseModuleYaml(moduleId);
+
+  return yamlModule.steps.flatMap((step, stepIndex) =>
+    step.validation && isDeclarativeCheckType(step.validation.type)
+      ? [{ stepId: step.id, stepIndex, check: step.validation as DeclarativeCheck }]
+      : []
+  );
+}
+
+/**
+ * Get the absolute path to a Splunk lab's fixture dataset, if it declares one
+ */
+export function getModuleDatasetPath(moduleId: string): string | null {
+  const yamlModule = parseModuleYaml(moduleId);
+  return yamlModule.dataset ? path.join(getModulePath(moduleId), yamlModule.dataset) : null;
+}
+
+/**
+ * Gap templates declared in a module's YAML (`gaps:`)
+ */
+export function getGapTemplates(moduleId: string): GapTemplate[] {
+  const yamlModule = parseModuleYaml(moduleId);
+  return parseGapTemplates(yamlModule.gaps, `Module '${moduleId}'`);
+}
+
+/**
+ * Per-step scoring from a module's YAML: `weight`, `rubric` and expected durations
+ * Only steps that declare them appear in the result
+ */
+export function getStepScoring(moduleId: string): {
+  weights: Record<string, number>;
+  rubrics: Record<string, RubricItem[]>;
+  expectedSeconds: Record<string, number>;
+  labExpectedSeconds?: number;
+} {
+  const yamlModule = parseModuleYaml(moduleId);
+  const weights: Record<string, number> = {};
+  const rubrics: Record<string, RubricItem[]> = {};
+  const expectedSeconds: Record<string, number> = {};
 
   for (const step of yamlModule.steps) {
-    if (!step.validation) {
-      continue;
+    if (step.weight !== undefined) {
+      if (typeof step.weight === "number" && step.weight >= 0) {
+        weights[step.id] = step.weight;
+      } else {
+        console.warn(`Step '${step.id}' has an invalid weight: ${JSON.stringify(step.weight)}`);
+      }
     }
 
-    const { validation } = step;
+    const rubric = parseRubric(step.rubric, `Step '${step.id}'`, step.content?.tasks?.length ?? 0);
+    if (rubric.length > 0) {
+      rubrics[step.id] = rubric;
+    }
 
-    switch (validation.type) {
-      case "user-check":
-        if (!validation.user) {
-          console.warn(
-            `Step '${step.id}' has user-check validation but no 'user' specified`
-          );
-          continue;
-        }
-        rules.push({
-          stepId: step.id,
-          userCheck: validation.user,
-          description: step.title,
-        });
-        break;
-
-      case "command-pattern":
-        if (!validation.pattern) {
-          console.warn(
-            `Step '${step.id}' has command-pattern validation but no 'pattern' specified`
-          );
-          continue;
-        }
-        rules.push({
-          stepId: step.id,
-          pattern: new RegExp(validation.pattern),
-          description: step.title,
-        });
-        break;
-
-      case "check-script":
-        // Skip - handled by getCheckConfigs
-        break;
-
-      default:
-        console.warn(
-          `Step '${step.id}' has unknown validation type: ${(validation as YamlValidation).type}`
-        );
+    const expected = convertTiming(step.timing, `Step '${step.id}'`)?.expectedSeconds;
+    if (expected !== undefined) {
+      expectedSeconds[step.id] = expected;
     }
   }
 
-  return rules;
+  return {
+    weights,
+    rubrics,
+    expectedSeconds,
+    labExpectedSeconds: convertTiming(yamlModule.timing, `Module '${moduleId}'`)?.expectedSeconds,
+  };
 }
 
 /**
- * Extract check script configurations from a module's YAML
- * These are validation scripts that poll for task completion
+ * The scoring preset a module's YAML selects (`scoring_preset:`), or null if it selects none
  */
-export function getCheckConfigs(moduleId: string): CheckConfig[] {
+export function getModuleScoringPreset(moduleId: string): ScoringPreset | null {
+  const yamlModule = parseModuleYaml(moduleId);
+  if (yamlModule.scoring_preset === undefined) {
+    return null;
+  }
+  if (typeof yamlModule.scoring_preset !== "string") {
+    console.warn(`Module '${moduleId}' has an invalid scoring_preset: ${JSON.stringify(yamlModule.scoring_preset)}`);
+    return null;
+  }
+  return resolveScoringPreset(yamlModule.scoring_preset, getModulePath(moduleId));
+}
+
+/**
+ * Whether a module's checks keep verifying steps after they pass (`continuous_verification: true`),
+ * so that a step is only complete while its outcome still holds (e.g. capstones graded on the final state)
+ */
+export function getContinuousVerification(moduleId: string): boolean {
+  const yamlModule = parseModuleYaml(moduleId);
+  if (yamlModule.continuous_verification === undefined) {
+    return false;
+  }
+  if (typeof yamlModule.continuous_verification !== "boolean") {
+    console.warn(
+      `Module '${moduleId}' has an invalid continuous_verification: ${JSON.stringify(yamlModule.continuous_verification)}`
+    );
+    return false;
+  }
+  return yamlModule.continuous_verification;
+}
+
+/**
+ * Extract spl-results validations from a module's YAML
+ * Each compares a submitted search's results against expected rows
+ */
+export function getSplChecks(moduleId: string): SplCheck[] {
   const yamlModule = parseModuleYaml(moduleId);
-  const configs: CheckConfig[] = [];
+  const checks: SplCheck[] = [];
 
   for (const step of yamlModule.steps) {
-    if (!step.validation || step.validation.type !== "check-script") {
+    if (step.validation?.type !== "spl-results") {
       continue;
     }
 
     const { validation } = step;
+    if (!Array.isArray(validation.expected) && !validation.reference) {
+      console.warn(
+        `Step '${step.id}' has spl-results validation but no 'expected' rows or 'reference' query`
+      );
+      continue;
+    }
+
+    checks.push({
+      stepId: step.id,
+      expected: validation.expected as SplRecord[] | undefined,
+      reference: validation.reference,
+      match: validation.match ?? "exact",
+      ordered: validation.ordered ?? false,
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * Extract sql-results validations from a module's YAML
+ * Each compares a student query's result set against expected rows
+ */
+export function getSqlChecks(moduleId: string): SqlCheck[] {
+  const yamlModule = parseModuleYaml(moduleId);
+  const checks: SqlCheck[] = [];
 
-    if (!validation.script) {
+  for (const step of yamlModule.steps) {
+    if (step.validation?.type !== "sql-results") {
+      continue;
+    }
+
+    const { validation } = step;
+    if (!Array.isArray(validation.expected) && !validation.reference) {
       console.warn(
-        `Step '${step.id}' has check-script validation but no 'script' specified`
+        `Step '${step.id}' has sql-results validation but no 'expected' rows or 'reference' query`
       );
       continue;
     }
 
-    configs.push({
+    checks.push({
       stepId: step.id,
-      script: validation.script,
-      pollInterval: validation.poll_interval ?? 2000, // Default 2 seconds
+      expected: validation.expected as SqlExpectedRow[] | undefined,
+      reference: validation.reference,
+      ordered: validation.ordered ?? false,
     });
   }
 
-  return configs;
+  return checks;
+}
+
+/**
+ * Extract pytest validations from a module's YAML
+ * Each step completes when its test node ID passes
+ */
+export function getPytestChecks(moduleId: string): Array<{ stepId: string; test: string }> {
+  const yamlModule = parseModuleYaml(moduleId);
+  const checks: Array<{ stepId: string; test: string }> = [];
+
+  for (const step of yamlModule.steps) {
+    if (step.validation?.type !== "pytest") {
+      continue;
+    }
+
+    if (!step.validation.test) {
+      console.warn(`Step '${step.id}' has pytest validation but no 'test' specified`);
+      continue;
+    }
+
+    checks.push({ stepId: step.id, test: step.validation.test });
+  }
+
+  return checks;
+}
+
+/**
+ * Extract composite (all/any/not/sequence) validations from a module's YAML
+ * Unverified - callers that act on them should skip ones with problems
+ */
+export function getCompositeValidations(
+  moduleId: string
+): Array<{ stepId: string; stepIndex: number; validation: CompositeValidation }> {
+  const yamlModule = parseModuleYaml(moduleId);
+
+  return yamlModule.steps.flatMap((step, stepIndex) =>
+    step.validation && isCompositeOperator(step.validation.type)
+      ? [{ stepId: step.id, stepIndex, validation: step.validation as CompositeValidation }]
+      : []
+  );
+}
+
+/**
+ * Get the well-formed composite validations of a module, keyed by step ID
+ * Invalid composites are skipped with a warning, like other validations
+ */
+export function getCompositeValidationsByStep(moduleId: string): Map<string, CompositeValidation> {
+  const composites = new Map<string, CompositeValidation>();
+
+  for (const { stepId, validation } of getCompositeValidations(moduleId)) {
+    const problems = verifyCompositeValidation(validation);
+    if (problems.length > 0) {
+      console.warn(
+        `Step '${stepId}' has invalid ${validation.type} validation: ${problems.join("; ")}`
+      );
+      continue;
+    }
+    composites.set(stepId, validation);
+  }
+
+  return composites;
+}
+
+/**
+ * Write compiled declarative checks into a lab's log directory
+ * The directory is mounted into the container, where the orchestrator
+ * polls these alongside the module's own check scripts.
+ * Outcome leaves of composite validations are written as probe-*.sh,
+ * which the orchestrator keeps polling and reports every status change for
+ * Returns the paths of the written scripts
+ */
+export function writeGeneratedChecks(moduleId: string, logDir: string): string[] {
+  const scripts = getCheckConfigs(moduleId)
+    .filter((c) => c.compiled !== undefined)
+    .map((c) => ({ script: c.script, compiled: c.compiled! }));
+
+  for (const [stepId, validation] of getCompositeValidationsByStep(moduleId)) {
+    scripts.push(...getProbeConfigs(stepId, validation));
+  }
+
+  return writeCheckScripts(logDir, scripts);
+}
+
+/**
+ * Compile the `validation` of a step added during a session (e.g. by the tutor)
+ * Accepts what a module.yaml step's validation accepts, except checks run
+ * by other adapters (spl-results, sql-results, pytest); check-script needs an inline `body`.
+ * Throws with every problem found, so the step can be rejected as a whole
+ */
+export function compileStepValidation(stepId: string, title: string, validation: unknown): StepValidation {
+  if (!STEP_ID_PATTERN.test(stepId)) {
+    throw new Error(`Invalid step ID '${stepId}' (letters, digits, '-' and '_' only)`);
+  }
+  if (
+    !validation ||
+    typeof validation !== "object" ||
+    Array.isArray(validation) ||
+    typeof (validation as { type?: unknown }).type !== "string"
+  ) {
+    throw new Error(`Step '${stepId}' validation must be a mapping with a 'type'`);
+  }
+
+  const step: YamlStep = { id: stepId, title, type: "task", content: {}, validation: validation as YamlValidation };
+  const type = step.validation!.type;
+
+  if (type === "spl-results" || type === "sql-results" || type === "pytest") {
+    throw new Error(`Step '${stepId}': ${type} validation is not supported for steps added during a session`);
+  }
+  if (type === "check-script" && !step.validation!.body) {
+    throw new Error(`Step '${stepId}' has check-script validation but no inline 'body'`);
+  }
+
+  const problems: string[] = [];
+  const warn = (message: string) => problems.push(message);
+  const rule = getStepValidationRule(step, warn);
+  const check = getStepCheckConfig(step, warn);
+
+  let composite: CompositeValidation | undefined;
+  if (isCompositeOperator(type)) {
+    const compositeProblems = verifyCompositeValidation(validation as CompositeValidation);
+    if (compositeProblems.length > 0) {
+      problems.push(`Step '${stepId}' has invalid ${type} validation: ${compositeProblems.join("; ")}`);
+    } else {
+      composite = validation as CompositeValidation;
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(problems.join("; "));
+  }
+
+  return { stepId, rules: rule ? [rule] : [], checks: check ? [check] : [], composite };
+}
+
+/**
+ * Write the compiled checks and composite probes of an added step into a lab's log directory,
+ * where the orchestrator in the running container picks them up
+ * Returns the paths of the written scripts
+ */
+export function writeStepChecks(logDir: string, validation: StepValidation): string[] {
+  const scripts = validation.checks
+    .filter((c) => c.compiled !== undefined)
+    .map((c) => ({ script: c.script, compiled: c.compiled! }));
+
+  if (validation.composite) {
+    scripts.push(...getProbeConfigs(validation.stepId, validation.composite));
+  }
+
+  return writeCheckScripts(logDir, scripts);
+}
+
+function writeCheckScripts(logDir: string, scripts: Array<{ script: string; compiled: string }>): string[] {
+  if (scripts.length === 0) {
+    return [];
+  }
+
+  const checksDir = path.join(logDir, GENERATED_CHECKS_DIR);
+  fs.mkdirSync(checksDir, { recursive: true });
+
+  return scripts.map(({ script, compiled }) => {
+    const scriptPath = path.join(checksDir, script);
+    fs.writeFileSync(scriptPath, compiled, { mode: 0o755 });
+    return scriptPath;
+  });
 }
 
 /**
@@ -428,6 +920,25 @@ export function generateTutorPrompt(moduleId: string): string {
         case "check-script":
           criteria = `Script: ${step.validation.script}`;
           break;
+        case "spl-results":
+          criteria = step.validation.reference
+            ? `Search returns the same results as: ${step.validation.reference}`
+            : `Search returns ${step.validation.expected?.length ?? 0} expected row(s)`;
+          break;
+        case "pytest":
+          criteria = `Test passes: ${step.validation.test}`;
+          break;
+        case "sql-results":
+          criteria = step.validation.reference
+            ? `Query returns the same rows as: ${step.validation.reference}`
+            : `Query returns ${step.validation.expected?.length ?? 0} expected row(s)`;
+          break;
+        default:
+          if (isDeclarativeCheckType(step.validation.type)) {
+            criteria = describeDeclarativeCheck(step.validation as DeclarativeCheck);
+          } else if (isCompositeOperator(step.validation.type)) {
+            criteria = describeValidationNode(step.validation as CompositeValidation);
+          }
       }
     }
 
@@ -452,7 +963,7 @@ export function generateTutorPrompt(moduleId: string): string {
   lines.push("");
   lines.push("### commands.log");
   lines.push("```");
-  lines.push('{"timestamp":"ISO8601","user":"username","pwd":"/current/dir","command":"typed command"}');
+  lines.push('{"timestamp":"ISO8601","user":"username","pwd":"/current/dir","command":"typed command","exitCode":0,"durationMs":12,"output":"last output","outputTruncated":false}');
   lines.push("```");
   lines.push("");
   lines.push("### checks.log");
@@ -614,6 +1125,7 @@ export function loadDraft(moduleId: string): Module {
       id: moduleId,
       title: parsed.title,
       description: parsed.description,
+      timing: convertTiming(parsed.timing, `Module '${moduleId}'`),
       steps: parsed.steps.map(convertStep),
     };
   } catch (error) {
@@ -3,7 +3,7 @@
 // Maintains backward compatibility with existing Linux CLI labs
 
 import { dirname, join } from "path";
-import type { LabType } from "./telemetry/types";
+import type { LabType, ScoringPreset } from "./telemetry/types";
 import { createEventHubForLab, type CreateEventHubForLabOptions } from "./event-hub/factory";
 import type { EventHub } from "./event-hub/hub";
 import type { EventLogger } from "./telemetry/event-logger";
@@ -17,6 +17,8 @@ export interface MonitorOptions {
   checksLogPath?: string; // Path to checks.log, defaults to same directory as logPath
   labType?: LabType; // NEW: Lab type, defaults to "linux_cli"
   enableTelemetry?: boolean; // Enable telemetry logging, defaults to true
+  exam?: boolean; // Exam mode (see EventHubOptions.exam)
+  scoringPreset?: ScoringPreset; // Overrides the module's and course's preset (see EventHubOptions.scoringPreset)
   onTaskCompleted?: (stepId: string, taskId: string, source: "command" | "check" | "tutor") => void;
   onError?: (error: Error) => void;
   onLog?: (message: string) => void;
@@ -46,6 +48,8 @@ export async function createMonitor(options: MonitorOptions): Promise<Monitor> {
     socketPath,
     studentId,
     checksLogPath,
+    exam: options.exam,
+    scoringPreset: options.scoringPreset,
     onTaskCompleted: (stepId, source) => {
       onTaskCompleted?.(stepId, `task-0`, source);
     },
@@ -106,21 +110,25 @@ if (import.meta.main) {
   const args = process.argv.slice(2);
 
   if (args.length < 3) {
-    console.log("Usage: bun run monitor.ts <log-path> <socket-path> <module-id> [lab-type]");
+    console.log("Usage: bun run monitor.ts <log-path> <socket-path> <module-id> [lab-type] [student-id]");
     process.exit(1);
   }
 
-  const [logPath, socketPath, moduleId, providedLabType] = args;
+  const [logPath, socketPath, moduleId, providedLabType, studentId] = args;
   const labType = (providedLabType ?? process.env.LAB_TYPE ?? "linux_cli") as LabType;
 
   // Import heartbeat dynamically to avoid circular deps
   const { createHeartbeat } = await import("./heartbeat");
+  const { resolveScoringPreset } = await import("./telemetry/preset-loader");
 
   const monitor = await createMonitor({
     logPath,
     socketPath,
     moduleId,
     labType,
+    studentId,
+    exam: process.env.LAB_EXAM === "1",
+    scoringPreset: (process.env.LAB_SCORING_PRESET && resolveScoringPreset(process.env.LAB_SCORING_PRESET)) || undefined,
     onTaskCompleted: (stepId: string, taskId: string, source: "command" | "check" | "tutor") => {
       console.log(`[COMPLETED] Step: ${stepId}, Task: ${taskId}, Source: ${source}`);
     },
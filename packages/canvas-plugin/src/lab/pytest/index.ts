@@ -0,0 +1,6 @@
+// Pytest Module - Runs python lab tests and reports per-test outcomes
+// Re-exports all public types and functions
+
+export * from "./types";
+export * from "./junit";
+export * from "./runner";
@@ -0,0 +1,120 @@
+// JUnit Report Parsing - pytest's built-in --junitxml output
+// Used instead of pytest-json-report so labs need no extra plugins
+
+import type { TestOutcome, TestOutcomeStatus } from "./types";
+
+/**
+ * A <testcase> element from a JUnit report
+ */
+export interface JunitCase {
+  classname: string;
+  name: string;
+  time: number;
+  outcome: TestOutcomeStatus;
+  message?: string;
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+    attributes[match[1]] = unescapeXml(match[2]);
+  }
+  return attributes;
+}
+
+/**
+ * Parse the <testcase> elements of a JUnit XML report
+ */
+export function parseJunitReport(xml: string): JunitCase[] {
+  const cases: JunitCase[] = [];
+
+  for (const match of xml.matchAll(/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g)) {
+    const attributes = parseAttributes(match[1]);
+    const body = match[2] ?? "";
+
+    let outcome: TestOutcomeStatus = "passed";
+    let message: string | undefined;
+    for (const status of ["error", "failure", "skipped"] as const) {
+      const child = body.match(new RegExp(`<${status}\\b([^>]*?)(?:/>|>)`));
+      if (child) {
+        outcome = status === "failure" ? "failed" : status;
+        message = parseAttributes(child[1]).message;
+        break;
+      }
+    }
+
+    cases.push({
+      classname: attributes.classname ?? "",
+      name: attributes.name ?? "",
+      time: parseFloat(attributes.time ?? "0") || 0,
+      outcome,
+      message,
+    });
+  }
+
+  return cases;
+}
+
+/**
+ * The (classname, name) pytest reports for a node ID
+ * tests/test_main.py::TestGreet::test_name -> tests.test_main.TestGreet, test_name
+ */
+export function junitNameForNodeId(nodeId: string): { classname: string; name: string; module: string } {
+  const [file, ...rest] = nodeId.split("::");
+  const module = file.replace(/\.py$/, "").replace(/\//g, ".");
+  return {
+    classname: [module, ...rest.slice(0, -1)].join("."),
+    name: rest[rest.length - 1] ?? "",
+    module,
+  };
+}
+
+const SEVERITY: TestOutcomeStatus[] = ["passed", "skipped", "failed", "error"];
+
+/**
+ * Resolve each configured node ID to its outcome in a report
+ * A node ID that matched no test is an error - usually its module failed to import
+ */
+export function matchTestOutcomes(nodeIds: string[], cases: JunitCase[]): TestOutcome[] {
+  return nodeIds.map((nodeId) => {
+    const { classname, name, module } = junitNameForNodeId(nodeId);
+    const matches = cases.filter(
+      (c) => c.classname === classname && (c.name === name || c.name.startsWith(`${name}[`))
+    );
+
+    if (matches.length === 0) {
+      // Collection errors are reported as a testcase named after the module
+      const collection = cases.find((c) => c.classname === "" && c.name === module && c.outcome === "error");
+      return {
+        nodeId,
+        outcome: "error" as const,
+        message: collection?.message ?? "Test not found",
+        duration: 0,
+      };
+    }
+
+    // Worst outcome wins, except that all-skipped stays skipped
+    const worst = matches.reduce((a, b) => (SEVERITY.indexOf(b.outcome) > SEVERITY.indexOf(a.outcome) ? b : a));
+    const outcome = matches.every((c) => c.outcome === "skipped")
+      ? "skipped"
+      : worst.outcome === "skipped" ? "passed" : worst.outcome;
+
+    return {
+      nodeId,
+      outcome,
+      message: matches.find((c) => c.outcome === outcome)?.message,
+      duration: matches.reduce((total, c) => total + c.time, 0),
+    };
+  });
+}
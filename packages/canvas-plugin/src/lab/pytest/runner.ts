@@ -0,0 +1,91 @@
+// Pytest Runner - Runs a lab's configured tests locally or inside the lab container
+// The report is written into the workspace, which the container mounts from the host
+
+import { spawn } from "child_process";
+import { existsSync, readFileSync, rmSync } from "fs";
+import { join, posix } from "path";
+import { parseJunitReport, matchTestOutcomes } from "./junit";
+import type { PytestRun } from "./types";
+
+// Report file name, relative to the workspace (host and container)
+export const PYTEST_REPORT_FILE = ".lab-pytest-report.xml";
+
+export interface PytestRunnerOptions {
+  workspacePath: string;            // Host path of the workspace
+  interpreter?: string;             // Default: python3 (or <venvPath>/bin/python)
+  venvPath?: string;                // Virtual env to run pytest from
+  containerId?: string;             // Run with docker exec in this container
+  containerWorkspacePath?: string;  // Workspace path inside the container
+  timeoutMs?: number;               // Default: 60000
+}
+
+/**
+ * Build the command that runs pytest for the given node IDs
+ */
+export function buildPytestCommand(nodeIds: string[], options: PytestRunnerOptions): { command: string; args: string[]; cwd?: string } {
+  const interpreter = options.venvPath
+    ? posix.join(options.venvPath, "bin", "python")
+    : options.interpreter ?? "python3";
+  const pytestArgs = ["-m", "pytest", "-q", "-p", "no:cacheprovider", `--junitxml=${PYTEST_REPORT_FILE}`, ...nodeIds];
+
+  if (options.containerId) {
+    return {
+      command: "docker",
+      args: ["exec", "-w", options.containerWorkspacePath ?? options.workspacePath, options.containerId, interpreter, ...pytestArgs],
+    };
+  }
+
+  return { command: interpreter, args: pytestArgs, cwd: options.workspacePath };
+}
+
+/**
+ * Run pytest for the given node IDs and collect per-test outcomes
+ * Never rejects: failures to run show up as error outcomes with the output attached
+ */
+export function runPytest(nodeIds: string[], options: PytestRunnerOptions): Promise<PytestRun> {
+  const reportPath = join(options.workspacePath, PYTEST_REPORT_FILE);
+  const { command, args, cwd } = buildPytestCommand(nodeIds, options);
+  const started = Date.now();
+
+  rmSync(reportPath, { force: true });
+
+  return new Promise((resolve) => {
+    let output = "";
+    let exitCode: number | null = null;
+    let finished = false;
+
+    const child = spawn(command, args, { cwd, stdio: ["ignore", "pipe", "pipe"] });
+    const timer = setTimeout(() => child.kill("SIGKILL"), options.timeoutMs ?? 60000);
+
+    child.stdout.on("data", (chunk) => (output += chunk));
+    child.stderr.on("data", (chunk) => (output += chunk));
+
+    // "error" (spawn failed) may be followed by "close"
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(timer);
+
+      const cases = existsSync(reportPath) ? parseJunitReport(readFileSync(reportPath, "utf-8")) : [];
+      rmSync(reportPath, { force: true });
+
+      const outcomes = matchTestOutcomes(nodeIds, cases);
+      if (cases.length === 0) {
+        // pytest didn't get as far as writing a report (missing interpreter, timeout, ...)
+        const reason = exitCode === null ? "pytest did not finish" : output.trim().split("\n").pop() || "pytest failed to run";
+        for (const outcome of outcomes) outcome.message = reason;
+      }
+
+      resolve({ outcomes, exitCode, output, durationMs: Date.now() - started });
+    };
+
+    child.on("error", (e) => {
+      output += e.message;
+      finish();
+    });
+    child.on("close", (code) => {
+      exitCode = code;
+      finish();
+    });
+  });
+}
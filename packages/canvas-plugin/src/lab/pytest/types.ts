@@ -0,0 +1,24 @@
+// Pytest Types - Per-test outcomes for python labs
+
+export type TestOutcomeStatus = "passed" | "failed" | "error" | "skipped";
+
+/**
+ * Outcome of one configured pytest node ID
+ * Parametrized tests are folded into one outcome (all cases must pass)
+ */
+export interface TestOutcome {
+  nodeId: string;            // e.g. tests/test_main.py::test_greet
+  outcome: TestOutcomeStatus;
+  message?: string;          // Assertion/error/skip message (first line pytest reports)
+  duration: number;          // Seconds
+}
+
+/**
+ * Result of one pytest run
+ */
+export interface PytestRun {
+  outcomes: TestOutcome[];
+  exitCode: number | null;   // null if pytest was killed (timeout)
+  output: string;            // Combined stdout/stderr, for the tutor
+  durationMs: number;
+}
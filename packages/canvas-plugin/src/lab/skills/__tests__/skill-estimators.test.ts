@@ -0,0 +1,174 @@
+// Skill Estimator Tests
+// Tests for weighted-decay and BKT estimators, catalog selection, and BKT fitting
+
+import { describe, test, expect } from "bun:test";
+import {
+  createWeightedDecayEstimator,
+  createBKTEstimator,
+  updateBKT,
+  buildObservationSequences,
+  fitBKTParams,
+  fitBKTBySkill,
+  loadCatalogEstimators,
+} from "../skill-estimators";
+import { aggregateSkillConfidence, computeStudentSkillStates } from "../skill-engine";
+import { loadEstimatorConfig } from "../skill-loader";
+import { DEFAULT_BKT_PARAMS } from "../types";
+import type { QMatrixEntry, SkillEvidence } from "../types";
+import type { TaskEvidence } from "../../telemetry/types";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function makeEvidence(confidence: number, minutesAgo: number, overrides: Partial<SkillEvidence> = {}): SkillEvidence {
+  return {
+    evidence_id: `sev-${Math.random().toString(36).slice(2, 10)}`,
+    skill_id: "python.basics.functions",
+    student_id: "student-1",
+    level: "applies",
+    confidence,
+    weight: 1.0,
+    source_type: "lab_step",
+    source_id: "python-fundamentals:hello-world",
+    session_id: "sess-1",
+    timestamp: new Date(Date.now() - minutesAgo * 60_000).toISOString(),
+    ...overrides,
+  };
+}
+
+function makeTaskEvidence(stepId: string, studentId: string, minute: number, completed: boolean): TaskEvidence {
+  return {
+    evidence_id: `ev-${stepId}-${studentId}-${minute}`,
+    timestamp: new Date(Date.UTC(2026, 0, 1, 0, minute)).toISOString(),
+    task_id: stepId,
+    step_id: stepId,
+    student_id: studentId,
+    session_id: `sess-${studentId}-${minute}`,
+    status: completed ? "completed" : "failed",
+    confidence: completed ? 1.0 : 0,
+    source_event_ids: [],
+    validation_results: [],
+    modifiers: [],
+    explanation: "",
+    total_attempts: 1,
+    hints_revealed: 0,
+    solution_viewed: false,
+  };
+}
+
+const QMATRIX: QMatrixEntry[] = [
+  { lab_id: "lab-a", step_id: "intro-task", skill_id: "skill.a", level: "applies", weight: 1 },
+  { lab_id: "lab-b", step_id: "intro-task", skill_id: "skill.b", level: "applies", weight: 1 },
+];
+
+// ============================================================================
+// ESTIMATORS
+// ============================================================================
+
+describe("createWeightedDecayEstimator", () => {
+  test("matches aggregateSkillConfidence", () => {
+    const evidence = [makeEvidence(1.0, 10), makeEvidence(0.4, 5)];
+    const estimator = createWeightedDecayEstimator();
+    expect(estimator.id).toBe("weighted_decay");
+    expect(estimator.estimate(evidence, "applies")).toBeCloseTo(aggregateSkillConfidence(evidence, "applies"), 10);
+  });
+});
+
+describe("BKT", () => {
+  test("a correct observation raises P(known), a wrong one lowers it", () => {
+    const prior = DEFAULT_BKT_PARAMS.prior;
+    expect(updateBKT(prior, 1, DEFAULT_BKT_PARAMS)).toBeGreaterThan(prior);
+    expect(updateBKT(0.8, 0, DEFAULT_BKT_PARAMS)).toBeLessThan(0.8);
+  });
+
+  test("estimate grows with consecutive successes", () => {
+    const estimator = createBKTEstimator();
+    const one = estimator.estimate([makeEvidence(1.0, 30)], "applies");
+    const three = estimator.estimate([makeEvidence(1.0, 30), makeEvidence(1.0, 20), makeEvidence(1.0, 10)], "applies");
+    expect(one).toBeGreaterThan(DEFAULT_BKT_PARAMS.prior);
+    expect(three).toBeGreaterThan(one);
+    expect(estimator.estimate([], "applies")).toBe(0);
+  });
+
+  test("uses per-skill parameters over catalog defaults", () => {
+    const estimator = createBKTEstimator({ prior: 0.1 }, { "python.basics.functions": { prior: 0.6 } });
+    const other = makeEvidence(1.0, 10, { skill_id: "python.basics.parameters" });
+    expect(estimator.estimate([makeEvidence(1.0, 10)], "applies")).toBeGreaterThan(estimator.estimate([other], "applies"));
+  });
+
+  test("computeStudentSkillStates keeps the SkillState shape with a BKT estimator", () => {
+    const evidence = [makeEvidence(1.0, 30), makeEvidence(1.0, 20), makeEvidence(1.0, 10)];
+    const states = computeStudentSkillStates(evidence, "student-1", undefined, undefined, createBKTEstimator());
+    const state = states["python.basics.functions"];
+
+    expect(state.evidence_count).toBe(3);
+    expect(state.declared).toBeNull();
+    expect(state.demonstrated).toBeCloseTo(createBKTEstimator().estimate(evidence, "applies"), 10);
+    expect(["applies", "understands", "knows", "unassessed"]).toContain(state.current_level);
+  });
+});
+
+// ============================================================================
+// CATALOG CONFIG
+// ============================================================================
+
+describe("catalog estimator config", () => {
+  test("catalogs without an estimator block use weighted decay", () => {
+    expect(loadEstimatorConfig("shell-mastery")).toEqual({ type: "weighted_decay" });
+  });
+
+  test("python catalog opts into BKT", () => {
+    const config = loadEstimatorConfig("python");
+    expect(config.type).toBe("bkt");
+    expect(config.bkt?.defaults?.learn).toBe(0.2);
+  });
+
+  test("selector picks each skill's catalog estimator", () => {
+    const select = loadCatalogEstimators();
+    expect(select("python.basics.functions").id).toBe("bkt");
+    expect(select("shell.nav.absolute-paths").id).toBe("weighted_decay");
+    expect(select("unknown.skill").id).toBe("weighted_decay");
+  });
+});
+
+// ============================================================================
+// FITTING
+// ============================================================================
+
+describe("BKT fitting", () => {
+  test("builds per-skill sequences scoped to each lab", () => {
+    const sequences = buildObservationSequences(
+      [
+        { labId: "lab-a", taskEvidence: [makeTaskEvidence("intro-task", "s1", 1, false)] },
+        { labId: "lab-a", taskEvidence: [makeTaskEvidence("intro-task", "s1", 2, true)] },
+        { labId: "lab-b", taskEvidence: [makeTaskEvidence("intro-task", "s1", 3, true)] },
+      ],
+      QMATRIX
+    );
+
+    expect(sequences.get("skill.a")).toEqual([[false, true]]);
+    expect(sequences.get("skill.b")).toEqual([[true]]);
+  });
+
+  test("recovers fast learning from fail-then-succeed histories", () => {
+    const sequences = Array.from({ length: 20 }, () => [false, true, true, true]);
+    const fit = fitBKTParams(sequences, { step: 0.1 });
+
+    expect(fit.observations).toBe(80);
+    expect(fit.params.prior).toBeLessThan(0.3);
+    expect(fit.params.learn).toBeGreaterThan(0.5);
+    expect(Number.isFinite(fit.logLikelihood)).toBe(true);
+  });
+
+  test("returns defaults without data and skips sparse skills", () => {
+    expect(fitBKTParams([]).params).toEqual(DEFAULT_BKT_PARAMS);
+
+    const fits = fitBKTBySkill(
+      [{ labId: "lab-a", taskEvidence: [makeTaskEvidence("intro-task", "s1", 1, true)] }],
+      QMATRIX,
+      { minObservations: 2, step: 0.1 }
+    );
+    expect(fits).toEqual({});
+  });
+});
@@ -2,10 +2,18 @@
 // Tests for loading skill catalog, Q-matrix, and relationships from YAML
 
 import { describe, test, expect } from "bun:test";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
 import {
   loadSkillCatalog,
   loadQMatrix,
   loadRelationships,
+  loadLabQMatrix,
+  discoverSkillCatalogs,
+  findQMatrixForLab,
+  loadSkillGraph,
+  resolveSkillReference,
 } from "../skill-loader";
 import type { SkillDefinition, QMatrixEntry, SkillRelationship } from "../types";
 
@@ -156,3 +164,84 @@ describe("loadRelationships", () => {
     expect(types.has("related")).toBe(true);
   });
 });
+
+describe("resolveSkillReference", () => {
+  const known = new Set(["shell.nav.absolute-paths", "shell.nav.relative-paths", "python.basics.functions"]);
+
+  test("resolves qualified, domain-relative, and glob references", () => {
+    expect(resolveSkillReference("shell.nav.absolute-paths", "python", known)).toEqual(["shell.nav.absolute-paths"]);
+    expect(resolveSkillReference("basics.functions", "python", known)).toEqual(["python.basics.functions"]);
+    expect(resolveSkillReference("shell.nav.*", "python", known)).toEqual([
+      "shell.nav.absolute-paths",
+      "shell.nav.relative-paths",
+    ]);
+  });
+
+  test("returns nothing for unknown skills", () => {
+    expect(resolveSkillReference("basics.loops", "python", known)).toEqual([]);
+  });
+});
+
+describe("loadSkillGraph", () => {
+  test("discovers every shipped catalog", () => {
+    expect(discoverSkillCatalogs()).toEqual(["git", "linux-admin", "python", "shell-mastery", "splunk", "sql"]);
+  });
+
+  test("merges catalogs with namespaced IDs and no dangling references", () => {
+    const graph = loadSkillGraph();
+    expect(graph.errors).toEqual([]);
+
+    const ids = graph.skills.map((s) => s.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toContain("python.basics.functions");
+    expect(ids).toContain("linux.users.create");
+  });
+
+  test("expands cross-domain prerequisites into graph edges", () => {
+    const graph = loadSkillGraph();
+    const runCode = graph.skills.find((s) => s.id === "python.basics.run-code")!;
+    expect(runCode.prerequisites).toContain("shell.nav.absolute-paths");
+    expect(runCode.prerequisites).toContain("shell.nav.list-contents");
+
+    expect(graph.relationships).toContainEqual({
+      from: "shell.nav.absolute-paths",
+      to: "python.basics.run-code",
+      type: "prerequisite",
+    });
+  });
+});
+
+describe("lab Q-matrix", () => {
+  test("loads qmatrix.yaml next to a lab's module.yaml", () => {
+    const entries = loadLabQMatrix("python-fundamentals");
+    expect(entries.length).toBeGreaterThan(0);
+    for (const entry of entries) {
+      expect(entry.lab_id).toBe("python-fundamentals");
+    }
+  });
+
+  test("lab rows override catalog rows for the same step and skill", () => {
+    const labsDir = mkdtempSync(join(tmpdir(), "skill-loader-labs-"));
+    try {
+      mkdirSync(join(labsDir, "shell-navigation"));
+      writeFileSync(
+        join(labsDir, "shell-navigation", "qmatrix.yaml"),
+        `mappings:
+  - step_id: navigate-absolute
+    skill_id: shell.nav.absolute-paths
+    level: knows
+    weight: 0.2
+`
+      );
+
+      const entries = findQMatrixForLab("shell-navigation", labsDir);
+      const absolute = entries.filter((e) => e.step_id === "navigate-absolute" && e.skill_id === "shell.nav.absolute-paths");
+      expect(absolute).toEqual([
+        { lab_id: "shell-navigation", step_id: "navigate-absolute", skill_id: "shell.nav.absolute-paths", level: "knows", weight: 0.2 },
+      ]);
+      expect(entries.length).toBe(6);
+    } finally {
+      rmSync(labsDir, { recursive: true, force: true });
+    }
+  });
+});
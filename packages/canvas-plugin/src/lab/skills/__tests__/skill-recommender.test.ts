@@ -0,0 +1,140 @@
+// Skill Recommender Tests
+// Tests for ranking next labs by remediation and advancement
+
+import { describe, test, expect } from "bun:test";
+import { recommendNextLabs, formatRecommendations } from "../skill-recommender";
+import type { QMatrixEntry, SkillDefinition, SkillRelationship, SkillState } from "../types";
+import type { Course } from "../../../curriculum/types";
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+function skill(id: string, name: string): SkillDefinition {
+  return { id, name, description: "", domain: "shell", group: "g", evidence_levels: ["applies"], prerequisites: [], tags: [] };
+}
+
+const CATALOG = [
+  skill("nav.abs", "Absolute Paths"),
+  skill("nav.rel", "Relative Paths"),
+  skill("files.grep", "Search with grep"),
+  skill("text.sort", "Sort Lines"),
+];
+
+const QMATRIX: QMatrixEntry[] = [
+  { lab_id: "nav", step_id: "s1", skill_id: "nav.abs", level: "applies", weight: 1 },
+  { lab_id: "nav", step_id: "s2", skill_id: "nav.rel", level: "applies", weight: 1 },
+  { lab_id: "files", step_id: "s1", skill_id: "files.grep", level: "applies", weight: 1 },
+  { lab_id: "text", step_id: "s1", skill_id: "text.sort", level: "applies", weight: 1 },
+];
+
+const RELATIONSHIPS: SkillRelationship[] = [
+  { from: "nav.abs", to: "files.grep", type: "prerequisite" },
+  { from: "nav.rel", to: "files.grep", type: "prerequisite" },
+  { from: "files.grep", to: "text.sort", type: "prerequisite" },
+  { from: "nav.abs", to: "text.sort", type: "related" },
+];
+
+const COURSE: Course = {
+  id: "shell",
+  metadata: { title: "Shell", description: "", estimatedTotalTime: 0, skillsGranted: [] },
+  modules: [
+    { id: "nav", title: "Navigation", labType: "linux_cli", description: "", estimatedTime: 0, prerequisites: [] },
+    { id: "files", title: "Files", labType: "linux_cli", description: "", estimatedTime: 0, prerequisites: ["nav"] },
+    { id: "text", title: "Text", labType: "linux_cli", description: "", estimatedTime: 0, prerequisites: ["files"] },
+  ],
+};
+
+function state(skillId: string, demonstrated: number, level: SkillState["current_level"]): SkillState {
+  return {
+    skill_id: skillId,
+    student_id: "student-1",
+    declared: null,
+    demonstrated,
+    current_level: level,
+    evidence_count: 1,
+    last_evidence_at: new Date().toISOString(),
+  };
+}
+
+function recommend(states: Record<string, SkillState>, completedLabIds: string[] = [], courses: Course[] = [COURSE]) {
+  return recommendNextLabs({
+    states,
+    catalog: CATALOG,
+    qmatrix: QMATRIX,
+    relationships: RELATIONSHIPS,
+    courses,
+    completedLabIds,
+  });
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe("recommendNextLabs", () => {
+  test("new student starts with labs that have no prerequisites", () => {
+    const recs = recommend({});
+    expect(recs.map((r) => r.lab_id)).toEqual(["nav"]);
+    expect(recs[0].kind).toBe("advancement");
+    expect(recs[0].reasons[0]).toContain("Absolute Paths");
+  });
+
+  test("advances once module and skill prerequisites are met", () => {
+    const recs = recommend(
+      { "nav.abs": state("nav.abs", 0.9, "applies"), "nav.rel": state("nav.rel", 0.8, "applies") },
+      ["nav"]
+    );
+    expect(recs.map((r) => r.lab_id)).toEqual(["files"]);
+    expect(recs[0].reasons).toContain("Prerequisites demonstrated: Absolute Paths, Relative Paths");
+  });
+
+  test("holds back labs whose prerequisite skills are undemonstrated", () => {
+    // Module prerequisite met, but the grep skill behind "text" has no evidence
+    const recs = recommend(
+      { "nav.abs": state("nav.abs", 0.9, "applies"), "nav.rel": state("nav.rel", 0.8, "applies") },
+      ["nav", "files"]
+    );
+    expect(recs.map((r) => r.lab_id)).not.toContain("text");
+  });
+
+  test("ranks remediation of weak skills ahead of advancement", () => {
+    const recs = recommend(
+      {
+        "nav.abs": state("nav.abs", 0.9, "applies"),
+        "nav.rel": state("nav.rel", 0.4, "knows"),
+      },
+      ["nav"]
+    );
+
+    expect(recs[0].lab_id).toBe("nav");
+    expect(recs[0].kind).toBe("remediation");
+    expect(recs[0].gaps.map((g) => g.skill_id)).toEqual(["nav.rel"]);
+    expect(recs[0].reasons[0]).toContain("Relative Paths: knows (40%), needs applies");
+  });
+
+  test("falls back to course order for labs without Q-matrix entries", () => {
+    const python: Course = {
+      id: "python",
+      metadata: { title: "Python", description: "", estimatedTotalTime: 0, skillsGranted: [] },
+      modules: [{ id: "py-basics", title: "Basics", labType: "python", description: "", estimatedTime: 0, prerequisites: [] }],
+    };
+
+    const recs = recommend({}, [], [COURSE, python]);
+    expect(recs.map((r) => r.lab_id)).toEqual(["nav", "py-basics"]);
+    expect(recs[1].reasons).toEqual(["Next module in Python"]);
+  });
+
+  test("respects limit and formats a report", () => {
+    const recs = recommendNextLabs({
+      states: {},
+      catalog: CATALOG,
+      qmatrix: QMATRIX,
+      relationships: RELATIONSHIPS,
+      courses: [COURSE],
+      limit: 0,
+    });
+    expect(recs).toEqual([]);
+    expect(formatRecommendations(recommend({}))).toContain("1. Navigation (nav) — Next up");
+  });
+});
@@ -13,13 +13,28 @@ export type {
   SkillState,
   StudentSkillProfile,
   DecayConfig,
+  BKTParams,
+  SkillEstimatorType,
+  EstimatorConfig,
   SkillGap,
   GapAnalysis,
 } from "./types";
 
-export { DEFAULT_THRESHOLDS, DEFAULT_DECAY, generateSkillEvidenceId } from "./types";
+export { DEFAULT_THRESHOLDS, DEFAULT_DECAY, DEFAULT_BKT_PARAMS, generateSkillEvidenceId } from "./types";
 
-export { loadSkillCatalog, loadQMatrix, loadRelationships } from "./skill-loader";
+export {
+  loadSkillCatalog,
+  loadQMatrix,
+  loadRelationships,
+  loadLabQMatrix,
+  discoverSkillCatalogs,
+  findQMatrixForLab,
+  loadSkillGraph,
+  loadEstimatorConfig,
+  qualifySkillId,
+  resolveSkillReference,
+} from "./skill-loader";
+export type { SkillGraph } from "./skill-loader";
 
 export {
   produceSkillEvidence,
@@ -29,7 +44,31 @@ export {
   computeStudentSkillStates,
 } from "./skill-engine";
 
+export {
+  createWeightedDecayEstimator,
+  createBKTEstimator,
+  createEstimator,
+  updateBKT,
+  buildObservationSequences,
+  fitBKTParams,
+  fitBKTBySkill,
+  loadCatalogEstimators,
+} from "./skill-estimators";
+export type {
+  SkillEstimator,
+  EstimatorSelector,
+  LabSessionEvidence,
+  BKTFitResult,
+  BKTFitOptions,
+} from "./skill-estimators";
+
 export { getStudentSkills, getGapAnalysis, getSkillsByLevel } from "./skill-query";
 export type { StudentSkillSummary, SkillsByLevel } from "./skill-query";
 
 export { saveStudentProfile, loadStudentProfile } from "./skill-store";
+
+export { recordSkillEvidence } from "./skill-tracker";
+export type { RecordSkillEvidenceOptions } from "./skill-tracker";
+
+export { recommendNextLabs, recommendNextLabsForProfile, formatRecommendations } from "./skill-recommender";
+export type { LabRecommendation, RecommendationKind, RecommendOptions } from "./skill-recommender";
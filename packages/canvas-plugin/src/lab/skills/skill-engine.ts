@@ -12,6 +12,7 @@ import type {
   DecayConfig,
 } from "./types";
 import { DEFAULT_THRESHOLDS, DEFAULT_DECAY, generateSkillEvidenceId } from "./types";
+import type { SkillEstimator, EstimatorSelector } from "./skill-estimators";
 
 // ============================================================================
 // EVIDENCE PIPELINE
@@ -131,14 +132,21 @@ export function determineLevel(
 
 /**
  * Compute skill states for a student from all their evidence records.
- * Groups evidence by skill, aggregates per level, determines highest level.
+ * Groups evidence by skill, estimates per level, determines highest level.
+ * The estimator (or a per-skill selector) defaults to the weighted-decay average.
  */
 export function computeStudentSkillStates(
   evidence: SkillEvidence[],
   studentId: string,
   thresholds: ProficiencyThresholds = DEFAULT_THRESHOLDS,
-  decayConfig: DecayConfig = DEFAULT_DECAY
+  decayConfig: DecayConfig = DEFAULT_DECAY,
+  estimator?: SkillEstimator | EstimatorSelector
 ): Record<string, SkillState> {
+  const selectEstimator = (skillId: string): SkillEstimator["estimate"] => {
+    if (!estimator) return (ev, level) => aggregateSkillConfidence(ev, level, decayConfig);
+    return typeof estimator === "function" ? estimator(skillId).estimate : estimator.estimate;
+  };
+
   // Group evidence by skill
   const bySkill = new Map<string, SkillEvidence[]>();
   for (const e of evidence) {
@@ -151,10 +159,11 @@ export function computeStudentSkillStates(
   const states: Record<string, SkillState> = {};
 
   for (const [skillId, skillEvidence] of bySkill) {
-    // Aggregate for each level independently (per design doc Section 6.4)
-    const appliesConf = aggregateSkillConfidence(skillEvidence, "applies", decayConfig);
-    const understandsConf = aggregateSkillConfidence(skillEvidence, "understands", decayConfig);
-    const knowsConf = aggregateSkillConfidence(skillEvidence, "knows", decayConfig);
+    // Estimate each level independently (per design doc Section 6.4)
+    const estimate = selectEstimator(skillId);
+    const appliesConf = estimate(skillEvidence, "applies");
+    const understandsConf = estimate(skillEvidence, "understands");
+    const knowsConf = estimate(skillEvidence, "knows");
 
     // Determine level: check each level independently from highest to lowest
     // "demonstrated" is the confidence at the highest achieved level
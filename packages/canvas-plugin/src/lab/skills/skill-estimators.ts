@@ -0,0 +1,250 @@
+// Skill Estimators
+// Pluggable confidence estimators: weighted average with time decay (default) and
+// Bayesian Knowledge Tracing, plus a grid-search fit of BKT parameters from history
+
+import type {
+  SkillEvidence,
+  ProficiencyLevel,
+  QMatrixEntry,
+  DecayConfig,
+  BKTParams,
+  EstimatorConfig,
+} from "./types";
+import { DEFAULT_DECAY, DEFAULT_BKT_PARAMS } from "./types";
+import type { TaskEvidence } from "../telemetry/types";
+import { aggregateSkillConfidence } from "./skill-engine";
+import { discoverSkillCatalogs, loadSkillCatalog, loadEstimatorConfig } from "./skill-loader";
+
+// ============================================================================
+// INTERFACE
+// ============================================================================
+
+export interface SkillEstimator {
+  id: EstimatorConfig["type"];
+  /** Confidence (0.0-1.0) that the student holds one skill at `level`, from that skill's evidence */
+  estimate: (evidence: SkillEvidence[], level: ProficiencyLevel) => number;
+}
+
+/** Picks the estimator for a skill (estimators are configured per catalog) */
+export type EstimatorSelector = (skillId: string) => SkillEstimator;
+
+// ============================================================================
+// WEIGHTED DECAY
+// ============================================================================
+
+/**
+ * The original estimator: Σ(weight × confidence × decay) / Σ(weight × decay)
+ */
+export function createWeightedDecayEstimator(config: DecayConfig = DEFAULT_DECAY): SkillEstimator {
+  return {
+    id: "weighted_decay",
+    estimate: (evidence, level) => aggregateSkillConfidence(evidence, level, config),
+  };
+}
+
+// ============================================================================
+// BAYESIAN KNOWLEDGE TRACING
+// ============================================================================
+
+/**
+ * One BKT step: condition P(known) on an observation, then apply the learning transition.
+ * `correct` may be fractional (a partial-credit score), mixing both posteriors.
+ */
+export function updateBKT(pKnown: number, correct: number, params: BKTParams): number {
+  const { learn, slip, guess } = params;
+
+  const pCorrect = pKnown * (1 - slip) + (1 - pKnown) * guess;
+  const pWrong = 1 - pCorrect;
+  const givenCorrect = pCorrect === 0 ? pKnown : (pKnown * (1 - slip)) / pCorrect;
+  const givenWrong = pWrong === 0 ? pKnown : (pKnown * slip) / pWrong;
+
+  const posterior = correct * givenCorrect + (1 - correct) * givenWrong;
+  return posterior + (1 - posterior) * learn;
+}
+
+/**
+ * BKT over each skill's evidence in time order. Evidence weight scales how far
+ * an observation moves the estimate (weight 1 = a full BKT update).
+ */
+export function createBKTEstimator(
+  defaults: Partial<BKTParams> = {},
+  perSkill: Record<string, Partial<BKTParams>> = {}
+): SkillEstimator {
+  return {
+    id: "bkt",
+    estimate(evidence, level) {
+      const levelEvidence = evidence
+        .filter((e) => e.level === level)
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+      if (levelEvidence.length === 0) return 0;
+
+      const params = { ...DEFAULT_BKT_PARAMS, ...defaults, ...perSkill[levelEvidence[0].skill_id] };
+      let pKnown = params.prior;
+      for (const e of levelEvidence) {
+        const updated = updateBKT(pKnown, e.confidence, params);
+        pKnown += Math.min(1, Math.max(0, e.weight)) * (updated - pKnown);
+      }
+      return pKnown;
+    },
+  };
+}
+
+/**
+ * Build the estimator a catalog's `estimator:` block asks for
+ */
+export function createEstimator(config: EstimatorConfig, decayConfig: DecayConfig = DEFAULT_DECAY): SkillEstimator {
+  if (config.type === "bkt") {
+    return createBKTEstimator(config.bkt?.defaults, config.bkt?.skills);
+  }
+  return createWeightedDecayEstimator(decayConfig);
+}
+
+// ============================================================================
+// FITTING
+// ============================================================================
+
+export interface BKTFitResult {
+  params: BKTParams;
+  logLikelihood: number;
+  observations: number;
+}
+
+export interface BKTFitOptions {
+  step?: number; // Grid resolution (default 0.05)
+  maxSlip?: number; // Default 0.3 — higher values let the model explain mastery away
+  maxGuess?: number; // Default 0.3
+}
+
+export interface LabSessionEvidence {
+  labId: string;
+  taskEvidence: TaskEvidence[]; // One session's per-step evidence
+}
+
+/**
+ * Observation sequences per skill from historical lab sessions.
+ * Each (student, skill) pair is one sequence in time order; a step counts as
+ * correct when it was completed with confidence ≥ 0.5. Untouched steps are skipped.
+ */
+export function buildObservationSequences(
+  sessions: LabSessionEvidence[],
+  qmatrix: QMatrixEntry[]
+): Map<string, boolean[][]> {
+  const stepSkills = new Map<string, string[]>();
+  for (const entry of qmatrix) {
+    const key = `${entry.lab_id}:${entry.step_id}`;
+    stepSkills.set(key, [...(stepSkills.get(key) || []), entry.skill_id]);
+  }
+
+  const byStudentSkill = new Map<string, Array<{ timestamp: string; correct: boolean }>>();
+  for (const session of sessions) {
+    for (const te of session.taskEvidence) {
+      if (te.status === "pending") continue;
+      for (const skillId of new Set(stepSkills.get(`${session.labId}:${te.step_id}`) || [])) {
+        const key = `${skillId}|${te.student_id}`;
+        const list = byStudentSkill.get(key) || [];
+        list.push({ timestamp: te.timestamp, correct: te.status === "completed" && te.confidence >= 0.5 });
+        byStudentSkill.set(key, list);
+      }
+    }
+  }
+
+  const sequences = new Map<string, boolean[][]>();
+  for (const [key, observations] of byStudentSkill) {
+    const skillId = key.slice(0, key.lastIndexOf("|"));
+    const ordered = observations.sort((a, b) => a.timestamp.localeCompare(b.timestamp)).map((o) => o.correct);
+    sequences.set(skillId, [...(sequences.get(skillId) || []), ordered]);
+  }
+  return sequences;
+}
+
+function logLikelihood(sequences: boolean[][], params: BKTParams): number {
+  let total = 0;
+  for (const sequence of sequences) {
+    let pKnown = params.prior;
+    for (const correct of sequence) {
+      const pCorrect = pKnown * (1 - params.slip) + (1 - pKnown) * params.guess;
+      total += Math.log(Math.max(1e-9, correct ? pCorrect : 1 - pCorrect));
+      pKnown = updateBKT(pKnown, correct ? 1 : 0, params);
+    }
+  }
+  return total;
+}
+
+/**
+ * Fit BKT parameters to observation sequences by maximising log-likelihood over a grid.
+ * Returns the defaults when there is nothing to fit.
+ */
+export function fitBKTParams(sequences: boolean[][], options: BKTFitOptions = {}): BKTFitResult {
+  const { step = 0.05, maxSlip = 0.3, maxGuess = 0.3 } = options;
+  const observations = sequences.reduce((sum, s) => sum + s.length, 0);
+  if (observations === 0) {
+    return { params: { ...DEFAULT_BKT_PARAMS }, logLikelihood: 0, observations };
+  }
+
+  const grid = (max: number) => {
+    const values: number[] = [];
+    for (let v = step; v <= max + 1e-9; v += step) values.push(Math.round(v * 1000) / 1000);
+    return values;
+  };
+  const probabilities = grid(1 - step);
+
+  let best: BKTFitResult = { params: { ...DEFAULT_BKT_PARAMS }, logLikelihood: -Infinity, observations };
+  for (const prior of probabilities) {
+    for (const learn of probabilities) {
+      for (const slip of grid(maxSlip)) {
+        for (const guess of grid(maxGuess)) {
+          const params = { prior, learn, slip, guess };
+          const ll = logLikelihood(sequences, params);
+          if (ll > best.logLikelihood) {
+            best = { params, logLikelihood: ll, observations };
+          }
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Fit BKT parameters for every skill with at least `minObservations` observations
+ */
+export function fitBKTBySkill(
+  sessions: LabSessionEvidence[],
+  qmatrix: QMatrixEntry[],
+  options: BKTFitOptions & { minObservations?: number } = {}
+): Record<string, BKTFitResult> {
+  const { minObservations = 10, ...fitOptions } = options;
+  const results: Record<string, BKTFitResult> = {};
+
+  for (const [skillId, sequences] of buildObservationSequences(sessions, qmatrix)) {
+    const count = sequences.reduce((sum, s) => sum + s.length, 0);
+    if (count < minObservations) continue;
+    results[skillId] = fitBKTParams(sequences, fitOptions);
+  }
+  return results;
+}
+
+// ============================================================================
+// CATALOG SELECTION
+// ============================================================================
+
+/**
+ * Estimator selector honouring each catalog's `estimator:` block.
+ * Skills outside the given catalogs fall back to weighted decay.
+ */
+export function loadCatalogEstimators(
+  catalogIds: string[] = discoverSkillCatalogs(),
+  decayConfig: DecayConfig = DEFAULT_DECAY
+): EstimatorSelector {
+  const fallback = createWeightedDecayEstimator(decayConfig);
+  const bySkill = new Map<string, SkillEstimator>();
+
+  for (const catalogId of catalogIds) {
+    const estimator = createEstimator(loadEstimatorConfig(catalogId), decayConfig);
+    for (const skill of loadSkillCatalog(catalogId)) {
+      bySkill.set(skill.id, estimator);
+    }
+  }
+
+  return (skillId) => bySkill.get(skillId) ?? fallback;
+}
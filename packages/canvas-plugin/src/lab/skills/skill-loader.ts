@@ -1,7 +1,8 @@
 // Skill Loader
-// Loads skill catalog, Q-matrix, and relationships from YAML data files
+// Loads skill catalogs, Q-matrices, and relationships from YAML data files
+// Catalogs are namespaced by domain and can be merged into one skill graph
 
-import { readFileSync } from "fs";
+import { readFileSync, readdirSync, existsSync } from "fs";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
 import yaml from "js-yaml";
@@ -10,7 +11,10 @@ import type {
   QMatrixEntry,
   SkillRelationship,
   ProficiencyLevel,
+  BKTParams,
+  EstimatorConfig,
 } from "./types";
+import { getLabsPath } from "../module-loader";
 
 const SKILLS_DIR = dirname(fileURLToPath(import.meta.url));
 
@@ -20,6 +24,10 @@ const SKILLS_DIR = dirname(fileURLToPath(import.meta.url));
 
 interface RawSkillCatalog {
   domain: { id: string; name: string; description: string };
+  estimator?: {
+    type?: string;
+    bkt?: Record<string, unknown> & { skills?: Record<string, Record<string, unknown>> };
+  };
   groups: Array<{
     id: string;
     name: string;
@@ -44,6 +52,15 @@ interface RawQMatrix {
   }>;
 }
 
+interface RawLabQMatrix {
+  mappings: Array<{
+    step_id: string;
+    skill_id: string;
+    level: string;
+    weight?: number;
+  }>;
+}
+
 interface RawRelationships {
   relationships: Array<{
     from: string;
@@ -52,39 +69,123 @@ interface RawRelationships {
   }>;
 }
 
+// ============================================================================
+// NAMESPACING
+// ============================================================================
+
+/**
+ * Qualify a catalog-relative skill ID with its domain ("nav.cd" → "shell.nav.cd").
+ * Already-qualified IDs are returned unchanged.
+ */
+export function qualifySkillId(id: string, domain: string): string {
+  return id.startsWith(`${domain}.`) ? id : `${domain}.${id}`;
+}
+
+/**
+ * Resolve a prerequisite reference against every known skill ID.
+ * Accepts fully-qualified IDs, IDs relative to the referencing skill's domain,
+ * and trailing globs such as "shell.nav.*". Returns [] when nothing matches.
+ */
+export function resolveSkillReference(ref: string, domain: string, knownIds: Set<string>): string[] {
+  if (ref.endsWith("*")) {
+    const prefix = ref.slice(0, -1);
+    const matches = [...knownIds].filter((id) => id.startsWith(prefix));
+    return matches.length > 0 ? matches : [...knownIds].filter((id) => id.startsWith(`${domain}.${prefix}`));
+  }
+  if (knownIds.has(ref)) {
+    return [ref];
+  }
+  const qualified = qualifySkillId(ref, domain);
+  return knownIds.has(qualified) ? [qualified] : [];
+}
+
 // ============================================================================
 // LOADERS
 // ============================================================================
 
 /**
  * Load skill catalog from YAML file.
- * Returns flat array of SkillDefinition with domain/group populated.
+ * Returns flat array of SkillDefinition with domain/group populated and IDs qualified by domain.
+ * Prerequisites inside the same catalog are qualified; cross-catalog references
+ * and globs are left as written for loadSkillGraph to resolve.
  */
 export function loadSkillCatalog(catalogId: string): SkillDefinition[] {
   const filePath = join(SKILLS_DIR, `${catalogId}-skills.yaml`);
   const content = readFileSync(filePath, "utf-8");
   const raw = yaml.load(content) as RawSkillCatalog;
+  const domain = raw.domain.id;
 
   const skills: SkillDefinition[] = [];
 
   for (const group of raw.groups) {
     for (const skill of group.skills) {
       skills.push({
-        id: skill.id,
+        id: qualifySkillId(skill.id, domain),
         name: skill.name,
         description: skill.description,
-        domain: raw.domain.id,
+        domain,
         group: group.id,
         evidence_levels: skill.evidence_levels as ProficiencyLevel[],
-        prerequisites: skill.prerequisites,
-        tags: skill.tags,
+        prerequisites: skill.prerequisites ?? [],
+        tags: skill.tags ?? [],
       });
     }
   }
 
+  const ownIds = new Set(skills.map((s) => s.id));
+  for (const skill of skills) {
+    skill.prerequisites = skill.prerequisites.map((ref) => {
+      const resolved = ref.endsWith("*") ? [] : resolveSkillReference(ref, domain, ownIds);
+      return resolved[0] ?? ref;
+    });
+  }
+
   return skills;
 }
 
+/**
+ * Read a catalog's `estimator:` block. Catalogs without one use weighted decay.
+ * Unknown estimator types and out-of-range BKT parameters are ignored with a warning.
+ */
+export function loadEstimatorConfig(catalogId: string): EstimatorConfig {
+  const filePath = join(SKILLS_DIR, `${catalogId}-skills.yaml`);
+  const raw = yaml.load(readFileSync(filePath, "utf-8")) as RawSkillCatalog;
+  const block = raw.estimator;
+  if (!block) {
+    return { type: "weighted_decay" };
+  }
+
+  const type = block.type ?? "weighted_decay";
+  if (type !== "weighted_decay" && type !== "bkt") {
+    console.warn(`Catalog '${catalogId}': unknown estimator '${type}', using weighted_decay`);
+    return { type: "weighted_decay" };
+  }
+  if (type === "weighted_decay" || !block.bkt) {
+    return { type };
+  }
+
+  const { skills: rawSkills, ...rawDefaults } = block.bkt;
+  const skills: Record<string, Partial<BKTParams>> = {};
+  for (const [skillId, params] of Object.entries(rawSkills ?? {})) {
+    skills[qualifySkillId(skillId, raw.domain.id)] = parseBKTParams(params, `Catalog '${catalogId}' skill ${skillId}`);
+  }
+  return { type, bkt: { defaults: parseBKTParams(rawDefaults, `Catalog '${catalogId}'`), skills } };
+}
+
+function parseBKTParams(raw: Record<string, unknown>, source: string): Partial<BKTParams> {
+  const params: Partial<BKTParams> = {};
+  for (const key of ["prior", "learn", "slip", "guess"] as const) {
+    const value = raw[key];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || value <= 0 || value >= 1) {
+      console.warn(`${source}: BKT '${key}' must be a number between 0 and 1, ignoring`);
+      continue;
+    }
+    params[key] = value;
+  }
+  return params;
+}
+
 /**
  * Load Q-matrix from YAML file.
  * Returns array of step→skill mappings.
@@ -117,3 +218,131 @@ export function loadRelationships(catalogId: string): SkillRelationship[] {
     type: r.type as SkillRelationship["type"],
   }));
 }
+
+/**
+ * Load the Q-matrix kept next to a lab's module.yaml (labs/<labId>/qmatrix.yaml).
+ * Rows omit lab_id; weight defaults to 1.0. Returns [] when the lab has none.
+ */
+export function loadLabQMatrix(labId: string, labsPath: string = getLabsPath()): QMatrixEntry[] {
+  const filePath = join(labsPath, labId, "qmatrix.yaml");
+  if (!existsSync(filePath)) {
+    return [];
+  }
+
+  const raw = yaml.load(readFileSync(filePath, "utf-8")) as RawLabQMatrix | undefined;
+  return (raw?.mappings ?? []).map((m) => ({
+    lab_id: labId,
+    step_id: m.step_id,
+    skill_id: m.skill_id,
+    level: m.level as ProficiencyLevel,
+    weight: m.weight ?? 1.0,
+  }));
+}
+
+/**
+ * IDs of the catalogs shipped alongside this loader (one per *-skills.yaml)
+ */
+export function discoverSkillCatalogs(): string[] {
+  return readdirSync(SKILLS_DIR)
+    .filter((file) => file.endsWith("-skills.yaml"))
+    .map((file) => file.slice(0, -"-skills.yaml".length))
+    .sort();
+}
+
+/**
+ * Q-matrix entries for one lab: catalog-level rows plus the lab's own qmatrix.yaml.
+ * A lab row replaces a catalog row for the same step and skill.
+ */
+export function findQMatrixForLab(labId: string, labsPath?: string): QMatrixEntry[] {
+  const key = (e: QMatrixEntry) => `${e.step_id}|${e.skill_id}`;
+  const local = loadLabQMatrix(labId, labsPath);
+  const overridden = new Set(local.map(key));
+
+  const fromCatalogs = discoverSkillCatalogs()
+    .filter((catalogId) => existsSync(join(SKILLS_DIR, `${catalogId}-qmatrix.yaml`)))
+    .flatMap((catalogId) => loadQMatrix(catalogId).filter((entry) => entry.lab_id === labId))
+    .filter((entry) => !overridden.has(key(entry)));
+
+  return [...fromCatalogs, ...local];
+}
+
+// ============================================================================
+// MERGED SKILL GRAPH
+// ============================================================================
+
+export interface SkillGraph {
+  catalogIds: string[];
+  skills: SkillDefinition[]; // Prerequisites resolved to qualified IDs (globs expanded)
+  relationships: SkillRelationship[]; // Relationship files plus every skill prerequisite edge
+  qmatrix: QMatrixEntry[]; // Catalog-level Q-matrix rows (lab rows: findQMatrixForLab)
+  errors: string[]; // Duplicate IDs and dangling references
+}
+
+/**
+ * Load several catalogs side by side into one graph.
+ * Cross-domain prerequisites (e.g. a python skill requiring "shell.nav.*") are resolved here.
+ */
+export function loadSkillGraph(catalogIds: string[] = discoverSkillCatalogs()): SkillGraph {
+  const errors: string[] = [];
+  const skills: SkillDefinition[] = [];
+  const relationships: SkillRelationship[] = [];
+  const qmatrix: QMatrixEntry[] = [];
+  const owner = new Map<string, string>(); // skill_id → catalogId
+
+  for (const catalogId of catalogIds) {
+    for (const skill of loadSkillCatalog(catalogId)) {
+      const existing = owner.get(skill.id);
+      if (existing) {
+        errors.push(`Skill ${skill.id} is defined in both ${existing} and ${catalogId}`);
+        continue;
+      }
+      owner.set(skill.id, catalogId);
+      skills.push(skill);
+    }
+
+    if (existsSync(join(SKILLS_DIR, `${catalogId}-relationships.yaml`))) {
+      relationships.push(...loadRelationships(catalogId));
+    }
+    if (existsSync(join(SKILLS_DIR, `${catalogId}-qmatrix.yaml`))) {
+      qmatrix.push(...loadQMatrix(catalogId));
+    }
+  }
+
+  const knownIds = new Set(skills.map((s) => s.id));
+  const edges = new Set(relationships.map((r) => `${r.from}|${r.to}|${r.type}`));
+
+  for (const skill of skills) {
+    const resolved: string[] = [];
+    for (const ref of skill.prerequisites) {
+      const matches = resolveSkillReference(ref, skill.domain, knownIds).filter((id) => id !== skill.id);
+      if (matches.length === 0) {
+        errors.push(`Skill ${skill.id} requires unknown skill ${ref}`);
+      }
+      resolved.push(...matches);
+    }
+    skill.prerequisites = [...new Set(resolved)];
+
+    for (const from of skill.prerequisites) {
+      const edge = `${from}|${skill.id}|prerequisite`;
+      if (!edges.has(edge)) {
+        edges.add(edge);
+        relationships.push({ from, to: skill.id, type: "prerequisite" });
+      }
+    }
+  }
+
+  for (const rel of relationships) {
+    for (const id of [rel.from, rel.to]) {
+      if (!knownIds.has(id)) {
+        errors.push(`Relationship ${rel.from} → ${rel.to} references unknown skill ${id}`);
+      }
+    }
+  }
+  for (const entry of qmatrix) {
+    if (!knownIds.has(entry.skill_id)) {
+      errors.push(`Q-matrix row ${entry.lab_id}:${entry.step_id} references unknown skill ${entry.skill_id}`);
+    }
+  }
+
+  return { catalogIds, skills, relationships, qmatrix, errors };
+}
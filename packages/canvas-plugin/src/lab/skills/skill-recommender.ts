@@ -0,0 +1,223 @@
+// Skill Recommender
+// Ranks which lab a student should do next from their skill gaps and the prerequisite graph
+// Remediation (revisit weak skills) ranks ahead of advancement (new skills that are now unlocked)
+
+import type {
+  SkillState,
+  SkillDefinition,
+  QMatrixEntry,
+  SkillRelationship,
+  SkillGap,
+  ProficiencyThresholds,
+} from "./types";
+import { DEFAULT_THRESHOLDS } from "./types";
+import { getGapAnalysis } from "./skill-query";
+import { loadSkillGraph, findQMatrixForLab } from "./skill-loader";
+import { loadStudentProfile } from "./skill-store";
+import type { Course } from "../../curriculum/types";
+import { loadAllCourses } from "../../curriculum/course-loader";
+import { getProgress } from "../../tutor/profile-manager";
+import { getSkillsDir } from "../../tutor/defaults";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RecommendationKind = "remediation" | "advancement";
+
+export interface LabRecommendation {
+  lab_id: string;
+  title: string;
+  course_id: string;
+  kind: RecommendationKind;
+  score: number; // Higher is more urgent within a kind
+  reasons: string[]; // Human-readable explanation, most important first
+  gaps: SkillGap[]; // Skills this lab would build
+}
+
+export interface RecommendOptions {
+  states: Record<string, SkillState>;
+  catalog: SkillDefinition[];
+  qmatrix: QMatrixEntry[];
+  relationships: SkillRelationship[];
+  courses: Course[];
+  completedLabIds?: string[];
+  thresholds?: ProficiencyThresholds;
+  limit?: number; // Default: all candidates
+}
+
+// ============================================================================
+// RECOMMENDER
+// ============================================================================
+
+/**
+ * Rank every course module the student could do next.
+ * Labs whose module or skill prerequisites are unmet are left out.
+ */
+export function recommendNextLabs(options: RecommendOptions): LabRecommendation[] {
+  const {
+    states,
+    catalog,
+    qmatrix,
+    relationships,
+    courses,
+    completedLabIds = [],
+    thresholds = DEFAULT_THRESHOLDS,
+    limit,
+  } = options;
+
+  const completed = new Set(completedLabIds);
+  const nameMap = new Map(catalog.map((s) => [s.id, s.name]));
+  const skillName = (id: string) => nameMap.get(id) || id;
+
+  // skill_id → prerequisite skill_ids
+  const prerequisitesOf = new Map<string, string[]>();
+  for (const rel of relationships) {
+    if (rel.type !== "prerequisite") continue;
+    prerequisitesOf.set(rel.to, [...(prerequisitesOf.get(rel.to) || []), rel.from]);
+  }
+
+  const seen = new Set<string>();
+  let order = 0;
+  const ranked: Array<LabRecommendation & { order: number }> = [];
+
+  for (const course of courses) {
+    for (const module of course.modules) {
+      if (seen.has(module.id)) continue;
+      seen.add(module.id);
+      order++;
+
+      const analysis = getGapAnalysis(states, catalog, qmatrix, module.id, thresholds);
+      const required = [...analysis.mastered, ...analysis.gaps];
+      const isCompleted = completed.has(module.id);
+
+      // Remediation: skills the student has practised but not yet reached the lab's level
+      const weak = analysis.gaps.filter((g) => (states[g.skill_id]?.evidence_count || 0) > 0);
+      if (weak.length > 0) {
+        const reasons = weak.map(
+          (g) =>
+            `Practice ${g.skill_name}: ${g.current_level} (${Math.round(g.current_confidence * 100)}%), needs ${g.required_level}`
+        );
+        ranked.push({
+          lab_id: module.id,
+          title: module.title,
+          course_id: course.id,
+          kind: "remediation",
+          score: 1 + weak.reduce((sum, g) => sum + g.gap, 0) / required.length,
+          reasons,
+          gaps: weak,
+          order,
+        });
+        continue;
+      }
+
+      if (isCompleted) continue;
+
+      const missingModules = module.prerequisites.filter((id) => !completed.has(id));
+      if (missingModules.length > 0) continue;
+
+      // Labs without a Q-matrix fall back to course order
+      if (required.length === 0) {
+        ranked.push({
+          lab_id: module.id,
+          title: module.title,
+          course_id: course.id,
+          kind: "advancement",
+          score: 0,
+          reasons: [`Next module in ${course.metadata.title}`],
+          gaps: [],
+          order,
+        });
+        continue;
+      }
+
+      if (analysis.gaps.length === 0) continue;
+
+      // Skill prerequisites outside this lab must already be demonstrated
+      const ownSkills = new Set(required.map((g) => g.skill_id));
+      const prerequisiteSkills = [
+        ...new Set(
+          analysis.gaps.flatMap((g) => prerequisitesOf.get(g.skill_id) || []).filter((id) => !ownSkills.has(id))
+        ),
+      ];
+      const unmet = prerequisiteSkills.filter((id) => (states[id]?.demonstrated || 0) < thresholds.knows);
+      if (unmet.length > 0) continue;
+
+      const readiness =
+        prerequisiteSkills.length === 0
+          ? 1
+          : prerequisiteSkills.reduce((sum, id) => sum + Math.min(1, states[id]?.demonstrated || 0), 0) /
+            prerequisiteSkills.length;
+
+      const reasons = [`Builds ${analysis.gaps.length} new skill${analysis.gaps.length !== 1 ? "s" : ""}: ${analysis.gaps.map((g) => g.skill_name).join(", ")}`];
+      if (prerequisiteSkills.length > 0) {
+        reasons.push(`Prerequisites demonstrated: ${prerequisiteSkills.map(skillName).join(", ")}`);
+      }
+
+      ranked.push({
+        lab_id: module.id,
+        title: module.title,
+        course_id: course.id,
+        kind: "advancement",
+        score: readiness * (analysis.gaps.length / required.length),
+        reasons,
+        gaps: analysis.gaps,
+        order,
+      });
+    }
+  }
+
+  ranked.sort((a, b) => {
+    if (a.kind !== b.kind) return a.kind === "remediation" ? -1 : 1;
+    if (b.score !== a.score) return b.score - a.score;
+    return a.order - b.order;
+  });
+
+  return ranked.slice(0, limit ?? ranked.length).map(({ order, ...rec }) => rec);
+}
+
+/**
+ * Recommend next labs for a tutor profile from its saved skills, progress and every course on disk
+ */
+export function recommendNextLabsForProfile(profileId: string, limit?: number): LabRecommendation[] {
+  const graph = loadSkillGraph();
+  const courses = loadAllCourses();
+  const labIds = [...new Set(courses.flatMap((course) => course.modules.map((m) => m.id)))];
+
+  const profile = loadStudentProfile(profileId, getSkillsDir(profileId));
+  const progress = getProgress(profileId);
+  const completedLabIds = progress
+    ? Object.entries(progress.labs)
+        .filter(([, lab]) => lab.status === "completed")
+        .map(([labId]) => labId)
+    : [];
+
+  return recommendNextLabs({
+    states: profile?.skills || {},
+    catalog: graph.skills,
+    qmatrix: labIds.flatMap((labId) => findQMatrixForLab(labId)),
+    relationships: graph.relationships,
+    courses,
+    completedLabIds,
+    limit,
+  });
+}
+
+/**
+ * Format recommendations as a plain-text report
+ */
+export function formatRecommendations(recommendations: LabRecommendation[]): string {
+  if (recommendations.length === 0) {
+    return "No recommendations: every available lab is either completed or still locked.";
+  }
+
+  const lines: string[] = [];
+  recommendations.forEach((rec, i) => {
+    const label = rec.kind === "remediation" ? "Remediation" : "Next up";
+    lines.push(`${i + 1}. ${rec.title} (${rec.lab_id}) — ${label}`);
+    for (const reason of rec.reasons) {
+      lines.push(`   - ${reason}`);
+    }
+  });
+  return lines.join("\n");
+}
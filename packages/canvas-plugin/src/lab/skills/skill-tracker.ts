@@ -0,0 +1,84 @@
+// Skill Tracker
+// Folds a live lab session's TaskEvidence into the student's persisted skill profile
+// Re-running for the same session replaces that session's evidence, so it is safe to call on every step
+
+import type { TaskEvidence } from "../telemetry/types";
+import type {
+  QMatrixEntry,
+  SkillEvidence,
+  StudentSkillProfile,
+  ProficiencyThresholds,
+  DecayConfig,
+} from "./types";
+import { DEFAULT_THRESHOLDS, DEFAULT_DECAY } from "./types";
+import { produceSkillEvidence, computeStudentSkillStates } from "./skill-engine";
+import { loadStudentProfile, saveStudentProfile } from "./skill-store";
+import type { SkillEstimator, EstimatorSelector } from "./skill-estimators";
+
+export interface RecordSkillEvidenceOptions {
+  studentId: string;
+  labId: string;
+  sessionId: string;
+  taskEvidence: TaskEvidence[];
+  qmatrix: QMatrixEntry[];
+  baseDir: string;  // Directory holding <studentId>-skills.json
+  thresholds?: ProficiencyThresholds;
+  decayConfig?: DecayConfig;
+  estimator?: SkillEstimator | EstimatorSelector; // Default: weighted decay
+}
+
+function evidenceKey(e: SkillEvidence): string {
+  return `${e.session_id}|${e.source_id}|${e.skill_id}|${e.level}`;
+}
+
+/**
+ * Translate TaskEvidence through the Q-matrix, merge it into the stored profile,
+ * recompute skill states and save. Returns the updated profile.
+ */
+export function recordSkillEvidence(options: RecordSkillEvidenceOptions): StudentSkillProfile {
+  const {
+    studentId,
+    labId,
+    sessionId,
+    taskEvidence,
+    qmatrix,
+    baseDir,
+    thresholds = DEFAULT_THRESHOLDS,
+    decayConfig = DEFAULT_DECAY,
+    estimator,
+  } = options;
+
+  const existing = loadStudentProfile(studentId, baseDir) ?? {
+    student_id: studentId,
+    skills: {},
+    evidence: [],
+    updated_at: new Date().toISOString(),
+  };
+
+  const sessionEvidence = produceSkillEvidence(
+    taskEvidence.filter((te) => te.session_id === sessionId),
+    qmatrix,
+    labId
+  );
+  if (sessionEvidence.length === 0) {
+    return existing;
+  }
+
+  // Newer scores for a step in this session supersede the earlier ones
+  const replaced = new Set(sessionEvidence.map(evidenceKey));
+  const evidence = [...existing.evidence.filter((e) => !replaced.has(evidenceKey(e))), ...sessionEvidence];
+
+  const skills = computeStudentSkillStates(evidence, studentId, thresholds, decayConfig, estimator);
+  for (const [skillId, state] of Object.entries(skills)) {
+    state.declared = existing.skills[skillId]?.declared ?? null;
+  }
+
+  const profile: StudentSkillProfile = {
+    student_id: studentId,
+    skills: { ...existing.skills, ...skills },
+    evidence,
+    updated_at: new Date().toISOString(),
+  };
+  saveStudentProfile(profile, baseDir);
+  return profile;
+}
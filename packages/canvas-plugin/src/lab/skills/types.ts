@@ -120,6 +120,34 @@ export const DEFAULT_DECAY: DecayConfig = {
   half_life_days: 60,
 };
 
+// ============================================================================
+// ESTIMATOR CONFIG (per catalog)
+// ============================================================================
+
+export interface BKTParams {
+  prior: number; // P(L0): skill known before any practice
+  learn: number; // P(T): learned after an opportunity
+  slip: number; // P(S): wrong despite knowing
+  guess: number; // P(G): right without knowing
+}
+
+export const DEFAULT_BKT_PARAMS: BKTParams = {
+  prior: 0.2,
+  learn: 0.15,
+  slip: 0.1,
+  guess: 0.2,
+};
+
+export type SkillEstimatorType = "weighted_decay" | "bkt";
+
+export interface EstimatorConfig {
+  type: SkillEstimatorType; // default: weighted_decay
+  bkt?: {
+    defaults?: Partial<BKTParams>;
+    skills?: Record<string, Partial<BKTParams>>; // keyed by qualified skill_id
+  };
+}
+
 // ============================================================================
 // GAP ANALYSIS (query result)
 // ============================================================================
@@ -2,9 +2,15 @@
 // Sets up tmux with vTA on top and Docker container below
 
 import { spawn, spawnSync } from "child_process";
-import { mkdirSync, existsSync, writeFileSync } from "fs";
+import { mkdirSync, existsSync, writeFileSync, cpSync } from "fs";
 import { dirname, join, resolve } from "path";
-import { loadModule, generateTutorPrompt } from "./module-loader";
+import {
+  loadModule,
+  generateTutorPrompt,
+  writeGeneratedChecks,
+  getLabsPath,
+  getContinuousVerification,
+} from "./module-loader";
 import { getWorkspaceDir, getProgress, getCurrentProfile, touchProfile } from "../tutor/profile-manager";
 import { getProfileDir, getMemoryDir } from "../tutor/defaults";
 import { generateTutorCLAUDEmd } from "../tutor/prompts/tutor-prompt";
@@ -22,6 +28,8 @@ export interface LabSpawnOptions {
   skipHealthcheck?: boolean; // Skip pre-flight healthcheck (default: false)
   labType?: LabType;  // NEW: Lab type (defaults to module's labType or "linux_cli")
   courseId?: string;  // NEW: Course ID if module is part of a course
+  exam?: boolean;  // Exam mode: no tutor, hints or solutions; results withheld, then signed at the end
+  scoringPreset?: string;  // Preset ID or absolute path to a preset YAML (default: the module's or course's)
 }
 
 export interface LabSpawnResult {
@@ -48,11 +56,12 @@ export async function spawnLabEnvironment(
     dockerImage = "canvas-lab:latest",
     sessionName = `lab-${moduleId}-${Date.now()}`,
     vtaHeight = 52,
-    tutor = true, // Default to true
     profileName = getCurrentProfile().id,
     skipHealthcheck = false,
     labType: providedLabType,  // NEW: Optional lab type override
+    exam = false,
   } = options;
+  const tutor = exam ? false : options.tutor ?? true;
 
   // Load module to get labType (if not provided explicitly)
   const module = loadModule(moduleId);
@@ -78,10 +87,24 @@ export async function spawnLabEnvironment(
     lastUpdated: new Date().toISOString(),
     steps: [],
   }, null, 2)); // State sync file for tutor
+  if (labType === "splunk") {
+    writeFileSync(`${logDir}/queries.log`, ""); // Searches submitted via lab-spl
+  }
+  if (labType === "python") {
+    // Tests run on save against this copy (mounted at /var/log/lab-commands/workspace)
+    const starterDir = join(getLabsPath(), moduleId, "starter");
+    if (existsSync(starterDir)) {
+      cpSync(starterDir, `${logDir}/workspace`, { recursive: true });
+    }
+  }
+  if (labType === "sql") {
+    writeFileSync(`${logDir}/sql-queries.log`, ""); // Queries run via lab-sql (lab.db is seeded by setup.sh)
+  }
+  writeGeneratedChecks(moduleId, logDir); // Compiled declarative checks, polled by the orchestrator
 
   // Start Docker container in detached mode for healthcheck
   console.log(`Starting lab container for module: ${moduleId}...`);
-  const containerId = startContainerDetached(dockerImage, logDir, moduleId);
+  const containerId = startContainerDetached(dockerImage, logDir, moduleId, getContinuousVerification(moduleId));
 
   // Store containerId for cleanup during VTA exit
   if (containerId) {
@@ -137,15 +160,16 @@ export async function spawnLabEnvironment(
   const inTmux = !!process.env.TMUX;
 
   // Pass moduleId to VTA (VTA will load the module itself)
-  const vtaConfig = JSON.stringify({ moduleId });
+  const vtaConfig = JSON.stringify(exam ? { moduleId, exam } : { moduleId });
 
   // Docker attach command (container already running)
   // Wrap with script to capture terminal output for tutor evaluation
+  // lab-shell records the container-side typescript that command output is captured from
   // Cleanup container when session ends
   // Note: macOS script syntax: script [-q] file command
   //       Linux script syntax: script [-q] -c 'command' file
   const isMacOS = process.platform === "darwin";
-  const dockerExecCmd = `docker exec -it ${containerId} su - student`;
+  const dockerExecCmd = `docker exec -it ${containerId} lab-shell`;
   const dockerAttachCmd = isMacOS
     ? `script -q ${logDir}/terminal.log ${dockerExecCmd}; docker stop ${containerId} 2>/dev/null`
     : `script -q -c '${dockerExecCmd}' ${logDir}/terminal.log; docker stop ${containerId} 2>/dev/null`;
@@ -350,13 +374,15 @@ export async function spawnLabEnvironment(
   // Pass labType via environment variable
   const monitorProcess = spawn(
     "bun",
-    ["run", `${basePath}/src/lab/monitor.ts`, logPath, socketPath, moduleId, labType],
+    ["run", `${basePath}/src/lab/monitor.ts`, logPath, socketPath, moduleId, labType, profileName],
     {
       detached: true,
       stdio: "ignore",
       env: {
         ...process.env,
         LAB_TYPE: labType,  // Also pass as env var for safety
+        LAB_EXAM: exam ? "1" : "",
+        LAB_SCORING_PRESET: options.scoringPreset ?? "",
       },
     }
   );
@@ -415,7 +441,12 @@ export async function spawnLabEnvironment(
 /**
  * Start Docker container in detached mode and return container ID
  */
-function startContainerDetached(image: string, logDir: string, moduleId: string): string | null {
+function startContainerDetached(
+  image: string,
+  logDir: string,
+  moduleId: string,
+  continuousChecks: boolean = false
+): string | null {
   // Run Docker container in detached mode
   // The entrypoint runs orchestrator in background and keeps container alive
   const result = spawnSync("docker", [
@@ -423,6 +454,7 @@ function startContainerDetached(image: string, logDir: string, moduleId: string)
     "-d",                                    // Detached mode
     "--rm",                                  // Auto-cleanup when stopped
     "-e", `LAB_MODULE_ID=${moduleId}`,       // Module ID for orchestrator
+    "-e", `LAB_CONTINUOUS_CHECKS=${continuousChecks ? "1" : ""}`, // Keep checks running after they pass
     "-v", `${logDir}:/var/log/lab-commands`, // Volume mount for logs
     image,
   ], {
@@ -0,0 +1,426 @@
+// SPL Engine - Evaluates parsed SPL pipelines against an in-memory dataset
+// A stand-in for a Splunk server so search labs run (and test) locally
+
+import { existsSync, readFileSync } from "fs";
+import { parseSpl } from "./parser";
+import {
+  type SplCommand,
+  type SplRecord,
+  type SplValue,
+  type SearchExpr,
+  type EvalExpr,
+  type StatsAggregation,
+  type SortKey,
+  SplError,
+} from "./types";
+
+/**
+ * Result of running a query
+ */
+export interface SplResult {
+  rows: SplRecord[];
+  fields: string[]; // Column order, in order of first appearance
+}
+
+// ============================================================================
+// Dataset
+// ============================================================================
+
+/**
+ * Load fixture events from a JSON array or JSON-lines file
+ * Events without _raw get one built from their fields (key=value pairs),
+ * and events without an index are placed in "main"
+ */
+export function loadDataset(datasetPath: string): SplRecord[] {
+  if (!existsSync(datasetPath)) {
+    throw new Error(`Dataset not found: ${datasetPath}`);
+  }
+
+  const content = readFileSync(datasetPath, "utf-8").trim();
+  let events: SplRecord[];
+
+  if (content.startsWith("[")) {
+    events = JSON.parse(content) as SplRecord[];
+  } else {
+    events = content
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line, i) => {
+        try {
+          return JSON.parse(line) as SplRecord;
+        } catch (e) {
+          throw new Error(`Invalid JSON on line ${i + 1} of ${datasetPath}: ${e}`);
+        }
+      });
+  }
+
+  return events.map((event) => ({
+    index: "main",
+    ...event,
+    _raw:
+      event._raw ??
+      Object.entries(event)
+        .filter(([key]) => !key.startsWith("_"))
+        .map(([key, value]) => `${key}=${value}`)
+        .join(" "),
+  }));
+}
+
+// ============================================================================
+// Value helpers
+// ============================================================================
+
+function toNumber(value: SplValue | null | undefined | boolean): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))) return Number(value);
+  return null;
+}
+
+function valuesOf(value: SplValue | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [String(value)];
+}
+
+/**
+ * Compare two values numerically when both are numbers, otherwise as strings
+ */
+export function compareValues(a: SplValue | undefined, b: SplValue | undefined): number {
+  if (a === undefined && b === undefined) return 0;
+  if (a === undefined) return 1;
+  if (b === undefined) return -1;
+
+  const na = toNumber(Array.isArray(a) ? a[0] : a);
+  const nb = toNumber(Array.isArray(b) ? b[0] : b);
+  if (na !== null && nb !== null) return na - nb;
+
+  return String(a).localeCompare(String(b));
+}
+
+function wildcardRegex(pattern: string, anchored: boolean): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(anchored ? `^${escaped}$` : escaped, "i");
+}
+
+// ============================================================================
+// search
+// ============================================================================
+
+function matchesSearch(event: SplRecord, expr: SearchExpr): boolean {
+  switch (expr.kind) {
+    case "and":
+      return matchesSearch(event, expr.left) && matchesSearch(event, expr.right);
+    case "or":
+      return matchesSearch(event, expr.left) || matchesSearch(event, expr.right);
+    case "not":
+      return !matchesSearch(event, expr.operand);
+    case "term":
+      return wildcardRegex(expr.value, false).test(String(event._raw ?? ""));
+    case "compare": {
+      const values = valuesOf(event[expr.field]);
+      if (values.length === 0) {
+        // Like Splunk, a missing field matches neither field=x nor field!=x
+        return false;
+      }
+
+      if (expr.op === "=" || expr.op === "!=") {
+        const regex = wildcardRegex(expr.value, true);
+        const matched = values.some((v) => regex.test(v));
+        return expr.op === "=" ? matched : !matched;
+      }
+
+      const target = toNumber(expr.value);
+      return values.some((v) => {
+        const n = toNumber(v);
+        const cmp = n !== null && target !== null ? n - target : v.localeCompare(expr.value);
+        return applyOrdering(expr.op, cmp);
+      });
+    }
+  }
+}
+
+function applyOrdering(op: string, cmp: number): boolean {
+  switch (op) {
+    case "<":
+      return cmp < 0;
+    case ">":
+      return cmp > 0;
+    case "<=":
+      return cmp <= 0;
+    case ">=":
+      return cmp >= 0;
+    case "=":
+      return cmp === 0;
+    case "!=":
+      return cmp !== 0;
+    default:
+      return false;
+  }
+}
+
+// ============================================================================
+// where (eval expressions)
+// ============================================================================
+
+type EvalResult = string | number | boolean | null;
+
+function evaluate(event: SplRecord, expr: EvalExpr): EvalResult {
+  switch (expr.kind) {
+    case "literal":
+      return expr.value;
+    case "field": {
+      const value = event[expr.name];
+      if (value === undefined) return null;
+      return Array.isArray(value) ? value.join(" ") : value;
+    }
+    case "and":
+      return truthy(evaluate(event, expr.left)) && truthy(evaluate(event, expr.right));
+    case "or":
+      return truthy(evaluate(event, expr.left)) || truthy(evaluate(event, expr.right));
+    case "not":
+      return !truthy(evaluate(event, expr.operand));
+    case "compare": {
+      const left = evaluate(event, expr.left);
+      const right = evaluate(event, expr.right);
+      if (left === null || right === null) return false;
+
+      const nl = toNumber(left as SplValue);
+      const nr = toNumber(right as SplValue);
+      const cmp = nl !== null && nr !== null ? nl - nr : String(left).localeCompare(String(right));
+      return applyOrdering(expr.op, cmp);
+    }
+    case "call":
+      return callFunction(event, expr.name, expr.args);
+  }
+}
+
+function truthy(value: EvalResult): boolean {
+  return value !== null && value !== false && value !== 0 && value !== "";
+}
+
+function callFunction(event: SplRecord, name: string, args: EvalExpr[]): EvalResult {
+  const arg = (i: number) => {
+    if (args[i] === undefined) {
+      throw new SplError(`${name}() expects at least ${i + 1} argument(s)`, "where");
+    }
+    return evaluate(event, args[i]);
+  };
+
+  switch (name) {
+    case "isnull":
+      return arg(0) === null;
+    case "isnotnull":
+      return arg(0) !== null;
+    case "like": {
+      const value = arg(0);
+      const pattern = String(arg(1) ?? "");
+      if (value === null) return false;
+      const regex = new RegExp(
+        "^" + pattern.replace(/[.+?^${}()|[\]\\*]/g, "\\$&").replace(/%/g, ".*").replace(/_/g, ".") + "$"
+      );
+      return regex.test(String(value));
+    }
+    case "match": {
+      const value = arg(0);
+      if (value === null) return false;
+      try {
+        return new RegExp(String(arg(1))).test(String(value));
+      } catch (e) {
+        throw new SplError(`invalid regular expression in match(): ${e instanceof Error ? e.message : e}`, "where");
+      }
+    }
+    case "lower": {
+      const value = arg(0);
+      return value === null ? null : String(value).toLowerCase();
+    }
+    case "upper": {
+      const value = arg(0);
+      return value === null ? null : String(value).toUpperCase();
+    }
+    case "len": {
+      const value = arg(0);
+      return value === null ? null : String(value).length;
+    }
+    case "tonumber": {
+      const value = arg(0);
+      return toNumber(value as SplValue);
+    }
+    default:
+      throw new SplError(
+        `unsupported function ${name}() (supported: isnull, isnotnull, like, match, lower, upper, len, tonumber)`,
+        "where"
+      );
+  }
+}
+
+// ============================================================================
+// stats
+// ============================================================================
+
+function aggregate(events: SplRecord[], agg: StatsAggregation): SplValue {
+  if (agg.fn === "count") {
+    return agg.field ? events.filter((e) => e[agg.field!] !== undefined).length : events.length;
+  }
+
+  const values = events.flatMap((e) => valuesOf(e[agg.field!]));
+
+  switch (agg.fn) {
+    case "dc":
+      return new Set(values).size;
+    case "values":
+      return [...new Set(values)].sort();
+    case "min":
+    case "max": {
+      if (values.length === 0) return "";
+      const sorted = [...values].sort(compareValues);
+      const picked = agg.fn === "min" ? sorted[0] : sorted[sorted.length - 1];
+      return toNumber(picked) ?? picked;
+    }
+    case "sum":
+    case "avg": {
+      const numbers = values.map(toNumber).filter((n): n is number => n !== null);
+      if (numbers.length === 0) return "";
+      const sum = numbers.reduce((a, b) => a + b, 0);
+      return agg.fn === "sum" ? sum : sum / numbers.length;
+    }
+  }
+}
+
+function runStats(events: SplRecord[], aggregations: StatsAggregation[], by: string[]): SplRecord[] {
+  if (by.length === 0) {
+    const row: SplRecord = {};
+    for (const agg of aggregations) {
+      row[agg.as] = aggregate(events, agg);
+    }
+    return [row];
+  }
+
+  // Events missing any by-field are left out, as in Splunk
+  const groups = new Map<string, { keys: SplRecord; events: SplRecord[] }>();
+  for (const event of events) {
+    if (by.some((field) => event[field] === undefined)) continue;
+
+    const keys: SplRecord = {};
+    for (const field of by) keys[field] = event[field];
+    const groupKey = JSON.stringify(by.map((field) => event[field]));
+
+    const group = groups.get(groupKey) ?? { keys, events: [] };
+    group.events.push(event);
+    groups.set(groupKey, group);
+  }
+
+  const rows = [...groups.values()].map(({ keys, events: groupEvents }) => {
+    const row: SplRecord = { ...keys };
+    for (const agg of aggregations) {
+      row[agg.as] = aggregate(groupEvents, agg);
+    }
+    return row;
+  });
+
+  // Splunk returns groups ordered by the by-fields
+  return sortRows(rows, by.map((field) => ({ field, descending: false })));
+}
+
+// ============================================================================
+// table / sort / rex
+// ============================================================================
+
+function runTable(rows: SplRecord[], fields: string[]): SplRecord[] {
+  return rows.map((row) => {
+    const out: SplRecord = {};
+    for (const field of fields) {
+      if (field.includes("*")) {
+        const regex = wildcardRegex(field, true);
+        for (const key of Object.keys(row)) {
+          if (regex.test(key) && out[key] === undefined) out[key] = row[key];
+        }
+      } else if (row[field] !== undefined) {
+        out[field] = row[field];
+      }
+    }
+    return out;
+  });
+}
+
+function sortRows(rows: SplRecord[], keys: SortKey[]): SplRecord[] {
+  return [...rows].sort((a, b) => {
+    for (const { field, descending } of keys) {
+      // Missing values sort last in either direction
+      if (a[field] === undefined || b[field] === undefined) {
+        const cmp = compareValues(a[field], b[field]);
+        if (cmp !== 0) return cmp;
+        continue;
+      }
+      const cmp = compareValues(a[field], b[field]);
+      if (cmp !== 0) return descending ? -cmp : cmp;
+    }
+    return 0;
+  });
+}
+
+function runRex(rows: SplRecord[], field: string, regex: RegExp): SplRecord[] {
+  return rows.map((row) => {
+    const value = row[field];
+    if (value === undefined) return row;
+
+    const match = regex.exec(Array.isArray(value) ? value.join(" ") : String(value));
+    if (!match?.groups) return row;
+
+    const extracted: SplRecord = {};
+    for (const [name, captured] of Object.entries(match.groups)) {
+      if (captured !== undefined) extracted[name] = captured;
+    }
+    return { ...row, ...extracted };
+  });
+}
+
+// ============================================================================
+// Pipeline
+// ============================================================================
+
+function runCommand(rows: SplRecord[], command: SplCommand): SplRecord[] {
+  switch (command.command) {
+    case "search":
+      return command.expression ? rows.filter((row) => matchesSearch(row, command.expression!)) : rows;
+    case "where":
+      return rows.filter((row) => truthy(evaluate(row, command.expression)));
+    case "stats":
+      return runStats(rows, command.aggregations, command.by);
+    case "table":
+      return runTable(rows, command.fields);
+    case "sort": {
+      const sorted = sortRows(rows, command.keys);
+      return command.limit !== undefined ? sorted.slice(0, command.limit) : sorted;
+    }
+    case "head":
+      return rows.slice(0, command.count);
+    case "rex":
+      return runRex(rows, command.field, command.regex);
+  }
+}
+
+/**
+ * Run a parsed pipeline against a dataset
+ */
+export function executeSpl(commands: SplCommand[], events: SplRecord[]): SplResult {
+  let rows = events;
+  for (const command of commands) {
+    rows = runCommand(rows, command);
+  }
+
+  const fields: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!fields.includes(key)) fields.push(key);
+    }
+  }
+
+  return { rows, fields };
+}
+
+/**
+ * Parse and run a query against a dataset
+ * Throws SplError for invalid or unsupported queries
+ */
+export function runSpl(query: string, events: SplRecord[]): SplResult {
+  return executeSpl(parseSpl(query), events);
+}
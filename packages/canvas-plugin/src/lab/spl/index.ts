@@ -0,0 +1,7 @@
+// SPL Module - Local Splunk search subset for splunk labs
+// Re-exports all public types and functions
+
+export * from "./types";
+export * from "./parser";
+export * from "./engine";
+export * from "./results";
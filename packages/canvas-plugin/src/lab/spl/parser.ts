@@ -0,0 +1,536 @@
+// SPL Parser - Turns a search string into a pipeline of commands
+// Only the subset in SUPPORTED_COMMANDS is understood; anything else is a SplError
+
+import {
+  type SplCommand,
+  type SearchExpr,
+  type EvalExpr,
+  type SplCompareOp,
+  type StatsAggregation,
+  type StatsFunction,
+  type SortKey,
+  SplError,
+  SUPPORTED_COMMANDS,
+} from "./types";
+
+interface Token {
+  type: "word" | "string" | "op";
+  value: string;
+}
+
+const COMPARE_OPS = new Set(["=", "==", "!=", "<", ">", "<=", ">="]);
+const STATS_FUNCTIONS: Record<string, StatsFunction> = {
+  count: "count",
+  sum: "sum",
+  avg: "avg",
+  mean: "avg",
+  min: "min",
+  max: "max",
+  dc: "dc",
+  distinct_count: "dc",
+  values: "values",
+};
+
+/**
+ * Split a query on pipes that aren't inside quotes
+ */
+function splitPipeline(query: string): string[] {
+  const segments: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < query.length; i++) {
+    const ch = query[i];
+    if (ch === "\\" && quoted && i + 1 < query.length) {
+      current += ch + query[++i];
+      continue;
+    }
+    if (ch === '"') {
+      quoted = !quoted;
+    }
+    if (ch === "|" && !quoted) {
+      segments.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += ch;
+  }
+
+  if (quoted) {
+    throw new SplError("Unterminated quoted string");
+  }
+
+  segments.push(current.trim());
+  return segments;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '"') {
+      let value = "";
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === "\\" && i + 1 < text.length) {
+          // Keep escapes other than \" intact - rex patterns rely on them
+          value += text[i + 1] === '"' ? '"' : text[i] + text[i + 1];
+          i += 2;
+          continue;
+        }
+        value += text[i++];
+      }
+      i++; // closing quote
+      tokens.push({ type: "string", value });
+      continue;
+    }
+
+    const twoChar = text.slice(i, i + 2);
+    if (twoChar === "==" || twoChar === "!=" || twoChar === "<=" || twoChar === ">=") {
+      tokens.push({ type: "op", value: twoChar });
+      i += 2;
+      continue;
+    }
+
+    if ("=<>(),".includes(ch)) {
+      tokens.push({ type: "op", value: ch });
+      i++;
+      continue;
+    }
+
+    let word = "";
+    while (i < text.length && !/[\s=!<>(),"]/.test(text[i])) {
+      word += text[i++];
+    }
+    if (word === "") {
+      throw new SplError(`Unexpected character '${ch}'`);
+    }
+    tokens.push({ type: "word", value: word });
+  }
+
+  return tokens;
+}
+
+/**
+ * Minimal cursor over a token list
+ */
+function createCursor(tokens: Token[], command: string) {
+  let pos = 0;
+
+  return {
+    peek: (offset = 0): Token | undefined => tokens[pos + offset],
+    next: (): Token | undefined => tokens[pos++],
+    done: () => pos >= tokens.length,
+    isWord: (value: string, offset = 0) =>
+      tokens[pos + offset]?.type === "word" && tokens[pos + offset].value.toUpperCase() === value.toUpperCase(),
+    isOp: (value: string, offset = 0) => tokens[pos + offset]?.type === "op" && tokens[pos + offset].value === value,
+    expectOp(value: string) {
+      const token = tokens[pos++];
+      if (token?.type !== "op" || token.value !== value) {
+        throw new SplError(`expected '${value}' but found '${token?.value ?? "end of command"}'`, command);
+      }
+    },
+    error(message: string): SplError {
+      return new SplError(message, command);
+    },
+  };
+}
+
+type Cursor = ReturnType<typeof createCursor>;
+
+function normalizeOp(op: string): SplCompareOp {
+  return (op === "==" ? "=" : op) as SplCompareOp;
+}
+
+// ============================================================================
+// search
+// Splunk gives OR higher precedence than (implicit) AND
+// ============================================================================
+
+function parseSearch(tokens: Token[], command = "search"): SearchExpr | null {
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  const cursor = createCursor(tokens, command);
+
+  function parseAnd(): SearchExpr {
+    let left = parseOr();
+    while (!cursor.done() && !cursor.isOp(")")) {
+      if (cursor.isWord("AND")) cursor.next();
+      left = { kind: "and", left, right: parseOr() };
+    }
+    return left;
+  }
+
+  function parseOr(): SearchExpr {
+    let left = parseNot();
+    while (cursor.isWord("OR")) {
+      cursor.next();
+      left = { kind: "or", left, right: parseNot() };
+    }
+    return left;
+  }
+
+  function parseNot(): SearchExpr {
+    if (cursor.isWord("NOT")) {
+      cursor.next();
+      return { kind: "not", operand: parseNot() };
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): SearchExpr {
+    const token = cursor.next();
+    if (!token) {
+      throw cursor.error("expected a search term");
+    }
+
+    if (token.type === "op" && token.value === "(") {
+      const inner = parseAnd();
+      cursor.expectOp(")");
+      return inner;
+    }
+
+    if (token.type === "op") {
+      throw cursor.error(`unexpected '${token.value}'`);
+    }
+
+    const next = cursor.peek();
+    if (token.type === "word" && next?.type === "op" && COMPARE_OPS.has(next.value)) {
+      cursor.next();
+      const value = cursor.next();
+      if (!value || value.type === "op") {
+        throw cursor.error(`expected a value after ${token.value}${next.value}`);
+      }
+      return { kind: "compare", field: token.value, op: normalizeOp(next.value), value: value.value };
+    }
+
+    return { kind: "term", value: token.value };
+  }
+
+  const expression = parseAnd();
+  if (!cursor.done()) {
+    throw cursor.error(`unexpected '${cursor.peek()!.value}'`);
+  }
+  return expression;
+}
+
+// ============================================================================
+// where
+// ============================================================================
+
+function parseWhere(tokens: Token[]): EvalExpr {
+  if (tokens.length === 0) {
+    throw new SplError("requires an expression", "where");
+  }
+
+  const cursor = createCursor(tokens, "where");
+
+  function parseOr(): EvalExpr {
+    let left = parseAnd();
+    while (cursor.isWord("OR")) {
+      cursor.next();
+      left = { kind: "or", left, right: parseAnd() };
+    }
+    return left;
+  }
+
+  function parseAnd(): EvalExpr {
+    let left = parseNot();
+    while (cursor.isWord("AND")) {
+      cursor.next();
+      left = { kind: "and", left, right: parseNot() };
+    }
+    return left;
+  }
+
+  function parseNot(): EvalExpr {
+    if (cursor.isWord("NOT")) {
+      cursor.next();
+      return { kind: "not", operand: parseNot() };
+    }
+    return parseComparison();
+  }
+
+  function parseComparison(): EvalExpr {
+    const left = parsePrimary();
+    const op = cursor.peek();
+    if (op?.type === "op" && COMPARE_OPS.has(op.value)) {
+      cursor.next();
+      return { kind: "compare", op: normalizeOp(op.value), left, right: parsePrimary() };
+    }
+    return left;
+  }
+
+  function parsePrimary(): EvalExpr {
+    const token = cursor.next();
+    if (!token) {
+      throw cursor.error("unexpected end of expression");
+    }
+
+    if (token.type === "op") {
+      if (token.value !== "(") {
+        throw cursor.error(`unexpected '${token.value}'`);
+      }
+      const inner = parseOr();
+      cursor.expectOp(")");
+      return inner;
+    }
+
+    if (token.type === "string") {
+      return { kind: "literal", value: token.value };
+    }
+
+    if (/^-?\d+(\.\d+)?$/.test(token.value)) {
+      return { kind: "literal", value: Number(token.value) };
+    }
+
+    const lower = token.value.toLowerCase();
+    if (lower === "true" || lower === "false") {
+      return { kind: "literal", value: lower === "true" };
+    }
+    if (lower === "null") {
+      return { kind: "literal", value: null };
+    }
+
+    if (cursor.isOp("(")) {
+      cursor.next();
+      const args: EvalExpr[] = [];
+      while (!cursor.isOp(")")) {
+        args.push(parseOr());
+        if (cursor.isOp(",")) cursor.next();
+        else if (!cursor.isOp(")")) throw cursor.error(`expected ',' or ')' in ${token.value}()`);
+      }
+      cursor.next();
+      return { kind: "call", name: lower, args };
+    }
+
+    // Single-quoted names are field references in eval expressions
+    return { kind: "field", name: token.value.replace(/^'(.*)'$/, "$1") };
+  }
+
+  const expression = parseOr();
+  if (!cursor.done()) {
+    throw cursor.error(`unexpected '${cursor.peek()!.value}'`);
+  }
+  return expression;
+}
+
+// ============================================================================
+// stats / table / sort / head / rex
+// ============================================================================
+
+function parseStats(tokens: Token[]): { aggregations: StatsAggregation[]; by: string[] } {
+  const cursor = createCursor(tokens, "stats");
+  const aggregations: StatsAggregation[] = [];
+  const by: string[] = [];
+
+  while (!cursor.done() && !cursor.isWord("by")) {
+    const token = cursor.next()!;
+    if (token.type === "op" && token.value === ",") continue;
+    if (token.type !== "word") throw cursor.error(`unexpected '${token.value}'`);
+
+    const fn = STATS_FUNCTIONS[token.value.toLowerCase()];
+    if (!fn) {
+      throw cursor.error(`unsupported function '${token.value}' (supported: ${Object.keys(STATS_FUNCTIONS).join(", ")})`);
+    }
+
+    let field: string | undefined;
+    if (cursor.isOp("(")) {
+      cursor.next();
+      const fieldToken = cursor.next();
+      if (fieldToken?.type !== "word") throw cursor.error(`expected a field name in ${token.value}()`);
+      field = fieldToken.value;
+      cursor.expectOp(")");
+    }
+    if (!field && fn !== "count") {
+      throw cursor.error(`${token.value} requires a field, e.g. ${token.value}(bytes)`);
+    }
+
+    let as = field ? `${token.value.toLowerCase()}(${field})` : "count";
+    if (cursor.isWord("as")) {
+      cursor.next();
+      const alias = cursor.next();
+      if (!alias || alias.type === "op") throw cursor.error("expected a name after 'as'");
+      as = alias.value;
+    }
+
+    aggregations.push({ fn, field, as });
+  }
+
+  if (aggregations.length === 0) {
+    throw cursor.error("requires at least one function, e.g. stats count");
+  }
+
+  if (cursor.isWord("by")) {
+    cursor.next();
+    by.push(...parseFieldList(cursor));
+    if (by.length === 0) throw cursor.error("expected field names after 'by'");
+  }
+
+  return { aggregations, by };
+}
+
+function parseFieldList(cursor: Cursor): string[] {
+  const fields: string[] = [];
+  while (!cursor.done()) {
+    const token = cursor.next()!;
+    if (token.type === "op" && token.value === ",") continue;
+    if (token.type === "op") throw cursor.error(`unexpected '${token.value}'`);
+    fields.push(token.value);
+  }
+  return fields;
+}
+
+function parseSort(tokens: Token[]): { keys: SortKey[]; limit?: number } {
+  const cursor = createCursor(tokens, "sort");
+  let limit: number | undefined;
+
+  if (cursor.peek()?.type === "word" && /^\d+$/.test(cursor.peek()!.value)) {
+    limit = Number(cursor.next()!.value);
+  }
+
+  const keys: SortKey[] = [];
+  let pendingDirection: boolean | null = null;
+
+  while (!cursor.done()) {
+    const token = cursor.next()!;
+    if (token.type === "op" && token.value === ",") continue;
+    if (token.type === "op") throw cursor.error(`unexpected '${token.value}'`);
+
+    // "-" / "+" may stand alone ("sort - count") or prefix the field ("sort -count")
+    if (token.value === "-" || token.value === "+") {
+      pendingDirection = token.value === "-";
+      continue;
+    }
+
+    const match = token.value.match(/^([+-]?)(.+)$/)!;
+    const descending = match[1] ? match[1] === "-" : pendingDirection ?? false;
+    keys.push({ field: match[2], descending });
+    pendingDirection = null;
+  }
+
+  if (keys.length === 0) {
+    throw cursor.error("requires at least one field");
+  }
+
+  return { keys, limit };
+}
+
+function parseHead(tokens: Token[]): number {
+  if (tokens.length === 0) {
+    return 10;
+  }
+  const token = tokens[0];
+  const value = token.value.startsWith("limit=") ? token.value.slice(6) : token.value;
+  if (tokens.length > 1 || !/^\d+$/.test(value)) {
+    throw new SplError(`expected a number of results, e.g. head 5`, "head");
+  }
+  return Number(value);
+}
+
+function parseRex(tokens: Token[]): { field: string; regex: RegExp } {
+  const cursor = createCursor(tokens, "rex");
+  let field = "_raw";
+  let pattern: string | undefined;
+
+  while (!cursor.done()) {
+    const token = cursor.next()!;
+    if (token.type === "word" && token.value === "field" && cursor.isOp("=")) {
+      cursor.next();
+      const value = cursor.next();
+      if (!value || value.type === "op") throw cursor.error("expected a field name after field=");
+      field = value.value;
+    } else if (token.type === "string") {
+      pattern = token.value;
+    } else {
+      throw cursor.error(`unexpected '${token.value}'`);
+    }
+  }
+
+  if (pattern === undefined) {
+    throw cursor.error('requires a quoted regular expression, e.g. rex "user=(?<user>\\w+)"');
+  }
+
+  // PCRE (?P<name>...) groups are common in Splunk docs; JavaScript wants (?<name>...)
+  const source = pattern.replace(/\(\?P</g, "(?<");
+  let regex: RegExp;
+  try {
+    regex = new RegExp(source);
+  } catch (e) {
+    throw cursor.error(`invalid regular expression: ${e instanceof Error ? e.message : e}`);
+  }
+  if (!/\(\?<[A-Za-z_]\w*>/.test(source)) {
+    throw cursor.error("the regular expression needs at least one named group, e.g. (?<user>\\w+)");
+  }
+
+  return { field, regex };
+}
+
+// ============================================================================
+// Pipeline
+// ============================================================================
+
+/**
+ * Parse an SPL query into its pipeline of commands
+ * The first segment is an implicit search unless it names another command
+ */
+export function parseSpl(query: string): SplCommand[] {
+  if (!query.trim()) {
+    throw new SplError("Query is empty");
+  }
+
+  const segments = splitPipeline(query.trim());
+
+  return segments.map((segment, index) => {
+    if (segment === "") {
+      throw new SplError(`Empty command at position ${index + 1} (check for a stray '|')`);
+    }
+
+    const tokens = tokenize(segment);
+    const first = tokens[0];
+    const name = first.type === "word" ? first.value.toLowerCase() : "";
+    const isCommand = (SUPPORTED_COMMANDS as readonly string[]).includes(name) && tokens[1]?.value !== "=";
+
+    if (!isCommand) {
+      if (index === 0) {
+        return { command: "search", expression: parseSearch(tokens) };
+      }
+      throw new SplError(
+        `Unsupported command '${first.value}' (supported: ${SUPPORTED_COMMANDS.join(", ")})`
+      );
+    }
+
+    const args = tokens.slice(1);
+    switch (name) {
+      case "search":
+        return { command: "search", expression: parseSearch(args) };
+      case "where":
+        return { command: "where", expression: parseWhere(args) };
+      case "stats":
+        return { command: "stats", ...parseStats(args) };
+      case "table": {
+        const fields = parseFieldList(createCursor(args, "table"));
+        if (fields.length === 0) throw new SplError("requires at least one field", "table");
+        return { command: "table", fields };
+      }
+      case "sort":
+        return { command: "sort", ...parseSort(args) };
+      case "head":
+        return { command: "head", count: parseHead(args) };
+      case "rex":
+        return { command: "rex", ...parseRex(args) };
+      default:
+        throw new SplError(`Unsupported command '${name}'`);
+    }
+  });
+}
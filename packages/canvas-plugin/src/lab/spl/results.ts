@@ -0,0 +1,131 @@
+// SPL Results - Compare search results with a step's expected rows, and format them
+
+import type { SplRecord, SplValue, SplMatchMode } from "./types";
+
+export interface ResultComparison {
+  matched: boolean;
+  reason?: string; // Why the results don't match (for telemetry/tutor, not shown verbatim)
+}
+
+/**
+ * Values are equal if they're the same number (so "12" matches 12 and
+ * averages tolerate float noise) or the same string, case-sensitively
+ */
+function valuesEqual(actual: SplValue | undefined, expected: unknown): boolean {
+  if (actual === undefined) {
+    return expected === undefined || expected === null;
+  }
+
+  if (Array.isArray(expected)) {
+    const list = Array.isArray(actual) ? actual : [String(actual)];
+    return list.length === expected.length && expected.every((v, i) => String(v) === list[i]);
+  }
+
+  const actualValue = Array.isArray(actual) ? actual.join(" ") : actual;
+  const na = Number(actualValue);
+  const ne = Number(expected);
+  if (String(actualValue).trim() !== "" && String(expected).trim() !== "" && !isNaN(na) && !isNaN(ne)) {
+    return Math.abs(na - ne) < 1e-6;
+  }
+
+  return String(actualValue) === String(expected);
+}
+
+/**
+ * A result row matches an expected row if every field the author listed
+ * has the same value; extra columns in the result are ignored
+ */
+function rowMatches(actual: SplRecord, expected: Record<string, unknown>): boolean {
+  return Object.entries(expected).every(([field, value]) => valuesEqual(actual[field], value));
+}
+
+/**
+ * Compare a query's rows with expected rows
+ */
+export function compareResults(
+  actual: SplRecord[],
+  expected: Record<string, unknown>[],
+  options: { match?: SplMatchMode; ordered?: boolean } = {}
+): ResultComparison {
+  const { match = "exact", ordered = false } = options;
+
+  if (match === "exact" && actual.length !== expected.length) {
+    return { matched: false, reason: `Expected ${expected.length} row(s), got ${actual.length}` };
+  }
+
+  if (ordered) {
+    if (match === "exact") {
+      const index = expected.findIndex((row, i) => !rowMatches(actual[i], row));
+      return index === -1
+        ? { matched: true }
+        : { matched: false, reason: `Row ${index + 1} does not match` };
+    }
+
+    // contains + ordered: expected rows appear as a subsequence
+    let cursor = 0;
+    for (const row of actual) {
+      if (cursor < expected.length && rowMatches(row, expected[cursor])) cursor++;
+    }
+    return cursor === expected.length
+      ? { matched: true }
+      : { matched: false, reason: `Expected row ${cursor + 1} not found in order` };
+  }
+
+  // Unordered: each expected row must be matched by a distinct result row
+  const used = new Set<number>();
+  for (const [i, row] of expected.entries()) {
+    const index = actual.findIndex((candidate, j) => !used.has(j) && rowMatches(candidate, row));
+    if (index === -1) {
+      return { matched: false, reason: `Expected row ${i + 1} not found` };
+    }
+    used.add(index);
+  }
+
+  return { matched: true };
+}
+
+function formatValue(value: SplValue | undefined): string {
+  if (value === undefined) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "number" && !Number.isInteger(value)) return value.toFixed(2);
+  return String(value);
+}
+
+/**
+ * Format results as a text table for the terminal
+ * Raw event results (no table/stats) are shown as their _raw text
+ */
+export function formatResults(rows: SplRecord[], fields: string[], maxRows = 50): string {
+  if (rows.length === 0) {
+    return "No results found.";
+  }
+
+  const shown = rows.slice(0, maxRows);
+  const lines: string[] = [];
+
+  if (fields.includes("_raw")) {
+    for (const row of shown) {
+      lines.push(formatValue(row._raw));
+    }
+  } else {
+    const widths = fields.map((field) =>
+      Math.min(40, Math.max(field.length, ...shown.map((row) => formatValue(row[field]).length)))
+    );
+    const formatRow = (cells: string[]) =>
+      cells.map((cell, i) => cell.slice(0, widths[i]).padEnd(widths[i])).join("  ").trimEnd();
+
+    lines.push(formatRow(fields));
+    lines.push(formatRow(widths.map((w) => "─".repeat(w))));
+    for (const row of shown) {
+      lines.push(formatRow(fields.map((field) => formatValue(row[field]))));
+    }
+  }
+
+  if (rows.length > maxRows) {
+    lines.push(`... ${rows.length - maxRows} more`);
+  }
+  lines.push("");
+  lines.push(`${rows.length} result${rows.length === 1 ? "" : "s"}`);
+
+  return lines.join("\n");
+}
@@ -0,0 +1,96 @@
+// SPL Types - Parsed representation of the Splunk search subset we evaluate locally
+// Supported commands: search, where, stats, table, sort, head, rex
+
+/**
+ * A field value: events hold strings/numbers; stats values() yields lists
+ */
+export type SplValue = string | number | string[];
+
+/**
+ * An event from the fixture dataset, or a row of search results
+ */
+export type SplRecord = Record<string, SplValue>;
+
+export type SplCompareOp = "=" | "!=" | "<" | ">" | "<=" | ">=";
+
+// ============================================================================
+// SEARCH EXPRESSIONS (search command: field=value, bare terms, AND/OR/NOT)
+// ============================================================================
+
+export type SearchExpr =
+  | { kind: "and"; left: SearchExpr; right: SearchExpr }
+  | { kind: "or"; left: SearchExpr; right: SearchExpr }
+  | { kind: "not"; operand: SearchExpr }
+  | { kind: "term"; value: string }
+  | { kind: "compare"; field: string; op: SplCompareOp; value: string };
+
+// ============================================================================
+// EVAL EXPRESSIONS (where command)
+// ============================================================================
+
+export type EvalExpr =
+  | { kind: "and"; left: EvalExpr; right: EvalExpr }
+  | { kind: "or"; left: EvalExpr; right: EvalExpr }
+  | { kind: "not"; operand: EvalExpr }
+  | { kind: "compare"; op: SplCompareOp; left: EvalExpr; right: EvalExpr }
+  | { kind: "field"; name: string }
+  | { kind: "literal"; value: string | number | boolean | null }
+  | { kind: "call"; name: string; args: EvalExpr[] };
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+export type StatsFunction = "count" | "sum" | "avg" | "min" | "max" | "dc" | "values";
+
+export interface StatsAggregation {
+  fn: StatsFunction;
+  field?: string;
+  as: string;
+}
+
+export interface SortKey {
+  field: string;
+  descending: boolean;
+}
+
+export type SplCommand =
+  | { command: "search"; expression: SearchExpr | null }
+  | { command: "where"; expression: EvalExpr }
+  | { command: "stats"; aggregations: StatsAggregation[]; by: string[] }
+  | { command: "table"; fields: string[] }
+  | { command: "sort"; keys: SortKey[]; limit?: number }
+  | { command: "head"; count: number }
+  | { command: "rex"; field: string; regex: RegExp };
+
+export const SUPPORTED_COMMANDS = ["search", "where", "stats", "table", "sort", "head", "rex"] as const;
+
+/**
+ * Raised for queries that can't be parsed or use unsupported features
+ * The message is shown to the student, so it should say what to fix
+ */
+export class SplError extends Error {
+  constructor(message: string, public command?: string) {
+    super(command ? `${command}: ${message}` : message);
+    this.name = "SplError";
+  }
+}
+
+// ============================================================================
+// EXPECTED RESULTS (module.yaml validation: type spl-results)
+// ============================================================================
+
+/**
+ * How a step's expected rows are compared with a query's results
+ * - exact: same rows (ignoring extra columns the author didn't list)
+ * - contains: every expected row appears in the results
+ */
+export type SplMatchMode = "exact" | "contains";
+
+export interface SplCheck {
+  stepId: string;
+  expected?: SplRecord[];  // Literal rows
+  reference?: string;      // Or: a reference query whose results are expected
+  match: SplMatchMode;
+  ordered: boolean;        // Whether row order matters
+}
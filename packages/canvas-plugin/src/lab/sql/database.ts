@@ -0,0 +1,34 @@
+// SQL Database - Re-runs student queries against the lab's SQLite database
+// Opened read-only, so statements that modify data are never replayed
+
+import { existsSync } from "fs";
+import { Database } from "bun:sqlite";
+import type { SqlResultSet, SqlValue } from "./types";
+
+/**
+ * Run a query read-only and return its result set
+ * Returns null for statements that don't produce rows (INSERT, CREATE, ...)
+ */
+export function runSqlQuery(databasePath: string, query: string): SqlResultSet | null {
+  if (!existsSync(databasePath)) {
+    throw new Error(`Database not found: ${databasePath}`);
+  }
+
+  const db = new Database(databasePath, { readonly: true });
+  try {
+    const statement = db.prepare(query);
+    try {
+      if (statement.columnNames.length === 0) {
+        return null;
+      }
+      return {
+        columns: statement.columnNames,
+        rows: statement.values() as SqlValue[][],
+      };
+    } finally {
+      statement.finalize();
+    }
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,6 @@
+// SQL Module - Result set validation for sql labs
+// Re-exports all public types and functions
+
+export * from "./types";
+export * from "./database";
+export * from "./results";
@@ -0,0 +1,75 @@
+// SQL Results - Compare a query's result set with a step's expected rows
+// Column names are ignored; values are compared by position
+
+import type { SqlResultSet, SqlValue, SqlExpectedRow } from "./types";
+
+export interface ResultSetComparison {
+  matched: boolean;
+  reason?: string; // Why the results don't match (for telemetry/tutor, not shown verbatim)
+}
+
+/**
+ * Values are equal if they're the same number (so "12" matches 12 and
+ * averages tolerate float noise), both NULL, or the same string
+ */
+function valuesEqual(actual: SqlValue, expected: SqlValue): boolean {
+  if (actual === null || expected === null) {
+    return actual === expected;
+  }
+
+  const na = Number(actual);
+  const ne = Number(expected);
+  if (String(actual).trim() !== "" && String(expected).trim() !== "" && !isNaN(na) && !isNaN(ne)) {
+    return Math.abs(na - ne) < 1e-6;
+  }
+
+  return String(actual) === String(expected);
+}
+
+function rowValues(row: SqlExpectedRow): SqlValue[] {
+  return Array.isArray(row) ? row : Object.values(row);
+}
+
+function rowsEqual(actual: SqlValue[], expected: SqlValue[]): boolean {
+  return actual.length === expected.length && expected.every((value, i) => valuesEqual(actual[i], value));
+}
+
+/**
+ * Compare a result set with expected rows (same rows, same column count)
+ */
+export function compareResultSets(
+  actual: SqlResultSet,
+  expected: SqlExpectedRow[],
+  options: { ordered?: boolean } = {}
+): ResultSetComparison {
+  const { ordered = false } = options;
+  const expectedRows = expected.map(rowValues);
+
+  if (actual.rows.length !== expectedRows.length) {
+    return { matched: false, reason: `Expected ${expectedRows.length} row(s), got ${actual.rows.length}` };
+  }
+
+  const width = expectedRows[0]?.length;
+  if (width !== undefined && actual.columns.length !== width) {
+    return { matched: false, reason: `Expected ${width} column(s), got ${actual.columns.length}` };
+  }
+
+  if (ordered) {
+    const index = expectedRows.findIndex((row, i) => !rowsEqual(actual.rows[i], row));
+    return index === -1
+      ? { matched: true }
+      : { matched: false, reason: `Row ${index + 1} does not match` };
+  }
+
+  // Unordered: each expected row must be matched by a distinct result row
+  const used = new Set<number>();
+  for (const [i, row] of expectedRows.entries()) {
+    const index = actual.rows.findIndex((candidate, j) => !used.has(j) && rowsEqual(candidate, row));
+    if (index === -1) {
+      return { matched: false, reason: `Expected row ${i + 1} not found` };
+    }
+    used.add(index);
+  }
+
+  return { matched: true };
+}
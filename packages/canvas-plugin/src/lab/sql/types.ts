@@ -0,0 +1,32 @@
+// SQL Types - Result sets and expected results for sql labs
+
+/**
+ * A single cell value as returned by SQLite
+ */
+export type SqlValue = string | number | bigint | boolean | null;
+
+/**
+ * Rows as positional values; column names are kept separately
+ * because validation ignores them (students alias columns freely)
+ */
+export interface SqlResultSet {
+  columns: string[];
+  rows: SqlValue[][];
+}
+
+/**
+ * Expected row in module.yaml: a list of values, or a mapping whose
+ * keys are for readability only (values are compared by position)
+ */
+export type SqlExpectedRow = SqlValue[] | Record<string, SqlValue>;
+
+// ============================================================================
+// EXPECTED RESULTS (module.yaml validation: type sql-results)
+// ============================================================================
+
+export interface SqlCheck {
+  stepId: string;
+  expected?: SqlExpectedRow[];  // Literal rows
+  reference?: string;           // Or: a reference query run against the lab database
+  ordered: boolean;             // Whether row order matters
+}
@@ -0,0 +1,143 @@
+// Cohort Analytics Tests
+// Aggregation across several students' archived telemetry
+
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, mkdirSync, rmSync, copyFileSync, appendFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createEventLogger } from "../event-logger";
+import {
+  loadCohortSessions,
+  computeCohortAnalytics,
+  formatCohortAnalytics,
+  type CohortAnalytics,
+} from "../cohort-analytics";
+
+const MODULE = "linux-basics";
+const STEPS = ["intro", "create-user", "set-permissions"];
+
+function recordSession(
+  profilesDir: string,
+  profileId: string,
+  record: (logger: ReturnType<typeof createEventLogger>) => void,
+  moduleId = MODULE
+): string {
+  const logDir = join(profilesDir, profileId, "telemetry");
+  mkdirSync(logDir, { recursive: true });
+  const logger = createEventLogger({ logDir, moduleId, studentId: profileId });
+  logger.startSession(1);
+  record(logger);
+  return logger.getLogPath();
+}
+
+describe("cohort analytics", () => {
+  let profilesDir: string;
+  let analytics: CohortAnalytics;
+
+  beforeAll(() => {
+    profilesDir = mkdtempSync(join(tmpdir(), "cohort-analytics-test-"));
+
+    // alice finishes everything, struggling with create-user
+    const alicePath = recordSession(profilesDir, "alice", (logger) => {
+      logger.logStepStarted("intro", "introduction");
+      logger.logStepCompleted("intro", "tutor", 30);
+      logger.logStepStarted("create-user", "task");
+      logger.logStudentAction("create-user", "execute_command", "useradd  bob", "failure", {
+        exit_code: 9,
+        error_message: "useradd: user 'bob' already exists",
+      });
+      logger.logHintRequested("create-user", 0, 2);
+      logger.logHintRequested("create-user", 1, 2);
+      logger.logCheckFailed("create-user", 1, "check.sh");
+      logger.logCheckFailed("create-user", 2, "check.sh");
+      logger.logCheckPassed("create-user", "check", "check.sh");
+      logger.logStepCompleted("create-user", "check", 300);
+      logger.logStepStarted("set-permissions", "task");
+      logger.logCheckPassed("set-permissions", "check", "check.sh");
+      logger.logStepCompleted("set-permissions", "check", 60);
+      logger.endSession("completed", 390);
+    });
+    // Archived twice by the progress updater: events must not be counted twice
+    copyFileSync(alicePath, join(profilesDir, "alice", "telemetry", "copy.jsonl"));
+
+    // bob gives up on create-user
+    recordSession(profilesDir, "bob", (logger) => {
+      logger.logStepStarted("intro", "introduction");
+      logger.logStepCompleted("intro", "tutor", 50);
+      logger.logStepStarted("create-user", "task");
+      logger.logStudentAction("create-user", "execute_command", "useradd bob", "failure", { exit_code: 9 });
+      logger.logStudentAction("create-user", "execute_command", "ls", "success", { exit_code: 0 });
+      logger.logCheckFailed("create-user", 1, "check.sh");
+      logger.logCheckFailed("create-user", 2, "check.sh");
+      logger.logCheckFailed("create-user", 3, "check.sh");
+      logger.endSession("abandoned", 200);
+    });
+
+    // carol only did another module
+    const carolPath = recordSession(profilesDir, "carol", (logger) => {
+      logger.logStepStarted("intro", "introduction");
+    }, "other-module");
+    appendFileSync(carolPath, "{broken\n");
+
+    const { sessions } = loadCohortSessions(MODULE, profilesDir);
+    analytics = computeCohortAnalytics(MODULE, sessions, { stepIds: STEPS, stepTitles: { "create-user": "Create a user" } });
+  });
+
+  afterAll(() => {
+    rmSync(profilesDir, { recursive: true, force: true });
+  });
+
+  test("loads only this module's sessions and reports malformed lines", () => {
+    const { sessions, errors } = loadCohortSessions(MODULE, profilesDir);
+
+    expect(sessions.map((s) => s.profileId).sort()).toEqual(["alice", "bob"]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].file).toContain(join("carol", "telemetry"));
+    expect(loadCohortSessions(MODULE, join(profilesDir, "missing")).sessions).toEqual([]);
+  });
+
+  test("builds the step funnel in module order", () => {
+    expect(analytics).toMatchObject({ students: 2, sessions: 2, completedSessions: 1 });
+    expect(analytics.steps.map((s) => [s.stepId, s.reached, s.completed])).toEqual([
+      ["intro", 2, 2],
+      ["create-user", 2, 1],
+      ["set-permissions", 1, 1],
+    ]);
+    expect(analytics.steps[1].completionRate).toBe(0.5);
+    expect(analytics.steps[2].funnelRate).toBe(0.5);
+  });
+
+  test("computes median time and hint usage", () => {
+    const [intro, createUser] = analytics.steps;
+
+    expect(intro.medianTimeSeconds).toBe(40);
+    expect(createUser.medianTimeSeconds).toBe(300);
+    expect(createUser.hintDistribution).toEqual({ 0: 1, 2: 1 });
+    expect(createUser.meanHints).toBe(1);
+  });
+
+  test("flags check_failed spikes and ranks failing commands", () => {
+    const createUser = analytics.steps[1];
+
+    expect(createUser.checkFailures).toBe(5);
+    expect(createUser.flags.some((f) => f.startsWith("check_failed spike"))).toBe(true);
+    expect(analytics.steps[0].flags).toEqual([]);
+    expect(analytics.failingCommands).toEqual([
+      {
+        action: "useradd bob",
+        count: 2,
+        sessions: 2,
+        stepIds: ["create-user"],
+        errorMessage: "useradd: user 'bob' already exists",
+      },
+    ]);
+  });
+
+  test("formats a text report", () => {
+    const report = formatCohortAnalytics(analytics);
+
+    expect(report).toContain("2 students, 2 sessions, 1 completed every step");
+    expect(report).toContain("create-user - Create a user");
+    expect(report).toContain("2× useradd bob [create-user] (2 sessions)");
+  });
+});
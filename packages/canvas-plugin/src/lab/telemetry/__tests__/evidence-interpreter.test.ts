@@ -9,8 +9,10 @@ import {
   generateScoreTrace,
   getAllScoreTraces,
   recomputeWithPreset,
+  interpretTaskEvidence,
 } from "../evidence-interpreter";
-import { SCORING_PRESETS } from "../scoring-presets";
+import { SCORING_PRESETS, createCustomPreset } from "../scoring-presets";
+import { getStepScoring } from "../../module-loader";
 import type {
   TelemetryEvent,
   HintRequestedEvent,
@@ -22,6 +24,7 @@ import type {
   QuestionAnsweredEvent,
   SessionStartedEvent,
   CommandExecutedEvent,
+  RubricItem,
 } from "../types";
 
 // Helper to create events with consistent fields
@@ -99,6 +102,17 @@ describe("aggregateEventsByStep", () => {
       expect(step1?.checkPassed).toBe(true);
     });
 
+    test("checks the tutor runs on demand are not retries", () => {
+      const onDemand = (requested_by: "student" | "tutor") => ({ requested_by, exit_code: 1, output: "" });
+      const events: TelemetryEvent[] = [
+        createEvent("check_failed", { step_id: "step-1", attempt_number: 1, on_demand: onDemand("tutor") }, "step-1"),
+        createEvent("check_failed", { step_id: "step-1", attempt_number: 2, on_demand: onDemand("student") }, "step-1"),
+        createEvent("check_passed", { step_id: "step-1", source: "check" }, "step-1"),
+      ];
+
+      expect(aggregateEventsByStep(events).get("step-1")?.checkAttempts).toBe(2);
+    });
+
     test("identifies first_try success", () => {
       const events: TelemetryEvent[] = [
         createEvent("check_passed", { step_id: "step-1", source: "command" }, "step-1"),
@@ -344,6 +358,29 @@ describe("interpretLabProgress", () => {
       expect(progress.overall_score).toBeCloseTo(0.9, 1);
     });
 
+    test("a regressed step no longer counts until it passes again", () => {
+      const events: TelemetryEvent[] = [
+        createEvent("check_passed", { step_id: "step-1", source: "check" }, "step-1"),
+        createEvent("check_passed", { step_id: "step-2", source: "check" }, "step-2"),
+        createEvent("step_regressed", { step_id: "step-1", source: "check", message: "no devuser" }, "step-1"),
+        createEvent("step_regressed", { step_id: "step-2", source: "check" }, "step-2"),
+        createEvent("check_passed", { step_id: "step-2", source: "check" }, "step-2"),
+      ];
+
+      const progress = interpretLabProgress({
+        events,
+        moduleId: "test-module",
+        studentId: "test-student",
+        sessionId: "sess-test0001",
+        stepIds: ["step-1", "step-2"],
+      });
+
+      expect(progress.tasks["step-1"].regressed).toBe(true);
+      expect(progress.tasks["step-2"].regressed).toBeUndefined();
+      expect(progress.completion_pct).toBe(50); // Only step-2 is complete
+      expect(progress.overall_score).toBe(progress.tasks["step-2"].confidence);
+    });
+
     test("calculates completion_pct (completed / total)", () => {
       const events: TelemetryEvent[] = [
         createEvent("check_passed", { step_id: "step-1", source: "check" }, "step-1"),
@@ -541,6 +578,35 @@ describe("Preset Replay", () => {
     expect(strictProgress.passed).toBe(false);
     expect(partialProgress.passed).toBe(true);
   });
+
+  test("accepts a custom preset object with per-step overrides", () => {
+    const events: TelemetryEvent[] = [
+      createEvent("hint_requested", { step_id: "step-1", hint_index: 0, total_hints: 1 }, "step-1"),
+      createEvent("check_passed", { step_id: "step-1", source: "check" }, "step-1"),
+      createEvent("hint_requested", { step_id: "step-2", hint_index: 0, total_hints: 1 }, "step-2"),
+      createEvent("check_passed", { step_id: "step-2", source: "check" }, "step-2"),
+    ];
+    const preset = createCustomPreset("partial_credit", {
+      id: "course-graded",
+      steps: { "step-2": { modifiers: { hint_penalty: 0.5 }, pass_threshold: 0.9 } },
+    });
+
+    const progress = recomputeWithPreset(
+      events,
+      {
+        moduleId: "test-module",
+        studentId: "test-student",
+        sessionId: "sess-test0001",
+        stepIds: ["step-1", "step-2"],
+      },
+      preset
+    );
+
+    expect(progress.scoring_preset_id).toBe("course-graded");
+    expect(progress.tasks["step-1"].confidence).toBeCloseTo(0.95, 5);
+    expect(progress.tasks["step-2"].confidence).toBeCloseTo(0.6, 5);
+    expect(progress.tasks["step-2"].passed).toBe(false);
+  });
 });
 
 describe("Score Traces", () => {
@@ -765,3 +831,273 @@ describe("Edge Cases", () => {
     expect(evidence.time_spent_seconds).toBe(150); // 2 minutes 30 seconds
   });
 });
+
+describe("Rubric Partial Credit", () => {
+  const rubrics: Record<string, RubricItem[]> = {
+    "create-user": [
+      { id: "user-created", description: "User created", weight: 50, task: 0 },
+      { id: "home-dir", description: "Home directory exists", weight: 25, task: 1 },
+      { id: "shell", description: "Shell set to bash", weight: 25, task: 2 },
+    ],
+  };
+
+  const partialEvents: TelemetryEvent[] = [
+    createEvent("step_started", { step_id: "create-user", step_type: "task" }, "create-user"),
+    createEvent("task_completed", { step_id: "create-user", task_index: 0, source: "check" }, "create-user"),
+    createEvent("task_completed", { step_id: "create-user", task_index: 1, source: "check" }, "create-user"),
+    createEvent("check_passed", { step_id: "intro", source: "check" }, "intro"),
+  ];
+
+  test("an unfinished step earns the credit of its satisfied items", () => {
+    const progress = interpretLabProgress({
+      events: partialEvents,
+      moduleId: "test-module",
+      studentId: "test-student",
+      sessionId: "sess-test0001",
+      stepIds: ["intro", "create-user"],
+      stepWeights: { "create-user": 3 },
+      rubrics,
+      presetId: "strict",
+    });
+
+    const task = progress.tasks["create-user"];
+    expect(task.weight).toBe(3);
+    expect(task.confidence).toBeCloseTo(0.75, 10);
+    expect(task.rubric?.map((r) => r.satisfied)).toEqual([true, true, false]);
+    // (1.0 × 1 + 0.75 × 3) / 4
+    expect(progress.overall_score).toBeCloseTo(0.8125, 10);
+    expect(progress.completion_pct).toBe(50);
+  });
+
+  test("score trace shows which rubric items contributed", () => {
+    const trace = generateScoreTrace(partialEvents, "create-user", "sess-test0001", "test-student", "strict", rubrics["create-user"]);
+
+    expect(trace?.base_score).toBeCloseTo(0.75, 10);
+    expect(trace?.rubric?.filter((r) => r.satisfied).map((r) => r.item_id)).toEqual(["user-created", "home-dir"]);
+    expect(trace?.explanation).toContain("2/3 rubric items met");
+    expect(trace?.source_events.map((e) => e.summary)).toContain("Task 1 done via check");
+  });
+
+  test("steps without a rubric keep binary scoring", () => {
+    const progress = interpretLabProgress({
+      events: partialEvents,
+      moduleId: "test-module",
+      studentId: "test-student",
+      sessionId: "sess-test0001",
+      stepIds: ["intro", "create-user"],
+      presetId: "strict",
+    });
+
+    expect(progress.tasks["create-user"].rubric).toBeUndefined();
+    expect(progress.overall_score).toBe(1.0);
+  });
+
+  test("shell-log-analysis capstone declares weights and a rubric", () => {
+    const { weights, rubrics } = getStepScoring("shell-log-analysis");
+    expect(weights["create-script"]).toBe(2);
+    expect(rubrics["create-script"].map((item) => item.task)).toEqual([0, 1, 2, 3]);
+  });
+});
+
+describe("Time Penalties", () => {
+  // Events stamped at fixed offsets (seconds) from a common start
+  const start = Date.UTC(2026, 0, 1, 9, 0, 0);
+  function at(seconds: number, event: TelemetryEvent): TelemetryEvent {
+    return { ...event, timestamp: new Date(start + seconds * 1000).toISOString() };
+  }
+
+  const slowEvents: TelemetryEvent[] = [
+    at(0, createEvent("session_started", { lab_type: "docker" })),
+    at(0, createEvent("step_started", { step_id: "setup", step_type: "task" }, "setup")),
+    at(600, createEvent("check_failed", { step_id: "setup", source: "check" }, "setup")),
+    at(1200, createEvent("check_passed", { step_id: "setup", source: "check" }, "setup")),
+    at(1200, createEvent("step_completed", { step_id: "setup", source: "check" }, "setup")),
+  ];
+
+  test("a step that overruns its expected time loses confidence", () => {
+    const options = {
+      events: slowEvents,
+      moduleId: "test-module",
+      studentId: "test-student",
+      sessionId: "sess-test0001",
+      stepIds: ["setup"],
+      presetId: "partial_credit",
+    };
+    const onTime = interpretLabProgress(options);
+    const late = interpretLabProgress({ ...options, expectedSeconds: { setup: 600 } });
+
+    const penalty = late.tasks.setup.modifiers.find((m) => m.kind === "time_penalty");
+    expect(penalty?.delta).toBeCloseTo(-0.1, 10);
+    expect(late.tasks.setup.confidence).toBeCloseTo(onTime.tasks.setup.confidence - 0.1, 10);
+  });
+
+  test("an overrun lab records a lab-level modifier", () => {
+    const progress = interpretLabProgress({
+      events: slowEvents,
+      moduleId: "test-module",
+      studentId: "test-student",
+      sessionId: "sess-test0001",
+      stepIds: ["setup"],
+      labExpectedSeconds: 800,
+      presetId: "partial_credit",
+    });
+
+    expect(progress.modifiers?.map((m) => m.kind)).toEqual(["time_penalty"]);
+    expect(progress.overall_score).toBeCloseTo(progress.tasks.setup.confidence - 0.05, 10);
+  });
+
+  test("shell-log-analysis declares expected durations", () => {
+    const { expectedSeconds, labExpectedSeconds } = getStepScoring("shell-log-analysis");
+    expect(expectedSeconds["create-script"]).toBe(600);
+    expect(labExpectedSeconds).toBe(2100);
+  });
+});
+
+describe("Score Overrides", () => {
+  const options = {
+    moduleId: "test-module",
+    studentId: "test-student",
+    sessionId: "sess-test0001",
+    stepIds: ["step-1", "step-2"],
+  };
+
+  function override(stepId: string, status: "completed" | "failed", confidence: number, reason: string): TelemetryEvent {
+    return createEvent("score_override", { step_id: stepId, status, confidence, reason, reviewer: "instructor" }, stepId);
+  }
+
+  test("an override replaces the computed status and score", () => {
+    const events: TelemetryEvent[] = [
+      createEvent("check_failed", { step_id: "step-1", attempt_number: 1 }, "step-1"),
+      createEvent("score_appeal", { step_id: "step-1" }, "step-1"),
+      override("step-1", "completed", 1.0, "check script misfired"),
+      createEvent("check_passed", { step_id: "step-2", source: "check" }, "step-2"),
+    ];
+
+    const progress = interpretLabProgress({ ...options, events });
+
+    expect(progress.tasks["step-1"].confidence).toBe(1.0);
+    expect(progress.tasks["step-1"].passed).toBe(true);
+    expect(progress.tasks["step-1"].override?.computed_confidence).toBeCloseTo(0.9, 5);
+    expect(progress.tasks["step-1"].override?.reason).toBe("check script misfired");
+    expect(progress.completion_pct).toBe(100);
+  });
+
+  test("the latest override wins and can fail a step", () => {
+    const events: TelemetryEvent[] = [
+      createEvent("check_passed", { step_id: "step-1", source: "tutor" }, "step-1"),
+      override("step-1", "completed", 0.8, "partial work"),
+      override("step-1", "failed", 0, "tutor marked it complete by mistake"),
+    ];
+
+    const progress = interpretLabProgress({ ...options, events });
+
+    expect(progress.tasks["step-1"].confidence).toBe(0);
+    expect(progress.tasks["step-1"].passed).toBe(false);
+    expect(progress.completion_pct).toBe(0);
+  });
+
+  test("score traces show the override and the appeal", () => {
+    const events: TelemetryEvent[] = [
+      createEvent("score_appeal", { step_id: "step-1", note: "ran it in the other terminal" }, "step-1"),
+      override("step-1", "completed", 0.9, "verified manually"),
+    ];
+
+    const trace = generateScoreTrace(events, "step-1", "sess-test0001", "test-student")!;
+
+    expect(trace.confidence).toBe(0.9);
+    expect(trace.override?.reviewer).toBe("instructor");
+    expect(trace.explanation).toContain("Overridden by instructor (verified manually)");
+    expect(trace.source_events.map((e) => e.summary)).toEqual([
+      "Student flagged for review: ran it in the other terminal",
+      "Score set to 90% (completed) by instructor: verified manually",
+    ]);
+  });
+});
+
+describe("Added Steps", () => {
+  test("steps the tutor added in the session are scored with the module's steps", () => {
+    const events: TelemetryEvent[] = [
+      createEvent("step_added", { step_id: "bonus", title: "Bonus", source: "tutor", weight: 3 }, "bonus"),
+      createEvent("step_added", { step_id: "other", title: "Other session", source: "tutor" }, "other", "sess-other"),
+      createEvent("check_passed", { step_id: "bonus", source: "check" }, "bonus"),
+      createEvent("step_completed", { step_id: "bonus", source: "check" }, "bonus"),
+    ];
+
+    const progress = interpretLabProgress({
+      events,
+      moduleId: "test-module",
+      studentId: "test-student",
+      sessionId: "sess-test0001",
+      stepIds: ["step-1"],
+    });
+
+    expect(Object.keys(progress.tasks)).toEqual(["step-1", "bonus"]);
+    expect(progress.tasks["bonus"].weight).toBe(3);
+    expect(progress.tasks["bonus"].passed).toBe(true);
+    expect(progress.completion_pct).toBe(50);
+  });
+});
+
+describe("Tutor Commands", () => {
+  const command = (payload: Record<string, unknown>) =>
+    createEvent("tutor_command", { status: "done", ...payload }, payload.step_id as string | undefined);
+
+  test("skipped steps no longer count and a switched preset scores the session", () => {
+    const events: TelemetryEvent[] = [
+      command({ command_id: "c1", command: "skipStep", step_id: "step-2" }),
+      command({ command_id: "c2", command: "skipStep", step_id: "step-1", status: "error" }),
+      command({ command_id: "c3", command: "setPreset", preset_id: "strict" }),
+      command({ command_id: "c4", command: "setPreset", preset_id: "no-such-preset" }),
+      createEvent("check_passed", { step_id: "step-1", source: "check" }, "step-1"),
+      createEvent("step_completed", { step_id: "step-1", source: "check" }, "step-1"),
+    ];
+    const options = {
+      events,
+      moduleId: "test-module",
+      studentId: "test-student",
+      sessionId: "sess-test0001",
+      stepIds: ["step-1", "step-2"],
+    };
+
+    const progress = interpretLabProgress(options);
+    expect(Object.keys(progress.tasks)).toEqual(["step-1"]);
+    expect(progress.completion_pct).toBe(100);
+    expect(progress.scoring_preset_id).toBe("strict");
+
+    expect(recomputeWithPreset(events, options, "practice_mode").scoring_preset_id).toBe("practice_mode");
+  });
+
+  test("a switched preset only scores the steps finished after the switch", () => {
+    const at = (event: TelemetryEvent, time: string): TelemetryEvent => ({ ...event, timestamp: `2024-01-01T${time}Z` });
+    const events: TelemetryEvent[] = [
+      at(createEvent("hint_requested", { step_id: "step-1", hint_index: 0, total_hints: 2 }, "step-1"), "10:00:00"),
+      at(createEvent("check_passed", { step_id: "step-1", source: "check" }, "step-1"), "10:01:00"),
+      at(command({ command_id: "c1", command: "setPreset", preset_id: "strict" }), "10:05:00"),
+      at(createEvent("hint_requested", { step_id: "step-2", hint_index: 0, total_hints: 2 }, "step-2"), "10:06:00"),
+      at(createEvent("check_passed", { step_id: "step-2", source: "check" }, "step-2"), "10:07:00"),
+    ];
+    const options = {
+      events,
+      moduleId: "test-module",
+      studentId: "test-student",
+      sessionId: "sess-test0001",
+      stepIds: ["step-1", "step-2"],
+    };
+
+    const progress = interpretLabProgress(options);
+    const partial = recomputeWithPreset(events, options, "partial_credit");
+    const strict = recomputeWithPreset(events, options, "strict");
+
+    expect(progress.tasks["step-1"].confidence).toBe(partial.tasks["step-1"].confidence);
+    expect(progress.tasks["step-1"].passed).toBe(true);
+    expect(progress.tasks["step-2"].confidence).toBe(strict.tasks["step-2"].confidence);
+    expect(progress.tasks["step-2"].passed).toBe(false);
+    expect(progress.scoring_preset_id).toBe("strict");
+
+    const evidence = interpretTaskEvidence(options);
+    expect(evidence.map((e) => e.confidence)).toEqual([
+      partial.tasks["step-1"].confidence,
+      strict.tasks["step-2"].confidence,
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+// Gap Detector Tests
+// Template parsing and per-step condition evaluation over an event stream
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createEventLogger, type EventLogger } from "../event-logger";
+import { createGapDetector, parseGapTemplates, mergeGapTemplates, type GapDetector } from "../gap-detector";
+import type { DetectedGap, GapTemplate } from "../types";
+
+const templates: GapTemplate[] = [
+  { id: "hints", condition: { type: "hint_overuse", min_hints: 2 }, message: "Many hints", severity: "info" },
+  { id: "retries", condition: { type: "retry_overuse", min_retries: 3 }, message: "Stuck", severity: "warning" },
+  { id: "solution", condition: { type: "solution_viewed" }, message: "Peeked", severity: "critical", skill_id: "users" },
+  { id: "slow", condition: { type: "time_exceeded", max_seconds: 60 }, message: "Slow", severity: "info" },
+  { id: "perm", condition: { type: "check_pattern", pattern: "[Pp]ermission denied" }, message: "Needs sudo", severity: "warning", steps: ["create-user"] },
+];
+
+describe("parseGapTemplates()", () => {
+  test("accepts valid templates and warns about invalid ones", () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+    const parsed = parseGapTemplates(
+      [
+        { id: "a", message: "m", condition: { type: "hint_overuse", min_hints: 2 } },
+        { id: "b", message: "m", condition: { type: "retry_overuse" } },
+        { id: "c", message: "m", condition: { type: "check_pattern", pattern: "(" } },
+        { id: "d", message: "m", severity: "fatal", condition: { type: "solution_viewed" } },
+        { message: "no id" },
+      ],
+      "Module 'demo'"
+    );
+    const warnings = warn.mock.calls.map((call) => String(call[0]));
+    warn.mockRestore();
+
+    expect(parsed).toEqual([
+      { id: "a", message: "m", severity: "warning", condition: { type: "hint_overuse", min_hints: 2 }, skill_id: undefined, steps: undefined },
+    ]);
+    expect(warnings).toHaveLength(4);
+    expect(warnings[0]).toBe("Module 'demo': gap 'b' needs a positive 'min_retries'");
+  });
+
+  test("module templates replace course templates with the same id", () => {
+    const course = [templates[0], templates[1]];
+    const module = [{ ...templates[0], message: "Module-specific" }];
+    expect(mergeGapTemplates(course, module).map((t) => t.message)).toEqual(["Module-specific", "Stuck"]);
+  });
+});
+
+describe("createGapDetector()", () => {
+  let logDir: string;
+  let logger: EventLogger;
+  let detector: GapDetector;
+  let gaps: DetectedGap[];
+
+  beforeEach(() => {
+    logDir = mkdtempSync(join(tmpdir(), "gap-detector-test-"));
+    gaps = [];
+    detector = createGapDetector({ templates, studentId: "alice", sessionId: "sess-1", onGap: (gap) => gaps.push(gap) });
+    logger = createEventLogger({
+      logDir,
+      moduleId: "linux-basics",
+      studentId: "alice",
+      sessionId: "sess-1",
+      onEvent: (event) => detector.processEvent(event),
+    });
+    logger.startSession(1);
+  });
+
+  afterEach(() => {
+    rmSync(logDir, { recursive: true, force: true });
+  });
+
+  test("fires hint, retry and solution templates once per step", () => {
+    logger.logStepStarted("create-user", "task");
+    logger.logHintRequested("create-user", 0, 3);
+    expect(gaps).toHaveLength(0);
+
+    logger.logHintRequested("create-user", 1, 3);
+    logger.logHintRequested("create-user", 2, 3);
+    logger.logCheckFailed("create-user", 1);
+    logger.logCheckFailed("create-user", 2);
+    logger.logStudentAction("", "execute_command", "useradd bob", "failure", { exit_code: 9 });
+    logger.logSolutionViewed("create-user");
+
+    expect(gaps.map((g) => g.template_id)).toEqual(["hints", "retries", "solution"]);
+    expect(gaps[2]).toMatchObject({ step_id: "create-user", student_id: "alice", session_id: "sess-1", skill_id: "users" });
+  });
+
+  test("matches check_pattern against failures, only on listed steps", () => {
+    logger.logStepStarted("intro", "introduction");
+    logger.logStudentAction("", "execute_command", "cat /etc/shadow", "failure", { error_message: "Permission denied" });
+    expect(gaps).toHaveLength(0);
+
+    logger.logStepStarted("create-user", "task");
+    logger.logCheckFailed("create-user", 1, "check.sh", "useradd: Permission denied");
+    expect(gaps.map((g) => [g.template_id, g.step_id])).toEqual([["perm", "create-user"]]);
+  });
+
+  test("time_exceeded fires on tick for unfinished steps", () => {
+    logger.logStepStarted("create-user", "task");
+    logger.logStepStarted("intro", "introduction");
+    logger.logStepCompleted("intro", "tutor");
+
+    expect(detector.tick(Date.now() + 30_000)).toEqual([]);
+    expect(detector.tick(Date.now() + 61_000).map((g) => g.step_id)).toEqual(["create-user"]);
+    expect(detector.tick(Date.now() + 120_000)).toEqual([]);
+    expect(detector.getDetectedGaps()).toHaveLength(1);
+  });
+});
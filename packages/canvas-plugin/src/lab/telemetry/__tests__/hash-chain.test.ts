@@ -0,0 +1,71 @@
+// Hash Chain Tests
+// Tests for chained exam telemetry and tamper detection
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, readFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createEventLogger, readTelemetryFile } from "../event-logger";
+import { verifyTelemetryChain, getChainHead, GENESIS_HASH } from "../hash-chain";
+
+describe("Telemetry hash chain", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "hash-chain-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function writeSession(): string {
+    const logger = createEventLogger({ logDir: tempDir, moduleId: "test-module", studentId: "s1", hashChain: true });
+    logger.startSession(1);
+    logger.logStepStarted("step-1", "task");
+    logger.logCheckPassed("step-1", "check");
+    logger.endSession("completed", 60);
+    return readFileSync(logger.getLogPath(), "utf-8");
+  }
+
+  test("chained events verify and still parse as telemetry", () => {
+    const content = writeSession();
+    const result = verifyTelemetryChain(content);
+
+    expect(result).toMatchObject({ valid: true, eventCount: 4, errors: [] });
+    expect(result.headHash).toBe(getChainHead(content));
+    expect(readTelemetryFile(join(tempDir, "telemetry.jsonl"))[0].prev_hash).toBe(GENESIS_HASH);
+  });
+
+  test("detects modified, removed and reordered lines", () => {
+    const lines = writeSession().trim().split("\n");
+
+    const modified = [...lines];
+    modified[2] = modified[2].replace('"step-1"', '"step-2"');
+    expect(verifyTelemetryChain(modified.join("\n")).errors).toEqual([
+      { line: 3, message: "hash does not match the event contents (event modified)" },
+    ]);
+
+    const removed = lines.filter((_, i) => i !== 1);
+    expect(verifyTelemetryChain(removed.join("\n")).errors[0].line).toBe(2);
+
+    const reordered = [lines[0], lines[2], lines[1], lines[3]];
+    expect(verifyTelemetryChain(reordered.join("\n")).valid).toBe(false);
+  });
+
+  test("unchained lines break the chain", () => {
+    const logger = createEventLogger({ logDir: tempDir, moduleId: "test-module", studentId: "s1" });
+    logger.startSession(1);
+
+    const result = verifyTelemetryChain(readFileSync(logger.getLogPath(), "utf-8"));
+    expect(result.errors).toEqual([{ line: 1, message: "event is not part of the hash chain" }]);
+  });
+
+  test("a restarted logger continues the existing chain", () => {
+    writeSession();
+    const logger = createEventLogger({ logDir: tempDir, moduleId: "test-module", studentId: "s1", hashChain: true });
+    logger.startSession(2);
+
+    expect(verifyTelemetryChain(readFileSync(logger.getLogPath(), "utf-8"))).toMatchObject({ valid: true, eventCount: 5 });
+  });
+});
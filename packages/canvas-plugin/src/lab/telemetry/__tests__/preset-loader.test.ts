@@ -0,0 +1,112 @@
+// Scoring Preset Loader Tests
+// Tests for preset YAML validation, file loading, and course/module preset references
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { parseScoringPreset, loadScoringPresetFile, resolveScoringPreset } from "../preset-loader";
+import { SCORING_PRESETS, getPreset, _clearRegisteredPresets } from "../scoring-presets";
+import { getCourseScoringPreset } from "../../../curriculum/course-loader";
+
+describe("parseScoringPreset", () => {
+  let warn: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    warn = spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  test("extends the base preset with the fields given", () => {
+    const preset = parseScoringPreset(
+      {
+        id: "graded",
+        extends: "practice_mode",
+        modifiers: { hint_penalty: 0.2 },
+        pass_threshold: 0.6,
+        bonuses: [{ when: "no_hints", bonus: 0.05 }],
+        steps: { capstone: { pass_threshold: 0.9 } },
+      },
+      "test"
+    )!;
+
+    expect(preset.id).toBe("graded");
+    expect(preset.modifiers.hint_penalty).toBe(0.2);
+    expect(preset.modifiers.solution_penalty).toBe(SCORING_PRESETS.practice_mode.modifiers.solution_penalty);
+    expect(preset.min_confidence).toBe(SCORING_PRESETS.practice_mode.min_confidence);
+    expect(preset.pass_threshold).toBe(0.6);
+    expect(preset.bonuses).toEqual([{ when: "no_hints", bonus: 0.05, note: undefined }]);
+    expect(preset.steps?.capstone.pass_threshold).toBe(0.9);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  test("rejects presets without a valid id or redefining a built-in", () => {
+    expect(parseScoringPreset({ name: "No id" }, "test")).toBeNull();
+    expect(parseScoringPreset({ id: "Has Spaces" }, "test")).toBeNull();
+    expect(parseScoringPreset({ id: "strict" }, "test")).toBeNull();
+    expect(parseScoringPreset("graded", "test")).toBeNull();
+    expect(warn).toHaveBeenCalledTimes(4);
+  });
+
+  test("warns about and skips invalid fields", () => {
+    const preset = parseScoringPreset(
+      {
+        id: "sloppy",
+        extends: "nonexistent",
+        modifiers: { hint_penalty: 2, speed_bonus: 0.1 },
+        pass_threshold: "high",
+        bonuses: [{ when: "always", bonus: 0.1 }, { when: "no_retries", bonus: 0 }],
+      },
+      "test"
+    )!;
+
+    expect(preset.modifiers).toEqual(SCORING_PRESETS.partial_credit.modifiers);
+    expect(preset.pass_threshold).toBe(SCORING_PRESETS.partial_credit.pass_threshold);
+    expect(preset.bonuses).toEqual([]);
+    expect(warn).toHaveBeenCalledTimes(6);
+  });
+});
+
+describe("preset files", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "preset-loader-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+    _clearRegisteredPresets();
+  });
+
+  test("loading a file registers the preset by ID", () => {
+    writeFileSync(join(tempDir, "graded.yaml"), "id: graded\npass_threshold: 0.8\n");
+
+    const preset = loadScoringPresetFile(join(tempDir, "graded.yaml"));
+    expect(preset?.pass_threshold).toBe(0.8);
+    expect(getPreset("graded")).toBe(preset!);
+  });
+
+  test("resolveScoringPreset accepts IDs and relative file paths", () => {
+    writeFileSync(join(tempDir, "graded.yaml"), "id: graded\n");
+
+    expect(resolveScoringPreset("strict")).toBe(SCORING_PRESETS.strict);
+    expect(resolveScoringPreset("graded.yaml", tempDir)?.id).toBe("graded");
+
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+    expect(resolveScoringPreset("missing.yaml", tempDir)).toBeNull();
+    expect(resolveScoringPreset("no-such-preset")).toBeNull();
+    warn.mockRestore();
+  });
+
+  test("shell-mastery references its preset from course.yaml", () => {
+    const preset = getCourseScoringPreset("shell-mastery");
+    expect(preset?.id).toBe("shell-graded");
+    expect(preset?.pass_threshold).toBe(0.75);
+    expect(preset?.steps?.["create-script"].modifiers?.solution_penalty).toBe(0.5);
+    expect(getCourseScoringPreset("python-mastery")).toBeNull();
+  });
+});
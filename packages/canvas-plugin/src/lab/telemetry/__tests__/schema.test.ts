@@ -0,0 +1,140 @@
+// Telemetry Schema Tests
+// Line validation, version migrations, and reading historical fixtures
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync, readFileSync, existsSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createEventLogger, readTelemetryFile, migrateTelemetryFile } from "../event-logger";
+import { parseTelemetry, TelemetryValidationError } from "../schema";
+import { interpretLabProgress } from "../evidence-interpreter";
+import { TELEMETRY_SCHEMA_VERSION, type StudentActionEvent } from "../types";
+
+const FIXTURE = join(import.meta.dir, "../../../../test-fixtures/baseline-2026-02-12/telemetry.jsonl");
+
+const base = {
+  timestamp: "2026-01-05T10:00:00.000Z",
+  session_id: "sess-old",
+  module_id: "linux-user-management",
+  student_id: "alice",
+};
+
+// Unversioned (v1) lines, from before lab_type and student_action
+const v1Lines = [
+  { ...base, event_id: "evt-1", event_type: "session_started", payload: { attempt_number: 1 } },
+  { ...base, event_id: "evt-2", event_type: "command_executed", payload: { command: "sudo su", exit_code: 0 } },
+  { ...base, event_id: "evt-3", event_type: "command_executed", payload: { command: "useradd x", exit_code: 9, cwd: "/root" } },
+].map((event) => JSON.stringify(event));
+
+describe("parseTelemetry()", () => {
+  test("reports malformed lines with line numbers and keeps the rest", () => {
+    const content = [
+      v1Lines[0],
+      "{not json",
+      JSON.stringify({ ...base, event_id: "evt-4", event_type: "hint_requested", payload: { step_id: "s" } }),
+      "",
+      JSON.stringify({ ...base, event_id: "evt-5", event_type: "teleported", payload: {} }),
+      JSON.stringify({ ...base, schema_version: 99, event_id: "evt-6", event_type: "session_started", payload: {} }),
+    ].join("\n");
+
+    const { events, errors } = parseTelemetry(content);
+
+    expect(events).toHaveLength(1);
+    expect(errors.map((e) => e.line)).toEqual([2, 3, 5, 6]);
+    expect(errors[0].message).toContain("invalid JSON");
+    expect(errors[1].message).toBe("payload.hint_index must be a number; payload.total_hints must be a number");
+    expect(errors[2].message).toContain("unknown event_type");
+    expect(errors[3].message).toContain("newer than supported");
+  });
+
+  test("requires lab_type from schema version 2", () => {
+    const line = JSON.stringify({ ...base, schema_version: 2, event_id: "e", event_type: "session_started", payload: { attempt_number: 1 } });
+    expect(parseTelemetry(line).errors[0].message).toBe("lab_type must be a string");
+  });
+});
+
+describe("v1 → v2 migration", () => {
+  test("stamps the version and defaults lab_type", () => {
+    const { events, migratedCount } = parseTelemetry(v1Lines.join("\n"));
+
+    expect(migratedCount).toBe(3);
+    expect(events.every((e) => e.schema_version === TELEMETRY_SCHEMA_VERSION)).toBe(true);
+    expect(events.every((e) => "lab_type" in e && e.lab_type === "linux_cli")).toBe(true);
+  });
+
+  test("converts standalone command_executed events to student_action", () => {
+    const { events } = parseTelemetry(v1Lines.join("\n"));
+    const failed = events[2] as StudentActionEvent;
+
+    expect(events.map((e) => e.event_type)).toEqual(["session_started", "student_action", "student_action"]);
+    expect(failed.event_id).toBe("evt-3");
+    expect(failed.payload).toMatchObject({ action_kind: "execute_command", action: "useradd x", result: "failure", exit_code: 9 });
+    expect(failed.payload.evidence).toMatchObject({ cwd: "/root", migrated_from: "command_executed" });
+  });
+
+  test("keeps dual-written command_executed events alongside their student_action", () => {
+    const action = { ...base, event_id: "evt-a", lab_type: "linux_cli", event_type: "student_action", payload: { action_kind: "execute_command", action: "ls", result: "success", evidence: {} } };
+    const legacy = { ...base, event_id: "evt-b", lab_type: "linux_cli", event_type: "command_executed", payload: { command: "ls" } };
+
+    const { events } = parseTelemetry([action, legacy].map((e) => JSON.stringify(e)).join("\n"));
+
+    expect(events.map((e) => e.event_type)).toEqual(["student_action", "command_executed"]);
+  });
+});
+
+describe("baseline fixtures", () => {
+  test("historical telemetry stays readable and interpretable", () => {
+    const events = readTelemetryFile(FIXTURE);
+    expect(events).toHaveLength(38);
+
+    const progress = interpretLabProgress({
+      events,
+      moduleId: "linux-user-management",
+      studentId: "eval-baseline",
+      sessionId: "sess-26fa2e2b",
+      stepIds: ["become-root", "create-user", "set-permissions", "add-to-group"],
+    });
+    expect(progress.completion_pct).toBe(100);
+  });
+});
+
+describe("telemetry files", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "telemetry-schema-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test("new events carry the current schema version", () => {
+    const logger = createEventLogger({ logDir: tempDir, moduleId: "m", studentId: "s" });
+    logger.startSession(1);
+
+    const [line] = readFileSync(logger.getLogPath(), "utf-8").trim().split("\n");
+    expect(JSON.parse(line).schema_version).toBe(TELEMETRY_SCHEMA_VERSION);
+  });
+
+  test("readTelemetryFile throws a line-numbered report for malformed files", () => {
+    const path = join(tempDir, "telemetry.jsonl");
+    writeFileSync(path, [v1Lines[0], "garbage"].join("\n") + "\n");
+
+    expect(() => readTelemetryFile(path)).toThrow(TelemetryValidationError);
+    expect(() => readTelemetryFile(path)).toThrow(`${path}:2: invalid JSON`);
+  });
+
+  test("migrateTelemetryFile upgrades in place and keeps a backup", () => {
+    const path = join(tempDir, "telemetry.jsonl");
+    writeFileSync(path, v1Lines.join("\n") + "\n");
+
+    expect(migrateTelemetryFile(path, { dryRun: true }).migratedCount).toBe(3);
+    expect(existsSync(`${path}.bak`)).toBe(false);
+
+    migrateTelemetryFile(path);
+    expect(readFileSync(`${path}.bak`, "utf-8")).toBe(v1Lines.join("\n") + "\n");
+    expect(parseTelemetry(readFileSync(path, "utf-8")).migratedCount).toBe(0);
+    expect(migrateTelemetryFile(path).migratedCount).toBe(0);
+  });
+});
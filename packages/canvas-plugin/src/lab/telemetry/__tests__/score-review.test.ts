@@ -0,0 +1,88 @@
+// Score Review Tests
+// Tests for appeal tracking, override recording, and profile review summaries
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, mkdirSync, rmSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createEventLogger, readTelemetryFile } from "../event-logger";
+import { verifyTelemetryChain } from "../hash-chain";
+import {
+  listScoreAppeals,
+  findSessionTelemetryFiles,
+  recordScoreOverride,
+  loadProfileScoreReviews,
+} from "../score-review";
+
+describe("Score review", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "score-review-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function writeSession(logDir: string, hashChain = false) {
+    const logger = createEventLogger({ logDir, moduleId: "test-module", studentId: "s1", hashChain });
+    logger.startSession(1);
+    logger.logCheckFailed("step-1", 1);
+    logger.logScoreAppeal("step-1", "it works for me");
+    logger.logScoreAppeal("step-2");
+    return { sessionId: logger.getSessionId(), path: logger.getLogPath() };
+  }
+
+  function override(stepId: string) {
+    return { step_id: stepId, status: "completed" as const, confidence: 1, reason: "check misfired", reviewer: "ta" };
+  }
+
+  test("an override answers earlier appeals for its step and session", () => {
+    const logDir = join(tempDir, "lab");
+    const { sessionId, path } = writeSession(logDir);
+    const session = { sessionId, moduleId: "test-module", studentId: "s1", labType: "linux_cli" as const };
+
+    const event = recordScoreOverride([path], session, override("step-1"));
+    const appeals = listScoreAppeals(readTelemetryFile(path));
+
+    expect(appeals.map((a) => [a.step_id, a.resolved_by])).toEqual([
+      ["step-1", event.event_id],
+      ["step-2", undefined],
+    ]);
+    expect(appeals[0].note).toBe("it works for me");
+  });
+
+  test("overrides keep exam telemetry chained", () => {
+    const logDir = join(tempDir, "lab");
+    const { sessionId, path } = writeSession(logDir, true);
+
+    recordScoreOverride([path], { sessionId, moduleId: "test-module", studentId: "s1", labType: "linux_cli" }, override("step-1"));
+
+    const chain = verifyTelemetryChain(readFileSync(path, "utf-8"));
+    expect(chain.valid).toBe(true);
+    expect(chain.eventCount).toBe(5);
+  });
+
+  test("finds the session in the log dir and profile archives, and summarizes a profile", () => {
+    const logDir = join(tempDir, "lab");
+    const profilesDir = join(tempDir, "profiles");
+    const archiveDir = join(profilesDir, "s1", "telemetry");
+    const { sessionId, path } = writeSession(logDir);
+    mkdirSync(archiveDir, { recursive: true });
+    writeFileSync(join(archiveDir, "test-module-1.jsonl"), readFileSync(path, "utf-8"));
+    writeFileSync(join(archiveDir, "other-module-2.jsonl"), "{not json\n");
+
+    const paths = findSessionTelemetryFiles(sessionId, { logDir, profilesDir });
+    expect(paths).toEqual([path, join(archiveDir, "test-module-1.jsonl")]);
+
+    recordScoreOverride(paths, { sessionId, moduleId: "test-module", studentId: "s1", labType: "linux_cli" }, override("step-2"));
+
+    const reviews = loadProfileScoreReviews(archiveDir);
+    expect(reviews.overrides).toHaveLength(1);
+    expect(reviews.appeals).toHaveLength(2);
+    expect(reviews.pendingAppeals.map((a) => a.step_id)).toEqual(["step-1"]);
+    expect(reviews.errors).toHaveLength(1);
+    expect(reviews.errors[0]).toMatchObject({ file: join(archiveDir, "other-module-2.jsonl"), line: 1 });
+  });
+});
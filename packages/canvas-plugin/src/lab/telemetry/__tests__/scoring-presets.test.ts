@@ -14,7 +14,15 @@ import {
   getScoreColor,
   explainScore,
   createCustomPreset,
+  calculateRubricScore,
+  parseRubric,
+  calculateTimePenalty,
+  resolveStepPreset,
+  registerPreset,
+  hasPreset,
+  _clearRegisteredPresets,
 } from "../scoring-presets";
+import type { RubricItem } from "../types";
 
 describe("Scoring Presets", () => {
   describe("Strict Mode", () => {
@@ -448,3 +456,126 @@ describe("Edge Cases", () => {
     expect(result.modifiers.some((m) => m.kind === "first_try_bonus")).toBe(false);
   });
 });
+
+describe("Rubrics", () => {
+  const rubric: RubricItem[] = [
+    { id: "user-created", description: "User created", weight: 50, task: 0 },
+    { id: "home-dir", description: "Home directory exists", weight: 25, task: 1 },
+    { id: "shell", description: "Shell set to bash", weight: 25, task: 2 },
+  ];
+
+  test("credits the weight share of completed tasks", () => {
+    const { score, results } = calculateRubricScore(rubric, [0, 2], false);
+    expect(score).toBeCloseTo(0.75, 10);
+    expect(results.map((r) => r.satisfied)).toEqual([true, false, true]);
+    expect(results[1].contribution).toBe(0);
+  });
+
+  test("a passed step satisfies every item", () => {
+    expect(calculateRubricScore(rubric, [], true).score).toBeCloseTo(1.0, 10);
+  });
+
+  test("calculateConfidence starts from the rubric score and floors at it", () => {
+    const preset = SCORING_PRESETS.practice_mode;
+    expect(calculateConfidence(preset, 0, false, 0, false, 0.5).confidence).toBeCloseTo(0.5, 10);
+    // The 50% floor never lifts a step above the credit it earned
+    expect(calculateConfidence(preset, 1, false, 0, false, 0.25).confidence).toBeCloseTo(0.25, 10);
+    expect(calculateConfidence(preset, 0, false, 0, false, 0).confidence).toBe(0);
+  });
+
+  test("parseRubric skips malformed items with a warning", () => {
+    const warn = console.warn;
+    const warnings: string[] = [];
+    console.warn = (message: string) => warnings.push(message);
+    try {
+      const items = parseRubric(
+        [
+          { id: "ok", weight: 1, task: 0 },
+          { id: "ok", weight: 1 },
+          { id: "no-weight" },
+          { id: "bad-task", weight: 1, task: 3 },
+        ],
+        "Step 'create-user'",
+        2
+      );
+      expect(items).toEqual([{ id: "ok", description: "ok", weight: 1, task: 0 }]);
+      expect(warnings.length).toBe(3);
+    } finally {
+      console.warn = warn;
+    }
+  });
+});
+
+describe("Time Penalty", () => {
+  test("scales from nothing at the expected time to the full penalty at twice it", () => {
+    const preset = SCORING_PRESETS.partial_credit;
+    expect(calculateTimePenalty(preset, 600, 600)).toBeNull();
+    expect(calculateTimePenalty(preset, 900, 600)?.delta).toBeCloseTo(-0.05, 10);
+    expect(calculateTimePenalty(preset, 3600, 600)?.delta).toBeCloseTo(-0.1, 10);
+    expect(calculateTimePenalty(preset, 900, 600)?.note).toBe("Took 15m 0s (expected 10m 0s)");
+  });
+
+  test("presets without a time penalty ignore overruns", () => {
+    expect(calculateTimePenalty(SCORING_PRESETS.strict, 3600, 600)).toBeNull();
+    expect(calculateTimePenalty(SCORING_PRESETS.practice_mode, 3600, 600)).toBeNull();
+  });
+
+  test("calculateConfidence applies the penalty as a modifier", () => {
+    const { confidence, modifiers } = calculateConfidence(SCORING_PRESETS.partial_credit, 0, false, 0, false, 1.0, {
+      spentSeconds: 1200,
+      expectedSeconds: 600,
+    });
+    expect(modifiers.map((m) => m.kind)).toEqual(["time_penalty"]);
+    expect(confidence).toBeCloseTo(0.9, 10);
+  });
+});
+
+describe("Bonus Rules and Step Overrides", () => {
+  const preset = createCustomPreset("partial_credit", {
+    id: "bonus-test",
+    bonuses: [
+      { when: "no_hints", bonus: 0.05 },
+      { when: "under_time", bonus: 0.05, note: "Quick work" },
+    ],
+    steps: { capstone: { modifiers: { hint_penalty: 0.3 }, pass_threshold: 0.9, bonuses: [] } },
+  });
+
+  test("bonus rules apply when their condition holds on a completed step", () => {
+    const timing = { spentSeconds: 30, expectedSeconds: 60 };
+    const { confidence, modifiers } = calculateConfidence(preset, 0, false, 1, false, 1.0, timing);
+
+    // 1.0 - 0.1 retry + 0.05 no hints + 0.05 under time
+    expect(confidence).toBeCloseTo(1.0, 10);
+    expect(modifiers.filter((m) => m.kind === "bonus").map((m) => m.note)).toEqual([
+      "Completed without hints",
+      "Quick work",
+    ]);
+  });
+
+  test("bonus rules skip unfinished steps and unmet conditions", () => {
+    expect(calculateConfidence(preset, 1, false, 0, false).modifiers.some((m) => m.kind === "bonus")).toBe(false);
+    const unfinished = calculateConfidence(preset, 0, false, 0, false, 0.5, undefined, false);
+    expect(unfinished.confidence).toBeCloseTo(0.5, 10);
+    expect(unfinished.modifiers).toEqual([]);
+  });
+
+  test("resolveStepPreset merges the step's override", () => {
+    const capstone = resolveStepPreset(preset, "capstone");
+    expect(capstone.modifiers.hint_penalty).toBe(0.3);
+    expect(capstone.modifiers.retry_penalty).toBe(0.1);
+    expect(capstone.pass_threshold).toBe(0.9);
+    expect(capstone.bonuses).toEqual([]);
+    expect(resolveStepPreset(preset, "other")).toBe(preset);
+  });
+
+  test("registered presets are found by ID, built-ins cannot be replaced", () => {
+    registerPreset(preset);
+    expect(hasPreset("bonus-test")).toBe(true);
+    expect(getPreset("bonus-test")).toBe(preset);
+    expect(listPresetIds()).toContain("bonus-test");
+    expect(() => registerPreset({ ...preset, id: "strict" })).toThrow();
+
+    _clearRegisteredPresets();
+    expect(getPreset("bonus-test").id).toBe("partial_credit");
+  });
+});
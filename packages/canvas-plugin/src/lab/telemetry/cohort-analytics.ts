@@ -0,0 +1,349 @@
+// Cohort Analytics
+// Aggregates every student's sessions of a module to find steps that need rewriting
+
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import type {
+  TelemetryEvent,
+  StudentActionEvent,
+  StepCompletedEvent,
+} from "./types";
+import { aggregateEventsByStep } from "./evidence-interpreter";
+import { parseTelemetry, type TelemetryLineError } from "./schema";
+import { PROFILES_DIR } from "../../tutor/defaults";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One lab session of one student
+ */
+export interface CohortSession {
+  profileId: string;
+  sessionId: string;
+  studentId: string;
+  events: TelemetryEvent[];
+}
+
+export interface StepAnalytics {
+  stepId: string;
+  title?: string;
+  reached: number;               // Sessions that started (or completed) the step
+  completed: number;             // Sessions that completed the step
+  completionRate: number;        // completed / reached (0-1)
+  funnelRate: number;            // completed / all sessions (0-1)
+  medianTimeSeconds: number | null;
+  hintDistribution: Record<number, number>;  // Hints revealed → number of sessions
+  meanHints: number;
+  checkFailures: number;         // Total check_failed events
+  checkFailuresPerSession: number;  // Per session that reached the step
+  flags: string[];               // Why the step looks badly written
+}
+
+export interface FailingCommand {
+  action: string;
+  count: number;
+  sessions: number;
+  stepIds: string[];
+  errorMessage?: string;  // Most recent error seen for this command
+}
+
+export interface CohortAnalytics {
+  moduleId: string;
+  students: number;
+  sessions: number;
+  completedSessions: number;  // Sessions that completed every step
+  steps: StepAnalytics[];
+  failingCommands: FailingCommand[];
+}
+
+export interface CohortAnalyticsOptions {
+  stepIds: string[];                    // Module steps, in order
+  stepTitles?: Record<string, string>;
+  topCommands?: number;                 // Failing commands to keep (default: 10)
+}
+
+// A step's check_failed rate must be this many times the cohort median to be flagged
+const CHECK_FAILED_SPIKE_FACTOR = 2;
+// Flag steps that fewer than this share of the students who reach them complete
+const LOW_COMPLETION_RATE = 0.5;
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Load a module's sessions from every profile's archived telemetry
+ * (<profiles>/<id>/telemetry/*.jsonl). Malformed lines are returned, not dropped.
+ */
+export function loadCohortSessions(
+  moduleId: string,
+  profilesDir: string = PROFILES_DIR
+): { sessions: CohortSession[]; errors: Array<TelemetryLineError & { file: string }> } {
+  const sessions = new Map<string, CohortSession>();
+  const errors: Array<TelemetryLineError & { file: string }> = [];
+  const seenEventIds = new Set<string>();
+
+  if (!existsSync(profilesDir)) {
+    return { sessions: [], errors };
+  }
+
+  for (const profileId of readdirSync(profilesDir).sort()) {
+    // Same layout as getTelemetryDir(), rooted at profilesDir
+    const telemetryDir = join(profilesDir, profileId, "telemetry");
+    if (!existsSync(telemetryDir)) {
+      continue;
+    }
+
+    for (const file of readdirSync(telemetryDir).filter((f) => f.endsWith(".jsonl")).sort()) {
+      const path = join(telemetryDir, file);
+      const result = parseTelemetry(readFileSync(path, "utf-8"));
+      errors.push(...result.errors.map((error) => ({ ...error, file: path })));
+
+      for (const event of result.events) {
+        if (event.event_type === "tutor_utterance" || event.module_id !== moduleId) {
+          continue;
+        }
+        // The same session can be archived more than once
+        if (seenEventIds.has(event.event_id)) {
+          continue;
+        }
+        seenEventIds.add(event.event_id);
+
+        let session = sessions.get(event.session_id);
+        if (!session) {
+          session = { profileId, sessionId: event.session_id, studentId: event.student_id, events: [] };
+          sessions.set(event.session_id, session);
+        }
+        session.events.push(event);
+      }
+    }
+  }
+
+  return { sessions: [...sessions.values()], errors };
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function normalizeAction(action: string): string {
+  return action.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Aggregate sessions into per-step funnels, timing, hint usage and failure hot spots
+ */
+export function computeCohortAnalytics(
+  moduleId: string,
+  sessions: CohortSession[],
+  options: CohortAnalyticsOptions
+): CohortAnalytics {
+  const { stepIds, stepTitles = {}, topCommands = 10 } = options;
+
+  const steps = new Map<string, StepAnalytics & { times: number[]; hints: number[] }>();
+  for (const stepId of stepIds) {
+    steps.set(stepId, {
+      stepId,
+      title: stepTitles[stepId],
+      reached: 0,
+      completed: 0,
+      completionRate: 0,
+      funnelRate: 0,
+      medianTimeSeconds: null,
+      hintDistribution: {},
+      meanHints: 0,
+      checkFailures: 0,
+      checkFailuresPerSession: 0,
+      flags: [],
+      times: [],
+      hints: [],
+    });
+  }
+
+  const commands = new Map<string, FailingCommand & { sessionIds: Set<string> }>();
+  let completedSessions = 0;
+
+  for (const session of sessions) {
+    const metrics = aggregateEventsByStep(session.events, session.sessionId);
+    let completedAll = stepIds.length > 0;
+
+    for (const [stepId, step] of steps) {
+      const m = metrics.get(stepId);
+      if (!m?.startedAt && !m?.completedAt) {
+        completedAll = false;
+        continue;
+      }
+
+      step.reached++;
+      step.hints.push(m.hintsRevealed);
+      step.checkFailures += session.events.filter(
+        (e) => e.event_type === "check_failed" && e.payload.step_id === stepId
+      ).length;
+
+      if (!m.completedAt) {
+        completedAll = false;
+        continue;
+      }
+
+      step.completed++;
+      const completion = session.events.find(
+        (e): e is StepCompletedEvent => e.event_type === "step_completed" && e.payload.step_id === stepId
+      );
+      const seconds =
+        completion?.payload.time_spent_seconds ??
+        (m.startedAt ? (Date.parse(m.completedAt) - Date.parse(m.startedAt)) / 1000 : undefined);
+      if (seconds !== undefined && seconds >= 0) {
+        step.times.push(seconds);
+      }
+    }
+
+    if (completedAll) {
+      completedSessions++;
+    }
+
+    for (const event of session.events) {
+      if (event.event_type !== "student_action" || (event as StudentActionEvent).payload.result !== "failure") {
+        continue;
+      }
+      const { action, error_message } = (event as StudentActionEvent).payload;
+      const key = normalizeAction(action);
+      let command = commands.get(key);
+      if (!command) {
+        command = { action: key, count: 0, sessions: 0, stepIds: [], sessionIds: new Set() };
+        commands.set(key, command);
+      }
+      command.count++;
+      command.sessionIds.add(session.sessionId);
+      if (event.step_id && !command.stepIds.includes(event.step_id)) {
+        command.stepIds.push(event.step_id);
+      }
+      if (error_message) {
+        command.errorMessage = error_message;
+      }
+    }
+  }
+
+  // Per-step rates
+  const stepList = [...steps.values()].map(({ times, hints, ...step }) => {
+    step.completionRate = step.reached > 0 ? step.completed / step.reached : 0;
+    step.funnelRate = sessions.length > 0 ? step.completed / sessions.length : 0;
+    step.medianTimeSeconds = median(times);
+    for (const count of hints) {
+      step.hintDistribution[count] = (step.hintDistribution[count] ?? 0) + 1;
+    }
+    step.meanHints = hints.length > 0 ? hints.reduce((a, b) => a + b, 0) / hints.length : 0;
+    step.checkFailuresPerSession = step.reached > 0 ? step.checkFailures / step.reached : 0;
+    return step;
+  });
+
+  // Flags: check_failed spikes relative to the module's other steps, and steps students give up on
+  const failureMedian = median(stepList.filter((s) => s.reached > 0).map((s) => s.checkFailuresPerSession)) ?? 0;
+  for (const step of stepList) {
+    if (step.checkFailuresPerSession >= 1 && step.checkFailuresPerSession >= CHECK_FAILED_SPIKE_FACTOR * failureMedian) {
+      step.flags.push(`check_failed spike (${step.checkFailuresPerSession.toFixed(1)} per session, median ${failureMedian.toFixed(1)})`);
+    }
+    if (step.reached > 0 && step.completionRate < LOW_COMPLETION_RATE) {
+      step.flags.push(`low completion (${Math.round(step.completionRate * 100)}% of students who reach it)`);
+    }
+  }
+
+  const failingCommands = [...commands.values()]
+    .map(({ sessionIds, ...command }) => ({ ...command, sessions: sessionIds.size }))
+    .sort((a, b) => b.count - a.count || a.action.localeCompare(b.action))
+    .slice(0, topCommands);
+
+  return {
+    moduleId,
+    students: new Set(sessions.map((s) => s.profileId)).size,
+    sessions: sessions.length,
+    completedSessions,
+    steps: stepList,
+    failingCommands,
+  };
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+function formatSeconds(seconds: number | null): string {
+  if (seconds === null) {
+    return "-";
+  }
+  if (seconds < 60) {
+    return `${Math.round(seconds)}s`;
+  }
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
+
+/**
+ * Plain-text report for the terminal
+ */
+export function formatCohortAnalytics(analytics: CohortAnalytics): string {
+  const lines: string[] = [];
+  const pct = (rate: number) => `${Math.round(rate * 100)}%`;
+
+  lines.push(`Cohort analytics: ${analytics.moduleId}`);
+  lines.push(
+    `${analytics.students} students, ${analytics.sessions} sessions, ${analytics.completedSessions} completed every step`
+  );
+  lines.push("");
+
+  if (analytics.sessions === 0) {
+    lines.push("No sessions recorded for this module yet.");
+    return lines.join("\n");
+  }
+
+  lines.push("Step funnel:");
+  for (const step of analytics.steps) {
+    const hints = Object.entries(step.hintDistribution)
+      .map(([count, sessions]) => `${count}:${sessions}`)
+      .join(" ");
+    lines.push(
+      `  ${step.stepId.padEnd(24)} reached ${String(step.reached).padStart(3)}  ` +
+        `completed ${String(step.completed).padStart(3)} (${pct(step.completionRate)})  ` +
+        `median ${formatSeconds(step.medianTimeSeconds).padEnd(7)}  ` +
+        `hints ${step.meanHints.toFixed(1)}${hints ? ` [${hints}]` : ""}  ` +
+        `check failures ${step.checkFailures}`
+    );
+  }
+
+  const flagged = analytics.steps.filter((s) => s.flags.length > 0);
+  lines.push("");
+  lines.push("Steps to review:");
+  if (flagged.length === 0) {
+    lines.push("  (none)");
+  }
+  for (const step of flagged) {
+    lines.push(`  ${step.stepId}${step.title ? ` - ${step.title}` : ""}`);
+    for (const flag of step.flags) {
+      lines.push(`    ⚠ ${flag}`);
+    }
+  }
+
+  lines.push("");
+  lines.push("Most common failing commands:");
+  if (analytics.failingCommands.length === 0) {
+    lines.push("  (none)");
+  }
+  for (const command of analytics.failingCommands) {
+    const where = command.stepIds.length > 0 ? ` [${command.stepIds.join(", ")}]` : "";
+    lines.push(`  ${String(command.count).padStart(3)}× ${command.action}${where} (${command.sessions} sessions)`);
+    if (command.errorMessage) {
+      lines.push(`       ${command.errorMessage.split("\n").pop()}`);
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -2,16 +2,22 @@
 // Append-only JSONL file for immutable event stream
 // Following event sourcing principles: all state derived from events
 
-import { appendFileSync, existsSync, readFileSync, mkdirSync } from "fs";
+import { appendFileSync, copyFileSync, existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
 import { dirname, join } from "path";
 import {
   type TelemetryEvent,
   type TelemetryEventType,
   type LabType,
   type ActionKind,
+  type DetectedGap,
+  type TutorCommandEvent,
+  type OnDemandCheck,
+  TELEMETRY_SCHEMA_VERSION,
   generateEventId,
   generateSessionId,
 } from "./types";
+import { parseTelemetry, TelemetryValidationError, type TelemetryParseResult } from "./schema";
+import { chainRecord, getChainHead, GENESIS_HASH } from "./hash-chain";
 
 export interface EventLoggerOptions {
   logDir: string;
@@ -19,6 +25,8 @@ export interface EventLoggerOptions {
   studentId: string;
   sessionId?: string; // Auto-generated if not provided
   labType?: LabType;  // NEW: Defaults to "linux_cli"
+  hashChain?: boolean;  // Link every event to the previous one (exam sessions)
+  onEvent?: (event: TelemetryEvent) => void;  // Called after each event is appended (live stream)
   onLog?: (message: string) => void;
   onError?: (error: Error) => void;
 }
@@ -37,14 +45,18 @@ export interface EventLogger {
     stepId: string,
     source: "command" | "check" | "tutor",
     checkScript?: string,
-    taskIndex?: number
+    taskIndex?: number,
+    message?: string,
+    onDemand?: OnDemandCheck
   ): void;
   logCheckFailed(
     stepId: string,
     attemptNumber: number,
     checkScript?: string,
-    errorMessage?: string
+    errorMessage?: string,
+    onDemand?: OnDemandCheck
   ): void;
+  logTaskCompleted(stepId: string, taskIndex: number, source: "command" | "check" | "tutor"): void;
   logQuestionAnswered(
     stepId: string,
     isCorrect: boolean,
@@ -58,6 +70,7 @@ export interface EventLogger {
     source: "command" | "check" | "tutor" | "question",
     timeSpentSeconds?: number
   ): void;
+  logStepRegressed(stepId: string, source: "command" | "check", message?: string): void;
 
   // NEW: Unified action logging for multi-lab support
   logStudentAction(
@@ -68,6 +81,14 @@ export interface EventLogger {
     evidence?: Record<string, unknown>
   ): void;
 
+  logGapDetected(gap: DetectedGap): void;
+
+  logScoreAppeal(stepId: string, note?: string): void;
+
+  logStepAdded(stepId: string, title: string, weight?: number, validationType?: string): void;
+
+  logTutorCommand(command: TutorCommandEvent["payload"]): void;
+
   // Reading events
   getEvents(): TelemetryEvent[];
   getEventsByType(type: TelemetryEventType): TelemetryEvent[];
@@ -78,7 +99,7 @@ export interface EventLogger {
 }
 
 export function createEventLogger(options: EventLoggerOptions): EventLogger {
-  const { logDir, moduleId, studentId, labType = "linux_cli", onLog, onError } = options;
+  const { logDir, moduleId, studentId, labType = "linux_cli", hashChain = false, onEvent, onLog, onError } = options;
 
   // Ensure directory exists
   if (!existsSync(logDir)) {
@@ -94,14 +115,31 @@ export function createEventLogger(options: EventLoggerOptions): EventLogger {
 
   const log = (msg: string) => onLog?.(msg);
 
+  // Continue an existing chain when the file already has events
+  let chainHead: string | undefined;
+  if (hashChain) {
+    chainHead = existsSync(logPath) ? getChainHead(readFileSync(logPath, "utf-8")) : GENESIS_HASH;
+  }
+
   function appendEvent(event: TelemetryEvent): void {
+    let hash: string | undefined;
+    if (chainHead !== undefined) {
+      const linked = chainRecord(event, chainHead);
+      event = linked;
+      hash = linked.hash;
+    }
     try {
       const line = JSON.stringify(event) + "\n";
       appendFileSync(logPath, line);
+      if (hash) {
+        chainHead = hash;
+      }
       log(`Telemetry: ${event.event_type} - ${event.event_id}`);
     } catch (e) {
       onError?.(new Error(`Failed to write telemetry event: ${e}`));
+      return;
     }
+    onEvent?.(event);
   }
 
   function createEvent<T extends TelemetryEventType>(
@@ -110,6 +148,7 @@ export function createEventLogger(options: EventLoggerOptions): EventLogger {
     stepId?: string
   ): TelemetryEvent {
     return {
+      schema_version: TELEMETRY_SCHEMA_VERSION,
       event_id: generateEventId(),
       timestamp: new Date().toISOString(),
       session_id: sessionId,
@@ -128,9 +167,11 @@ export function createEventLogger(options: EventLoggerOptions): EventLogger {
     }
 
     try {
-      const content = readFileSync(logPath, "utf-8");
-      const lines = content.split("\n").filter((l) => l.trim());
-      return lines.map((line) => JSON.parse(line) as TelemetryEvent);
+      const { events, errors } = parseTelemetry(readFileSync(logPath, "utf-8"));
+      if (errors.length > 0) {
+        onError?.(new TelemetryValidationError(errors, logPath));
+      }
+      return events;
     } catch (e) {
       onError?.(new Error(`Failed to read telemetry events: ${e}`));
       return [];
@@ -194,7 +235,9 @@ export function createEventLogger(options: EventLoggerOptions): EventLogger {
       stepId: string,
       source: "command" | "check" | "tutor",
       checkScript?: string,
-      taskIndex?: number
+      taskIndex?: number,
+      message?: string,
+      onDemand?: OnDemandCheck
     ) {
       const event = createEvent(
         "check_passed",
@@ -203,6 +246,8 @@ export function createEventLogger(options: EventLoggerOptions): EventLogger {
           check_script: checkScript,
           source,
           task_index: taskIndex,
+          message,
+          on_demand: onDemand,
         },
         stepId
       );
@@ -213,7 +258,8 @@ export function createEventLogger(options: EventLoggerOptions): EventLogger {
       stepId: string,
       attemptNumber: number,
       checkScript?: string,
-      errorMessage?: string
+      errorMessage?: string,
+      onDemand?: OnDemandCheck
     ) {
       const event = createEvent(
         "check_failed",
@@ -222,6 +268,20 @@ export function createEventLogger(options: EventLoggerOptions): EventLogger {
           check_script: checkScript,
           error_message: errorMessage,
           attempt_number: attemptNumber,
+          on_demand: onDemand,
+        },
+        stepId
+      );
+      appendEvent(event);
+    },
+
+    logTaskCompleted(stepId: string, taskIndex: number, source: "command" | "check" | "tutor") {
+      const event = createEvent(
+        "task_completed",
+        {
+          step_id: stepId,
+          task_index: taskIndex,
+          source,
         },
         stepId
       );
@@ -278,6 +338,11 @@ export function createEventLogger(options: EventLoggerOptions): EventLogger {
       appendEvent(event);
     },
 
+    logStepRegressed(stepId: string, source: "command" | "check", message?: string) {
+      const event = createEvent("step_regressed", { step_id: stepId, source, message }, stepId);
+      appendEvent(event);
+    },
+
     // NEW: Unified action logging for multi-lab support
     logStudentAction(
       stepId: string,
@@ -293,6 +358,8 @@ export function createEventLogger(options: EventLoggerOptions): EventLogger {
           action_kind: actionKind,
           action,
           result,
+          exit_code: typeof evidence?.exit_code === "number" ? evidence.exit_code : undefined,
+          error_message: typeof evidence?.error_message === "string" ? evidence.error_message : undefined,
           evidence: evidence || {},
         },
         stepId
@@ -314,6 +381,41 @@ export function createEventLogger(options: EventLoggerOptions): EventLogger {
       }
     },
 
+    logGapDetected(gap: DetectedGap) {
+      const event = createEvent(
+        "gap_detected",
+        {
+          gap_id: gap.gap_id,
+          template_id: gap.template_id,
+          step_id: gap.step_id,
+          message: gap.message,
+          severity: gap.severity,
+          skill_id: gap.skill_id,
+        },
+        gap.step_id
+      );
+      appendEvent(event);
+    },
+
+    logScoreAppeal(stepId: string, note?: string) {
+      const event = createEvent("score_appeal", { step_id: stepId, note }, stepId);
+      appendEvent(event);
+    },
+
+    logStepAdded(stepId: string, title: string, weight?: number, validationType?: string) {
+      const event = createEvent(
+        "step_added",
+        { step_id: stepId, title, source: "tutor", weight, validation_type: validationType },
+        stepId
+      );
+      appendEvent(event);
+    },
+
+    logTutorCommand(command: TutorCommandEvent["payload"]) {
+      const event = createEvent("tutor_command", command, command.step_id);
+      appendEvent(event);
+    },
+
     getEvents() {
       return readEvents();
     },
@@ -333,19 +435,30 @@ export function createEventLogger(options: EventLoggerOptions): EventLogger {
 }
 
 // Helper to read telemetry from a specific file
+// Older schemas are upgraded; throws TelemetryValidationError if any line is malformed
 export function readTelemetryFile(filePath: string): TelemetryEvent[] {
   if (!existsSync(filePath)) {
     return [];
   }
 
-  try {
-    const content = readFileSync(filePath, "utf-8");
-    const lines = content.split("\n").filter((l) => l.trim());
-    return lines.map((line) => JSON.parse(line) as TelemetryEvent);
-  } catch (e) {
-    console.error(`Failed to read telemetry file: ${e}`);
-    return [];
+  const { events, errors } = parseTelemetry(readFileSync(filePath, "utf-8"));
+  if (errors.length > 0) {
+    throw new TelemetryValidationError(errors, filePath);
+  }
+  return events;
+}
+
+// Rewrite a telemetry file at the current schema version (the original is kept as <file>.bak)
+// Nothing is written if the file has malformed lines or is already current
+export function migrateTelemetryFile(filePath: string, options: { dryRun?: boolean } = {}): TelemetryParseResult {
+  const result = parseTelemetry(readFileSync(filePath, "utf-8"));
+
+  if (!options.dryRun && result.errors.length === 0 && result.migratedCount > 0) {
+    copyFileSync(filePath, `${filePath}.bak`);
+    writeFileSync(filePath, result.events.map((event) => JSON.stringify(event)).join("\n") + "\n");
   }
+
+  return result;
 }
 
 // Helper to filter events by session
@@ -10,21 +10,35 @@ import {
   type ScoreTrace,
   type ScoreModifier,
   type ScoringPreset,
+  type RubricItem,
+  type RubricResult,
   type HintRequestedEvent,
   type SolutionViewedEvent,
   type CheckPassedEvent,
   type CheckFailedEvent,
+  type TaskCompletedEvent,
   type StepStartedEvent,
   type StepCompletedEvent,
+  type StepRegressedEvent,
   type QuestionAnsweredEvent,
+  type SessionEndedEvent,
+  type ScoreOverrideEvent,
+  type ScoreAppealEvent,
+  type StepAddedEvent,
+  type TutorCommandEvent,
+  type ScoreOverride,
   generateEvidenceId,
 } from "./types";
 import {
   calculateConfidence,
+  calculateRubricScore,
   calculateOverallScore,
   calculateCompletionPct,
+  calculateTimePenalty,
   isPassing,
   getPreset,
+  hasPreset,
+  resolveStepPreset,
 } from "./scoring-presets";
 
 // ============================================================================
@@ -38,11 +52,14 @@ interface StepMetrics {
   checkAttempts: number; // Total check attempts (passed + failed)
   checkPassed: boolean;
   checkPassedAt?: string;
+  completedTasks: number[]; // Task indexes satisfied (from task_completed / check_passed)
   checkSource?: "command" | "check" | "tutor" | "question";
   startedAt?: string;
   completedAt?: string;
   questionAttempts: number;
   questionCorrect: boolean;
+  regressions: number; // Times a pass stopped holding (continuous verification)
+  override?: ScoreOverrideEvent; // Latest instructor override
   eventIds: string[];
 }
 
@@ -53,8 +70,10 @@ function createEmptyMetrics(stepId: string): StepMetrics {
     solutionViewed: false,
     checkAttempts: 0,
     checkPassed: false,
+    completedTasks: [],
     questionAttempts: 0,
     questionCorrect: false,
+    regressions: 0,
     eventIds: [],
   };
 }
@@ -107,11 +126,26 @@ export function aggregateEventsByStep(
         m.checkPassed = true;
         m.checkPassedAt = e.timestamp;
         m.checkSource = e.payload.source;
+        if (e.payload.task_index !== undefined && !m.completedTasks.includes(e.payload.task_index)) {
+          m.completedTasks.push(e.payload.task_index);
+        }
+        break;
+      }
+
+      case "task_completed": {
+        const e = event as TaskCompletedEvent;
+        if (!m.completedTasks.includes(e.payload.task_index)) {
+          m.completedTasks.push(e.payload.task_index);
+        }
         break;
       }
 
       case "check_failed": {
-        m.checkAttempts++;
+        // Checks the tutor runs on demand are not the student's attempts
+        const e = event as CheckFailedEvent;
+        if (e.payload.on_demand?.requested_by !== "tutor") {
+          m.checkAttempts++;
+        }
         break;
       }
 
@@ -130,6 +164,16 @@ export function aggregateEventsByStep(
         break;
       }
 
+      case "step_regressed": {
+        // The step is unfinished again until its check passes again
+        m.regressions++;
+        m.checkPassed = false;
+        m.checkPassedAt = undefined;
+        m.completedAt = undefined;
+        m.checkSource = undefined;
+        break;
+      }
+
       case "question_answered": {
         const e = event as QuestionAnsweredEvent;
         m.questionAttempts++;
@@ -141,6 +185,11 @@ export function aggregateEventsByStep(
         }
         break;
       }
+
+      case "score_override": {
+        m.override = event as ScoreOverrideEvent;
+        break;
+      }
     }
   }
 
@@ -153,13 +202,21 @@ export function aggregateEventsByStep(
 
 /**
  * Generate evidence for a single step from its metrics
+ * With a rubric, an unfinished step earns the credit of the items it satisfied;
+ * with an expected duration, a slow completion takes the preset's time penalty.
+ * The preset's `steps:` override for this step, if any, applies.
+ * An instructor's score_override replaces the computed status and confidence
  */
 export function generateStepEvidence(
   metrics: StepMetrics,
   preset: ScoringPreset,
   studentId: string,
-  sessionId: string
+  sessionId: string,
+  rubric: RubricItem[] = [],
+  expectedSeconds?: number
 ): TaskEvidence {
+  const stepPreset = resolveStepPreset(preset, metrics.stepId);
+
   // Calculate retry attempts (attempts after the first that eventually passed)
   const retryAttempts = metrics.checkPassed
     ? Math.max(0, metrics.checkAttempts - 1)
@@ -169,20 +226,37 @@ export function generateStepEvidence(
   const isFirstTrySuccess =
     metrics.checkPassed && metrics.checkAttempts === 1 && !metrics.solutionViewed;
 
+  const rubricScore =
+    rubric.length > 0 ? calculateRubricScore(rubric, metrics.completedTasks, metrics.checkPassed) : undefined;
+
+  // Calculate time spent
+  let timeSpentSeconds: number | undefined;
+  if (metrics.startedAt && metrics.completedAt) {
+    const start = new Date(metrics.startedAt).getTime();
+    const end = new Date(metrics.completedAt).getTime();
+    timeSpentSeconds = Math.round((end - start) / 1000);
+  }
+
   // Calculate confidence score
-  const { confidence, modifiers } = calculateConfidence(
-    preset,
+  const computed = calculateConfidence(
+    stepPreset,
     metrics.hintsRevealed,
     metrics.solutionViewed,
     retryAttempts,
-    isFirstTrySuccess
+    isFirstTrySuccess,
+    rubricScore?.score,
+    metrics.checkPassed && timeSpentSeconds !== undefined && expectedSeconds
+      ? { spentSeconds: timeSpentSeconds, expectedSeconds }
+      : undefined,
+    metrics.checkPassed
   );
+  const { modifiers } = computed;
 
   // Determine status
   let status: TaskEvidence["status"];
   if (metrics.checkPassed) {
     status = "completed";
-  } else if (metrics.checkAttempts > 0) {
+  } else if (metrics.checkAttempts > 0 || (rubricScore?.score ?? 0) > 0) {
     status = "partial";
   } else if (metrics.startedAt) {
     status = "in_progress";
@@ -190,16 +264,25 @@ export function generateStepEvidence(
     status = "pending";
   }
 
-  // Calculate time spent
-  let timeSpentSeconds: number | undefined;
-  if (metrics.startedAt && metrics.completedAt) {
-    const start = new Date(metrics.startedAt).getTime();
-    const end = new Date(metrics.completedAt).getTime();
-    timeSpentSeconds = Math.round((end - start) / 1000);
+  let confidence = computed.confidence;
+  let override: ScoreOverride | undefined;
+  if (metrics.override) {
+    const { payload } = metrics.override;
+    override = {
+      event_id: metrics.override.event_id,
+      timestamp: metrics.override.timestamp,
+      status: payload.status,
+      confidence: payload.confidence,
+      computed_confidence: computed.confidence,
+      reason: payload.reason,
+      reviewer: payload.reviewer,
+    };
+    status = payload.status;
+    confidence = payload.confidence;
   }
 
   // Generate explanation
-  const explanation = generateExplanation(metrics, confidence, modifiers);
+  const explanation = generateExplanation(metrics, confidence, modifiers, rubricScore?.results, override);
 
   return {
     evidence_id: generateEvidenceId(),
@@ -213,14 +296,20 @@ export function generateStepEvidence(
     confidence,
 
     source_event_ids: metrics.eventIds,
-    validation_results: metrics.checkPassed
-      ? [
-          {
-            passed: true,
-            timestamp: metrics.checkPassedAt || new Date().toISOString(),
-          },
-        ]
-      : [],
+    validation_results: rubricScore
+      ? rubricScore.results.map((r) => ({
+          passed: r.satisfied,
+          timestamp: metrics.checkPassedAt || new Date().toISOString(),
+          message: r.description,
+        }))
+      : metrics.checkPassed
+        ? [
+            {
+              passed: true,
+              timestamp: metrics.checkPassedAt || new Date().toISOString(),
+            },
+          ]
+        : [],
     modifiers,
     explanation,
 
@@ -231,18 +320,29 @@ export function generateStepEvidence(
     total_attempts: metrics.checkAttempts,
     hints_revealed: metrics.hintsRevealed,
     solution_viewed: metrics.solutionViewed,
+
+    rubric: rubricScore?.results,
+    override,
+    regressions: metrics.regressions || undefined,
   };
 }
 
 function generateExplanation(
   metrics: StepMetrics,
   confidence: number,
-  modifiers: ScoreModifier[]
+  modifiers: ScoreModifier[],
+  rubric?: RubricResult[],
+  override?: ScoreOverride
 ): string {
   const parts: string[] = [];
 
   if (metrics.checkPassed) {
     parts.push(`Completed via ${metrics.checkSource || "unknown"}.`);
+  } else if (metrics.regressions > 0) {
+    parts.push("Passed before, but no longer holds.");
+  } else if (rubric?.some((r) => r.satisfied)) {
+    const met = rubric.filter((r) => r.satisfied);
+    parts.push(`Partial: ${met.length}/${rubric.length} rubric items met (${met.map((r) => r.description).join(", ")}).`);
   } else if (metrics.checkAttempts > 0) {
     parts.push(`${metrics.checkAttempts} attempt(s), not yet passed.`);
   } else {
@@ -254,6 +354,13 @@ function generateExplanation(
     parts.push(`Adjustments: ${modSummary}.`);
   }
 
+  if (override) {
+    parts.push(
+      `Overridden by ${override.reviewer} (${override.reason}): ` +
+        `${override.status}, was ${Math.round(override.computed_confidence * 100)}%.`
+    );
+  }
+
   parts.push(`Confidence: ${Math.round(confidence * 100)}%`);
 
   return parts.join(" ");
@@ -268,9 +375,107 @@ export interface InterpretOptions {
   moduleId: string;
   studentId: string;
   sessionId: string;
-  stepIds: string[]; // All step IDs in the module (for completion tracking)
+  stepIds: string[]; // All step IDs in the module (for completion tracking); lab progress also scores steps added in the session
   stepWeights?: Record<string, number>; // Optional per-step weights
+  rubrics?: Record<string, RubricItem[]>; // Optional per-step rubrics (partial credit)
+  expectedSeconds?: Record<string, number>; // Optional per-step expected durations (time penalty)
+  labExpectedSeconds?: number; // Optional expected duration of the whole lab
   presetId?: string; // Defaults to "partial_credit"
+  preset?: ScoringPreset; // Takes precedence over presetId (e.g. a preset loaded from YAML)
+  keepPreset?: boolean; // Ignore presets the tutor switched to during the session (setPreset), e.g. to re-grade
+}
+
+/**
+ * Done tutor commands of a session, oldest first
+ */
+function doneTutorCommands(events: TelemetryEvent[], sessionId: string, command: string): TutorCommandEvent[] {
+  return events.filter(
+    (e): e is TutorCommandEvent =>
+      e.event_type === "tutor_command" &&
+      e.session_id === sessionId &&
+      e.payload.command === command &&
+      e.payload.status === "done"
+  );
+}
+
+interface PresetSwitch {
+  at: string; // Timestamp of the setPreset command
+  preset: ScoringPreset;
+}
+
+/**
+ * Presets the tutor switched the session to (setPreset), oldest first, unless the caller keeps its own
+ */
+function getPresetSwitches(options: InterpretOptions): PresetSwitch[] {
+  if (options.keepPreset) {
+    return [];
+  }
+  return doneTutorCommands(options.events, options.sessionId, "setPreset")
+    .filter((e) => !!e.payload.preset_id && hasPreset(e.payload.preset_id))
+    .map((e) => ({ at: e.timestamp, preset: getPreset(e.payload.preset_id!) }));
+}
+
+/**
+ * The preset a step is scored under: the one in force when it was completed
+ * (steps finished before a switch keep the earlier preset), or the latest one if it is unfinished
+ */
+function presetForStep(metrics: StepMetrics, switches: PresetSwitch[], basePreset: ScoringPreset): ScoringPreset {
+  const finishedAt = metrics.completedAt ?? metrics.checkPassedAt;
+  const inForce = finishedAt ? switches.filter((s) => s.at <= finishedAt) : switches;
+  return inForce.length > 0 ? inForce[inForce.length - 1].preset : basePreset;
+}
+
+/**
+ * Per-step TaskEvidence for a session, in stepIds order (input to the skill engine)
+ */
+export function interpretTaskEvidence(options: InterpretOptions): TaskEvidence[] {
+  const { events, studentId, sessionId, stepIds, rubrics = {}, expectedSeconds = {}, presetId = "partial_credit" } = options;
+  const basePreset = options.preset ?? getPreset(presetId);
+  const switches = getPresetSwitches(options);
+  const metricsMap = aggregateEventsByStep(events, sessionId);
+
+  return stepIds.map((stepId) => {
+    const metrics = metricsMap.get(stepId) || createEmptyMetrics(stepId);
+    return generateStepEvidence(
+      metrics,
+      presetForStep(metrics, switches, basePreset),
+      studentId,
+      sessionId,
+      rubrics[stepId],
+      expectedSeconds[stepId]
+    );
+  });
+}
+
+/**
+ * Adjust the module's steps to the session: append the steps the tutor added (step_added)
+ * and drop the ones it skipped (skipStep). An added step's weight comes from its event unless the caller gives one
+ */
+function withSessionSteps(
+  stepIds: string[],
+  stepWeights: Record<string, number>,
+  events: TelemetryEvent[],
+  sessionId: string
+): { stepIds: string[]; stepWeights: Record<string, number> } {
+  const added = events.filter(
+    (e): e is StepAddedEvent =>
+      e.event_type === "step_added" && e.session_id === sessionId && !stepIds.includes(e.payload.step_id)
+  );
+  const skipped = new Set(doneTutorCommands(events, sessionId, "skipStep").map((e) => e.payload.step_id));
+  if (added.length === 0 && skipped.size === 0) {
+    return { stepIds, stepWeights };
+  }
+
+  const weights = { ...stepWeights };
+  for (const e of added) {
+    if (e.payload.weight !== undefined && weights[e.payload.step_id] === undefined) {
+      weights[e.payload.step_id] = e.payload.weight;
+    }
+  }
+  return {
+    stepIds: [...new Set([...stepIds, ...added.map((e) => e.payload.step_id)])].filter((id) => !skipped.has(id)),
+    stepWeights: weights,
+  };
 }
 
 /**
@@ -282,12 +487,18 @@ export function interpretLabProgress(options: InterpretOptions): LabProgress {
     moduleId,
     studentId,
     sessionId,
-    stepIds,
-    stepWeights = {},
+    rubrics = {},
+    expectedSeconds = {},
+    labExpectedSeconds,
     presetId = "partial_credit",
   } = options;
 
-  const preset = getPreset(presetId);
+  // Steps are scored under the preset in force when they finished; the lab as a whole under the latest
+  const basePreset = options.preset ?? getPreset(presetId);
+  const switches = getPresetSwitches(options);
+  const switchedPreset = switches.length > 0 ? switches[switches.length - 1].preset : undefined;
+  const preset = switchedPreset ?? basePreset;
+  const { stepIds, stepWeights } = withSessionSteps(options.stepIds, options.stepWeights ?? {}, events, sessionId);
 
   // Aggregate events by step
   const metricsMap = aggregateEventsByStep(events, sessionId);
@@ -298,7 +509,15 @@ export function interpretLabProgress(options: InterpretOptions): LabProgress {
 
   for (const stepId of stepIds) {
     const metrics = metricsMap.get(stepId) || createEmptyMetrics(stepId);
-    const evidence = generateStepEvidence(metrics, preset, studentId, sessionId);
+    const stepPreset = presetForStep(metrics, switches, basePreset);
+    const evidence = generateStepEvidence(
+      metrics,
+      stepPreset,
+      studentId,
+      sessionId,
+      rubrics[stepId],
+      expectedSeconds[stepId]
+    );
 
     evidenceMap[stepId] = evidence;
 
@@ -309,7 +528,10 @@ export function interpretLabProgress(options: InterpretOptions): LabProgress {
       confidence: evidence.confidence,
       modifiers: evidence.modifiers,
       evidence_id: evidence.evidence_id,
-      passed: isPassing(evidence.confidence, preset),
+      passed: isPassing(evidence.confidence, resolveStepPreset(stepPreset, stepId)),
+      rubric: evidence.rubric,
+      override: evidence.override,
+      regressed: evidence.status !== "completed" && (evidence.regressions ?? 0) > 0 ? true : undefined,
     };
   }
 
@@ -320,8 +542,12 @@ export function interpretLabProgress(options: InterpretOptions): LabProgress {
     return evidence?.status === "completed";
   });
 
-  const overallScore = calculateOverallScore(
-    completedTasks.map((t) => ({ confidence: t.confidence, weight: t.weight }))
+  // Unfinished steps still count for the rubric credit they earned
+  const scoredTasks = taskList.filter(
+    (t) => evidenceMap[t.step_id]?.status === "completed" || t.rubric?.some((r) => r.satisfied)
+  );
+  let overallScore = calculateOverallScore(
+    scoredTasks.map((t) => ({ confidence: t.confidence, weight: t.weight }))
   );
 
   const completionPct = calculateCompletionPct(completedTasks.length, stepIds.length);
@@ -336,19 +562,35 @@ export function interpretLabProgress(options: InterpretOptions): LabProgress {
   const lastActivity =
     sessionEvents[sessionEvents.length - 1]?.timestamp || new Date().toISOString();
 
-  const sessionEndEvent = sessionEvents.find((e) => e.event_type === "session_ended");
+  const sessionEndEvent = sessionEvents.find((e) => e.event_type === "session_ended") as
+    | SessionEndedEvent
+    | undefined;
+
+  // Whole-lab time penalty
+  const labModifiers: ScoreModifier[] = [];
+  if (labExpectedSeconds && overallScore > 0) {
+    const elapsedSeconds =
+      sessionEndEvent?.payload.total_time_seconds ??
+      Math.round((new Date(lastActivity).getTime() - new Date(startedAt).getTime()) / 1000);
+    const penalty = calculateTimePenalty(preset, elapsedSeconds, labExpectedSeconds);
+    if (penalty) {
+      overallScore = Math.max(0, overallScore + penalty.delta);
+      labModifiers.push(penalty);
+    }
+  }
 
   return {
     module_id: moduleId,
     student_id: studentId,
     session_id: sessionId,
-    scoring_preset_id: presetId,
+    scoring_preset_id: (switchedPreset ?? options.preset)?.id ?? presetId,
 
     tasks,
 
     overall_score: overallScore,
     completion_pct: completionPct,
     passed: isPassing(overallScore, preset) && completionPct === 100,
+    modifiers: labModifiers.length > 0 ? labModifiers : undefined,
 
     telemetry_event_count: sessionEvents.length,
     started_at: startedAt,
@@ -369,7 +611,9 @@ export function generateScoreTrace(
   stepId: string,
   sessionId: string,
   studentId: string,
-  presetId?: string
+  presetId?: string,
+  rubric?: RubricItem[],
+  expectedSeconds?: number
 ): ScoreTrace | null {
   const preset = getPreset(presetId || "partial_credit");
 
@@ -382,7 +626,7 @@ export function generateScoreTrace(
   }
 
   // Generate evidence
-  const evidence = generateStepEvidence(metrics, preset, studentId, sessionId);
+  const evidence = generateStepEvidence(metrics, preset, studentId, sessionId, rubric, expectedSeconds);
 
   // Build source events summary
   const stepEvents = events.filter(
@@ -400,8 +644,10 @@ export function generateScoreTrace(
     task_id: stepId,
     step_id: stepId,
     confidence: evidence.confidence,
-    base_score: 1.0,
+    base_score: evidence.rubric ? evidence.rubric.reduce((sum, r) => sum + r.contribution, 0) : 1.0,
     modifiers: evidence.modifiers,
+    rubric: evidence.rubric,
+    override: evidence.override,
     evidence_id: evidence.evidence_id,
     source_events: sourceEvents,
     explanation: evidence.explanation,
@@ -420,18 +666,48 @@ function summarizeEvent(event: TelemetryEvent): string {
       const e = event as CheckPassedEvent;
       return `Check passed via ${e.payload.source}`;
     }
-    case "check_failed":
-      return "Check failed";
+    case "check_failed": {
+      const e = event as CheckFailedEvent;
+      return e.payload.on_demand && e.payload.error_message
+        ? `Check failed: ${e.payload.error_message}`
+        : "Check failed";
+    }
+    case "task_completed": {
+      const e = event as TaskCompletedEvent;
+      return `Task ${e.payload.task_index + 1} done via ${e.payload.source}`;
+    }
     case "step_started":
       return "Step started";
     case "step_completed": {
       const e = event as StepCompletedEvent;
       return `Completed via ${e.payload.source}`;
     }
+    case "step_regressed": {
+      const e = event as StepRegressedEvent;
+      return e.payload.message ? `No longer passing: ${e.payload.message}` : "No longer passing";
+    }
     case "question_answered": {
       const e = event as QuestionAnsweredEvent;
       return e.payload.is_correct ? "Question answered correctly" : "Question answered incorrectly";
     }
+    case "score_override": {
+      const e = event as ScoreOverrideEvent;
+      return `Score set to ${Math.round(e.payload.confidence * 100)}% (${e.payload.status}) by ${e.payload.reviewer}: ${e.payload.reason}`;
+    }
+    case "score_appeal": {
+      const e = event as ScoreAppealEvent;
+      return e.payload.note ? `Student flagged for review: ${e.payload.note}` : "Student flagged for review";
+    }
+    case "step_added": {
+      const e = event as StepAddedEvent;
+      return `Step added by the ${e.payload.source}`;
+    }
+    case "tutor_command": {
+      const e = event as TutorCommandEvent;
+      return e.payload.status === "done"
+        ? `Tutor ran ${e.payload.command}`
+        : `Tutor ${e.payload.command} rejected: ${e.payload.error}`;
+    }
     default:
       return event.event_type;
   }
@@ -449,12 +725,22 @@ export function getAllScoreTraces(
   stepIds: string[],
   sessionId: string,
   studentId: string,
-  presetId?: string
+  presetId?: string,
+  rubrics: Record<string, RubricItem[]> = {},
+  expectedSeconds: Record<string, number> = {}
 ): ScoreTrace[] {
   const traces: ScoreTrace[] = [];
 
   for (const stepId of stepIds) {
-    const trace = generateScoreTrace(events, stepId, sessionId, studentId, presetId);
+    const trace = generateScoreTrace(
+      events,
+      stepId,
+      sessionId,
+      studentId,
+      presetId,
+      rubrics[stepId],
+      expectedSeconds[stepId]
+    );
     if (trace) {
       traces.push(trace);
     }
@@ -465,15 +751,17 @@ export function getAllScoreTraces(
 
 /**
  * Recompute scores with a different preset (replay capability)
+ * Accepts a preset ID or a preset object, e.g. one loaded from a course's YAML to re-grade old sessions
  */
 export function recomputeWithPreset(
   events: TelemetryEvent[],
-  options: Omit<InterpretOptions, "events" | "presetId">,
-  newPresetId: string
+  options: Omit<InterpretOptions, "events" | "presetId" | "preset">,
+  newPreset: string | ScoringPreset
 ): LabProgress {
   return interpretLabProgress({
     ...options,
     events,
-    presetId: newPresetId,
+    keepPreset: true,
+    ...(typeof newPreset === "string" ? { presetId: newPreset } : { preset: newPreset }),
   });
 }
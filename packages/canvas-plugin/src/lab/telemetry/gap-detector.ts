@@ -0,0 +1,272 @@
+// Gap Detector
+// Evaluates GapTemplate conditions per step over the live telemetry stream
+
+import {
+  type TelemetryEvent,
+  type GapTemplate,
+  type GapCondition,
+  type DetectedGap,
+  generateGapId,
+} from "./types";
+
+const SEVERITIES = ["info", "warning", "critical"] as const;
+
+// ============================================================================
+// TEMPLATE PARSING
+// ============================================================================
+
+/**
+ * Validate gap templates declared in YAML (module.yaml or course.yaml `gaps:`)
+ * Invalid entries are skipped with a warning naming the source
+ */
+export function parseGapTemplates(raw: unknown, source: string): GapTemplate[] {
+  if (raw === undefined || raw === null) {
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    console.warn(`${source}: 'gaps' must be a list of gap templates`);
+    return [];
+  }
+
+  const templates: GapTemplate[] = [];
+  raw.forEach((entry, index) => {
+    const where = `${source}: gap ${typeof entry?.id === "string" ? `'${entry.id}'` : `#${index + 1}`}`;
+    if (!entry || typeof entry !== "object" || typeof entry.id !== "string" || typeof entry.message !== "string") {
+      console.warn(`${where} needs an 'id' and a 'message'`);
+      return;
+    }
+
+    const condition = parseCondition(entry.condition);
+    if (typeof condition === "string") {
+      console.warn(`${where} ${condition}`);
+      return;
+    }
+
+    const severity = entry.severity ?? "warning";
+    if (!SEVERITIES.includes(severity)) {
+      console.warn(`${where} has invalid severity '${severity}' (use ${SEVERITIES.join(", ")})`);
+      return;
+    }
+
+    templates.push({
+      id: entry.id,
+      condition,
+      message: entry.message,
+      severity,
+      skill_id: typeof entry.skill_id === "string" ? entry.skill_id : undefined,
+      steps: Array.isArray(entry.steps) ? entry.steps.map(String) : undefined,
+    });
+  });
+
+  return templates;
+}
+
+/**
+ * Returns the condition, or a description of what is wrong with it
+ */
+function parseCondition(raw: Record<string, unknown> | undefined): GapCondition | string {
+  const positive = (field: string) => typeof raw?.[field] === "number" && (raw[field] as number) > 0;
+
+  switch (raw?.type) {
+    case "hint_overuse":
+      return positive("min_hints") ? { type: "hint_overuse", min_hints: raw.min_hints as number } : "needs a positive 'min_hints'";
+    case "time_exceeded":
+      return positive("max_seconds") ? { type: "time_exceeded", max_seconds: raw.max_seconds as number } : "needs a positive 'max_seconds'";
+    case "retry_overuse":
+      return positive("min_retries") ? { type: "retry_overuse", min_retries: raw.min_retries as number } : "needs a positive 'min_retries'";
+    case "solution_viewed":
+      return { type: "solution_viewed" };
+    case "check_pattern": {
+      if (typeof raw.pattern !== "string") {
+        return "needs a 'pattern'";
+      }
+      try {
+        new RegExp(raw.pattern);
+      } catch (e) {
+        return `has an invalid pattern: ${e instanceof Error ? e.message : e}`;
+      }
+      return { type: "check_pattern", pattern: raw.pattern };
+    }
+    default:
+      return `has unknown condition type '${raw?.type}'`;
+  }
+}
+
+/**
+ * Combine course-wide and module templates; a module template replaces a course one with the same id
+ */
+export function mergeGapTemplates(courseTemplates: GapTemplate[], moduleTemplates: GapTemplate[]): GapTemplate[] {
+  const merged = new Map<string, GapTemplate>();
+  for (const template of [...courseTemplates, ...moduleTemplates]) {
+    merged.set(template.id, template);
+  }
+  return [...merged.values()];
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+export interface GapDetectorOptions {
+  templates: GapTemplate[];
+  studentId: string;
+  sessionId: string;
+  onGap?: (gap: DetectedGap) => void;
+  onLog?: (message: string) => void;
+}
+
+export interface GapDetector {
+  processEvent(event: TelemetryEvent): DetectedGap[];
+  tick(now?: number): DetectedGap[];  // Re-evaluates time-based conditions
+  getDetectedGaps(): DetectedGap[];
+}
+
+interface StepActivity {
+  startedAt?: number;
+  completed: boolean;
+  hintsRevealed: number;
+  retries: number;           // Failed checks, failed actions and wrong answers
+  solutionViewed: boolean;
+  failureText: string[];     // Check errors and failed actions, for check_pattern
+}
+
+/**
+ * Create a detector that fires each template at most once per step
+ */
+export function createGapDetector(options: GapDetectorOptions): GapDetector {
+  const { templates, studentId, sessionId, onGap, onLog } = options;
+
+  const log = (msg: string) => onLog?.(msg);
+
+  const steps = new Map<string, StepActivity>();
+  const fired = new Set<string>();  // `${templateId}:${stepId}`
+  const detected: DetectedGap[] = [];
+  const patterns = new Map(
+    templates
+      .filter((t) => t.condition.type === "check_pattern")
+      .map((t) => [t.id, new RegExp((t.condition as { pattern: string }).pattern)])
+  );
+  let currentStepId: string | undefined;
+
+  function getStep(stepId: string): StepActivity {
+    let step = steps.get(stepId);
+    if (!step) {
+      step = { completed: false, hintsRevealed: 0, retries: 0, solutionViewed: false, failureText: [] };
+      steps.set(stepId, step);
+    }
+    return step;
+  }
+
+  function matches(template: GapTemplate, step: StepActivity, now: number): boolean {
+    const { condition } = template;
+    switch (condition.type) {
+      case "hint_overuse":
+        return step.hintsRevealed >= condition.min_hints;
+      case "retry_overuse":
+        return step.retries >= condition.min_retries;
+      case "solution_viewed":
+        return step.solutionViewed;
+      case "time_exceeded":
+        return !step.completed && step.startedAt !== undefined && now - step.startedAt >= condition.max_seconds * 1000;
+      case "check_pattern":
+        return step.failureText.some((text) => patterns.get(template.id)!.test(text));
+    }
+  }
+
+  function evaluate(stepId: string, now: number): DetectedGap[] {
+    const step = steps.get(stepId);
+    if (!step) {
+      return [];
+    }
+
+    const gaps: DetectedGap[] = [];
+    for (const template of templates) {
+      const key = `${template.id}:${stepId}`;
+      if (fired.has(key) || (template.steps && !template.steps.includes(stepId)) || !matches(template, step, now)) {
+        continue;
+      }
+
+      fired.add(key);
+      const gap: DetectedGap = {
+        gap_id: generateGapId(),
+        template_id: template.id,
+        step_id: stepId,
+        student_id: studentId,
+        session_id: sessionId,
+        timestamp: new Date(now).toISOString(),
+        message: template.message,
+        severity: template.severity,
+        skill_id: template.skill_id,
+      };
+      gaps.push(gap);
+      detected.push(gap);
+      log(`Gap detected: ${template.id} on ${stepId} (${template.severity})`);
+      onGap?.(gap);
+    }
+    return gaps;
+  }
+
+  return {
+    processEvent(event: TelemetryEvent) {
+      if (event.event_type === "tutor_utterance" || event.event_type === "gap_detected") {
+        return [];
+      }
+
+      // Actions are often logged without a step; attribute them to the step being worked on
+      const stepId = event.step_id || currentStepId;
+      if (!stepId) {
+        return [];
+      }
+
+      const step = getStep(stepId);
+      const timestamp = Date.parse(event.timestamp);
+
+      switch (event.event_type) {
+        case "step_started":
+          currentStepId = stepId;
+          step.startedAt ??= timestamp;
+          break;
+        case "step_completed":
+          step.completed = true;
+          break;
+        case "hint_requested":
+          step.hintsRevealed = Math.max(step.hintsRevealed, event.payload.hint_index + 1);
+          break;
+        case "solution_viewed":
+          step.solutionViewed = true;
+          break;
+        case "check_failed":
+          step.retries++;
+          if (event.payload.error_message) {
+            step.failureText.push(event.payload.error_message);
+          }
+          break;
+        case "question_answered":
+          if (!event.payload.is_correct) {
+            step.retries++;
+          }
+          break;
+        case "student_action":
+          if (event.payload.result === "failure") {
+            step.retries++;
+            step.failureText.push(
+              [event.payload.action, event.payload.error_message].filter(Boolean).join("\n")
+            );
+          }
+          break;
+      }
+
+      // Activity before the step_started event (e.g. a check firing early) still starts the clock
+      step.startedAt ??= timestamp;
+      return evaluate(stepId, timestamp);
+    },
+
+    tick(now: number = Date.now()) {
+      return [...steps.keys()].flatMap((stepId) => evaluate(stepId, now));
+    },
+
+    getDetectedGaps() {
+      return [...detected];
+    },
+  };
+}
@@ -0,0 +1,87 @@
+// Telemetry Hash Chain - Tamper-evident telemetry.jsonl for exam sessions
+// Each event carries the hash of the previous line, so editing, dropping or reordering a line breaks the chain
+
+import { createHash } from "crypto";
+import type { TelemetryLineError } from "./schema";
+
+/** prev_hash of the first event in a chain */
+export const GENESIS_HASH = "0".repeat(64);
+
+export interface ChainVerification {
+  valid: boolean;
+  eventCount: number;
+  headHash: string; // Hash of the last chained event (GENESIS_HASH when empty)
+  errors: TelemetryLineError[];
+}
+
+/**
+ * sha256 over the record as written (including prev_hash), without its own hash
+ */
+export function hashTelemetryRecord(record: Record<string, unknown>): string {
+  const { hash: _hash, ...rest } = record;
+  return createHash("sha256").update(JSON.stringify(rest)).digest("hex");
+}
+
+/**
+ * Stamp prev_hash and hash onto an event, linking it to the previous one
+ */
+export function chainRecord<T extends object>(record: T, prevHash: string): T & { prev_hash: string; hash: string } {
+  const linked = { ...record, prev_hash: prevHash };
+  return { ...linked, hash: hashTelemetryRecord(linked) };
+}
+
+/**
+ * Hash of the last line of a chained file, to continue the chain after a restart
+ */
+export function getChainHead(content: string): string {
+  const lines = content.split("\n").filter((line) => line.trim());
+  if (lines.length === 0) {
+    return GENESIS_HASH;
+  }
+  try {
+    const last = JSON.parse(lines[lines.length - 1]) as Record<string, unknown>;
+    return typeof last.hash === "string" ? last.hash : GENESIS_HASH;
+  } catch {
+    return GENESIS_HASH;
+  }
+}
+
+/**
+ * Walk every line of a telemetry file and check each link
+ * Verification continues past a broken link so every tampered line is reported
+ */
+export function verifyTelemetryChain(content: string): ChainVerification {
+  const errors: TelemetryLineError[] = [];
+  let prevHash = GENESIS_HASH;
+  let eventCount = 0;
+
+  content.split("\n").forEach((text, index) => {
+    const line = index + 1;
+    if (!text.trim()) {
+      return;
+    }
+
+    let record: Record<string, unknown>;
+    try {
+      record = JSON.parse(text);
+    } catch {
+      errors.push({ line, message: "not valid JSON" });
+      return;
+    }
+    eventCount++;
+
+    if (typeof record.hash !== "string" || typeof record.prev_hash !== "string") {
+      errors.push({ line, message: "event is not part of the hash chain" });
+      return;
+    }
+    if (record.prev_hash !== prevHash) {
+      errors.push({ line, message: "prev_hash does not match the previous event (line removed or reordered)" });
+    }
+    if (hashTelemetryRecord(record) !== record.hash) {
+      errors.push({ line, message: "hash does not match the event contents (event modified)" });
+    }
+    prevHash = record.hash;
+  });
+
+  return { valid: errors.length === 0, eventCount, headHash: prevHash, errors };
+}
@@ -3,5 +3,11 @@
 
 export * from "./types";
 export * from "./event-logger";
+export * from "./schema";
 export * from "./scoring-presets";
 export * from "./evidence-interpreter";
+export * from "./cohort-analytics";
+export * from "./gap-detector";
+export * from "./hash-chain";
+export * from "./preset-loader";
+export * from "./score-review";
@@ -0,0 +1,194 @@
+// Scoring Preset Loader - Custom presets from YAML files shipped with courses and modules
+// Presets extend a built-in (or earlier registered) preset; invalid fields are warned about and skipped
+
+import { existsSync, readFileSync } from "fs";
+import { isAbsolute, join } from "path";
+import * as YAML from "js-yaml";
+import type { BonusCondition, BonusRule, ScoringModifiers, ScoringPreset, StepScoringOverride } from "./types";
+import { SCORING_PRESETS, createCustomPreset, getPreset, hasPreset, registerPreset } from "./scoring-presets";
+
+const MODIFIER_FIELDS: Array<keyof ScoringModifiers> = [
+  "hint_penalty",
+  "solution_penalty",
+  "retry_penalty",
+  "time_penalty",
+  "first_try_bonus",
+];
+
+const BONUS_CONDITIONS: BonusCondition[] = ["no_hints", "no_solution", "no_retries", "under_time"];
+
+const PRESET_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/**
+ * A number in [0, 1], or undefined (with a warning) for anything else
+ */
+function parseFraction(value: unknown, field: string, context: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "number" || !(value >= 0 && value <= 1)) {
+    console.warn(`${context}: '${field}' must be a number between 0 and 1`);
+    return undefined;
+  }
+  return value;
+}
+
+function parseModifiers(raw: unknown, context: string): Partial<ScoringModifiers> {
+  if (raw === undefined) {
+    return {};
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    console.warn(`${context}: 'modifiers' must be a mapping`);
+    return {};
+  }
+
+  const modifiers: Partial<ScoringModifiers> = {};
+  for (const [field, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!MODIFIER_FIELDS.includes(field as keyof ScoringModifiers)) {
+      console.warn(`${context}: unknown modifier '${field}' (expected one of: ${MODIFIER_FIELDS.join(", ")})`);
+      continue;
+    }
+    const fraction = parseFraction(value, `modifiers.${field}`, context);
+    if (fraction !== undefined) {
+      modifiers[field as keyof ScoringModifiers] = fraction;
+    }
+  }
+  return modifiers;
+}
+
+function parseBonuses(raw: unknown, context: string): BonusRule[] | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(raw)) {
+    console.warn(`${context}: 'bonuses' must be a list`);
+    return undefined;
+  }
+
+  const rules: BonusRule[] = [];
+  for (const entry of raw) {
+    const rule = (entry ?? {}) as Record<string, unknown>;
+    if (!BONUS_CONDITIONS.includes(rule.when as BonusCondition)) {
+      console.warn(`${context}: bonus 'when' must be one of: ${BONUS_CONDITIONS.join(", ")}`);
+      continue;
+    }
+    if (typeof rule.bonus !== "number" || !(rule.bonus > 0 && rule.bonus <= 1)) {
+      console.warn(`${context}: bonus '${rule.when}' needs a 'bonus' between 0 and 1`);
+      continue;
+    }
+    rules.push({
+      when: rule.when as BonusCondition,
+      bonus: rule.bonus,
+      note: typeof rule.note === "string" ? rule.note : undefined,
+    });
+  }
+  return rules;
+}
+
+function parseStepOverrides(raw: unknown, context: string): Record<string, StepScoringOverride> | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    console.warn(`${context}: 'steps' must map step IDs to overrides`);
+    return undefined;
+  }
+
+  const steps: Record<string, StepScoringOverride> = {};
+  for (const [stepId, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      console.warn(`${context}: override for step '${stepId}' must be a mapping`);
+      continue;
+    }
+    const stepContext = `${context} step '${stepId}'`;
+    const override = value as Record<string, unknown>;
+    steps[stepId] = {
+      modifiers: parseModifiers(override.modifiers, stepContext),
+      min_confidence: parseFraction(override.min_confidence, "min_confidence", stepContext),
+      pass_threshold: parseFraction(override.pass_threshold, "pass_threshold", stepContext),
+      bonuses: parseBonuses(override.bonuses, stepContext),
+    };
+  }
+  return steps;
+}
+
+/**
+ * Validate a preset definition (parsed YAML)
+ * Returns null when the preset has no usable `id`; other invalid fields fall back to the base preset
+ */
+export function parseScoringPreset(raw: unknown, context: string): ScoringPreset | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    console.warn(`${context}: scoring preset must be a mapping`);
+    return null;
+  }
+
+  const data = raw as Record<string, unknown>;
+  if (typeof data.id !== "string" || !PRESET_ID_PATTERN.test(data.id)) {
+    console.warn(`${context}: scoring preset needs an 'id' of lowercase letters, digits, '-' or '_'`);
+    return null;
+  }
+  if (data.id in SCORING_PRESETS) {
+    console.warn(`${context}: '${data.id}' is a built-in preset and cannot be redefined`);
+    return null;
+  }
+
+  let base = "partial_credit";
+  if (data.extends !== undefined) {
+    if (typeof data.extends === "string" && hasPreset(data.extends)) {
+      base = data.extends;
+    } else {
+      console.warn(`${context}: unknown base preset ${JSON.stringify(data.extends)}, extending partial_credit`);
+    }
+  }
+
+  return createCustomPreset(base, {
+    id: data.id,
+    name: typeof data.name === "string" ? data.name : data.id,
+    description: typeof data.description === "string" ? data.description : undefined,
+    modifiers: parseModifiers(data.modifiers, context),
+    min_confidence: parseFraction(data.min_confidence, "min_confidence", context),
+    pass_threshold: parseFraction(data.pass_threshold, "pass_threshold", context),
+    bonuses: parseBonuses(data.bonuses, context),
+    steps: parseStepOverrides(data.steps, context),
+  });
+}
+
+/**
+ * Load and register a preset YAML file, so its ID also works wherever preset IDs are accepted
+ * Returns null (with a warning) if the file is missing or invalid
+ */
+export function loadScoringPresetFile(path: string): ScoringPreset | null {
+  if (!existsSync(path)) {
+    console.warn(`Scoring preset file not found: ${path}`);
+    return null;
+  }
+
+  let raw: unknown;
+  try {
+    raw = YAML.load(readFileSync(path, "utf-8"));
+  } catch (error) {
+    console.warn(`Failed to parse scoring preset ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+
+  const preset = parseScoringPreset(raw, `Scoring preset ${path}`);
+  if (preset) {
+    registerPreset(preset);
+  }
+  return preset;
+}
+
+/**
+ * Resolve a preset reference: the ID of a built-in or registered preset,
+ * or a path to a preset YAML file (relative paths resolve against `baseDir`)
+ */
+export function resolveScoringPreset(ref: string, baseDir: string = process.cwd()): ScoringPreset | null {
+  if (hasPreset(ref)) {
+    return getPreset(ref);
+  }
+  if (/\.ya?ml$/.test(ref)) {
+    return loadScoringPresetFile(isAbsolute(ref) ? ref : join(baseDir, ref));
+  }
+  console.warn(`Unknown scoring preset '${ref}' (expected a preset ID or a .yaml file)`);
+  return null;
+}
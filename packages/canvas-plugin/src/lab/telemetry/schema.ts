@@ -0,0 +1,290 @@
+// Telemetry Schema - Line validation and version migrations for telemetry.jsonl
+// Files are upgraded on read, so historical sessions stay interpretable
+
+import {
+  type TelemetryEvent,
+  type TelemetryEventType,
+  TELEMETRY_SCHEMA_VERSION,
+} from "./types";
+
+/**
+ * A parsed line before validation/migration
+ */
+export type RawTelemetryRecord = Record<string, unknown>;
+
+export interface TelemetryLineError {
+  line: number;     // 1-based line number in the file
+  message: string;
+}
+
+export interface TelemetryParseResult {
+  events: TelemetryEvent[];        // Valid events, upgraded to TELEMETRY_SCHEMA_VERSION
+  errors: TelemetryLineError[];    // Malformed lines (not included in events)
+  migratedCount: number;           // Events that were written with an older schema
+}
+
+/**
+ * Thrown when a telemetry file has malformed lines
+ */
+export class TelemetryValidationError extends Error {
+  constructor(public errors: TelemetryLineError[], public source?: string) {
+    super(formatTelemetryErrors(errors, source));
+    this.name = "TelemetryValidationError";
+  }
+}
+
+/**
+ * Line-numbered report: "telemetry.jsonl:12: payload.step_id must be a string"
+ */
+export function formatTelemetryErrors(errors: TelemetryLineError[], source = "telemetry"): string {
+  const header = `${errors.length} malformed telemetry line${errors.length === 1 ? "" : "s"} in ${source}`;
+  return [header, ...errors.map((e) => `  ${source}:${e.line}: ${e.message}`)].join("\n");
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+type FieldType = "string" | "number" | "boolean" | "array" | "object";
+
+/**
+ * Required payload fields per event type
+ * file_modified has no defined payload yet, so any object is accepted
+ */
+const PAYLOAD_FIELDS: Record<Exclude<TelemetryEventType, "file_modified">, Record<string, FieldType>> = {
+  command_executed: { command: "string" },
+  student_action: { action_kind: "string", action: "string", result: "string", evidence: "object" },
+  hint_requested: { step_id: "string", hint_index: "number", total_hints: "number" },
+  solution_viewed: { step_id: "string" },
+  check_passed: { step_id: "string", source: "string" },
+  check_failed: { step_id: "string", attempt_number: "number" },
+  task_completed: { step_id: "string", task_index: "number", source: "string" },
+  question_answered: {
+    step_id: "string",
+    is_correct: "boolean",
+    selected_options: "array",
+    correct_options: "array",
+    attempt_number: "number",
+  },
+  step_started: { step_id: "string", step_type: "string" },
+  step_completed: { step_id: "string", source: "string" },
+  step_regressed: { step_id: "string", source: "string" },
+  session_started: { attempt_number: "number" },
+  session_ended: { reason: "string", total_time_seconds: "number" },
+  gap_detected: { gap_id: "string", template_id: "string", step_id: "string", message: "string", severity: "string" },
+  score_override: { step_id: "string", status: "string", confidence: "number", reason: "string", reviewer: "string" },
+  score_appeal: { step_id: "string" },
+  step_added: { step_id: "string", title: "string", source: "string" },
+  tutor_command: { command_id: "string", command: "string", status: "string" },
+};
+
+function hasType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Schema version a record was written with (unversioned files are version 1)
+ */
+export function getRecordVersion(record: RawTelemetryRecord): number {
+  return typeof record.schema_version === "number" ? record.schema_version : 1;
+}
+
+/**
+ * Check a record against the schema of the version it was written with
+ * Returns the problems found (empty when the record is valid)
+ */
+export function validateTelemetryRecord(record: RawTelemetryRecord): string[] {
+  const problems: string[] = [];
+  const version = record.schema_version;
+
+  if (version !== undefined && (!Number.isInteger(version) || (version as number) < 1)) {
+    return [`schema_version must be a positive integer, got ${JSON.stringify(version)}`];
+  }
+  if ((version as number) > TELEMETRY_SCHEMA_VERSION) {
+    return [`schema_version ${version} is newer than supported (${TELEMETRY_SCHEMA_VERSION})`];
+  }
+
+  const require = (field: string, type: FieldType, value: unknown = record[field]) => {
+    if (!hasType(value, type)) {
+      problems.push(`${field} must be ${type === "array" || type === "object" ? "an" : "a"} ${type}`);
+    }
+  };
+
+  require("timestamp", "string");
+  if (typeof record.timestamp === "string" && Number.isNaN(Date.parse(record.timestamp))) {
+    problems.push(`timestamp is not a valid date: ${record.timestamp}`);
+  }
+  require("session_id", "string");
+
+  // Tutor utterances are appended by the hub and have their own shape
+  if (record.event_type === "tutor_utterance") {
+    require("content", "string");
+    return problems;
+  }
+
+  require("event_id", "string");
+  require("module_id", "string");
+  require("student_id", "string");
+  if (getRecordVersion(record) >= 2) {
+    require("lab_type", "string");
+  }
+
+  if (typeof record.event_type !== "string") {
+    problems.push("event_type must be a string");
+    return problems;
+  }
+  if (record.event_type !== "file_modified" && !(record.event_type in PAYLOAD_FIELDS)) {
+    problems.push(`unknown event_type: ${record.event_type}`);
+    return problems;
+  }
+
+  if (!hasType(record.payload, "object")) {
+    problems.push("payload must be an object");
+    return problems;
+  }
+
+  const payload = record.payload as Record<string, unknown>;
+  const fields = PAYLOAD_FIELDS[record.event_type as keyof typeof PAYLOAD_FIELDS] ?? {};
+  for (const [field, type] of Object.entries(fields)) {
+    require(`payload.${field}`, type, payload[field]);
+  }
+
+  return problems;
+}
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+
+export interface TelemetryMigration {
+  from: number;
+  to: number;
+  description: string;
+  /**
+   * Upgrade the records at version `from` (others are passed through)
+   * Receives the whole file so a migration can look at neighbouring events
+   */
+  migrate(records: RawTelemetryRecord[]): RawTelemetryRecord[];
+}
+
+/**
+ * Is this command_executed the legacy half of a dual-write?
+ * The logger appends the student_action immediately before it
+ */
+function isDualWrite(record: RawTelemetryRecord, previous: RawTelemetryRecord | undefined): boolean {
+  if (!previous || previous.event_type !== "student_action" || previous.session_id !== record.session_id) {
+    return false;
+  }
+  const action = previous.payload as Record<string, unknown>;
+  const command = record.payload as Record<string, unknown>;
+  return action.action_kind === "execute_command" && action.action === command.command;
+}
+
+export const TELEMETRY_MIGRATIONS: TelemetryMigration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: "Default lab_type to linux_cli; convert command_executed with no student_action into one",
+    migrate(records) {
+      return records.map((record, i) => {
+        if (getRecordVersion(record) !== 1) {
+          return record;
+        }
+
+        if (record.event_type === "tutor_utterance") {
+          return { ...record, schema_version: 2 };
+        }
+
+        const upgraded: RawTelemetryRecord = { ...record, schema_version: 2, lab_type: record.lab_type ?? "linux_cli" };
+
+        // Dual-written pairs are kept as-is: the logger still writes both for legacy readers
+        if (record.event_type !== "command_executed" || isDualWrite(record, records[i - 1])) {
+          return upgraded;
+        }
+
+        const payload = record.payload as { command: string; exit_code?: number; cwd?: string };
+        return {
+          ...upgraded,
+          event_type: "student_action",
+          payload: {
+            action_kind: "execute_command",
+            action: payload.command,
+            result: (payload.exit_code ?? 0) === 0 ? "success" : "failure",
+            exit_code: payload.exit_code,
+            evidence: {
+              command: payload.command,
+              exit_code: payload.exit_code ?? 0,
+              cwd: payload.cwd,
+              migrated_from: "command_executed",
+            },
+          },
+        };
+      });
+    },
+  },
+];
+
+/**
+ * Run every migration needed to bring the records to TELEMETRY_SCHEMA_VERSION
+ * Records must already be valid for their own version
+ */
+export function migrateTelemetryRecords(records: RawTelemetryRecord[]): TelemetryEvent[] {
+  let current = records;
+  for (const migration of TELEMETRY_MIGRATIONS) {
+    if (current.some((record) => getRecordVersion(record) === migration.from)) {
+      current = migration.migrate(current);
+    }
+  }
+  return current as unknown as TelemetryEvent[];
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse telemetry.jsonl content: validate every line, then upgrade the valid events
+ * Malformed lines are reported with their line numbers, never silently dropped
+ */
+export function parseTelemetry(content: string): TelemetryParseResult {
+  const records: RawTelemetryRecord[] = [];
+  const errors: TelemetryLineError[] = [];
+
+  content.split("\n").forEach((text, index) => {
+    const line = index + 1;
+    if (!text.trim()) {
+      return;
+    }
+
+    let record: unknown;
+    try {
+      record = JSON.parse(text);
+    } catch (e) {
+      errors.push({ line, message: `invalid JSON: ${e instanceof Error ? e.message : e}` });
+      return;
+    }
+
+    if (!hasType(record, "object")) {
+      errors.push({ line, message: "line is not a JSON object" });
+      return;
+    }
+
+    const problems = validateTelemetryRecord(record as RawTelemetryRecord);
+    if (problems.length > 0) {
+      errors.push({ line, message: problems.join("; ") });
+      return;
+    }
+
+    records.push(record as RawTelemetryRecord);
+  });
+
+  const migratedCount = records.filter((record) => getRecordVersion(record) < TELEMETRY_SCHEMA_VERSION).length;
+  return { events: migrateTelemetryRecords(records), errors, migratedCount };
+}
@@ -0,0 +1,171 @@
+// Score Review - Student appeals and instructor overrides recorded in telemetry
+// Appeals queue a step for review; an override for the same step and session resolves them
+
+import { appendFileSync, existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import {
+  type TelemetryEvent,
+  type ScoreOverrideEvent,
+  type ScoreAppealEvent,
+  type LabType,
+  createTelemetryEvent,
+} from "./types";
+import { parseTelemetry, type TelemetryLineError } from "./schema";
+import { chainRecord, getChainHead, GENESIS_HASH } from "./hash-chain";
+import { PROFILES_DIR } from "../../tutor/defaults";
+
+export interface ScoreAppeal {
+  event_id: string;
+  timestamp: string;
+  session_id: string;
+  module_id: string;
+  student_id: string;
+  step_id: string;
+  note?: string;
+  resolved_by?: string; // event_id of the override that answered it
+}
+
+export interface ScoreReviewSummary {
+  overrides: ScoreOverrideEvent[];
+  appeals: ScoreAppeal[];
+  pendingAppeals: ScoreAppeal[];
+}
+
+/**
+ * Every appeal in the events, each linked to the first later override of its step in its session
+ */
+export function listScoreAppeals(events: TelemetryEvent[]): ScoreAppeal[] {
+  const appeals: ScoreAppeal[] = [];
+
+  for (const event of events) {
+    if (event.event_type === "score_appeal") {
+      const e = event as ScoreAppealEvent;
+      appeals.push({
+        event_id: e.event_id,
+        timestamp: e.timestamp,
+        session_id: e.session_id,
+        module_id: e.module_id,
+        student_id: e.student_id,
+        step_id: e.payload.step_id,
+        note: e.payload.note,
+      });
+    } else if (event.event_type === "score_override") {
+      const e = event as ScoreOverrideEvent;
+      for (const appeal of appeals) {
+        if (!appeal.resolved_by && appeal.session_id === e.session_id && appeal.step_id === e.payload.step_id) {
+          appeal.resolved_by = e.event_id;
+        }
+      }
+    }
+  }
+
+  return appeals;
+}
+
+/**
+ * Overrides and appeals across a set of events
+ */
+export function summarizeScoreReviews(events: TelemetryEvent[]): ScoreReviewSummary {
+  const appeals = listScoreAppeals(events);
+  return {
+    overrides: events.filter((e): e is ScoreOverrideEvent => e.event_type === "score_override"),
+    appeals,
+    pendingAppeals: appeals.filter((a) => !a.resolved_by),
+  };
+}
+
+/**
+ * Score reviews in a profile's archived telemetry (<profile>/telemetry/*.jsonl)
+ * A session archived more than once is only counted once. Malformed lines are returned, not dropped.
+ */
+export function loadProfileScoreReviews(
+  telemetryDir: string
+): ScoreReviewSummary & { errors: Array<TelemetryLineError & { file: string }> } {
+  const events: TelemetryEvent[] = [];
+  const errors: Array<TelemetryLineError & { file: string }> = [];
+  const seenEventIds = new Set<string>();
+
+  if (existsSync(telemetryDir)) {
+    for (const file of readdirSync(telemetryDir).filter((f) => f.endsWith(".jsonl")).sort()) {
+      const path = join(telemetryDir, file);
+      const result = parseTelemetry(readFileSync(path, "utf-8"));
+      errors.push(...result.errors.map((error) => ({ ...error, file: path })));
+
+      for (const event of result.events) {
+        if (event.event_type === "tutor_utterance" || seenEventIds.has(event.event_id)) {
+          continue;
+        }
+        seenEventIds.add(event.event_id);
+        events.push(event);
+      }
+    }
+  }
+
+  events.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  return { ...summarizeScoreReviews(events), errors };
+}
+
+// ============================================================================
+// OVERRIDES
+// ============================================================================
+
+/**
+ * Every telemetry file holding a session: the lab log dir's telemetry.jsonl
+ * and the copies archived in student profiles (<profiles>/<id>/telemetry/*.jsonl)
+ */
+export function findSessionTelemetryFiles(
+  sessionId: string,
+  options: { logDir?: string; profilesDir?: string } = {}
+): string[] {
+  const { logDir, profilesDir = PROFILES_DIR } = options;
+  const candidates: string[] = [];
+
+  if (logDir) {
+    candidates.push(join(logDir, "telemetry.jsonl"));
+  }
+  if (existsSync(profilesDir)) {
+    for (const profileId of readdirSync(profilesDir).sort()) {
+      const telemetryDir = join(profilesDir, profileId, "telemetry");
+      if (existsSync(telemetryDir)) {
+        candidates.push(
+          ...readdirSync(telemetryDir)
+            .filter((f) => f.endsWith(".jsonl"))
+            .sort()
+            .map((f) => join(telemetryDir, f))
+        );
+      }
+    }
+  }
+
+  const needle = `"session_id":${JSON.stringify(sessionId)}`;
+  return candidates.filter((path) => existsSync(path) && readFileSync(path, "utf-8").includes(needle));
+}
+
+/**
+ * Append an instructor's override of a step's score to each copy of the session's telemetry
+ * The same event goes into every file; hash-chained (exam) files stay chained
+ */
+export function recordScoreOverride(
+  paths: string[],
+  session: { sessionId: string; moduleId: string; studentId: string; labType: LabType },
+  override: ScoreOverrideEvent["payload"]
+): ScoreOverrideEvent {
+  const event: ScoreOverrideEvent = {
+    ...createTelemetryEvent(
+      "score_override",
+      session.sessionId,
+      session.moduleId,
+      session.studentId,
+      override,
+      override.step_id
+    ),
+    lab_type: session.labType,
+  };
+
+  for (const path of paths) {
+    const head = getChainHead(readFileSync(path, "utf-8"));
+    const record = head === GENESIS_HASH ? event : chainRecord(event, head);
+    appendFileSync(path, JSON.stringify(record) + "\n");
+  }
+  return event;
+}
@@ -2,7 +2,15 @@
 // Configurable scoring rules for different assessment modes
 // Following Readiness Radar patterns: penalties, bonuses, thresholds
 
-import type { ScoringPreset, ScoringModifiers, ScoreModifier } from "./types";
+import type {
+  ScoringPreset,
+  ScoringModifiers,
+  ScoreModifier,
+  BonusRule,
+  BonusCondition,
+  RubricItem,
+  RubricResult,
+} from "./types";
 
 // ============================================================================
 // PRESET DEFINITIONS
@@ -33,6 +41,7 @@ export const SCORING_PRESETS: Record<string, ScoringPreset> = {
       hint_penalty: 0.15, // -15% per hint
       solution_penalty: 0.25, // -25% for viewing solution
       retry_penalty: 0.1, // -10% per retry after first
+      time_penalty: 0.1, // Up to -10% for running over the expected time
       first_try_bonus: 0.1, // +10% for first try success
     },
     min_confidence: 0.2, // Floor at 20%
@@ -55,23 +64,30 @@ export const SCORING_PRESETS: Record<string, ScoringPreset> = {
   },
 };
 
+// Presets loaded from course/module YAML (see preset-loader.ts), by ID
+const registeredPresets: Map<string, ScoringPreset> = new Map();
+
 // ============================================================================
 // SCORING FUNCTIONS
 // ============================================================================
 
 /**
  * Calculate confidence score based on modifiers
- * Starts at 1.0 and applies penalties/bonuses
+ * Starts at baseScore (1.0, or the rubric credit earned) and applies penalties/bonuses
+ * The preset's bonus rules only apply when `completed` (the step's check passed)
  */
 export function calculateConfidence(
   preset: ScoringPreset,
   hintsUsed: number,
   solutionViewed: boolean,
   retryAttempts: number,
-  isFirstTrySuccess: boolean
+  isFirstTrySuccess: boolean,
+  baseScore: number = 1.0,
+  timing?: { spentSeconds: number; expectedSeconds: number },
+  completed: boolean = true
 ): { confidence: number; modifiers: ScoreModifier[] } {
   const modifiers: ScoreModifier[] = [];
-  let confidence = 1.0;
+  let confidence = baseScore;
 
   // Apply hint penalties
   if (hintsUsed > 0) {
@@ -108,6 +124,13 @@ export function calculateConfidence(
     });
   }
 
+  // Apply time penalty
+  const timePenalty = timing && calculateTimePenalty(preset, timing.spentSeconds, timing.expectedSeconds);
+  if (timePenalty) {
+    confidence += timePenalty.delta;
+    modifiers.push(timePenalty);
+  }
+
   // Apply first try bonus
   if (isFirstTrySuccess && preset.modifiers.first_try_bonus > 0) {
     confidence += preset.modifiers.first_try_bonus;
@@ -119,8 +142,18 @@ export function calculateConfidence(
     });
   }
 
-  // Apply floor
-  confidence = Math.max(confidence, preset.min_confidence);
+  // Apply the preset's bonus rules
+  if (completed) {
+    for (const rule of preset.bonuses ?? []) {
+      if (meetsBonusCondition(rule.when, hintsUsed, solutionViewed, retryAttempts, timing)) {
+        confidence += rule.bonus;
+        modifiers.push({ kind: "bonus", count: 1, delta: rule.bonus, note: rule.note ?? BONUS_NOTES[rule.when] });
+      }
+    }
+  }
+
+  // Apply floor (never above the credit actually earned)
+  confidence = Math.max(confidence, Math.min(preset.min_confidence, baseScore));
 
   // Cap at 1.0
   confidence = Math.min(confidence, 1.0);
@@ -128,6 +161,136 @@ export function calculateConfidence(
   return { confidence, modifiers };
 }
 
+const BONUS_NOTES: Record<BonusCondition, string> = {
+  no_hints: "Completed without hints",
+  no_solution: "Completed without viewing the solution",
+  no_retries: "Completed without retries",
+  under_time: "Completed within the expected time",
+};
+
+function meetsBonusCondition(
+  when: BonusCondition,
+  hintsUsed: number,
+  solutionViewed: boolean,
+  retryAttempts: number,
+  timing?: { spentSeconds: number; expectedSeconds: number }
+): boolean {
+  switch (when) {
+    case "no_hints":
+      return hintsUsed === 0;
+    case "no_solution":
+      return !solutionViewed;
+    case "no_retries":
+      return retryAttempts === 0;
+    case "under_time":
+      return timing !== undefined && timing.spentSeconds <= timing.expectedSeconds;
+  }
+}
+
+/**
+ * Penalty for taking longer than expected: scales linearly from 0 at the
+ * expected time to the preset's full time_penalty at twice the expected time
+ * Returns null when on time or the preset has no time penalty
+ */
+export function calculateTimePenalty(
+  preset: ScoringPreset,
+  spentSeconds: number,
+  expectedSeconds: number
+): ScoreModifier | null {
+  const maxPenalty = preset.modifiers.time_penalty ?? 0;
+  if (maxPenalty <= 0 || expectedSeconds <= 0 || spentSeconds <= expectedSeconds) {
+    return null;
+  }
+
+  const overrun = Math.min(1, (spentSeconds - expectedSeconds) / expectedSeconds);
+  return {
+    kind: "time_penalty",
+    count: 1,
+    delta: -maxPenalty * overrun,
+    note: `Took ${formatSeconds(spentSeconds)} (expected ${formatSeconds(expectedSeconds)})`,
+  };
+}
+
+function formatSeconds(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.round(seconds % 60);
+  return minutes > 0 ? `${minutes}m ${rest}s` : `${rest}s`;
+}
+
+/**
+ * Base score for a step from its rubric: the weight share of satisfied items.
+ * A passed step satisfies every item; otherwise an item needs its task completed.
+ */
+export function calculateRubricScore(
+  rubric: RubricItem[],
+  completedTasks: number[],
+  stepPassed: boolean
+): { score: number; results: RubricResult[] } {
+  const totalWeight = rubric.reduce((sum, item) => sum + item.weight, 0);
+  if (totalWeight === 0) {
+    return { score: stepPassed ? 1.0 : 0, results: [] };
+  }
+
+  const done = new Set(completedTasks);
+  const results = rubric.map((item) => {
+    const satisfied = stepPassed || (item.task !== undefined && done.has(item.task));
+    return {
+      item_id: item.id,
+      description: item.description,
+      satisfied,
+      contribution: satisfied ? item.weight / totalWeight : 0,
+    };
+  });
+
+  return { score: results.reduce((sum, r) => sum + r.contribution, 0), results };
+}
+
+/**
+ * Parse a step's `rubric:` block, warning about (and skipping) malformed items
+ * `taskCount` bounds the task indexes items may reference
+ */
+export function parseRubric(raw: unknown, context: string, taskCount: number): RubricItem[] {
+  if (raw === undefined) {
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    console.warn(`${context}: 'rubric' must be a list`);
+    return [];
+  }
+
+  const items: RubricItem[] = [];
+  const seen = new Set<string>();
+  for (const entry of raw) {
+    const item = (entry ?? {}) as Record<string, unknown>;
+    const id = typeof item.id === "string" ? item.id : "";
+    if (!id) {
+      console.warn(`${context}: rubric item without an 'id'`);
+      continue;
+    }
+    if (seen.has(id)) {
+      console.warn(`${context}: duplicate rubric item '${id}'`);
+      continue;
+    }
+    if (typeof item.weight !== "number" || !(item.weight > 0)) {
+      console.warn(`${context}: rubric item '${id}' needs a positive 'weight'`);
+      continue;
+    }
+    if (item.task !== undefined && (!Number.isInteger(item.task) || (item.task as number) < 0 || (item.task as number) >= taskCount)) {
+      console.warn(`${context}: rubric item '${id}' references task ${item.task}, but the step has ${taskCount} task(s)`);
+      continue;
+    }
+
+    seen.add(id);
+    items.push({
+      id,
+      description: typeof item.description === "string" ? item.description : id,
+      weight: item.weight,
+      task: item.task as number | undefined,
+    });
+  }
+  return items;
+}
+
 /**
  * Determine if a task passes based on confidence and preset threshold
  */
@@ -168,17 +331,60 @@ export function calculateCompletionPct(
 }
 
 /**
- * Get preset by ID, with fallback to partial_credit
+ * Get preset by ID (built-in or registered), with fallback to partial_credit
  */
 export function getPreset(presetId: string): ScoringPreset {
-  return SCORING_PRESETS[presetId] || SCORING_PRESETS.partial_credit;
+  return SCORING_PRESETS[presetId] || registeredPresets.get(presetId) || SCORING_PRESETS.partial_credit;
+}
+
+/**
+ * Whether an ID names a built-in or registered preset
+ */
+export function hasPreset(presetId: string): boolean {
+  return presetId in SCORING_PRESETS || registeredPresets.has(presetId);
 }
 
 /**
- * List all available preset IDs
+ * Make a custom preset available by ID (built-in presets cannot be replaced)
+ */
+export function registerPreset(preset: ScoringPreset): void {
+  if (preset.id in SCORING_PRESETS) {
+    throw new Error(`Cannot replace built-in scoring preset '${preset.id}'`);
+  }
+  registeredPresets.set(preset.id, preset);
+}
+
+/**
+ * List all available preset IDs, built-in first
  */
 export function listPresetIds(): string[] {
-  return Object.keys(SCORING_PRESETS);
+  return [...Object.keys(SCORING_PRESETS), ...registeredPresets.keys()];
+}
+
+/**
+ * TESTING ONLY: Forget registered presets
+ * @internal
+ */
+export function _clearRegisteredPresets(): void {
+  registeredPresets.clear();
+}
+
+/**
+ * The preset as it applies to one step, with the step's `steps:` override merged in
+ */
+export function resolveStepPreset(preset: ScoringPreset, stepId: string): ScoringPreset {
+  const override = preset.steps?.[stepId];
+  if (!override) {
+    return preset;
+  }
+
+  return {
+    ...preset,
+    modifiers: { ...preset.modifiers, ...override.modifiers },
+    min_confidence: override.min_confidence ?? preset.min_confidence,
+    pass_threshold: override.pass_threshold ?? preset.pass_threshold,
+    bonuses: override.bonuses ?? preset.bonuses,
+  };
 }
 
 /**
@@ -240,17 +446,20 @@ export function explainScore(
 export function createCustomPreset(
   basePresetId: string,
   overrides: Partial<{
+    id: string;
     name: string;
     description: string;
     modifiers: Partial<ScoringModifiers>;
     min_confidence: number;
     pass_threshold: number;
+    bonuses: BonusRule[];
+    steps: ScoringPreset["steps"];
   }>
 ): ScoringPreset {
   const base = getPreset(basePresetId);
 
   return {
-    id: "custom" as ScoringPreset["id"],
+    id: overrides.id || "custom",
     name: overrides.name || `Custom (based on ${base.name})`,
     description: overrides.description || base.description,
     modifiers: {
@@ -259,5 +468,7 @@ export function createCustomPreset(
     },
     min_confidence: overrides.min_confidence ?? base.min_confidence,
     pass_threshold: overrides.pass_threshold ?? base.pass_threshold,
+    bonuses: overrides.bonuses ?? base.bonuses,
+    steps: overrides.steps ?? base.steps,
   };
 }
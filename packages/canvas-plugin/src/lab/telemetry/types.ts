@@ -7,17 +7,26 @@ import { randomUUID } from "crypto";
 // LAB TYPE & ACTION KIND (Multi-Lab Support)
 // ============================================================================
 
-export type LabType = "linux_cli" | "splunk" | "python";
+export type LabType = "linux_cli" | "splunk" | "python" | "sql" | "git";
 
 export type ActionKind =
   | "execute_command"   // Linux CLI
   | "execute_query"     // Splunk SPL
-  | "submit_code";      // Python code
+  | "submit_code"       // Python code
+  | "execute_sql";      // SQL query
 
 // ============================================================================
 // TELEMETRY EVENTS (Immutable)
 // ============================================================================
 
+/**
+ * Schema version stamped on every event written to telemetry.jsonl
+ * 1: unversioned files (lab_type may be missing, command_executed without student_action)
+ * 2: schema_version and lab_type on every event; commands always have a student_action
+ * Older files are upgraded on read by the migrations in schema.ts
+ */
+export const TELEMETRY_SCHEMA_VERSION = 2;
+
 export type TelemetryEventType =
   | "command_executed"
   | "file_modified"
@@ -25,14 +34,22 @@ export type TelemetryEventType =
   | "solution_viewed"
   | "check_passed"
   | "check_failed"
+  | "task_completed"     // One task within a step (rubric partial credit)
   | "question_answered"
   | "step_started"
   | "step_completed"
+  | "step_regressed"     // A completed step's outcome stopped holding (continuous verification)
   | "session_started"
   | "session_ended"
-  | "student_action";    // NEW: Unified student action event
+  | "student_action"     // NEW: Unified student action event
+  | "gap_detected"
+  | "score_override"     // Instructor amended a step's score (appended after review)
+  | "score_appeal"       // Student flagged a step for review
+  | "step_added"         // Tutor inserted a step during the session
+  | "tutor_command";     // Tutor changed the session (skip, reorder, reveal hint, switch preset, ...)
 
 export interface TelemetryEventBase {
+  schema_version: number;
   event_id: string;
   timestamp: string; // ISO 8601
   session_id: string;
@@ -40,6 +57,8 @@ export interface TelemetryEventBase {
   student_id: string;
   step_id?: string;
   lab_type: LabType;  // NEW: Defaults to "linux_cli" for backward compatibility
+  prev_hash?: string; // Exam sessions: hash of the previous event (see hash-chain.ts)
+  hash?: string;      // Exam sessions: sha256 of this event including prev_hash
 }
 
 /**
@@ -88,6 +107,15 @@ export interface SolutionViewedEvent extends TelemetryEventBase {
   };
 }
 
+/**
+ * A check run on demand rather than polled: who asked, and what the script returned
+ */
+export interface OnDemandCheck {
+  requested_by: "student" | "tutor"; // VTA key, or the tutor control API / lab-check
+  exit_code: number | null;          // null if the check did not finish
+  output: string;
+}
+
 export interface CheckPassedEvent extends TelemetryEventBase {
   event_type: "check_passed";
   payload: {
@@ -95,6 +123,8 @@ export interface CheckPassedEvent extends TelemetryEventBase {
     check_script?: string;
     source: "command" | "check" | "tutor";
     task_index?: number;
+    message?: string; // Explanation of the pass (on-demand checks)
+    on_demand?: OnDemandCheck;
   };
 }
 
@@ -105,6 +135,19 @@ export interface CheckFailedEvent extends TelemetryEventBase {
     check_script?: string;
     error_message?: string;
     attempt_number: number;
+    on_demand?: OnDemandCheck;
+  };
+}
+
+/**
+ * One task of a multi-task step was satisfied before the whole step passed
+ */
+export interface TaskCompletedEvent extends TelemetryEventBase {
+  event_type: "task_completed";
+  payload: {
+    step_id: string;
+    task_index: number;
+    source: "command" | "check" | "tutor";
   };
 }
 
@@ -136,6 +179,19 @@ export interface StepCompletedEvent extends TelemetryEventBase {
   };
 }
 
+/**
+ * A completed step's check stopped passing, so the step is unfinished again
+ * A later check_passed / step_completed completes it again
+ */
+export interface StepRegressedEvent extends TelemetryEventBase {
+  event_type: "step_regressed";
+  payload: {
+    step_id: string;
+    source: "command" | "check";
+    message?: string; // What the check printed when it stopped passing
+  };
+}
+
 export interface SessionStartedEvent extends TelemetryEventBase {
   event_type: "session_started";
   payload: {
@@ -151,11 +207,87 @@ export interface SessionEndedEvent extends TelemetryEventBase {
   };
 }
 
+/**
+ * A GapTemplate condition matched during a live session
+ */
+export interface GapDetectedEvent extends TelemetryEventBase {
+  event_type: "gap_detected";
+  payload: {
+    gap_id: string;
+    template_id: string;
+    step_id: string;
+    message: string;
+    severity: "info" | "warning" | "critical";
+    skill_id?: string;
+  };
+}
+
+/**
+ * An instructor's ruling on a step's score, appended to the session it amends
+ * The latest override for a step replaces its computed score
+ */
+export interface ScoreOverrideEvent extends TelemetryEventBase {
+  event_type: "score_override";
+  payload: {
+    step_id: string;
+    status: "completed" | "failed";
+    confidence: number; // 0.0 - 1.0, replaces the computed score
+    reason: string;
+    reviewer: string;
+  };
+}
+
+/**
+ * Student believes a step was done although its check did not pass
+ * Pending until a later score_override for the same step
+ */
+export interface ScoreAppealEvent extends TelemetryEventBase {
+  event_type: "score_appeal";
+  payload: {
+    step_id: string;
+    note?: string;
+  };
+}
+
+/**
+ * A step inserted during the session (tutor addStep)
+ * Scored alongside the module's own steps for the rest of the session
+ */
+export interface StepAddedEvent extends TelemetryEventBase {
+  event_type: "step_added";
+  payload: {
+    step_id: string;
+    title: string;
+    source: "tutor";
+    weight?: number;          // Share of the lab score (default 1)
+    validation_type?: string; // How the step is checked; absent when only markComplete completes it
+  };
+}
+
+/**
+ * A tutor control command, done or rejected (tutor-commands.json)
+ * A done skipStep drops the step from the score; a done setPreset scores the session under that preset
+ */
+export interface TutorCommandEvent extends TelemetryEventBase {
+  event_type: "tutor_command";
+  payload: {
+    command_id: string;
+    command: string;        // addStep, skipStep, setPreset, ...
+    status: "done" | "error";
+    error?: string;
+    step_id?: string;
+    reason?: string;        // skipStep
+    hint_index?: number;    // revealHint
+    preset_id?: string;     // setPreset
+  };
+}
+
 /**
  * Tutor utterance event - captured from Claude Code tutor via Stop hooks
  * Used for evaluation and conversation analysis
  */
 export interface TutorUtteranceEvent {
+  schema_version?: number;  // Stamped when appended to telemetry.jsonl
   timestamp: string;
   session_id: string;
   claude_session_id: string;
@@ -170,11 +302,18 @@ export type TelemetryEvent =
   | SolutionViewedEvent
   | CheckPassedEvent
   | CheckFailedEvent
+  | TaskCompletedEvent
   | QuestionAnsweredEvent
   | StepStartedEvent
   | StepCompletedEvent
+  | StepRegressedEvent
   | SessionStartedEvent
   | SessionEndedEvent
+  | GapDetectedEvent
+  | ScoreOverrideEvent
+  | ScoreAppealEvent
+  | StepAddedEvent
+  | TutorCommandEvent
   | TutorUtteranceEvent;
 
 // ============================================================================
@@ -184,7 +323,7 @@ export type TelemetryEvent =
 export type TaskStatus = "pending" | "in_progress" | "completed" | "partial" | "failed";
 
 export interface ScoreModifier {
-  kind: "hint_used" | "solution_viewed" | "retry_attempt" | "time_penalty" | "first_try_bonus";
+  kind: "hint_used" | "solution_viewed" | "retry_attempt" | "time_penalty" | "first_try_bonus" | "bonus";
   count: number;
   delta: number; // e.g., -0.15 for hint penalty, +0.10 for first try bonus
   note: string;
@@ -222,6 +361,23 @@ export interface TaskEvidence {
   total_attempts: number;
   hints_revealed: number;
   solution_viewed: boolean;
+
+  rubric?: RubricResult[];
+  override?: ScoreOverride; // Set when an instructor amended this step's score
+  regressions?: number; // Times a pass stopped holding (continuous verification)
+}
+
+/**
+ * The override in force for a step (from its latest score_override event)
+ */
+export interface ScoreOverride {
+  event_id: string;
+  timestamp: string;
+  status: "completed" | "failed";
+  confidence: number;
+  computed_confidence: number; // What the telemetry alone scored
+  reason: string;
+  reviewer: string;
 }
 
 // ============================================================================
@@ -232,17 +388,62 @@ export interface ScoringModifiers {
   hint_penalty: number; // -0.15 per hint
   solution_penalty: number; // -0.25 for viewing solution
   retry_penalty: number; // -0.10 per retry after first
-  time_penalty?: number; // Optional time-based penalty factor
+  time_penalty?: number; // Max penalty for overrunning the expected time (full at 2× expected)
   first_try_bonus: number; // +0.10 for completing on first try
 }
 
+/**
+ * Conditions a bonus rule can reward, checked only on completed steps
+ */
+export type BonusCondition = "no_hints" | "no_solution" | "no_retries" | "under_time";
+
+export interface BonusRule {
+  when: BonusCondition;
+  bonus: number; // Added to the step's confidence (capped at 1.0)
+  note?: string; // Shown in score explanations (default derived from `when`)
+}
+
+/**
+ * Per-step changes to a preset (`steps:` in a preset YAML)
+ */
+export interface StepScoringOverride {
+  modifiers?: Partial<ScoringModifiers>;
+  min_confidence?: number;
+  pass_threshold?: number;
+  bonuses?: BonusRule[]; // Replaces the preset's bonus rules for this step
+}
+
 export interface ScoringPreset {
-  id: "strict" | "partial_credit" | "practice_mode";
+  id: string; // Built-in: "strict" | "partial_credit" | "practice_mode"; others come from YAML
   name: string;
   description: string;
   modifiers: ScoringModifiers;
   min_confidence: number; // Floor (0.20 = 20%)
   pass_threshold: number; // 0.70 = 70% to pass
+  bonuses?: BonusRule[];
+  steps?: Record<string, StepScoringOverride>;
+}
+
+// ============================================================================
+// RUBRICS
+// ============================================================================
+
+/**
+ * One criterion of a step's rubric (`rubric:` in module.yaml)
+ * Satisfied when its task (index into content.tasks) completes, or when the whole step passes
+ */
+export interface RubricItem {
+  id: string;
+  description: string;
+  weight: number; // Relative to the other items of the step
+  task?: number;
+}
+
+export interface RubricResult {
+  item_id: string;
+  description: string;
+  satisfied: boolean;
+  contribution: number; // Share of the step's base score (0 when unsatisfied)
 }
 
 // ============================================================================
@@ -257,6 +458,9 @@ export interface TaskScore {
   modifiers: ScoreModifier[];
   evidence_id: string;
   passed: boolean;
+  rubric?: RubricResult[];
+  override?: ScoreOverride;
+  regressed?: boolean; // Passed before, but its outcome no longer holds
 }
 
 export interface LabProgress {
@@ -268,9 +472,10 @@ export interface LabProgress {
   tasks: Record<string, TaskScore>;
 
   // Derived from tasks
-  overall_score: number; // Weighted average
+  overall_score: number; // Weighted average, after lab-level modifiers
   completion_pct: number; // 0-100
   passed: boolean;
+  modifiers?: ScoreModifier[]; // Lab-level adjustments (whole-lab time penalty)
 
   telemetry_event_count: number;
   started_at: string;
@@ -288,6 +493,7 @@ export interface GapTemplate {
   message: string;
   severity: "info" | "warning" | "critical";
   skill_id?: string;
+  steps?: string[];  // Only evaluate these steps (default: every step)
 }
 
 export type GapCondition =
@@ -317,8 +523,10 @@ export interface ScoreTrace {
   task_id: string;
   step_id: string;
   confidence: number;
-  base_score: number; // Before modifiers
+  base_score: number; // Before modifiers (rubric credit when the step has a rubric)
   modifiers: ScoreModifier[];
+  rubric?: RubricResult[];
+  override?: ScoreOverride; // confidence is the override's; modifiers explain the computed score
   evidence_id: string;
   source_events: Array<{
     event_id: string;
@@ -358,6 +566,7 @@ export function createTelemetryEvent<T extends TelemetryEvent["event_type"]>(
   step_id?: string
 ): Extract<TelemetryEvent, { event_type: T }> {
   return {
+    schema_version: TELEMETRY_SCHEMA_VERSION,
     event_id: generateEventId(),
     timestamp: new Date().toISOString(),
     session_id,
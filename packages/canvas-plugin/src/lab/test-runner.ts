@@ -5,6 +5,7 @@ import { spawnSync } from "child_process";
 import * as fs from "fs";
 import * as path from "path";
 import { getCheckConfigs, moduleExists, getLabsPath, getDraftsPath } from "./module-loader";
+import { shellQuote } from "./checks/declarative";
 
 export interface CheckResult {
   checkId: string;
@@ -108,7 +109,7 @@ export async function runModuleTests(
 
   // Run each check script
   for (const check of checksToRun) {
-    const checkResult = await runCheck(moduleId, check.script, dockerImage, verbose);
+    const checkResult = await runCheck(moduleId, check.script, dockerImage, verbose, check.compiled);
     result.checks.push({
       checkId: check.stepId,
       script: check.script,
@@ -171,12 +172,15 @@ async function testSetupScript(
 
 /**
  * Run a single check script
+ * Declarative checks pass their compiled body, which is run inline
+ * since it isn't part of the module directory baked into the image
  */
 export async function runCheck(
   moduleId: string,
   checkScript: string,
   dockerImage: string = "canvas-lab:latest",
-  verbose: boolean = false
+  verbose: boolean = false,
+  compiled?: string
 ): Promise<{
   passed: boolean;
   stdout: string;
@@ -188,7 +192,10 @@ export async function runCheck(
 
   // Run the check script inside Docker after setup
   // Scripts are in /opt/lab/modules/<moduleId>/
-  const cmd = `source /opt/lab/modules/${moduleId}/setup.sh 2>/dev/null; /opt/lab/modules/${moduleId}/checks/${checkScript}`;
+  const checkCmd = compiled !== undefined
+    ? `bash -c ${shellQuote(compiled)}`
+    : `/opt/lab/modules/${moduleId}/checks/${checkScript}`;
+  const cmd = `source /opt/lab/modules/${moduleId}/setup.sh 2>/dev/null; ${checkCmd}`;
 
   const result = spawnSync("docker", [
     "run",
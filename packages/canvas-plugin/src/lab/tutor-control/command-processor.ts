@@ -0,0 +1,210 @@
+// Tutor Command Processor
+// Applies tutor commands (hooks first, then IPC messages to the VTA) and acknowledges each one
+// Shared by the tutor-commands.json watcher and the control API server
+
+import type { LabMessage, DynamicStep } from "../../ipc/types";
+import {
+  type TutorCommand,
+  type AddStepPayload,
+  type SkipStepPayload,
+  type UpdateStepPayload,
+  type MoveStepPayload,
+  type SetPresetPayload,
+  isAddStepPayload,
+  isMarkCompletePayload,
+} from "./types";
+
+const RECENT_COMMANDS_LIMIT = 50;
+
+export interface TutorCommandProcessorOptions {
+  sendMessage: (msg: LabMessage) => void;
+  // Register an added step before the VTA shows it; throwing fails the command
+  onAddStep?: (payload: AddStepPayload) => void;
+  // Complete a step; defaults to sending taskCompleted straight to the VTA
+  onMarkComplete?: (stepId: string) => void;
+  // Monitor-side effects of the other commands; throwing fails the command before the VTA is told
+  onSkipStep?: (payload: SkipStepPayload) => void;
+  onMoveStep?: (payload: MoveStepPayload) => void;
+  onSetPreset?: (payload: SetPresetPayload) => void; // setPreset fails without it
+  // Commands naming an unknown step fail instead of being sent to the VTA
+  hasStep?: (stepId: string) => boolean;
+  // Every processed command, with its final status (after the VTA got its tutorCommandAck)
+  onCommandProcessed?: (command: TutorCommand) => void;
+  onLog?: (message: string) => void;
+}
+
+export interface TutorCommandProcessor {
+  // Apply a pending command; sets its status, processedAt and error, and returns it
+  process: (command: TutorCommand) => TutorCommand;
+  // Processed commands from every channel, newest last
+  getRecentCommands: (limit?: number) => TutorCommand[];
+}
+
+export function createTutorCommandProcessor(options: TutorCommandProcessorOptions): TutorCommandProcessor {
+  const {
+    sendMessage,
+    onAddStep,
+    onMarkComplete,
+    onSkipStep,
+    onMoveStep,
+    onSetPreset,
+    hasStep,
+    onCommandProcessed,
+    onLog,
+  } = options;
+
+  const recent: TutorCommand[] = [];
+  const log = (msg: string) => onLog?.(msg);
+
+  /**
+   * Apply one command: monitor-side hooks first, then tell the VTA
+   * Throws when the command is malformed or a hook rejects it
+   */
+  function applyCommand(command: TutorCommand): void {
+    const payload = (command.payload ?? {}) as unknown as Record<string, unknown>;
+    const requireString = (field: string): string => {
+      const value = payload[field];
+      if (typeof value !== "string" || !value) {
+        throw new Error(`${command.type} needs a '${field}'`);
+      }
+      return value;
+    };
+    const requireStep = (field = "stepId"): string => {
+      const stepId = requireString(field);
+      if (hasStep && !hasStep(stepId)) {
+        throw new Error(`Unknown step '${stepId}'`);
+      }
+      return stepId;
+    };
+
+    switch (command.type) {
+      case "addStep": {
+        requireString("stepId");
+        if (!isAddStepPayload(command.payload) || !command.payload.step.title) {
+          throw new Error("addStep needs a 'step' with a 'title'");
+        }
+        const { step } = command.payload;
+        if (step.type === "question") {
+          if (!step.content?.question) {
+            throw new Error("question steps need 'content.question'");
+          }
+          if (step.validation) {
+            throw new Error("question steps are completed by answering them; remove 'validation'");
+          }
+        }
+        onAddStep?.(command.payload);
+
+        const dynamicStep: DynamicStep = {
+          id: command.payload.stepId,
+          title: step.title,
+          type: step.type === "question" ? "question" : "task",
+          content: {
+            instructions: step.content?.instructions,
+            tasks: step.content?.tasks,
+            hints: step.content?.hints,
+            question: step.content?.question,
+          },
+          source: "tutor",
+        };
+        sendMessage({ type: "addDynamicStep", step: dynamicStep, afterStepId: command.payload.afterStepId });
+        return;
+      }
+
+      case "markComplete": {
+        const stepId = requireStep();
+        if (!isMarkCompletePayload(command.payload)) {
+          throw new Error("markComplete needs source: \"tutor\"");
+        }
+        if (onMarkComplete) {
+          onMarkComplete(stepId);
+        } else {
+          sendMessage({ type: "taskCompleted", taskId: `tutor-${stepId}`, stepId, source: "tutor" });
+        }
+        return;
+      }
+
+      case "skipStep": {
+        const p = { stepId: requireStep(), reason: typeof payload.reason === "string" ? payload.reason : undefined };
+        onSkipStep?.(p);
+        sendMessage({ type: "stepSkipped", ...p });
+        return;
+      }
+
+      case "revealHint": {
+        const stepId = requireStep();
+        const hintIndex = payload.hintIndex;
+        if (typeof hintIndex !== "number" || !Number.isInteger(hintIndex) || hintIndex < 0) {
+          throw new Error("revealHint needs a 'hintIndex' of 0 or more");
+        }
+        // The VTA reveals it like a requested hint (hintRequested), so it is scored as one
+        sendMessage({ type: "revealHint", stepId, hintIndex });
+        return;
+      }
+
+      case "goToStep":
+        sendMessage({ type: "goToStep", stepId: requireStep() });
+        return;
+
+      case "updateStep": {
+        const stepId = requireStep();
+        const content = payload.content as UpdateStepPayload["content"] | undefined;
+        if (!content || typeof content !== "object" || (!content.instructions && !content.tasks && !content.hints)) {
+          throw new Error("updateStep needs 'content' with instructions, tasks or hints");
+        }
+        sendMessage({ type: "updateStep", stepId, content });
+        return;
+      }
+
+      case "moveStep": {
+        const p = { stepId: requireStep(), afterStepId: requireStep("afterStepId") };
+        if (p.stepId === p.afterStepId) {
+          throw new Error("moveStep cannot place a step after itself");
+        }
+        onMoveStep?.(p);
+        sendMessage({ type: "moveStep", ...p });
+        return;
+      }
+
+      case "setPreset": {
+        const presetId = requireString("presetId");
+        if (!onSetPreset) {
+          throw new Error("setPreset is not supported by this lab");
+        }
+        onSetPreset({ presetId });
+        return;
+      }
+
+      default:
+        throw new Error(`Unknown command type: ${command.type}`);
+    }
+  }
+
+  return {
+    process(command: TutorCommand) {
+      log(`Processing command: ${command.type} (${command.id})`);
+
+      try {
+        applyCommand(command);
+        command.status = "done";
+        log(`Command ${command.id} done`);
+      } catch (e) {
+        command.status = "error";
+        command.error = e instanceof Error ? e.message : String(e);
+        log(`Command ${command.id} failed: ${command.error}`);
+      }
+      command.processedAt = new Date().toISOString();
+
+      sendMessage({ type: "tutorCommandAck", commandId: command.id, status: command.status, message: command.error });
+      recent.push(command);
+      if (recent.length > RECENT_COMMANDS_LIMIT) {
+        recent.shift();
+      }
+      onCommandProcessed?.(command);
+      return command;
+    },
+
+    getRecentCommands(limit = RECENT_COMMANDS_LIMIT) {
+      return recent.slice(-limit);
+    },
+  };
+}
@@ -0,0 +1,100 @@
+// Tutor Control Client
+// Typed calls to a lab's control API, and the tutor-commands.json fallback when no server is listening
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { LabState, StepState } from "./state-writer";
+import type { CheckRunResult } from "../checks/types";
+import type { CommandLogEntry } from "../validation-rules";
+import {
+  CONTROL_SOCKET_FILE,
+  type AddStepPayload,
+  type ControlCommandRequest,
+  type ControlErrorResponse,
+  type TutorCommand,
+  type TutorCommandAck,
+  type TutorCommandsFile,
+} from "./types";
+
+export interface TutorControlClientOptions {
+  socketPath: string;
+  // Send requests somewhere other than the socket, e.g. an in-process server's handle()
+  fetch?: (request: Request) => Promise<Response>;
+}
+
+export interface TutorControlClient {
+  getState: () => Promise<LabState>;
+  listSteps: () => Promise<StepState[]>;
+  addStep: (payload: AddStepPayload) => Promise<TutorCommandAck>;
+  markComplete: (stepId: string) => Promise<TutorCommandAck>;
+  runCheck: (stepId: string) => Promise<CheckRunResult>;
+  sendCommand: (command: ControlCommandRequest) => Promise<TutorCommandAck>;
+  getStudentCommands: (limit?: number) => Promise<CommandLogEntry[]>; // The student's recent shell commands
+  getTutorCommandHistory: (limit?: number) => Promise<TutorCommand[]>;
+}
+
+export function createTutorControlClient(options: TutorControlClientOptions): TutorControlClient {
+  const { socketPath } = options;
+
+  async function request<T>(method: "GET" | "POST", path: string, body?: unknown): Promise<T> {
+    const init: RequestInit = {
+      method,
+      headers: body === undefined ? undefined : { "content-type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    };
+    const url = `http://localhost${path}`;
+    const response = options.fetch
+      ? await options.fetch(new Request(url, init))
+      : await fetch(url, { ...init, unix: socketPath });
+
+    const data = (await response.json()) as T | ControlErrorResponse;
+    // Rejected commands (422) still answer with their ack
+    if (!response.ok && response.status !== 422) {
+      throw new Error((data as ControlErrorResponse).error ?? `Control API answered ${response.status}`);
+    }
+    return data as T;
+  }
+
+  const stepPath = (stepId: string, action: string) => `/steps/${encodeURIComponent(stepId)}/${action}`;
+  const limited = (path: string, limit?: number) => (limit ? `${path}?limit=${limit}` : path);
+
+  return {
+    getState: () => request("GET", "/state"),
+    listSteps: () => request("GET", "/steps"),
+    addStep: (payload) => request("POST", "/steps", payload),
+    markComplete: (stepId) => request("POST", stepPath(stepId, "complete")),
+    runCheck: (stepId) => request("POST", stepPath(stepId, "check")),
+    sendCommand: (command) => request("POST", "/commands", command),
+    getStudentCommands: (limit) => request("GET", limited("/student-commands", limit)),
+    getTutorCommandHistory: (limit) => request("GET", limited("/tutor-commands", limit)),
+  };
+}
+
+/**
+ * The lab's control socket, if its monitor is serving the control API
+ */
+export function findControlSocket(logDir: string): string | undefined {
+  const socketPath = join(logDir, CONTROL_SOCKET_FILE);
+  return existsSync(socketPath) ? socketPath : undefined;
+}
+
+/**
+ * File fallback: append a pending command to tutor-commands.json for the watcher to process
+ * The outcome shows up later in the file (status and error), not in the return value
+ */
+export function queueTutorCommand(logDir: string, command: ControlCommandRequest): TutorCommand {
+  const commandsPath = join(logDir, "tutor-commands.json");
+  const file: TutorCommandsFile = existsSync(commandsPath)
+    ? (JSON.parse(readFileSync(commandsPath, "utf-8").trim() || '{"commands":[]}') as TutorCommandsFile)
+    : { commands: [] };
+
+  const queued: TutorCommand = {
+    id: command.id || `cmd-${Date.now()}`,
+    type: command.type,
+    payload: command.payload,
+    status: "pending",
+  };
+  file.commands.push(queued);
+  writeFileSync(commandsPath, JSON.stringify(file, null, 2));
+  return queued;
+}
@@ -0,0 +1,204 @@
+// Tutor Control Server
+// Local request/response API for the tutor: HTTP over a Unix socket in the lab's log dir
+// Commands go through the same processor as tutor-commands.json, so both channels behave alike
+
+import { existsSync, readFileSync, unlinkSync } from "fs";
+import type { LabState } from "./state-writer";
+import type { TutorCommandProcessor } from "./command-processor";
+import type { CheckRunResult } from "../checks/types";
+import type { CommandLogEntry } from "../validation-rules";
+import type {
+  AddStepPayload,
+  ControlCommandRequest,
+  TutorCommand,
+  TutorCommandType,
+  CommandPayload,
+} from "./types";
+
+const STUDENT_COMMANDS_LIMIT = 20;
+
+export interface TutorControlServerOptions {
+  socketPath: string;
+  commandsLogPath: string; // The student's commands.log (GET /student-commands)
+  processor: TutorCommandProcessor;
+  getState: () => LabState | null;
+  // Run a step's check now; POST /steps/:id/check answers 501 without it
+  runCheck?: (stepId: string) => Promise<CheckRunResult>;
+  onLog?: (message: string) => void;
+  onError?: (error: Error) => void;
+}
+
+export interface TutorControlServer {
+  start: () => void;
+  stop: () => void;
+  isRunning: () => boolean;
+  // Route a request without going through the socket
+  handle: (request: Request) => Promise<Response>;
+}
+
+/**
+ * The last `limit` entries of a commands.log: the student's shell commands with their
+ * exit codes, durations and output, oldest first (unparseable lines are skipped)
+ */
+export function readRecentStudentCommands(logPath: string, limit = STUDENT_COMMANDS_LIMIT): CommandLogEntry[] {
+  if (!existsSync(logPath)) {
+    return [];
+  }
+
+  const entries: CommandLogEntry[] = [];
+  for (const line of readFileSync(logPath, "utf-8").split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as CommandLogEntry);
+    } catch {
+      // Skip a line still being written
+    }
+  }
+  return entries.slice(-limit);
+}
+
+/**
+ * Endpoints:
+ *   GET  /state                 state.json contents
+ *   GET  /steps                 the steps in state.json
+ *   POST /steps                 addStep (body: AddStepPayload)
+ *   POST /steps/:id/complete    markComplete
+ *   POST /steps/:id/check       run the step's check now (400 if it cannot be run)
+ *   POST /commands              any tutor command (body: ControlCommandRequest)
+ *   GET  /student-commands?limit=n  the student's recent shell commands (commands.log)
+ *   GET  /tutor-commands?limit=n    tutor commands processed recently, from both channels
+ * Commands answer with their tutorCommandAck: 200 when done, 422 when rejected
+ */
+export function createTutorControlServer(options: TutorControlServerOptions): TutorControlServer {
+  const { socketPath, commandsLogPath, processor, getState, runCheck, onLog, onError } = options;
+
+  let server: ReturnType<typeof Bun.serve> | null = null;
+  let commandCount = 0;
+
+  const log = (msg: string) => onLog?.(msg);
+  const json = (body: unknown, status = 200) => Response.json(body, { status });
+  const fail = (error: string, status: number) => json({ error }, status);
+
+  function runCommand(type: TutorCommandType, payload: CommandPayload, id?: string): Response {
+    const command: TutorCommand = {
+      id: id || `api-${Date.now()}-${++commandCount}`,
+      type,
+      payload,
+      status: "pending",
+    };
+    processor.process(command);
+    return json(
+      { type: "tutorCommandAck", commandId: command.id, status: command.status, message: command.error },
+      command.status === "done" ? 200 : 422
+    );
+  }
+
+  async function readBody<T>(request: Request): Promise<T | null> {
+    try {
+      const body = await request.json();
+      return body && typeof body === "object" ? (body as T) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async function route(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const parts = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+    const method = request.method;
+
+    if (parts[0] === "state" && parts.length === 1 && method === "GET") {
+      const state = getState();
+      return state ? json(state) : fail("Lab state is not initialized", 404);
+    }
+
+    if (parts[0] === "steps") {
+      if (parts.length === 1 && method === "GET") {
+        return json(getState()?.steps ?? []);
+      }
+      if (parts.length === 1 && method === "POST") {
+        const payload = await readBody<AddStepPayload>(request);
+        return payload ? runCommand("addStep", payload) : fail("Body must be an addStep payload", 400);
+      }
+      if (parts.length === 3 && parts[2] === "complete" && method === "POST") {
+        return runCommand("markComplete", { stepId: parts[1], source: "tutor" });
+      }
+      if (parts.length === 3 && parts[2] === "check" && method === "POST") {
+        if (!runCheck) {
+          return fail("This lab cannot run checks on demand", 501);
+        }
+        try {
+          return json(await runCheck(parts[1]));
+        } catch (e) {
+          return fail(e instanceof Error ? e.message : String(e), 400);
+        }
+      }
+    }
+
+    const limit = Number(url.searchParams.get("limit"));
+    if (parts[0] === "student-commands" && parts.length === 1 && method === "GET") {
+      return json(readRecentStudentCommands(commandsLogPath, limit > 0 ? limit : undefined));
+    }
+    if (parts[0] === "tutor-commands" && parts.length === 1 && method === "GET") {
+      return json(processor.getRecentCommands(limit > 0 ? limit : undefined));
+    }
+
+    if (parts[0] === "commands" && parts.length === 1) {
+      if (method === "POST") {
+        const body = await readBody<ControlCommandRequest>(request);
+        if (!body || typeof body.type !== "string") {
+          return fail("Body must be a command with a 'type' and 'payload'", 400);
+        }
+        return runCommand(body.type, body.payload, body.id);
+      }
+    }
+
+    return fail(`No endpoint ${method} ${url.pathname}`, 404);
+  }
+
+  async function handle(request: Request): Promise<Response> {
+    try {
+      return await route(request);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      onError?.(new Error(`Control API ${request.method} ${request.url} failed: ${message}`));
+      return fail(message, 500);
+    }
+  }
+
+  return {
+    start() {
+      if (server) {
+        return;
+      }
+
+      // A socket left behind by a crashed monitor would block the listen
+      if (existsSync(socketPath)) {
+        unlinkSync(socketPath);
+      }
+      server = Bun.serve({ unix: socketPath, fetch: handle });
+      log(`Tutor control API listening on ${socketPath}`);
+    },
+
+    stop() {
+      if (!server) {
+        return;
+      }
+
+      server.stop(true);
+      server = null;
+      if (existsSync(socketPath)) {
+        unlinkSync(socketPath);
+      }
+      log("Tutor control API stopped");
+    },
+
+    isRunning() {
+      return server !== null;
+    },
+
+    handle,
+  };
+}
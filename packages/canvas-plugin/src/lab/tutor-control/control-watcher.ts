@@ -1,23 +1,22 @@
 // Tutor Control Watcher
 // Watches tutor-commands.json for commands from Claude Code tutor
-// Processes commands and sends IPC messages to VTA canvas
+// The file fallback of the control API: pending commands go through the shared command processor
 
 import { watch, existsSync, readFileSync, writeFileSync, type FSWatcher } from "fs";
 import { join } from "path";
-import type { LabMessage, DynamicStep } from "../../ipc/types";
+import type { TutorCommandsFile } from "./types";
 import {
-  type TutorCommand,
-  type TutorCommandsFile,
-  isAddStepPayload,
-  isMarkCompletePayload,
-} from "./types";
+  createTutorCommandProcessor,
+  type TutorCommandProcessor,
+  type TutorCommandProcessorOptions,
+} from "./command-processor";
 
-export interface TutorControlWatcherOptions {
+// Either the processor shared with the control API server, or the hooks to create one from
+export type TutorControlWatcherOptions = {
   logDir: string;
-  sendMessage: (msg: LabMessage) => void;
   onLog?: (message: string) => void;
   onError?: (error: Error) => void;
-}
+} & ({ processor: TutorCommandProcessor } | TutorCommandProcessorOptions);
 
 export interface TutorControlWatcher {
   start: () => void;
@@ -28,7 +27,8 @@ export interface TutorControlWatcher {
 export function createTutorControlWatcher(
   options: TutorControlWatcherOptions
 ): TutorControlWatcher {
-  const { logDir, sendMessage, onLog, onError } = options;
+  const { logDir, onLog, onError } = options;
+  const processor = "processor" in options ? options.processor : createTutorCommandProcessor(options);
 
   const commandsPath = join(logDir, "tutor-commands.json");
   let watcher: FSWatcher | null = null;
@@ -61,59 +61,6 @@ export function createTutorControlWatcher(
     }
   }
 
-  function processCommand(command: TutorCommand): { status: "done" | "error"; error?: string } {
-    log(`Processing command: ${command.type} (${command.id})`);
-
-    try {
-      if (command.type === "addStep" && isAddStepPayload(command.payload)) {
-        const payload = command.payload;
-
-        // Convert to DynamicStep format
-        const dynamicStep: DynamicStep = {
-          id: payload.stepId,
-          title: payload.step.title,
-          type: "task",
-          content: {
-            instructions: payload.step.content.instructions,
-            tasks: payload.step.content.tasks,
-            hints: payload.step.content.hints,
-          },
-          source: "tutor",
-        };
-
-        // Send IPC message to VTA
-        sendMessage({
-          type: "addDynamicStep",
-          step: dynamicStep,
-          afterStepId: payload.afterStepId,
-        });
-
-        log(`Sent addDynamicStep for ${payload.stepId}`);
-        return { status: "done" };
-      }
-
-      if (command.type === "markComplete" && isMarkCompletePayload(command.payload)) {
-        const payload = command.payload;
-
-        // Send task completed message with tutor source
-        sendMessage({
-          type: "taskCompleted",
-          taskId: `tutor-${payload.stepId}`,
-          stepId: payload.stepId,
-          source: "tutor",
-        });
-
-        log(`Sent markComplete for ${payload.stepId}`);
-        return { status: "done" };
-      }
-
-      return { status: "error", error: `Unknown command type: ${command.type}` };
-    } catch (e) {
-      const errorMsg = e instanceof Error ? e.message : String(e);
-      return { status: "error", error: errorMsg };
-    }
-  }
-
   function processPendingCommands(): void {
     const data = readCommandsFile();
     if (!data) {
@@ -124,12 +71,7 @@ export function createTutorControlWatcher(
 
     for (const command of data.commands) {
       if (command.status === "pending") {
-        const result = processCommand(command);
-        command.status = result.status;
-        command.processedAt = new Date().toISOString();
-        if (result.error) {
-          command.error = result.error;
-        }
+        processor.process(command);
         modified = true;
       }
     }
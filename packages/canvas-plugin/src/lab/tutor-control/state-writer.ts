@@ -4,7 +4,7 @@
 
 import { writeFileSync, existsSync, readFileSync } from "fs";
 import { join } from "path";
-import type { ScoreModifier } from "../telemetry/types";
+import type { ScoreModifier, DetectedGap } from "../telemetry/types";
 
 export interface QuestionResult {
   answered: boolean;
@@ -21,6 +21,12 @@ export interface StepState {
   completedAt?: string;
   source?: "module" | "tutor"; // Whether step is from original module or dynamically added
   questionResult?: QuestionResult; // Present for question steps
+  tasksCompleted?: number[]; // Task indexes done so far (composite validations)
+  skipped?: boolean; // Tutor skipped the step: it no longer counts toward completion or score
+  skipReason?: string;
+  regressed?: boolean; // Was completed, but its check stopped passing (continuous verification)
+  regressedAt?: string;
+  regressionMessage?: string;
 
   // Scoring fields (populated from telemetry)
   confidence?: number; // 0.0 - 1.0
@@ -43,6 +49,9 @@ export interface LabState {
     passed: boolean;
     sessionId?: string;
   };
+
+  // Learning gaps detected live, for the tutor to act on
+  gaps?: DetectedGap[];
 }
 
 export interface StateWriterOptions {
@@ -70,12 +79,17 @@ export interface OverallScoreUpdate {
 export interface StateWriter {
   initialize: (stepIds: string[]) => void;
   markCompleted: (stepId: string, source: "command" | "check" | "tutor" | "question") => void;
+  markRegressed: (stepId: string, message?: string) => void;
+  recordTaskCompleted: (stepId: string, taskIndex: number) => void;
   addStep: (stepId: string, afterStepId?: string) => void;
+  skipStep: (stepId: string, reason?: string) => void;
+  moveStep: (stepId: string, afterStepId: string) => void;
   recordQuestionAnswer: (stepId: string, result: QuestionResult) => void;
   updateStepScore: (stepId: string, score: StepScoreUpdate) => void;
   updateOverallScore: (score: OverallScoreUpdate) => void;
   recordHintRevealed: (stepId: string, hintIndex: number) => void;
   recordSolutionViewed: (stepId: string) => void;
+  recordGap: (gap: DetectedGap) => void;
   getState: () => LabState | null;
 }
 
@@ -138,6 +152,9 @@ export function createStateWriter(options: StateWriterOptions): StateWriter {
           step.completed = true;
           step.completedBy = source;
           step.completedAt = new Date().toISOString();
+          delete step.regressed;
+          delete step.regressedAt;
+          delete step.regressionMessage;
           writeState(state);
           log(`Step ${stepId} marked completed via ${source}`);
         }
@@ -146,6 +163,49 @@ export function createStateWriter(options: StateWriterOptions): StateWriter {
       }
     },
 
+    markRegressed(stepId: string, message?: string) {
+      const state = readState();
+      if (!state) {
+        log(`Cannot mark regressed: state not initialized`);
+        return;
+      }
+
+      const step = state.steps.find((s) => s.id === stepId);
+      if (step) {
+        step.completed = false;
+        delete step.completedBy;
+        delete step.completedAt;
+        step.regressed = true;
+        step.regressedAt = new Date().toISOString();
+        step.regressionMessage = message;
+        writeState(state);
+        log(`Step ${stepId} regressed`);
+      } else {
+        log(`Step ${stepId} not found in state`);
+      }
+    },
+
+    recordTaskCompleted(stepId: string, taskIndex: number) {
+      const state = readState();
+      if (!state) {
+        log(`Cannot record task: state not initialized`);
+        return;
+      }
+
+      const step = state.steps.find((s) => s.id === stepId);
+      if (step) {
+        const tasks = new Set(step.tasksCompleted ?? []);
+        if (!tasks.has(taskIndex)) {
+          tasks.add(taskIndex);
+          step.tasksCompleted = [...tasks].sort((a, b) => a - b);
+          writeState(state);
+          log(`Task ${taskIndex} of step ${stepId} completed`);
+        }
+      } else {
+        log(`Step ${stepId} not found in state`);
+      }
+    },
+
     addStep(stepId: string, afterStepId?: string) {
       const state = readState();
       if (!state) {
@@ -182,6 +242,43 @@ export function createStateWriter(options: StateWriterOptions): StateWriter {
       log(`Added dynamic step ${stepId}`);
     },
 
+    skipStep(stepId: string, reason?: string) {
+      const state = readState();
+      if (!state) {
+        log(`Cannot skip step: state not initialized`);
+        return;
+      }
+
+      const step = state.steps.find((s) => s.id === stepId);
+      if (step) {
+        step.skipped = true;
+        step.skipReason = reason;
+        writeState(state);
+        log(`Step ${stepId} skipped`);
+      } else {
+        log(`Step ${stepId} not found in state`);
+      }
+    },
+
+    moveStep(stepId: string, afterStepId: string) {
+      const state = readState();
+      if (!state) {
+        log(`Cannot move step: state not initialized`);
+        return;
+      }
+
+      const from = state.steps.findIndex((s) => s.id === stepId);
+      if (from < 0 || !state.steps.some((s) => s.id === afterStepId)) {
+        log(`Cannot move ${stepId} after ${afterStepId}: step not found in state`);
+        return;
+      }
+
+      const [step] = state.steps.splice(from, 1);
+      state.steps.splice(state.steps.findIndex((s) => s.id === afterStepId) + 1, 0, step);
+      writeState(state);
+      log(`Moved step ${stepId} after ${afterStepId}`);
+    },
+
     recordQuestionAnswer(stepId: string, result: QuestionResult) {
       const state = readState();
       if (!state) {
@@ -288,6 +385,18 @@ export function createStateWriter(options: StateWriterOptions): StateWriter {
       }
     },
 
+    recordGap(gap: DetectedGap) {
+      const state = readState();
+      if (!state) {
+        log(`Cannot record gap: state not initialized`);
+        return;
+      }
+
+      state.gaps = [...(state.gaps ?? []), gap];
+      writeState(state);
+      log(`Gap ${gap.template_id} recorded for step ${gap.step_id}`);
+    },
+
     getState() {
       return readState();
     },
@@ -1,18 +1,33 @@
 // Types for tutor control commands
 // Used for communication between Claude Code tutor and the lab monitor
 
-export type TutorCommandType = "addStep" | "markComplete";
+import type { DynamicStep, LabMessage } from "../../ipc/types";
+
+export type TutorCommandType =
+  | "addStep"
+  | "markComplete"
+  | "skipStep"
+  | "revealHint"
+  | "goToStep"
+  | "updateStep"
+  | "moveStep"
+  | "setPreset";
 
 export interface AddStepPayload {
   stepId: string;
   step: {
     title: string;
-    type: "task";
+    type: "task" | "question";
     content: {
-      instructions: string;
+      instructions?: string;
       tasks?: Array<{ text: string }>;
       hints?: string[];
+      question?: DynamicStep["content"]["question"]; // Required for question steps
     };
+    // Same shape as a module.yaml step's `validation` (command-pattern, check-script with
+    // an inline `body`, declarative and composite checks); without it only markComplete completes the step
+    validation?: Record<string, unknown>;
+    weight?: number; // Share of the lab score (default 1)
   };
   afterStepId?: string; // Insert after this step (defaults to before summary)
 }
@@ -22,7 +37,53 @@ export interface MarkCompletePayload {
   source: "tutor";
 }
 
-export type CommandPayload = AddStepPayload | MarkCompletePayload;
+// The student already knows this step: it no longer counts toward completion or score
+export interface SkipStepPayload {
+  stepId: string;
+  reason?: string;
+}
+
+// Reveal the step's hints up to and including hintIndex (0-based)
+export interface RevealHintPayload {
+  stepId: string;
+  hintIndex: number;
+}
+
+// Move the VTA to a step
+export interface GoToStepPayload {
+  stepId: string;
+}
+
+// Replace parts of a step's content, e.g. with simplified instructions
+export interface UpdateStepPayload {
+  stepId: string;
+  content: {
+    instructions?: string;
+    tasks?: Array<{ text: string }>;
+    hints?: string[];
+  };
+}
+
+// Reorder: place a step right after another one
+export interface MoveStepPayload {
+  stepId: string;
+  afterStepId: string;
+}
+
+// Score the rest of the session under another preset (a built-in, the module's or the course's)
+export interface SetPresetPayload {
+  presetId: string;
+}
+
+export type CommandPayload =
+  | AddStepPayload
+  | MarkCompletePayload
+  | SkipStepPayload
+  | RevealHintPayload
+  | GoToStepPayload
+  | UpdateStepPayload
+  | MoveStepPayload
+  | SetPresetPayload;
 
 export interface TutorCommand {
   id: string;
@@ -44,3 +105,25 @@ export function isAddStepPayload(payload: CommandPayload): payload is AddStepPay
 export function isMarkCompletePayload(payload: CommandPayload): payload is MarkCompletePayload {
   return "source" in payload && (payload as MarkCompletePayload).source === "tutor";
 }
+
+// ============================================================================
+// CONTROL API (request/response alternative to tutor-commands.json)
+// ============================================================================
+
+// HTTP over a Unix socket in the lab's log dir
+export const CONTROL_SOCKET_FILE = "control.sock";
+
+// POST /commands; the server fills in `id` when the tutor leaves it out
+export interface ControlCommandRequest {
+  id?: string;
+  type: TutorCommandType;
+  payload: CommandPayload;
+}
+
+// Answer to every command, whichever channel it came from (also sent to the VTA)
+export type TutorCommandAck = Extract<LabMessage, { type: "tutorCommandAck" }>;
+
+// Body of every non-2xx response
+export interface ControlErrorResponse {
+  error: string;
+}
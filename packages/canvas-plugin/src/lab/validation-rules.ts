@@ -10,7 +10,10 @@ export interface CommandLogEntry {
   user: string;
   pwd: string;
   command: string;
-  exitCode?: number;
+  exitCode?: number;         // Exit status of the command (older images don't record it)
+  durationMs?: number;       // Wall-clock time from Enter to the next prompt
+  output?: string;           // Terminal output (stdout and stderr), escapes stripped
+  outputTruncated?: boolean; // Output exceeded the capture limit; only the tail was kept
 }
 
 export interface ValidationResult {
@@ -3,15 +3,26 @@
 
 import * as fs from "fs";
 import * as path from "path";
+import { verifyDeclarativeCheck } from "./checks/declarative";
+import { verifyCompositeValidation, getTaskIndexes } from "./checks/composite";
+import { loadDataset, runSpl, compareResults, type SplRecord } from "./spl";
 import {
   loadModule,
   loadDraft,
   getValidationRules,
   getCheckConfigs,
+  getDeclarativeChecks,
+  getCompositeValidations,
+  getModuleDatasetPath,
+  getSplChecks,
+  getSqlChecks,
+  getPytestChecks,
+  getStepScoring,
   getLabsPath,
   getDraftsPath,
   moduleExists,
 } from "./module-loader";
+import { loadSkillGraph, findQMatrixForLab } from "./skills/skill-loader";
 
 export interface ValidationError {
   type: "error";
@@ -195,6 +206,11 @@ export async function validateModule(moduleId: string): Promise<ValidationResult
     const checksDir = path.join(basePath, moduleId, "checks");
 
     for (const check of checks) {
+      // Declarative checks are compiled at lab start, there is no file to find
+      if (check.compiled !== undefined) {
+        continue;
+      }
+
       const scriptPath = path.join(checksDir, check.script);
       if (!fs.existsSync(scriptPath)) {
         errors.push({
@@ -212,10 +228,244 @@ export async function validateModule(moduleId: string): Promise<ValidationResult
     });
   }
 
+  // Statically verify declarative checks (file-mode, group-member, ...)
+  try {
+    for (const { stepIndex, check } of getDeclarativeChecks(moduleId)) {
+      for (const problem of verifyDeclarativeCheck(check)) {
+        errors.push({
+          type: "error",
+          field: `steps[${stepIndex}].validation`,
+          message: problem,
+        });
+      }
+    }
+  } catch (error) {
+    warnings.push({
+      type: "warning",
+      field: "validation",
+      message: `Could not validate declarative checks: ${error instanceof Error ? error.message : "Unknown error"}`,
+    });
+  }
+
+  // Verify composite validations and that their task indexes point at real tasks
+  let compositeCount = 0;
+  try {
+    for (const { stepId, stepIndex, validation } of getCompositeValidations(moduleId)) {
+      const problems = verifyCompositeValidation(validation);
+      for (const problem of problems) {
+        errors.push({
+          type: "error",
+          field: `steps[${stepIndex}].validation`,
+          message: problem,
+        });
+      }
+      if (problems.length > 0) {
+        continue;
+      }
+
+      compositeCount++;
+      const taskCount = module.steps[stepIndex]?.content.tasks?.length ?? 0;
+      for (const taskIndex of getTaskIndexes(validation)) {
+        if (taskIndex >= taskCount) {
+          warnings.push({
+            type: "warning",
+            field: `steps[${stepIndex}].validation`,
+            message: `Step ${stepId} reports progress for task ${taskIndex} but has ${taskCount} task(s)`,
+          });
+        }
+      }
+    }
+  } catch (error) {
+    warnings.push({
+      type: "warning",
+      field: "validation",
+      message: `Could not validate composite validations: ${error instanceof Error ? error.message : "Unknown error"}`,
+    });
+  }
+
+  // Rubric items only earn partial credit if the step's validation reports their task
+  try {
+    const { rubrics } = getStepScoring(moduleId);
+    const reported = new Map<string, Set<number>>();
+    for (const { stepId, validation } of getCompositeValidations(moduleId)) {
+      reported.set(stepId, new Set(getTaskIndexes(validation)));
+    }
+    for (const rule of getValidationRules(moduleId)) {
+      if (rule.taskIndex !== undefined) {
+        reported.set(rule.stepId, new Set([...(reported.get(rule.stepId) || []), rule.taskIndex]));
+      }
+    }
+
+    for (const [stepId, rubric] of Object.entries(rubrics)) {
+      for (const item of rubric) {
+        if (item.task !== undefined && !reported.get(stepId)?.has(item.task)) {
+          warnings.push({
+            type: "warning",
+            field: "rubric",
+            message: `Rubric item ${item.id} of ${stepId} only counts when the step passes: its validation never reports task ${item.task}`,
+          });
+        }
+      }
+    }
+  } catch (error) {
+    warnings.push({
+      type: "warning",
+      field: "rubric",
+      message: `Could not validate rubrics: ${error instanceof Error ? error.message : "Unknown error"}`,
+    });
+  }
+
+  // Verify spl-results validations: the dataset loads, reference queries run,
+  // and each step's solution search actually produces the expected results
+  let splCount = 0;
+  try {
+    const splChecks = getSplChecks(moduleId);
+    const datasetPath = getModuleDatasetPath(moduleId);
+    let events: SplRecord[] | null = null;
+
+    if (splChecks.length > 0 && !datasetPath) {
+      errors.push({
+        type: "error",
+        field: "dataset",
+        message: "Module has spl-results validations but no 'dataset'",
+      });
+    } else if (datasetPath) {
+      try {
+        events = loadDataset(datasetPath);
+      } catch (error) {
+        errors.push({
+          type: "error",
+          field: "dataset",
+          message: `Could not load dataset: ${error instanceof Error ? error.message : "Unknown error"}`,
+        });
+      }
+    }
+
+    for (const check of events ? splChecks : []) {
+      const stepIndex = module.steps.findIndex((s) => s.id === check.stepId);
+      const field = `steps[${stepIndex}].validation`;
+      splCount++;
+
+      let expected = check.expected;
+      if (check.reference) {
+        try {
+          expected = runSpl(check.reference, events!).rows;
+        } catch (error) {
+          errors.push({
+            type: "error",
+            field,
+            message: `Reference query failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+          });
+          continue;
+        }
+      }
+
+      const solution = module.steps[stepIndex]?.content.solution?.command;
+      if (!solution || !expected) {
+        continue;
+      }
+
+      try {
+        const comparison = compareResults(runSpl(solution, events!).rows, expected, check);
+        if (!comparison.matched) {
+          warnings.push({
+            type: "warning",
+            field,
+            message: `Solution for ${check.stepId} does not satisfy its validation: ${comparison.reason}`,
+          });
+        }
+      } catch (error) {
+        warnings.push({
+          type: "warning",
+          field,
+          message: `Solution for ${check.stepId} is not a valid search: ${error instanceof Error ? error.message : "Unknown error"}`,
+        });
+      }
+    }
+  } catch (error) {
+    warnings.push({
+      type: "warning",
+      field: "validation",
+      message: `Could not validate spl-results validations: ${error instanceof Error ? error.message : "Unknown error"}`,
+    });
+  }
+
+  // sql-results run against lab.db, which only exists once setup.sh seeds it
+  let sqlCount = 0;
+  try {
+    sqlCount = getSqlChecks(moduleId).length;
+    const basePath = location === "draft" ? getDraftsPath() : getLabsPath();
+    if (sqlCount > 0 && !fs.existsSync(path.join(basePath, moduleId, "setup.sh"))) {
+      warnings.push({
+        type: "warning",
+        field: "setup.sh",
+        message: "Module has sql-results validations but no setup.sh to seed lab.db",
+      });
+    }
+  } catch (error) {
+    warnings.push({
+      type: "warning",
+      field: "validation",
+      message: `Could not validate sql-results validations: ${error instanceof Error ? error.message : "Unknown error"}`,
+    });
+  }
+
+  // Verify the skill mapping: every task/question step maps to a skill, and
+  // Q-matrix rows point at real steps and at skills some catalog defines
+  try {
+    const basePath = location === "draft" ? getDraftsPath() : getLabsPath();
+    const mappings = findQMatrixForLab(moduleId, basePath);
+    const knownSkills = new Set(loadSkillGraph().skills.map((s) => s.id));
+    const mappedSteps = new Set(mappings.map((m) => m.step_id));
+
+    for (const mapping of mappings) {
+      if (!stepIds.has(mapping.step_id)) {
+        errors.push({
+          type: "error",
+          field: "qmatrix",
+          message: `Q-matrix maps non-existent step ${mapping.step_id} to ${mapping.skill_id}`,
+        });
+      }
+      if (!knownSkills.has(mapping.skill_id)) {
+        errors.push({
+          type: "error",
+          field: "qmatrix",
+          message: `Q-matrix row for ${mapping.step_id} references unknown skill ${mapping.skill_id}`,
+        });
+      }
+    }
+
+    const gradedSteps = module.steps.filter((s) => s.type === "task" || s.type === "question");
+    if (mappings.length === 0 && gradedSteps.length > 0) {
+      warnings.push({
+        type: "warning",
+        field: "qmatrix",
+        message: "Module has no skill mapping (add qmatrix.yaml next to module.yaml)",
+      });
+    } else {
+      for (const step of gradedSteps) {
+        if (!mappedSteps.has(step.id)) {
+          warnings.push({
+            type: "warning",
+            field: "qmatrix",
+            message: `Step ${step.id} is not mapped to any skill`,
+          });
+        }
+      }
+    }
+  } catch (error) {
+    warnings.push({
+      type: "warning",
+      field: "qmatrix",
+      message: `Could not validate skill mapping: ${error instanceof Error ? error.message : "Unknown error"}`,
+    });
+  }
+
   // Warn if no validation at all
   const validationRules = getValidationRules(moduleId);
   const checks = getCheckConfigs(moduleId);
-  if (stats.taskCount > 0 && validationRules.length === 0 && checks.length === 0) {
+  const pytestCount = getPytestChecks(moduleId).length;
+  if (stats.taskCount > 0 && validationRules.length === 0 && checks.length === 0 && compositeCount === 0 && splCount === 0 && sqlCount === 0 && pytestCount === 0) {
     warnings.push({
       type: "warning",
       field: "validation",
@@ -0,0 +1,6 @@
+// xAPI Module - Telemetry export to xAPI statements and LRS delivery
+// Re-exports all public types and functions
+
+export * from "./types";
+export * from "./statements";
+export * from "./lrs";
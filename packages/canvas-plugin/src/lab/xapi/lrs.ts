@@ -0,0 +1,214 @@
+// LRS - Sends statements to a Learning Record Store, plus a local in-process LRS
+// The local LRS implements just enough of the statements resource for tests and dry runs
+
+import { randomUUID } from "crypto";
+import { XAPI_VERSION, type XapiStatement, type LrsConfig } from "./types";
+
+/**
+ * Authorization header value for an LRS config
+ * "user:password" becomes Basic auth; anything with a scheme is used as-is
+ */
+function authorizationHeader(auth: string): string {
+  if (/^(Basic|Bearer)\s/i.test(auth)) {
+    return auth;
+  }
+  return `Basic ${Buffer.from(auth).toString("base64")}`;
+}
+
+/**
+ * POST statements to an LRS in batches
+ * Returns the statement IDs the LRS stored; throws on the first rejected batch
+ */
+export async function sendStatements(statements: XapiStatement[], config: LrsConfig): Promise<string[]> {
+  const url = `${config.endpoint.replace(/\/+$/, "")}/statements`;
+  const batchSize = config.batchSize ?? 50;
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "X-Experience-API-Version": XAPI_VERSION,
+  };
+  if (config.auth) {
+    headers.Authorization = authorizationHeader(config.auth);
+  }
+
+  const stored: string[] = [];
+  for (let i = 0; i < statements.length; i += batchSize) {
+    const batch = statements.slice(i, i + batchSize);
+    const response = await fetch(url, { method: "POST", headers, body: JSON.stringify(batch) });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`LRS rejected statements ${i + 1}-${i + batch.length}: ${response.status} ${body}`.trim());
+    }
+
+    stored.push(...((await response.json()) as string[]));
+  }
+
+  return stored;
+}
+
+// ============================================================================
+// LOCAL LRS
+// ============================================================================
+
+export interface LocalLrsOptions {
+  port?: number;  // Default: any free port
+  auth?: string;  // Require this "user:password" (default: no auth)
+}
+
+export interface LocalLrs {
+  endpoint: string;               // Base URL to pass as LrsConfig.endpoint
+  getStatements(): XapiStatement[];
+  clear(): void;
+  stop(): void;
+}
+
+/**
+ * Check the parts of a statement the exporter relies on
+ * Returns an error message, or null if the statement is acceptable
+ */
+export function validateStatement(statement: unknown): string | null {
+  if (!statement || typeof statement !== "object") {
+    return "statement must be an object";
+  }
+
+  const s = statement as Partial<XapiStatement>;
+  if (s.id !== undefined && !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(s.id)) {
+    return `invalid statement id: ${s.id}`;
+  }
+  if (!s.actor?.account?.name && !(s.actor as { mbox?: string } | undefined)?.mbox) {
+    return "actor must have an account or mbox";
+  }
+  if (!s.verb?.id) {
+    return "verb.id is required";
+  }
+  if (!s.object?.id) {
+    return "object.id is required";
+  }
+  if (s.result?.score?.scaled !== undefined && (s.result.score.scaled < -1 || s.result.score.scaled > 1)) {
+    return "result.score.scaled must be between -1 and 1";
+  }
+  return null;
+}
+
+/**
+ * Start an in-process LRS (POST/PUT/GET /statements)
+ * Re-sending a statement with a known ID is accepted if it is identical, like a real LRS
+ */
+export function createLocalLrs(options: LocalLrsOptions = {}): LocalLrs {
+  const statements = new Map<string, XapiStatement>();
+  const expectedAuth = options.auth ? authorizationHeader(options.auth) : null;
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json", "X-Experience-API-Version": XAPI_VERSION },
+    });
+
+  /**
+   * Store a batch atomically: nothing is stored if any statement is rejected
+   */
+  function store(batch: XapiStatement[]): Response {
+    const accepted: XapiStatement[] = [];
+    const ids: string[] = [];
+
+    for (const statement of batch) {
+      const error = validateStatement(statement);
+      if (error) {
+        return json({ error }, 400);
+      }
+
+      const id = statement.id ?? randomUUID();
+      ids.push(id);
+      const existing = statements.get(id);
+      const { stored: _stored, ...incoming } = { ...statement, id };
+      if (existing) {
+        const { stored: _existingStored, ...current } = existing;
+        if (JSON.stringify(current) !== JSON.stringify(incoming)) {
+          return json({ error: `statement ${id} already exists with different content` }, 409);
+        }
+        continue;
+      }
+      accepted.push({ ...incoming, stored: new Date().toISOString() });
+    }
+
+    for (const statement of accepted) {
+      statements.set(statement.id, statement);
+    }
+    return json(ids);
+  }
+
+  const server = Bun.serve({
+    port: options.port ?? 0,
+    hostname: "127.0.0.1",
+    async fetch(request) {
+      const url = new URL(request.url);
+      if (url.pathname.replace(/\/+$/, "") !== "/xapi/statements") {
+        return json({ error: "not found" }, 404);
+      }
+      if (!request.headers.get("X-Experience-API-Version")) {
+        return json({ error: "X-Experience-API-Version header is required" }, 400);
+      }
+      if (expectedAuth && request.headers.get("Authorization") !== expectedAuth) {
+        return json({ error: "unauthorized" }, 401);
+      }
+
+      switch (request.method) {
+        case "POST": {
+          const body = await request.json().catch(() => undefined);
+          if (body === undefined) {
+            return json({ error: "invalid JSON" }, 400);
+          }
+          return store(Array.isArray(body) ? body : [body]);
+        }
+
+        case "PUT": {
+          const statementId = url.searchParams.get("statementId");
+          const body = await request.json().catch(() => undefined);
+          if (!statementId || !body || typeof body !== "object") {
+            return json({ error: "statementId and a statement body are required" }, 400);
+          }
+          const response = store([{ ...(body as XapiStatement), id: statementId }]);
+          return response.ok ? new Response(null, { status: 204 }) : response;
+        }
+
+        case "GET": {
+          const statementId = url.searchParams.get("statementId");
+          if (statementId) {
+            const statement = statements.get(statementId);
+            return statement ? json(statement) : json({ error: "not found" }, 404);
+          }
+
+          const verb = url.searchParams.get("verb");
+          const activity = url.searchParams.get("activity");
+          const registration = url.searchParams.get("registration");
+          const matches = [...statements.values()].filter(
+            (s) =>
+              (!verb || s.verb.id === verb) &&
+              (!activity || s.object.id === activity) &&
+              (!registration || s.context?.registration === registration)
+          );
+          return json({ statements: matches, more: "" });
+        }
+
+        default:
+          return json({ error: `method ${request.method} not allowed` }, 405);
+      }
+    },
+  });
+
+  return {
+    endpoint: `http://127.0.0.1:${server.port}/xapi`,
+
+    getStatements() {
+      return [...statements.values()];
+    },
+
+    clear() {
+      statements.clear();
+    },
+
+    stop() {
+      server.stop(true);
+    },
+  };
+}
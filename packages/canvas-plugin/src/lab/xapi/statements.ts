@@ -0,0 +1,303 @@
+// xAPI Statements - Maps telemetry events to xAPI statements
+// Statement IDs are derived from event IDs, so re-exporting a session is idempotent
+
+import { createHash } from "crypto";
+import type { TelemetryEvent, TutorUtteranceEvent, LabProgress, StepStartedEvent } from "../telemetry/types";
+import type {
+  XapiStatement,
+  XapiVerb,
+  XapiActivity,
+  XapiResult,
+  XapiContext,
+  XapiExportOptions,
+} from "./types";
+
+export const DEFAULT_ACTIVITY_BASE = "https://canvas-lab.local/xapi";
+
+/** Events written by the lab (tutor utterances have no module/student) */
+type LabTelemetryEvent = Exclude<TelemetryEvent, TutorUtteranceEvent>;
+
+/**
+ * Verbs used by the exporter (ADL vocabulary, plus TinCan "viewed")
+ */
+export const XAPI_VERBS = {
+  initialized: { id: "http://adlnet.gov/expapi/verbs/initialized", display: { "en-US": "initialized" } },
+  terminated: { id: "http://adlnet.gov/expapi/verbs/terminated", display: { "en-US": "terminated" } },
+  attempted: { id: "http://adlnet.gov/expapi/verbs/attempted", display: { "en-US": "attempted" } },
+  completed: { id: "http://adlnet.gov/expapi/verbs/completed", display: { "en-US": "completed" } },
+  passed: { id: "http://adlnet.gov/expapi/verbs/passed", display: { "en-US": "passed" } },
+  failed: { id: "http://adlnet.gov/expapi/verbs/failed", display: { "en-US": "failed" } },
+  answered: { id: "http://adlnet.gov/expapi/verbs/answered", display: { "en-US": "answered" } },
+  interacted: { id: "http://adlnet.gov/expapi/verbs/interacted", display: { "en-US": "interacted" } },
+  viewed: { id: "http://id.tincanapi.com/verb/viewed", display: { "en-US": "viewed" } },
+} satisfies Record<string, XapiVerb>;
+
+/**
+ * Activity types for the lab and its steps
+ */
+export const XAPI_ACTIVITY_TYPES = {
+  lab: "http://adlnet.gov/expapi/activities/simulation",
+  task: "http://adlnet.gov/expapi/activities/performance",
+  question: "http://adlnet.gov/expapi/activities/cmi.interaction",
+  lesson: "http://adlnet.gov/expapi/activities/lesson",
+  resource: "http://id.tincanapi.com/activitytype/resource",
+};
+
+/**
+ * Deterministic (name-based, v5-style) UUID for a string
+ */
+export function uuidFromString(value: string): string {
+  const hex = createHash("sha1").update(value).digest("hex").slice(0, 32).split("");
+  hex[12] = "5";
+  hex[16] = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  const s = hex.join("");
+  return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20, 32)}`;
+}
+
+/**
+ * Seconds as an ISO 8601 duration (PT1M30.5S)
+ */
+export function toIsoDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds * 100) / 100);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = Math.round((total % 60) * 100) / 100;
+
+  let duration = "PT";
+  if (hours > 0) duration += `${hours}H`;
+  if (minutes > 0) duration += `${minutes}M`;
+  if (secs > 0 || duration === "PT") duration += `${secs}S`;
+  return duration;
+}
+
+/**
+ * Maps the telemetry of one lab module to statements
+ */
+function createStatementMapper(options: XapiExportOptions, progress?: LabProgress) {
+  const base = (options.activityBase ?? DEFAULT_ACTIVITY_BASE).replace(/\/+$/, "");
+  const homePage = options.homePage ?? base;
+  const platform = options.platform ?? "canvas-lab";
+  const ext = (name: string) => `${base}/extensions/${name}`;
+
+  function labActivity(moduleId: string): XapiActivity {
+    return {
+      objectType: "Activity",
+      id: `${base}/labs/${encodeURIComponent(moduleId)}`,
+      definition: {
+        type: XAPI_ACTIVITY_TYPES.lab,
+        ...(options.moduleTitle && { name: { "en-US": options.moduleTitle } }),
+      },
+    };
+  }
+
+  function stepActivity(moduleId: string, stepId: string, type?: string): XapiActivity {
+    const title = options.stepTitles?.[stepId];
+    return {
+      objectType: "Activity",
+      id: `${labActivity(moduleId).id}/steps/${encodeURIComponent(stepId)}`,
+      ...((type || title) && {
+        definition: {
+          ...(type && { type }),
+          ...(title && { name: { "en-US": title } }),
+        },
+      }),
+    };
+  }
+
+  function stepType(event: StepStartedEvent): string {
+    switch (event.payload.step_type) {
+      case "task":
+        return XAPI_ACTIVITY_TYPES.task;
+      case "question":
+        return XAPI_ACTIVITY_TYPES.question;
+      default:
+        return XAPI_ACTIVITY_TYPES.lesson;
+    }
+  }
+
+  function context(event: LabTelemetryEvent, withParent: boolean): XapiContext {
+    return {
+      registration: uuidFromString(event.session_id),
+      platform,
+      ...(withParent && { contextActivities: { parent: [labActivity(event.module_id)] } }),
+      extensions: {
+        [ext("session-id")]: event.session_id,
+        [ext("event-id")]: event.event_id,
+        [ext("lab-type")]: event.lab_type ?? "linux_cli",
+      },
+    };
+  }
+
+  /**
+   * Map one event; null for events with no xAPI counterpart
+   * (legacy command_executed duplicates student_action; tutor utterances are not learner activity)
+   */
+  return function toStatement(event: TelemetryEvent): XapiStatement | null {
+    if (event.event_type === "tutor_utterance" || event.event_type === "command_executed") {
+      return null;
+    }
+
+    const stepId = "step_id" in event.payload ? event.payload.step_id : event.step_id;
+    const statement = (
+      verb: XapiVerb,
+      object: XapiActivity,
+      result?: XapiResult
+    ): XapiStatement => ({
+      id: uuidFromString(event.event_id),
+      actor: { objectType: "Agent", account: { homePage, name: event.student_id } },
+      verb,
+      object,
+      ...(result && { result }),
+      context: context(event, object.id !== labActivity(event.module_id).id),
+      timestamp: event.timestamp,
+    });
+    const step = (type?: string) => stepActivity(event.module_id, stepId ?? "", type);
+    const task = stepId && progress?.session_id === event.session_id ? progress.tasks[stepId] : undefined;
+
+    switch (event.event_type) {
+      case "session_started":
+        return statement(XAPI_VERBS.initialized, labActivity(event.module_id), {
+          extensions: { [ext("attempt-number")]: event.payload.attempt_number },
+        });
+
+      case "session_ended": {
+        const result: XapiResult = {
+          duration: toIsoDuration(event.payload.total_time_seconds),
+          extensions: { [ext("end-reason")]: event.payload.reason },
+        };
+        if (progress?.session_id === event.session_id) {
+          result.score = { scaled: progress.overall_score };
+          result.success = progress.passed;
+          result.completion = progress.completion_pct === 100;
+          result.extensions![ext("completion-pct")] = progress.completion_pct;
+          result.extensions![ext("scoring-preset")] = progress.scoring_preset_id;
+        }
+        const verb = event.payload.reason === "completed" ? XAPI_VERBS.completed : XAPI_VERBS.terminated;
+        return statement(verb, labActivity(event.module_id), result);
+      }
+
+      case "step_started":
+        return statement(XAPI_VERBS.attempted, step(stepType(event)));
+
+      case "step_completed": {
+        const result: XapiResult = {
+          completion: true,
+          extensions: { [ext("source")]: event.payload.source },
+        };
+        if (event.payload.time_spent_seconds !== undefined) {
+          result.duration = toIsoDuration(event.payload.time_spent_seconds);
+        }
+        if (task) {
+          result.score = { scaled: task.confidence };
+          result.success = task.passed;
+        }
+        return statement(XAPI_VERBS.completed, step(), result);
+      }
+
+      case "check_passed":
+        return statement(XAPI_VERBS.passed, step(), {
+          success: true,
+          extensions: {
+            [ext("source")]: event.payload.source,
+            ...(event.payload.check_script && { [ext("check-script")]: event.payload.check_script }),
+            ...(event.payload.task_index !== undefined && { [ext("task-index")]: event.payload.task_index }),
+          },
+        });
+
+      case "check_failed":
+        return statement(XAPI_VERBS.failed, step(), {
+          success: false,
+          extensions: {
+            [ext("attempt-number")]: event.payload.attempt_number,
+            ...(event.payload.check_script && { [ext("check-script")]: event.payload.check_script }),
+            ...(event.payload.error_message && { [ext("error-message")]: event.payload.error_message }),
+          },
+        });
+
+      case "question_answered": {
+        const object = step(XAPI_ACTIVITY_TYPES.question);
+        object.definition = {
+          ...object.definition,
+          interactionType: "choice",
+          correctResponsesPattern: [event.payload.correct_options.join("[,]")],
+        };
+        return statement(XAPI_VERBS.answered, object, {
+          success: event.payload.is_correct,
+          response: event.payload.selected_options.join("[,]"),
+          extensions: { [ext("attempt-number")]: event.payload.attempt_number },
+        });
+      }
+
+      case "hint_requested":
+        return statement(
+          XAPI_VERBS.viewed,
+          {
+            objectType: "Activity",
+            id: `${step().id}/hints/${event.payload.hint_index}`,
+            definition: { type: XAPI_ACTIVITY_TYPES.resource, name: { "en-US": `Hint ${event.payload.hint_index + 1}` } },
+          },
+          { extensions: { [ext("total-hints")]: event.payload.total_hints } }
+        );
+
+      case "solution_viewed":
+        return statement(XAPI_VERBS.viewed, {
+          objectType: "Activity",
+          id: `${step().id}/solution`,
+          definition: { type: XAPI_ACTIVITY_TYPES.resource, name: { "en-US": "Solution" } },
+        });
+
+      case "student_action": {
+        const { action_kind, action, result, exit_code, error_message } = event.payload;
+        return statement(XAPI_VERBS.interacted, stepId ? step() : labActivity(event.module_id), {
+          success: result === "success",
+          response: action,
+          extensions: {
+            [ext("action-kind")]: action_kind,
+            [ext("action-result")]: result,
+            ...(exit_code !== undefined && { [ext("exit-code")]: exit_code }),
+            ...(error_message && { [ext("error-message")]: error_message }),
+          },
+        });
+      }
+
+      default:
+        return null;
+    }
+  };
+}
+
+/**
+ * Convert a single telemetry event to an xAPI statement
+ * Returns null for events that have no xAPI counterpart
+ */
+export function toXapiStatement(
+  event: TelemetryEvent,
+  options: XapiExportOptions = {},
+  progress?: LabProgress
+): XapiStatement | null {
+  return createStatementMapper(options, progress)(event);
+}
+
+/**
+ * Convert a session's telemetry to xAPI statements (in event order)
+ * When progress is given, lab and step completions carry its scores
+ */
+export function exportSessionStatements(
+  events: TelemetryEvent[],
+  options: XapiExportOptions & { sessionId?: string; progress?: LabProgress } = {}
+): XapiStatement[] {
+  const toStatement = createStatementMapper(options, options.progress);
+  const statements: XapiStatement[] = [];
+
+  for (const event of events) {
+    if (options.sessionId && event.session_id !== options.sessionId) {
+      continue;
+    }
+    const statement = toStatement(event);
+    if (statement) {
+      statements.push(statement);
+    }
+  }
+
+  return statements;
+}
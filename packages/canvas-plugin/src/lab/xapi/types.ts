@@ -0,0 +1,90 @@
+// xAPI Types - The subset of xAPI 1.0.3 statements the telemetry exporter emits
+
+export const XAPI_VERSION = "1.0.3";
+
+/**
+ * Language map, e.g. { "en-US": "completed" }
+ */
+export type LanguageMap = Record<string, string>;
+
+export interface XapiAgent {
+  objectType: "Agent";
+  name?: string;
+  account: {
+    homePage: string;  // System the account belongs to
+    name: string;      // Student ID
+  };
+}
+
+export interface XapiVerb {
+  id: string;
+  display: LanguageMap;
+}
+
+export interface XapiActivity {
+  objectType: "Activity";
+  id: string;
+  definition?: {
+    type?: string;
+    name?: LanguageMap;
+    description?: LanguageMap;
+    interactionType?: string;
+    correctResponsesPattern?: string[];
+  };
+}
+
+export interface XapiResult {
+  success?: boolean;
+  completion?: boolean;
+  response?: string;
+  duration?: string;  // ISO 8601 duration
+  score?: {
+    scaled?: number;  // -1.0 to 1.0
+    raw?: number;
+    min?: number;
+    max?: number;
+  };
+  extensions?: Record<string, unknown>;
+}
+
+export interface XapiContext {
+  registration?: string;  // UUID shared by all statements of one lab session
+  platform?: string;
+  contextActivities?: {
+    parent?: XapiActivity[];
+    grouping?: XapiActivity[];
+  };
+  extensions?: Record<string, unknown>;
+}
+
+export interface XapiStatement {
+  id: string;
+  actor: XapiAgent;
+  verb: XapiVerb;
+  object: XapiActivity;
+  result?: XapiResult;
+  context?: XapiContext;
+  timestamp: string;
+  stored?: string;  // Set by the LRS
+}
+
+// ============================================================================
+// EXPORT OPTIONS
+// ============================================================================
+
+export interface XapiExportOptions {
+  activityBase?: string;  // IRI prefix for lab/step activity IDs (default: https://canvas-lab.local/xapi)
+  homePage?: string;      // Account homePage for students (default: activityBase)
+  platform?: string;      // context.platform (default: canvas-lab)
+  moduleTitle?: string;   // Lab activity name
+  stepTitles?: Record<string, string>;  // Step activity names
+}
+
+/**
+ * Where to send statements
+ */
+export interface LrsConfig {
+  endpoint: string;   // xAPI base URL, e.g. https://lrs.example.com/xapi
+  auth?: string;      // "user:password" (Basic) or a full Authorization header value
+  batchSize?: number; // Statements per POST (default: 50)
+}
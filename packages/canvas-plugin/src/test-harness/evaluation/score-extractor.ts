@@ -4,6 +4,7 @@
 import type {
   TelemetryEvent,
   LabProgress,
+  RubricItem,
   HintRequestedEvent,
   SolutionViewedEvent,
 } from "../../lab/telemetry/types";
@@ -22,6 +23,9 @@ export interface ExtractScoreOptions {
   sessionId: string;
   stepIds: string[];
   stepWeights?: Record<string, number>;
+  rubrics?: Record<string, RubricItem[]>;
+  expectedSeconds?: Record<string, number>;
+  labExpectedSeconds?: number;
   presetId?: string;
 }
 
@@ -37,6 +41,9 @@ export function extractScore(options: ExtractScoreOptions): LabProgress {
     sessionId: options.sessionId,
     stepIds: options.stepIds,
     stepWeights: options.stepWeights,
+    rubrics: options.rubrics,
+    expectedSeconds: options.expectedSeconds,
+    labExpectedSeconds: options.labExpectedSeconds,
     presetId: options.presetId ?? "partial_credit",
   });
 }
@@ -3,7 +3,7 @@
 
 import type { Module } from "../../canvases/vta/types";
 import type { TelemetryEvent, LabProgress } from "../../lab/telemetry/types";
-import { loadModule } from "../../lab/module-loader";
+import { loadModule, getStepScoring } from "../../lab/module-loader";
 import type { TestDriver, DriverContext } from "../drivers/types";
 import type { Scenario } from "../scenarios/types";
 import type {
@@ -227,12 +227,17 @@ export class TestOrchestrator {
     let labProgress: LabProgress | null = null;
     try {
       const stepIds = module.steps.map((s) => s.id);
+      const scoring = getStepScoring(moduleId);
       labProgress = extractScore({
         events,
         moduleId,
         studentId,
         sessionId: env.getState().sessionId,
         stepIds,
+        stepWeights: scoring.weights,
+        rubrics: scoring.rubrics,
+        expectedSeconds: scoring.expectedSeconds,
+        labExpectedSeconds: scoring.labExpectedSeconds,
         presetId,
       });
     } catch (err) {
@@ -9,6 +9,7 @@ export const TUTOR_BASE_DIR = join(homedir(), ".claude", "tutor");
 export const PROFILES_DIR = join(TUTOR_BASE_DIR, "profiles");
 export const CONFIG_FILE = join(TUTOR_BASE_DIR, "config.json");
 export const CURRENT_PROFILE_FILE = join(TUTOR_BASE_DIR, "current");
+export const EXAM_KEYS_DIR = join(TUTOR_BASE_DIR, "exam-keys");
 
 export const DEFAULT_PROFILE_ID = "default";
 
@@ -71,3 +72,11 @@ export function getMemoryDir(profileId: string): string {
 export function getSessionsDir(profileId: string): string {
   return join(getMemoryDir(profileId), "sessions");
 }
+
+export function getTelemetryDir(profileId: string): string {
+  return join(getProfileDir(profileId), "telemetry");
+}
+
+export function getSkillsDir(profileId: string): string {
+  return join(getProfileDir(profileId), "skills");
+}
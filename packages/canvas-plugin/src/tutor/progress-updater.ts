@@ -1,10 +1,12 @@
 // Progress Updater - Background process that tracks lab progress for a profile
 // Usage: bun run src/tutor/progress-updater.ts <logs-dir> <profile-id> <module-id>
 
-import { watch, existsSync, statSync, readFileSync } from "fs";
+import { watch, existsSync, statSync, readFileSync, mkdirSync, copyFileSync } from "fs";
+import { join } from "path";
 import { v4 as uuidv4 } from "uuid";
 import type { Progress, LabAttempt, StepProgress, Mistake } from "./types";
 import { getProgress, saveProgress, touchProfile } from "./profile-manager";
+import { getTelemetryDir } from "./defaults";
 import { loadModule } from "../lab/module-loader";
 
 interface UpdaterState {
@@ -30,6 +32,7 @@ if (!logsDir || !profileId || !moduleId) {
 
 const commandsLog = `${logsDir}/commands.log`;
 const checksLog = `${logsDir}/checks.log`;
+const telemetryLog = `${logsDir}/telemetry.jsonl`;
 
 // Generate UUID for this attempt
 function generateAttemptId(): string {
@@ -148,6 +151,19 @@ function processChecks(): void {
   }
 }
 
+// Copy the session's telemetry into the profile so cohort analytics outlive /tmp
+function archiveTelemetry(): void {
+  if (!existsSync(telemetryLog)) return;
+
+  try {
+    const dir = getTelemetryDir(profileId);
+    mkdirSync(dir, { recursive: true });
+    copyFileSync(telemetryLog, join(dir, `${moduleId}-${state.attemptId}.jsonl`));
+  } catch (error) {
+    console.error(`[progress-updater] Error archiving telemetry:`, error);
+  }
+}
+
 // Update progress.json with current state
 function updateProgress(): void {
   try {
@@ -202,6 +218,7 @@ function updateProgress(): void {
     // Save progress
     saveProgress(profileId, progress);
     touchProfile(profileId);
+    archiveTelemetry();
 
     console.log(`[progress-updater] Progress saved for ${profileId}`);
   } catch (error) {
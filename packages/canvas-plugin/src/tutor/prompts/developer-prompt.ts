@@ -193,16 +193,115 @@ steps:
       description: "Brief description"
       explanation: "Why this works"
     validation:                 # How to verify completion
-      type: user-check | command-pattern | check-script
+      type: user-check | command-pattern | check-script | <declarative type>
       # For user-check:
       user: root
       # For command-pattern:
       pattern: "useradd.*devuser"
       # For check-script:
-      script: check-step-id.sh
+      script: check-step-id.sh  # or the script inline: body: |
       poll_interval: 2000       # ms between checks (default 2000)
 \`\`\`
 
+## Declarative Checks
+
+Prefer these over a hand-written check script when verifying an outcome.
+They are compiled to check scripts when the lab starts:
+
+| type | fields |
+|------|--------|
+| file-exists | path, kind (file / directory / any) |
+| file-mode | path, mode (e.g. "750") |
+| file-contains | path, text (fixed string) or pattern (regex) |
+| user-exists | user |
+| group-member | user, group |
+| command-output-matches | command, pattern, run_as (default root) |
+| process-running | process |
+| port-listening | port, protocol (tcp / udp) |
+| git-branch-exists | repo, branch |
+| git-head-message | repo, message (fixed string) or pattern (regex) |
+| git-clean | repo (untracked files count as dirty) |
+| git-file-staged | repo, file (relative to repo) |
+| git-merge-complete | repo, branch (optional: must be merged into HEAD) |
+| git-remote | repo, remote, url (optional exact match) |
+
+Git labs (\`labType: git\`) use these for repository state; setup.sh creates the
+repo. Combine them with \`all\` / \`sequence\` for multi-part steps.
+
+\`\`\`yaml
+    validation:
+      type: file-mode
+      path: /home/devuser
+      mode: "750"
+\`\`\`
+
+## Composite Validation
+
+Combine declarative checks and command rules (command-pattern, user-check)
+with \`all\`, \`any\`, \`not\` (exactly one child) and \`sequence\` (in order).
+Each top-level child ticks off the matching entry in \`content.tasks\`
+(set \`task: <index>\` on a child to override its position):
+
+\`\`\`yaml
+    validation:
+      type: sequence
+      checks:
+        - type: user-exists
+          user: devuser
+        - type: file-mode
+          path: /home/devuser
+          mode: "750"
+        - type: group-member
+          user: devuser
+          group: developers
+\`\`\`
+
+## Splunk Labs (spl-results)
+
+Set \`labType: splunk\` and \`dataset: data/<file>.jsonl\` (a JSON array or one
+event per line). Students run searches in the lab terminal with \`lab-spl "<search>"\`,
+which are evaluated on the host with search, where, stats, table, sort, head and rex.
+A step completes when a search returns the expected rows; give either literal
+\`expected\` rows or a \`reference\` search. Only the listed fields are compared:
+
+\`\`\`yaml
+    validation:
+      type: spl-results
+      expected:
+        - src_ip: 203.0.113.45
+          count: 10
+      match: exact              # or contains (expected rows are a subset)
+      ordered: false
+\`\`\`
+
+## Python Labs (pytest)
+
+Set \`labType: python\` and put the student's files in \`starter/\` (with a
+\`tests/\` directory). The starter is copied into the lab workspace and the
+module's tests run on every save; a step completes when its test passes:
+
+\`\`\`yaml
+    validation:
+      type: pytest
+      test: tests/test_main.py::test_greet
+\`\`\`
+
+## SQL Labs (sql-results)
+
+Set \`labType: sql\` and have setup.sh seed \`/var/log/lab-commands/lab.db\` with
+sqlite3. Students run \`lab-sql "<query>"\` in the lab terminal; each query is
+re-run read-only to check its rows. Column names are ignored - values are
+compared by position. Give literal \`expected\` rows or a \`reference\` query:
+
+\`\`\`yaml
+    validation:
+      type: sql-results
+      expected:
+        - [Alice, 125000]
+        - [Frank, 110000]
+      ordered: true             # default false
+\`\`\`
+
 ## Check Script Format
 
 Check scripts must:
@@ -266,7 +365,7 @@ echo "Exit code: $?"
 ### Add a New Step
 1. Add step entry to module.yaml
 2. If type is "task", add validation section
-3. If using check-script validation, create the check script in \`<moduleId>/checks/\`
+3. Use a declarative check if one fits; otherwise create a check script in \`<moduleId>/checks/\`
 4. Test: \`bun run src/cli.ts lab-test <moduleId>\`
 
 ### Add Hints
@@ -6,7 +6,8 @@ import { join } from "path";
 import { mkdirSync, writeFileSync, existsSync } from "fs";
 import { loadModule, generateTutorPrompt as generateModuleTutorPrompt } from "../../lab/module-loader";
 import { getWorkspaceDir } from "../profile-manager";
-import { getProfileDir, getMemoryDir, getSessionsDir } from "../defaults";
+import { getProfileDir, getMemoryDir, getSessionsDir, getSkillsDir } from "../defaults";
+import { loadStudentProfile, loadSkillGraph } from "../../lab/skills";
 import { generateMemoryContext, ensureMemoryDir, pruneOldSessions } from "../memory";
 import type { Progress } from "../types";
 
@@ -86,6 +87,48 @@ This is their first time using the tutor system.
   return context;
 }
 
+/**
+ * Generate skill state section from the student's persisted skill profile
+ * Skills are updated live as steps complete, so the file path is included for re-reading
+ */
+function generateSkillContext(profileName: string): string {
+  const skillsDir = getSkillsDir(profileName);
+  let profile;
+  try {
+    profile = loadStudentProfile(profileName, skillsDir);
+  } catch {
+    profile = null;
+  }
+  const states = profile ? Object.values(profile.skills) : [];
+  if (states.length === 0) {
+    return "";
+  }
+
+  const names: Record<string, string> = {};
+  try {
+    for (const skill of loadSkillGraph().skills) {
+      names[skill.id] = skill.name;
+    }
+  } catch {
+    // Unreadable catalog - fall back to skill IDs
+  }
+
+  const lines = states
+    .sort((a, b) => b.demonstrated - a.demonstrated)
+    .map(state => {
+      const confidence = Math.round(state.demonstrated * 100);
+      const declared = state.declared ? `, self-reported ${state.declared}` : "";
+      return `- ${names[state.skill_id] ?? state.skill_id}: ${state.current_level} (${confidence}% confidence, ${state.evidence_count} evidence${declared})`;
+    })
+    .join("\n");
+
+  return `### Skills
+${lines}
+
+Skill states update as steps complete: \`Read("${join(skillsDir, `${profileName}-skills.json`)}")\`
+`;
+}
+
 /**
  * Generate the full CLAUDE.md content for the tutor
  * Combines personality instructions with module-specific content
@@ -107,6 +150,7 @@ export function generateTutorCLAUDEmd(config: TutorPromptConfig): string {
 
   // Generate profile-specific context
   const profileContext = generateProfileContext(profileName, moduleId, progress);
+  const skillContext = generateSkillContext(profileName);
 
   // Generate memory context — ensure dirs exist, prune old sessions, load memory
   const profileDir = getProfileDir(profileName);
@@ -130,7 +174,7 @@ You are a friendly, encouraging tutor helping a student complete a hands-on lab.
 - Ask before giving hints when student seems stuck
 
 ${profileContext}
-
+${skillContext}
 ${memoryContext}
 
 ## Commands
@@ -149,7 +193,7 @@ An event occurred in the lab. Read the log files and respond appropriately:
 
 **Log directory:** \`${logDir}\`
 
-1. Read recent commands: \`Read("${logDir}/commands.log")\`
+1. Read recent commands: \`canvas lab-control ${moduleId} commands --log-dir ${logDir}\` (or \`Read("${logDir}/commands.log")\`)
 2. Read completed checks: \`Read("${logDir}/checks.log")\`
 3. Compare to module tasks below
 4. Respond based on what you observe:
@@ -178,9 +222,10 @@ ${stepsTable}
 
 **commands.log** (JSON lines):
 \`\`\`json
-{"timestamp":"...","user":"student","pwd":"/home/student","command":"sudo su"}
-{"timestamp":"...","user":"root","pwd":"/root","command":"useradd -m devuser"}
+{"timestamp":"...","user":"student","pwd":"/home/student","command":"sudo su","exitCode":0,"durationMs":5120,"output":"","outputTruncated":false}
+{"timestamp":"...","user":"root","pwd":"/root","command":"useradd -m devuser","exitCode":9,"durationMs":41,"output":"useradd: user 'devuser' already exists","outputTruncated":false}
 \`\`\`
+\`output\` is the tail of what the command printed (stdout and stderr); a non-zero \`exitCode\` means the command failed.
 
 **checks.log** (JSON lines):
 \`\`\`json
@@ -241,6 +286,37 @@ You can add bonus challenges during the lab session. This is great for students
 - \`correctOptions\`: The correct answer(s)
 - \`attempts\`: How many times they've answered this question
 
+**Learning gaps:** When the student shows a pattern the module flags (too many hints, repeated failures, taking too long, viewing the solution), state.json gains a \`gaps\` entry:
+\`\`\`json
+"gaps": [
+  { "template_id": "hint-heavy", "step_id": "create-user", "severity": "warning", "message": "Relying on hints for useradd", "skill_id": "user-management" }
+]
+\`\`\`
+Each gap is reported once per step. Act on new ones: check understanding with a question, or offer a simpler sub-task, rather than handing over the answer.
+
+**Regressed steps:** In labs with continuous verification (capstones graded on their final state), checks keep running after they pass. If the student undoes a passing step (e.g. deletes the user they created), the step goes back to \`"completed": false\` with \`"regressed": true\` and a \`regressionMessage\` from the check. Point out what changed; the step completes again once its check passes.
+
+### Control API
+
+Prefer \`canvas lab-control\`, which answers right away with the command's outcome instead of leaving it for you to re-read:
+
+\`\`\`bash
+canvas lab-control ${moduleId} steps --log-dir ${logDir}               # Steps and their state
+canvas lab-control ${moduleId} complete create-user --log-dir ${logDir}
+canvas lab-control ${moduleId} command skipStep '{"stepId":"create-user"}' --log-dir ${logDir}
+canvas lab-control ${moduleId} add-step - --log-dir ${logDir} < step.json  # addStep payload
+\`\`\`
+
+Other actions: \`state\`, \`commands\` (the student's recent shell commands with exit codes, durations and output), \`tutor-commands\` (your recent commands and their outcomes) and \`check <stepId>\`. The commands below work the same way through tutor-commands.json, which remains the fallback.
+
+When the student says they are done but the step has not completed, run its check now instead of waiting for the next poll:
+
+\`\`\`bash
+canvas lab-check ${logDir} create-user   # Prints the check's explanation and output; exits 1 if it failed
+\`\`\`
+
+A pass completes the step; either way the student sees the result in the vTA. The student can do the same with \`c\`. Checks you run do not count against the student's attempts.
+
 ### Adding a Bonus Step
 
 To add a new task objective, write to \`${logDir}/tutor-commands.json\`:
@@ -258,7 +334,8 @@ To add a new task objective, write to \`${logDir}/tutor-commands.json\`:
         "content": {
           "instructions": "Set permissions on /home/devuser to 700 so only the owner can access it.",
           "hints": ["Use the chmod command", "700 means rwx for owner, nothing for others"]
-        }
+        },
+        "validation": { "type": "file-mode", "path": "/home/devuser", "mode": "700" }
       }
     },
     "status": "pending"
@@ -268,6 +345,8 @@ To add a new task objective, write to \`${logDir}/tutor-commands.json\`:
 
 **Important:** Use a unique command ID (e.g., \`cmd-\${Date.now()}\`).
 
+**Validation:** Give the step a \`validation\` and the lab checks it automatically, scoring it like the module's own steps. It takes the same types as module.yaml: \`command-pattern\` (\`pattern\`), \`user-check\`, declarative checks (\`file-exists\`, \`file-mode\`, \`file-contains\`, ...), \`all\`/\`any\`/\`not\`/\`sequence\`, or \`check-script\` with the script inline in \`body\` (exit 0 when done). Optional \`weight\` sets its share of the score. If the command comes back with \`"status": "error"\`, read its \`error\` and fix the validation. Without a validation, the step only completes when you mark it complete.
+
 ### Adding a Quiz Question
 
 You can also add interactive quiz questions to check understanding:
@@ -332,6 +411,21 @@ After reading terminal.log and confirming the student completed the task:
 }
 \`\`\`
 
+### Other Commands
+
+Each command goes into the same \`commands\` list with its own unique \`id\` and \`"status": "pending"\`. Only \`payload\` differs:
+
+| \`type\` | \`payload\` | Effect |
+|---|---|---|
+| \`skipStep\` | \`{ "stepId": "create-user", "reason": "already knows useradd" }\` | Step no longer counts toward completion or score |
+| \`revealHint\` | \`{ "stepId": "create-user", "hintIndex": 1 }\` | Shows hints up to this one (0-based); counts as hints used |
+| \`goToStep\` | \`{ "stepId": "set-password" }\` | Moves the VTA to the step |
+| \`updateStep\` | \`{ "stepId": "create-user", "content": { "instructions": "..." } }\` | Replaces the step's \`instructions\`, \`tasks\` and/or \`hints\` |
+| \`moveStep\` | \`{ "stepId": "bonus-permissions", "afterStepId": "create-user" }\` | Reorders the steps |
+| \`setPreset\` | \`{ "presetId": "practice_mode" }\` | Scores the rest of the session under another preset (built-in, module or course); steps already finished keep their scores |
+
+The VTA acknowledges every command, and its entry in tutor-commands.json ends up \`"done"\` or \`"error"\` with an \`error\` explaining why (e.g. an unknown step). Change the scoring preset only with a reason the student would accept, such as switching to \`practice_mode\` after they ask for a lower-stakes run.
+
 ### Workflow
 
 1. **Propose:** "Want a bonus challenge? I can add one about [topic]."